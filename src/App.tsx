@@ -11,6 +11,9 @@ import { Passes } from './pages/Passes';
 import { Conjunctions } from './pages/Conjunctions';
 import { Notifications } from './pages/Notifications';
 import { Doppler } from './pages/Doppler';
+import { Radar } from './pages/Radar';
+import { Timeline } from './pages/Timeline';
+import { Overflights } from './pages/Overflights';
 import { useStore } from './stores/useStore';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
@@ -43,6 +46,9 @@ export default function App() {
         <Route path="/passes"       element={<Passes />} />
         <Route path="/conjunctions" element={<Conjunctions />} />
         <Route path="/doppler"      element={<Doppler />} />
+        <Route path="/radar"        element={<Radar />} />
+        <Route path="/timeline"     element={<Timeline />} />
+        <Route path="/overflights"  element={<Overflights />} />
         <Route path="/notifications" element={<PrivateRoute><Notifications /></PrivateRoute>} />
         <Route path="/login"    element={<Login />} />
         <Route path="/register" element={<Register />} />
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Download, CheckCircle2, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { describeRejection, scheduleToCsv, scheduleToJson, type ContactSchedule } from '../lib/scheduler';
+import { formatDuration } from '../lib/passes';
+import { downloadText } from '../lib/download';
+
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  red:     '#ff3344',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+  surface: 'rgba(5,12,35,.9)',
+};
+
+const mono = "'Share Tech Mono',monospace";
+
+const cell: React.CSSProperties = { padding: '4px 8px', fontFamily: mono, fontSize: 10, whiteSpace: 'nowrap' };
+const head: React.CSSProperties = { ...cell, fontSize: 8, color: C.muted, letterSpacing: 1, textAlign: 'left', fontWeight: 'normal' };
+
+/**
+ * The scheduler's output: scheduled contacts in time order, every rejected
+ * pass with the reason it was dropped, and CSV / JSON export.
+ */
+export function ContactScheduleView({ schedule }: { schedule: ContactSchedule }) {
+  const [tab, setTab] = useState<'accepted' | 'rejected'>('accepted');
+  const stamp = format(new Date(), 'yyyyMMdd-HHmm');
+
+  const tabButton = (key: typeof tab, label: string, color: string) => (
+    <button onClick={() => setTab(key)} style={{
+      padding: '5px 12px', cursor: 'pointer',
+      background: tab === key ? 'rgba(0,200,255,.1)' : 'transparent',
+      border: `1px solid ${tab === key ? color : C.border}`, color: tab === key ? color : C.muted,
+      fontFamily: mono, fontSize: 9, letterSpacing: 1,
+    }}>
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={{ marginTop: 16, background: C.surface, border: `1px solid ${C.border}`, borderLeft: `2px solid ${C.cyan}`, padding: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 10 }}>
+        <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 3, color: C.cyan, marginRight: 8 }}>CONTACT SCHEDULE</span>
+        {tabButton('accepted', `SCHEDULED (${schedule.accepted.length})`, C.green)}
+        {tabButton('rejected', `REJECTED (${schedule.rejected.length})`, C.orange)}
+        <span style={{ flex: 1 }} />
+        <span style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1 }}>
+          {formatDuration(schedule.totalContactSec)} CONTACT · WEIGHT {schedule.totalWeight.toFixed(1)} · GAP {schedule.setupGapSec}s
+        </span>
+        {([
+          ['CSV', () => downloadText(`contact-schedule-${stamp}.csv`, scheduleToCsv(schedule), 'text/csv')],
+          ['JSON', () => downloadText(`contact-schedule-${stamp}.json`, scheduleToJson(schedule), 'application/json')],
+        ] as const).map(([label, onClick]) => (
+          <button key={label} onClick={onClick} style={{
+            display: 'inline-flex', alignItems: 'center', gap: 5, padding: '5px 10px', cursor: 'pointer',
+            background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`, color: C.cyan,
+            fontFamily: mono, fontSize: 9, letterSpacing: 1,
+          }}>
+            <Download style={{ width: 10, height: 10 }} /> {label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ maxHeight: 360, overflowY: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ borderBottom: `1px solid ${C.border}` }}>
+              <th style={head} />
+              <th style={head}>SATELLITE</th>
+              <th style={head}>AOS</th>
+              <th style={head}>LOS</th>
+              <th style={head}>DUR</th>
+              <th style={head}>MAX EL</th>
+              <th style={head}>PRIO</th>
+              <th style={head}>WEIGHT</th>
+              {tab === 'rejected' && <th style={head}>REASON</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {(tab === 'accepted'
+              ? schedule.accepted.map((c) => ({ c, note: null as string | null }))
+              : schedule.rejected.map((r) => ({ c: r.candidate, note: describeRejection(r) }))
+            ).map(({ c, note }) => (
+              <tr key={`${c.noradId}-${c.aos}`} style={{ borderBottom: '1px solid rgba(0,200,255,.05)' }}>
+                <td style={cell}>
+                  {note === null
+                    ? <CheckCircle2 style={{ width: 11, height: 11, color: C.green }} />
+                    : <XCircle style={{ width: 11, height: 11, color: C.orange }} />}
+                </td>
+                <td style={{ ...cell, color: '#e2f0ff' }}>{c.name}</td>
+                <td style={{ ...cell, color: C.cyan }}>{format(new Date(c.aos), 'MMM dd HH:mm:ss')}</td>
+                <td style={{ ...cell, color: C.muted }}>{format(new Date(c.los), 'HH:mm:ss')}</td>
+                <td style={{ ...cell, color: C.muted }}>{formatDuration((c.los - c.aos) / 1000)}</td>
+                <td style={{ ...cell, color: C.muted }}>{c.pass.maxElevation.toFixed(0)}°</td>
+                <td style={{ ...cell, color: C.muted }}>P{c.priority}</td>
+                <td style={{ ...cell, color: C.muted }}>{c.weight.toFixed(1)}</td>
+                {note !== null && <td style={{ ...cell, color: C.orange, whiteSpace: 'normal' }}>{note}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {(tab === 'accepted' ? schedule.accepted : schedule.rejected).length === 0 && (
+          <div style={{ textAlign: 'center', padding: 16, fontFamily: mono, fontSize: 10, color: C.muted }}>
+            {tab === 'accepted' ? 'Nothing scheduled' : 'Every pass fits — no conflicts'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useRef, useState } from 'react';
+import { Upload, Plus, AlertTriangle, X } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import { importElementText, type ElementImportResult } from '../lib/customObjects';
+
+/**
+ * Paste or upload 2-line / 3-line element sets or CCSDS OMM (JSON, XML,
+ * KVN) for objects the backend catalog doesn't carry. Valid sets are added
+ * to the store's custom objects; rejected ones are listed with the parser's
+ * messages.
+ */
+export function CustomTleImport({ onClose }: { onClose?: () => void }) {
+  const addCustomObjects = useStore((s) => s.addCustomObjects);
+  const [text, setText] = useState('');
+  // `updated`: objects already in the store that the import replaced
+  const [report, setReport] = useState<(ElementImportResult & { updated: number }) | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const runImport = (raw: string) => {
+    const result = importElementText(raw);
+    const existing = new Set(useStore.getState().customObjects.map((o) => o.noradId));
+    setReport({ ...result, updated: result.objects.filter((o) => existing.has(o.noradId)).length });
+    if (result.objects.length) {
+      addCustomObjects(result.objects);
+      setText('');
+    }
+  };
+
+  const onFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(runImport).catch(() => setReport({ objects: [], rejected: [], unmatched: [`Could not read ${file.name}`], duplicates: [], updated: 0 }));
+  };
+
+  return (
+    <div className="glass-card p-4 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-sm">Import custom element sets</h3>
+        {onClose && (
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Paste 2-line or 3-line element sets (name line optional) or CCSDS OMM as JSON, XML or KVN. Positions, passes and Doppler
+        for these objects are computed in your browser and are not checked against the catalog.
+      </p>
+
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        rows={5}
+        spellCheck={false}
+        placeholder={'MY CUBESAT\n1 99999U 24001A   24100.50000000  .00001000  00000-0  50000-4 0  9990\n2 99999  97.5000 120.0000 0010000  90.0000 270.0000 15.10000000    18'}
+        className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-satellite-cyan mb-3"
+      />
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => runImport(text)} disabled={!text.trim()} className="btn-primary flex items-center gap-1.5 text-sm disabled:opacity-30">
+          <Plus className="w-4 h-4" /> Add
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="btn-ghost flex items-center gap-1.5 text-sm">
+          <Upload className="w-4 h-4" /> Upload file
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".txt,.tle,.3le,.json,.xml,.kvn,.omm,text/plain"
+          className="hidden"
+          onChange={e => { onFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {report && (
+        <div className="mt-3 space-y-1 text-xs">
+          {report.objects.length > report.updated && (
+            <p className="text-green-400">
+              Added {report.objects.length - report.updated} object{report.objects.length - report.updated === 1 ? '' : 's'}
+            </p>
+          )}
+          {report.updated > 0 && (
+            <p className="text-yellow-400">
+              Replaced the element set of {report.updated} existing object{report.updated === 1 ? '' : 's'} with the same catalog number and name
+            </p>
+          )}
+          {report.duplicates.length > 0 && (
+            <p className="text-yellow-400">
+              Skipped {report.duplicates.length} earlier set{report.duplicates.length === 1 ? '' : 's'} repeated later with the same
+              catalog number and name: {report.duplicates.join(', ')}
+            </p>
+          )}
+          {report.rejected.map((r, idx) => (
+            <div key={`${idx}-${r.name}`} className="text-red-400">
+              <div className="flex items-center gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5" /> {r.name} rejected
+              </div>
+              <ul className="ml-5 list-disc text-red-400/80">
+                {r.messages.map((m, n) => <li key={n}>{m}</li>)}
+              </ul>
+            </div>
+          ))}
+          {report.unmatched.length > 0 && (
+            <p className="text-yellow-400">
+              Ignored {report.unmatched.length} line{report.unmatched.length === 1 ? '' : 's'} that did not form an element set
+            </p>
+          )}
+          {!report.objects.length && !report.rejected.length && !report.unmatched.length && !report.duplicates.length && (
+            <p className="text-gray-500">No element sets found</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
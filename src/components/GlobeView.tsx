@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Globe, { type GlobeMethods } from 'react-globe.gl';
+import type { SatellitePosition } from '../types';
+import { useStore } from '../stores/useStore';
+import { useTles } from '../hooks';
+import { getSatrec } from '../lib/propagator';
+import { WGS84_A } from '../lib/frames';
+import { coverageCone, orbitPath, type GeoPoint, type OrbitFrame } from '../lib/orbitGeometry';
+import type { TileSource } from '../lib/tileSources';
+import { escapeHtml } from '../lib/html';
+import { loadNaturalEarth } from './offlineBasemap';
+
+const C = {
+  cyan:    '#00C2FF',
+  green:   '#2E8B57',
+  muted:   'rgba(0,194,255,.28)',
+  panel:   'rgba(11,15,26,.9)',
+  border:  'rgba(0,194,255,.1)',
+};
+
+const mono = "'Share Tech Mono',monospace";
+
+/* Orbits are drawn for the selected and tracked satellites, not the catalog */
+const MAX_ORBITS = 12;
+/* ECI rings turn with the earth; redraw them this often */
+const ORBIT_REFRESH_MS = 10_000;
+
+interface GlobeViewProps {
+  positions: Record<string, SatellitePosition>;
+  selectedNoradId?: string | null;
+  onSatelliteClick?: (noradId: string) => void;
+  colorOf: (noradId: string) => string;
+  /** Base map of the 2D view, reused for the globe texture */
+  tileSource: TileSource;
+  showCoverage: boolean;
+  coverageMinEl: number;
+  time?: Date;
+}
+
+interface SatDatum {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  altKm: number;
+}
+
+interface PathDatum {
+  kind: 'orbit' | 'edge' | 'ray';
+  id: string;
+  points: GeoPoint[];
+  color: string;
+}
+
+type HtmlDatum = { kind: 'sat'; sat: SatDatum; color: string } | { kind: 'observer'; lat: number; lng: number; label: string };
+
+/* globe.gl altitudes are in globe radii */
+const alt = (km: number) => Math.max(0, km) / WGS84_A;
+
+function tileTemplate({ url, subdomains }: TileSource) {
+  return (x: number, y: number, level: number) => url
+    .replace('{s}', subdomains?.[0] ?? 'a').replace('{r}', '')
+    .replace('{z}', String(level)).replace('{x}', String(x)).replace('{y}', String(y));
+}
+
+function satElement(d: HtmlDatum): HTMLElement {
+  const el = document.createElement('div');
+  el.style.pointerEvents = 'none';
+  if (d.kind === 'observer') {
+    el.innerHTML =
+      `<div style="width:8px;height:8px;border-radius:50%;background:${C.green};border:1.5px solid #fff;margin:0 auto;box-shadow:0 0 8px ${C.green};"></div>` +
+      `<div style="font-family:${mono};font-size:8px;letter-spacing:1.5px;color:rgba(120,220,160,.8);margin-top:3px;white-space:nowrap;">${escapeHtml(d.label)}</div>`;
+    return el;
+  }
+  el.innerHTML =
+    `<div style="width:12px;height:12px;border-radius:50%;background:radial-gradient(#fff 0%,${d.color} 45%,${d.color}bf 100%);box-shadow:0 0 10px ${d.color};margin:0 auto;"></div>` +
+    `<div style="margin-top:5px;white-space:nowrap;font-family:'Orbitron',monospace;font-size:9px;font-weight:600;letter-spacing:1.5px;color:${d.color};background:rgba(11,15,26,.95);padding:2px 7px;border:1px solid ${d.color}33;">${escapeHtml(d.sat.name)}</div>`;
+  return el;
+}
+
+/**
+ * 3D globe alternative to the Leaflet map: every satellite as a point at its
+ * altitude, orbit rings (ECI) or earth-fixed paths (ECEF) for the selected and
+ * tracked ones, coverage cones and the observer. Loaded lazily by WorldMap —
+ * three.js only ships in the `globe` chunk.
+ */
+export function GlobeView({
+  positions, selectedNoradId, onSatelliteClick, colorOf, tileSource, showCoverage, coverageMinEl, time,
+}: GlobeViewProps) {
+  const globeRef = useRef<GlobeMethods>();
+  const wrapRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [frame, setFrame] = useState<OrbitFrame>('ECI');
+  const [countries, setCountries] = useState<object[]>([]);
+
+  const trackedIds = useStore(s => s.trackedIds);
+  const observerLocation = useStore(s => s.observerLocation);
+
+  useEffect(() => {
+    const el = wrapRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  /* ── Satellites: one particle cloud per colour ────────────── */
+  const sats = useMemo(() => Object.entries(positions).map(([id, p]): SatDatum => ({
+    id, name: p.name || `NORAD-${id}`, lat: p.latitudeDeg, lng: p.longitudeDeg, altKm: p.altitudeKm ?? 0,
+  })), [positions]);
+
+  const clouds = useMemo(() => {
+    const byColor = new Map<string, SatDatum[]>();
+    sats.forEach((s) => {
+      if (s.id === selectedNoradId) return;
+      const color = colorOf(s.id);
+      const list = byColor.get(color);
+      if (list) list.push(s); else byColor.set(color, [s]);
+    });
+    return Array.from(byColor, ([color, list]) => ({ color, list }));
+  }, [sats, selectedNoradId, colorOf]);
+
+  /* ── Orbits and coverage cones ────────────────────────────── */
+  const orbitKey = Array.from(new Set([selectedNoradId, ...trackedIds]))
+    .filter((id): id is string => !!id && !!positions[id])
+    .slice(0, MAX_ORBITS)
+    .join(',');
+  const orbitIds = useMemo(() => (orbitKey ? orbitKey.split(',') : []), [orbitKey]);
+  const tles = useTles(orbitIds);
+  const epoch = Math.floor((time ?? new Date()).getTime() / ORBIT_REFRESH_MS) * ORBIT_REFRESH_MS;
+
+  const orbits = useMemo(() => orbitIds.flatMap((id): PathDatum[] => {
+    const entry = tles[id];
+    const satrec = entry && getSatrec(entry.tle);
+    if (!satrec) return [];
+    return [{ kind: 'orbit', id, points: orbitPath(satrec, new Date(epoch), frame), color: colorOf(id) }];
+  }), [orbitIds, tles, epoch, frame, colorOf]);
+
+  const cones = useMemo(() => {
+    if (!showCoverage) return [];
+    return orbitIds.flatMap((id): PathDatum[] => {
+      const p = positions[id];
+      const cone = p?.altitudeKm ? coverageCone(p, coverageMinEl) : null;
+      if (!cone) return [];
+      const color = colorOf(id);
+      return [
+        { kind: 'edge', id, points: cone.edge, color },
+        ...cone.rays.map((points): PathDatum => ({ kind: 'ray', id, points, color })),
+      ];
+    });
+  }, [showCoverage, orbitIds, positions, coverageMinEl, colorOf]);
+
+  const paths = useMemo(() => [...orbits, ...cones], [orbits, cones]);
+
+  const html = useMemo(() => {
+    const out: HtmlDatum[] = [];
+    if (observerLocation) {
+      out.push({ kind: 'observer', lat: observerLocation.lat, lng: observerLocation.lon, label: observerLocation.label ?? 'OBSERVER' });
+    }
+    const sel = sats.find(s => s.id === selectedNoradId);
+    if (sel) out.push({ kind: 'sat', sat: sel, color: colorOf(sel.id) });
+    return out;
+  }, [observerLocation, sats, selectedNoradId, colorOf]);
+
+  /* ── Camera ───────────────────────────────────────────────── */
+  // far enough out to see the whole orbit of the selection — GEO sits 5.6
+  // earth radii up, well outside the default view
+  const viewAltitude = (p: SatellitePosition | null) => Math.max(2.5, p?.altitudeKm ? alt(p.altitudeKm) * 2.2 : 0);
+
+  const onGlobeReady = () => {
+    const p = selectedNoradId ? positions[selectedNoradId] : null;
+    globeRef.current?.pointOfView({ ...(p && { lat: p.latitudeDeg, lng: p.longitudeDeg }), altitude: viewAltitude(p) });
+  };
+
+  useEffect(() => {
+    const p = selectedNoradId ? positions[selectedNoradId] : null;
+    if (p) globeRef.current?.pointOfView({ lat: p.latitudeDeg, lng: p.longitudeDeg, altitude: viewAltitude(p) }, 1000);
+  }, [selectedNoradId]); // follow a new selection, not every tick of it
+
+  // the offline source has no tiles; draw the bundled countries instead
+  const offline = tileSource.kind === 'offline';
+  const tileEngine = useMemo(() => (offline ? null : tileTemplate(tileSource)), [offline, tileSource]);
+
+  useEffect(() => {
+    if (!offline || countries.length) return;
+    let cancelled = false;
+    loadNaturalEarth().then((fc) => { if (!cancelled) setCountries(fc.features); });
+    return () => { cancelled = true; };
+  }, [offline, countries.length]);
+
+  return (
+    <div ref={wrapRef} style={{ position:'absolute', inset:0, background:'#0B0F1A' }}>
+      {size.width > 0 && (
+        <Globe
+          ref={globeRef}
+          width={size.width}
+          height={size.height}
+          backgroundColor="#0B0F1A"
+          onGlobeReady={onGlobeReady}
+          globeTileEngineUrl={tileEngine}
+          polygonsData={offline ? countries : []}
+          polygonCapColor={() => '#131B2B'}
+          polygonSideColor={() => 'rgba(0,0,0,0)'}
+          polygonStrokeColor={() => 'rgba(0,194,255,.25)'}
+          polygonAltitude={0.002}
+          atmosphereColor={C.cyan}
+          atmosphereAltitude={0.12}
+
+          particlesData={clouds}
+          particlesList="list"
+          particleLat="lat"
+          particleLng="lng"
+          particleAltitude={(d: object) => alt((d as SatDatum).altKm)}
+          particlesColor="color"
+          particlesSize={4}
+          particlesSizeAttenuation={false}
+          particleLabel={(d: object) => {
+            const s = d as SatDatum;
+            return `<div style="font-family:${mono};font-size:10px;color:#CBD9E8;letter-spacing:1px;">${escapeHtml(s.name)}` +
+              `<div style="font-size:9px;color:rgba(140,180,210,.65);">ALT ${s.altKm.toFixed(0)} km</div></div>`;
+          }}
+          onParticleClick={(d: object) => onSatelliteClick?.((d as SatDatum).id)}
+
+          pathsData={paths}
+          pathPoints="points"
+          pathPointLat="lat"
+          pathPointLng="lng"
+          pathPointAlt={(p: GeoPoint) => alt(p.altKm)}
+          pathColor={(d: object) => {
+            const p = d as PathDatum;
+            return p.kind === 'orbit' ? `${p.color}${p.id === selectedNoradId ? 'dd' : '77'}` : p.kind === 'edge' ? `${p.color}99` : `${p.color}33`;
+          }}
+          pathStroke={(d: object) => ((d as PathDatum).kind === 'orbit' && (d as PathDatum).id === selectedNoradId ? 0.6 : null)}
+          pathTransitionDuration={0}
+
+          htmlElementsData={html}
+          htmlLat={(d: object) => { const h = d as HtmlDatum; return h.kind === 'sat' ? h.sat.lat : h.lat; }}
+          htmlLng={(d: object) => { const h = d as HtmlDatum; return h.kind === 'sat' ? h.sat.lng : h.lng; }}
+          htmlAltitude={(d: object) => { const h = d as HtmlDatum; return h.kind === 'sat' ? alt(h.sat.altKm) : 0; }}
+          htmlElement={(d: object) => satElement(d as HtmlDatum)}
+          htmlTransitionDuration={0}
+        />
+      )}
+
+      <div style={{ position:'absolute', top:12, right:12, zIndex:460, background:C.panel, border:`1px solid ${C.border}`, padding:'8px 12px' }}>
+        <div style={{ fontFamily:mono, fontSize:8, letterSpacing:2, color:C.muted, marginBottom:5 }}>ORBIT FRAME</div>
+        <div style={{ display:'flex', gap:3, marginBottom:6 }}>
+          {([['ECI', 'Inertial — full orbit rings'], ['ECEF', 'Earth-fixed — path over the ground']] as [OrbitFrame, string][]).map(([f, desc]) => (
+            <button key={f} title={desc} onClick={() => setFrame(f)} style={{ padding:'3px 10px', cursor:'pointer', background: frame === f ? 'rgba(0,194,255,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${frame === f ? 'rgba(0,194,255,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: frame === f ? C.cyan : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+              {f}
+            </button>
+          ))}
+        </div>
+        {[
+          { c:'rgba(0,194,255,.7)',  label: frame === 'ECI' ? 'ORBIT · ONE REV' : 'EARTH-FIXED · ONE REV', dashed:false },
+          ...(showCoverage ? [{ c:'rgba(0,194,255,.45)', label:`COVERAGE ≥${coverageMinEl}° EL`, dashed:true }] : []),
+        ].map(({ c, label, dashed }) => (
+          <div key={label} style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+            <div style={{ width:18, height:0, borderTop: dashed ? `1px dashed ${c}` : `1.5px solid ${c}`, flexShrink:0 }} />
+            <span style={{ fontFamily:mono, fontSize:8, letterSpacing:1.5, color:C.muted }}>{label}</span>
+          </div>
+        ))}
+        <div style={{ fontFamily:mono, fontSize:7, letterSpacing:1, color:'rgba(0,194,255,.2)', marginTop:4 }}>DRAG · SCROLL TO ZOOM</div>
+      </div>
+    </div>
+  );
+}
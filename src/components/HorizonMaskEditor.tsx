@@ -0,0 +1,175 @@
+import { useRef, useState } from 'react';
+import { Upload, Download, Trash2, AlertTriangle } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import {
+  horizonMaskToCsv,
+  maskElevationAt,
+  parseHorizonMaskCsv,
+  setMaskSector,
+} from '../lib/horizonMask';
+import { downloadText } from '../lib/download';
+
+const C = {
+  cyan:    '#00d4ff',
+  orange:  '#ff7e35',
+  red:     '#ff3344',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+};
+
+const SIZE = 220;
+const CENTER = SIZE / 2;
+const RADIUS = 92;
+const SECTOR_DEG = 10;
+
+const RAD = Math.PI / 180;
+
+/** Plot position for a direction; the horizon is the outer ring, the zenith the centre. */
+function toXY(azDeg: number, elDeg: number): [number, number] {
+  const r = RADIUS * (1 - Math.max(0, Math.min(90, elDeg)) / 90);
+  return [CENTER + r * Math.sin(azDeg * RAD), CENTER - r * Math.cos(azDeg * RAD)];
+}
+
+function fromXY(x: number, y: number): { az: number; el: number } | null {
+  const dx = x - CENTER, dy = CENTER - y;
+  const r = Math.hypot(dx, dy);
+  if (r > RADIUS + 6) return null;
+  const az = ((Math.atan2(dx, dy) / RAD) + 360) % 360;
+  const el = Math.round(90 * (1 - Math.min(r, RADIUS) / RADIUS));
+  return { az, el };
+}
+
+const mono = "'Share Tech Mono',monospace";
+
+/**
+ * Polar editor for the observer's horizon mask. Click inside the plot to
+ * raise (or lower) a 10° azimuth sector to the elevation under the pointer;
+ * shift-click or right-click clears the sector back to the horizon. A mask
+ * surveyed elsewhere can be imported as `azimuth,elevation` CSV.
+ */
+export function HorizonMaskEditor() {
+  const { observerLocation, setHorizonMask } = useStore();
+  const mask = observerLocation?.horizonMask ?? [];
+  const [hover, setHover] = useState<{ az: number; el: number } | null>(null);
+  const [csvErrors, setCsvErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const pointerAt = (e: React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const scale = SIZE / rect.width;
+    return fromXY((e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale);
+  };
+
+  const editSector = (e: React.MouseEvent, clear: boolean) => {
+    const p = pointerAt(e);
+    if (!p) return;
+    const from = Math.floor(p.az / SECTOR_DEG) * SECTOR_DEG;
+    setHorizonMask(setMaskSector(mask, from, from + SECTOR_DEG, clear ? 0 : p.el));
+  };
+
+  const onFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        const { mask: parsed, errors } = parseHorizonMaskCsv(text);
+        setCsvErrors(errors);
+        if (!errors.length) setHorizonMask(parsed);
+      })
+      .catch(() => setCsvErrors([`Could not read ${file.name}`]));
+  };
+
+  // Obstructed area: between the horizon ring and the mask line, 1° steps
+  const outer = Array.from({ length: 361 }, (_, az) => toXY(az, 0));
+  const inner = Array.from({ length: 361 }, (_, i) => toXY(360 - i, maskElevationAt(mask, (360 - i) % 360)));
+  const fillPath = `M${[...outer, ...inner].map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join('L')}Z`;
+
+  const btn: React.CSSProperties = {
+    flex: 1, padding: '5px 0', cursor: 'pointer',
+    background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`, color: C.muted,
+    fontFamily: mono, fontSize: 9, letterSpacing: 1,
+    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 5,
+  };
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        style={{ width: '100%', maxWidth: SIZE, display: 'block', margin: '0 auto', cursor: 'crosshair' }}
+        onMouseMove={(e) => setHover(pointerAt(e))}
+        onMouseLeave={() => setHover(null)}
+        onClick={(e) => editSector(e, e.shiftKey)}
+        onContextMenu={(e) => { e.preventDefault(); editSector(e, true); }}
+      >
+        {[0, 30, 60].map((el) => (
+          <circle key={el} cx={CENTER} cy={CENTER} r={RADIUS * (1 - el / 90)}
+            fill="none" stroke={C.border} strokeDasharray={el ? '2 3' : undefined} />
+        ))}
+        {[0, 90].map((az) => {
+          const [x1, y1] = toXY(az, 0), [x2, y2] = toXY(az + 180, 0);
+          return <line key={az} x1={x1} y1={y1} x2={x2} y2={y2} stroke={C.border} />;
+        })}
+        {mask.length > 0 && (
+          <path d={fillPath} fill="rgba(255,126,53,.22)" stroke={C.orange} strokeWidth={1} fillRule="evenodd" />
+        )}
+        {hover && (() => {
+          const from = Math.floor(hover.az / SECTOR_DEG) * SECTOR_DEG;
+          const [x1, y1] = toXY(from, 0), [x2, y2] = toXY(from + SECTOR_DEG, 0);
+          return <path d={`M${CENTER},${CENTER}L${x1},${y1}L${x2},${y2}Z`} fill="rgba(0,212,255,.08)" />;
+        })()}
+        {([['N', 0], ['E', 90], ['S', 180], ['W', 270]] as const).map(([label, az]) => {
+          const r = RADIUS + 10;
+          return (
+            <text key={label} x={CENTER + r * Math.sin(az * RAD)} y={CENTER - r * Math.cos(az * RAD)}
+              fill={C.cyan} fontFamily={mono} fontSize={9} textAnchor="middle" dominantBaseline="middle">
+              {label}
+            </text>
+          );
+        })}
+        {[30, 60].map((el) => (
+          <text key={el} x={CENTER + 2} y={CENTER - RADIUS * (1 - el / 90) - 2} fill={C.muted} fontFamily={mono} fontSize={7}>
+            {el}°
+          </text>
+        ))}
+      </svg>
+
+      <div style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, textAlign: 'center', margin: '4px 0 8px', minHeight: 12 }}>
+        {hover
+          ? `AZ ${hover.az.toFixed(0)}° · SET ${hover.el}° · MASK ${maskElevationAt(mask, hover.az)}°`
+          : 'CLICK: SET SECTOR · SHIFT/RIGHT-CLICK: CLEAR'}
+      </div>
+
+      <div style={{ display: 'flex', gap: 4 }}>
+        <button onClick={() => fileRef.current?.click()} style={btn}>
+          <Upload style={{ width: 10, height: 10 }} /> IMPORT CSV
+        </button>
+        <button onClick={() => downloadText('horizon-mask.csv', horizonMaskToCsv(mask), 'text/csv')} disabled={!mask.length} style={{ ...btn, opacity: mask.length ? 1 : 0.4 }}>
+          <Download style={{ width: 10, height: 10 }} /> EXPORT
+        </button>
+        <button onClick={() => { setHorizonMask([]); setCsvErrors([]); }} disabled={!mask.length}
+          style={{ ...btn, color: 'rgba(255,68,102,.7)', opacity: mask.length ? 1 : 0.4 }}>
+          <Trash2 style={{ width: 10, height: 10 }} /> CLEAR
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          style={{ display: 'none' }}
+          onChange={e => { onFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {csvErrors.length > 0 && (
+        <div style={{ marginTop: 6, padding: '5px 8px', background: 'rgba(255,51,68,.08)', border: '1px solid rgba(255,51,68,.3)', color: C.red, fontFamily: mono, fontSize: 9 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 5, marginBottom: 2 }}>
+            <AlertTriangle style={{ width: 10, height: 10 }} /> MASK NOT IMPORTED
+          </div>
+          {csvErrors.slice(0, 5).map((m) => <div key={m}>{m}</div>)}
+          {csvErrors.length > 5 && <div>…and {csvErrors.length - 5} more</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Eye, EyeOff } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import { useMapLayout } from '../hooks';
+import { LAYOUT_PRESETS, MAP_LAYERS, presetLayout, type LayerOptionDef } from '../lib/mapLayers';
+
+const C = {
+  cyan:   '#00C2FF',
+  text:   '#CBD9E8',
+  muted:  'rgba(0,194,255,.35)',
+  faint:  'rgba(0,194,255,.28)',
+  border: 'rgba(0,194,255,.12)',
+  bg:     'rgba(11,15,26,.97)',
+};
+
+const mono = "'Share Tech Mono',monospace";
+
+interface LayerManagerPanelProps {
+  /** Choices of runtime options, keyed "layerId.optionKey" */
+  runtimeChoices?: Record<string, LayerOptionDef['choices']>;
+  onClose?: () => void;
+}
+
+/**
+ * Map layer manager: visibility, opacity and options for every overlay in
+ * MAP_LAYERS, plus density presets. Changes apply immediately and are saved
+ * with the signed-in user's layout.
+ */
+export function LayerManagerPanel({ runtimeChoices = {}, onClose }: LayerManagerPanelProps) {
+  const layout = useMapLayout();
+  const { setMapLayer, setMapLayerOption, setMapLayout } = useStore();
+
+  const chip = (active: boolean): React.CSSProperties => ({
+    padding: '2px 6px', cursor: 'pointer', borderRadius: 2,
+    background: active ? 'rgba(0,194,255,.08)' : 'transparent',
+    border: `1px solid ${active ? 'rgba(0,194,255,.45)' : C.border}`,
+    color: active ? C.cyan : C.muted, fontFamily: mono, fontSize: 8, letterSpacing: 1,
+  });
+
+  return (
+    <div style={{ width: 260, maxHeight: 420, overflowY: 'auto', background: C.bg, border: '1px solid rgba(0,194,255,.25)', padding: 8, display: 'flex', flexDirection: 'column', gap: 6, pointerEvents: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 8, letterSpacing: 2, color: C.cyan }}>LAYERS</span>
+        {onClose && (
+          <button onClick={onClose} style={{ background: 'none', border: 'none', color: C.muted, cursor: 'pointer', fontFamily: mono, fontSize: 10 }}>✕</button>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: 3 }}>
+        {LAYOUT_PRESETS.map(p => (
+          <button key={p.id} title={p.description} onClick={() => setMapLayout(presetLayout(p.patch, layout))} style={{ ...chip(false), flex: 1 }}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {MAP_LAYERS.map(({ id, label, description, options }) => {
+        const state = layout[id];
+        return (
+          <div key={id} style={{ borderTop: `1px solid ${C.border}`, paddingTop: 6, opacity: state.visible ? 1 : 0.55 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <button title={state.visible ? 'Hide' : 'Show'} onClick={() => setMapLayer(id, { visible: !state.visible })}
+                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: state.visible ? C.cyan : C.muted, display: 'flex' }}>
+                {state.visible ? <Eye style={{ width: 12, height: 12 }} /> : <EyeOff style={{ width: 12, height: 12 }} />}
+              </button>
+              <span title={description} style={{ flex: 1, fontFamily: mono, fontSize: 10, letterSpacing: 1, color: C.text }}>{label}</span>
+              <input
+                type="range" min={0} max={1} step={0.05}
+                value={state.opacity}
+                disabled={!state.visible}
+                title={`Opacity ${Math.round(state.opacity * 100)}%`}
+                onChange={e => setMapLayer(id, { opacity: Number(e.target.value) })}
+                style={{ width: 70, accentColor: C.cyan }}
+              />
+              <span style={{ width: 26, textAlign: 'right', fontFamily: mono, fontSize: 8, color: C.faint }}>{Math.round(state.opacity * 100)}%</span>
+            </div>
+            {state.visible && options.map(opt => (
+              <div key={opt.key} style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 4, marginTop: 4, paddingLeft: 18 }}>
+                <span style={{ flex: 1, fontFamily: mono, fontSize: 8, letterSpacing: 1, color: C.faint }}>{opt.label.toUpperCase()}</span>
+                {(opt.runtime ? runtimeChoices[`${id}.${opt.key}`] ?? [] : opt.choices).map(c => (
+                  <button key={String(c.value)} onClick={() => setMapLayerOption(id, opt.key, c.value)} style={chip(state.options[opt.key] === c.value)}>
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
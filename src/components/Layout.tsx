@@ -1,15 +1,15 @@
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
-import { Satellite, List, LogIn, LogOut, User, Globe, Menu, X, Bell, Radio, AlertTriangle, Activity } from 'lucide-react';
+import { Satellite, List, LogIn, LogOut, User, Globe, Menu, X, Bell, Radio, AlertTriangle, Activity, Radar, GanttChart, ScanSearch } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { useStore } from '../stores/useStore';
-import { useUtcClock, useUnreadCount } from '../hooks';
+import { useUnreadCount } from '../hooks';
+import { SimClockControl } from './SimClockControl';
 
 function injectGlobalStyles() {
   if (document.getElementById('__sattrack_global')) return;
   const el = document.createElement('style');
   el.id = '__sattrack_global';
   el.textContent = `
-    @import url('https://fonts.googleapis.com/css2?family=Share+Tech+Mono&family=Orbitron:wght@400;600;900&display=swap');
     html, body, #root { background:#030712!important; color:#e2f0ff; font-family:'Share Tech Mono',monospace; margin:0; padding:0; }
     *{box-sizing:border-box}
     ::-webkit-scrollbar{width:3px}
@@ -90,7 +90,6 @@ export function Layout() {
   const navigate = useNavigate();
   const { token, user, clearAuth } = useStore();
   const [open, setOpen] = useState(false);
-  const now = useUtcClock();
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => { injectGlobalStyles(); }, []);
@@ -113,12 +112,13 @@ export function Layout() {
     }
   }, []);
 
-  const utc = now.toISOString().replace('T', ' ').split('.')[0] + ' UTC';
-
   const navLinks = [
     { to: '/',             label: 'DASHBOARD',    icon: Globe         },
     { to: '/satellites',   label: 'SATELLITES',   icon: List          },
     { to: '/passes',       label: 'PASSES',       icon: Radio         },
+    { to: '/radar',        label: 'RADAR',        icon: Radar         },
+    { to: '/timeline',     label: 'TIMELINE',     icon: GanttChart    },
+    { to: '/overflights',  label: 'OVERFLIGHTS',  icon: ScanSearch    },
     { to: '/conjunctions', label: 'CONJUNCTIONS', icon: AlertTriangle },
     { to: '/doppler',      label: 'DOPPLER',      icon: Activity      },
   ];
@@ -148,10 +148,7 @@ export function Layout() {
             </span>
           </Link>
 
-          <div style={{ display: 'flex', alignItems: 'center', gap: 7, padding: '4px 14px', background: 'rgba(0,200,255,.04)', border: '1px solid rgba(0,200,255,.12)', flexShrink: 0 }}>
-            <span style={{ width: 5, height: 5, borderRadius: '50%', background: '#00ff88', boxShadow: '0 0 8px #00ff88', display: 'inline-block', animation: '__blink 1s infinite', flexShrink: 0 }} />
-            <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 11, letterSpacing: 1.5, color: '#00c8ff', textShadow: '0 0 10px rgba(0,200,255,.7)', whiteSpace: 'nowrap' }}>{utc}</span>
-          </div>
+          <SimClockControl />
 
           <div style={{ flex: 1 }} />
 
@@ -0,0 +1,154 @@
+import { format } from 'date-fns';
+import type { HorizonMaskPoint } from '../types';
+import type { SkySample } from '../lib/passes';
+import { maskElevationAt } from '../lib/horizonMask';
+
+interface Props {
+  samples: SkySample[];
+  /** Drawn as the obstructed part of the sky when given */
+  horizonMask?: HorizonMaskPoint[];
+  size?: number;
+}
+
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  yellow:  '#ffd060',
+  shadow:  '#8a7dff',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+};
+
+type Lighting = 'visible' | 'sunlit' | 'shadow';
+
+const LIGHTING: Record<Lighting, { color: string; label: string }> = {
+  visible: { color: C.green,  label: 'VISIBLE' },
+  sunlit:  { color: C.yellow, label: 'SUNLIT' },
+  shadow:  { color: C.shadow, label: 'ECLIPSED' },
+};
+
+/** Tick spacing giving no more than ~8 ticks over the pass. */
+const TICK_MINUTES = [1, 2, 5, 10, 15, 30];
+
+const RAD = Math.PI / 180;
+const mono = "'Share Tech Mono',monospace";
+
+const lightingOf = (s: SkySample): Lighting => (s.visible ? 'visible' : s.sunlit ? 'sunlit' : 'shadow');
+
+/**
+ * Azimuth/elevation sky plot of one pass: north up, east right (as seen
+ * looking up), horizon on the outer ring and zenith in the centre. The arc
+ * is coloured by lighting and ticked every few minutes.
+ */
+export function PassSkyPlot({ samples, horizonMask, size = 200 }: Props) {
+  const center = size / 2;
+  const radius = size / 2 - 16;
+
+  const toXY = (azDeg: number, elDeg: number): [number, number] => {
+    const r = radius * (1 - Math.max(0, Math.min(90, elDeg)) / 90);
+    return [center + r * Math.sin(azDeg * RAD), center - r * Math.cos(azDeg * RAD)];
+  };
+  const pts = (list: [number, number][]) => list.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  if (samples.length < 2) return null;
+
+  // Consecutive samples with the same lighting form one polyline; each run
+  // starts on the previous run's last point so the arc has no gaps
+  const runs: { lighting: Lighting; points: [number, number][] }[] = [];
+  samples.forEach((s, i) => {
+    const lighting = lightingOf(s);
+    const xy = toXY(s.azimuthDeg, s.elevationDeg);
+    const last = runs[runs.length - 1];
+    if (last && last.lighting === lighting) last.points.push(xy);
+    else runs.push({ lighting, points: i > 0 ? [toXY(samples[i - 1].azimuthDeg, samples[i - 1].elevationDeg), xy] : [xy] });
+  });
+
+  const t0 = samples[0].time.getTime();
+  const t1 = samples[samples.length - 1].time.getTime();
+  const tickMin = TICK_MINUTES.find((m) => (t1 - t0) / (m * 60_000) <= 8) ?? 60;
+  const tickMs = tickMin * 60_000;
+  const ticks: SkySample[] = [];
+  for (let t = Math.ceil(t0 / tickMs) * tickMs; t <= t1; t += tickMs) {
+    const nearest = samples.reduce((best, s) =>
+      (Math.abs(s.time.getTime() - t) < Math.abs(best.time.getTime() - t) ? s : best));
+    ticks.push({ ...nearest, time: new Date(t) });
+  }
+
+  const culmination = samples.reduce((best, s) => (s.elevationDeg > best.elevationDeg ? s : best));
+  const markers: [string, SkySample, string][] = [
+    ['AOS', samples[0], C.cyan],
+    ['TCA', culmination, C.yellow],
+    ['LOS', samples[samples.length - 1], C.orange],
+  ];
+  const present = Array.from(new Set(samples.map(lightingOf)));
+
+  let maskPath: string | null = null;
+  if (horizonMask?.length) {
+    const outer = Array.from({ length: 361 }, (_, az) => toXY(az, 0));
+    const inner = Array.from({ length: 361 }, (_, i) => toXY(360 - i, maskElevationAt(horizonMask, (360 - i) % 360)));
+    maskPath = `M${pts([...outer, ...inner]).replace(/ /g, 'L')}Z`;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${size} ${size}`} style={{ width: '100%', maxWidth: size, display: 'block' }}>
+        {[0, 30, 60].map((el) => (
+          <circle key={el} cx={center} cy={center} r={radius * (1 - el / 90)}
+            fill="none" stroke={C.border} strokeDasharray={el ? '2 3' : undefined} />
+        ))}
+        {[0, 45, 90, 135].map((az) => {
+          const [x1, y1] = toXY(az, 0), [x2, y2] = toXY(az + 180, 0);
+          return <line key={az} x1={x1} y1={y1} x2={x2} y2={y2} stroke={C.border} strokeDasharray={az % 90 ? '1 4' : undefined} />;
+        })}
+        {([['N', 0], ['E', 90], ['S', 180], ['W', 270]] as const).map(([label, az]) => (
+          <text key={label} x={center + (radius + 9) * Math.sin(az * RAD)} y={center - (radius + 9) * Math.cos(az * RAD)}
+            fill={C.cyan} fontFamily={mono} fontSize={9} textAnchor="middle" dominantBaseline="middle">
+            {label}
+          </text>
+        ))}
+        {[30, 60].map((el) => (
+          <text key={el} x={center + 2} y={center - radius * (1 - el / 90) - 2} fill={C.muted} fontFamily={mono} fontSize={7}>
+            {el}°
+          </text>
+        ))}
+
+        {maskPath && <path d={maskPath} fill="rgba(255,126,53,.15)" stroke="rgba(255,126,53,.5)" strokeWidth={0.8} />}
+
+        {runs.map((run, i) => (
+          <polyline key={i} points={pts(run.points)} fill="none" stroke={LIGHTING[run.lighting].color}
+            strokeWidth={run.lighting === 'shadow' ? 1.5 : 2.5} strokeLinecap="round" strokeLinejoin="round"
+            strokeDasharray={run.lighting === 'shadow' ? '3 3' : undefined} />
+        ))}
+
+        {ticks.map((s) => {
+          const [x, y] = toXY(s.azimuthDeg, s.elevationDeg);
+          return (
+            <g key={s.time.getTime()}>
+              <circle cx={x} cy={y} r={1.8} fill="#e2f0ff" />
+              <text x={x + 4} y={y - 3} fill="#e2f0ff" fontFamily={mono} fontSize={7}>{format(s.time, 'HH:mm')}</text>
+            </g>
+          );
+        })}
+
+        {markers.map(([label, s, color]) => {
+          const [x, y] = toXY(s.azimuthDeg, s.elevationDeg);
+          return (
+            <g key={label}>
+              <circle cx={x} cy={y} r={3.5} fill={color} stroke="#02040a" strokeWidth={1} />
+              <text x={x} y={y + 11} fill={color} fontFamily={mono} fontSize={7} textAnchor="middle">{label}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div style={{ display: 'flex', justifyContent: 'center', gap: 10, marginTop: 4 }}>
+        {present.map((l) => (
+          <span key={l} style={{ display: 'inline-flex', alignItems: 'center', gap: 4, fontFamily: mono, fontSize: 8, letterSpacing: 1, color: C.muted }}>
+            <span style={{ width: 10, height: 2, background: LIGHTING[l].color }} /> {LIGHTING[l].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,18 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Navigation, Gauge, Mountain, Clock, Eye, EyeOff, Radio, Star, StarOff, RefreshCw, ExternalLink, Crosshair, RotateCcw, Activity } from 'lucide-react';
-import type { SatellitePosition, SatelliteSummary } from '../types';
-import { useStore } from '../stores/useStore';
-import { format, formatDistanceToNow } from 'date-fns';
+import { Navigation, Gauge, Mountain, Clock, Eye, EyeOff, Radio, Star, StarOff, RefreshCw, ExternalLink, Crosshair, RotateCcw, Activity, Sun, SunDim, Moon, Timer } from 'lucide-react';
+import type { Illumination, SatellitePosition, SatelliteSummary } from '../types';
+import { simNow, useStore } from '../stores/useStore';
+import { useEclipse } from '../hooks';
+import { format, formatDistance } from 'date-fns';
 
 interface Props {
   satellite?: SatelliteSummary;
   position?: SatellitePosition | null;
   loading?: boolean;
   onRefresh?: () => void;
+  /** 'local' when the position was propagated in the browser from a cached TLE */
+  source?: 'local' | 'server';
 }
 
 const C = {
@@ -20,8 +23,24 @@ const C = {
   muted:   'rgba(140,180,210,.55)',
   border:  'rgba(0,200,255,.12)',
   surface: 'rgba(5,12,35,.9)',
+  shadow:  '#8a7dff',
 };
 
+const ILLUMINATION: Record<Illumination, { color: string; icon: React.ReactNode }> = {
+  SUNLIT:   { color: C.yellow, icon: <Sun    style={{ width: 12, height: 12 }} /> },
+  PENUMBRA: { color: C.orange, icon: <SunDim style={{ width: 12, height: 12 }} /> },
+  UMBRA:    { color: C.shadow, icon: <Moon   style={{ width: 12, height: 12 }} /> },
+};
+
+function countdown(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+}
+
 function Row({ icon, label, value, color = C.accent }: { icon: React.ReactNode; label: string; value: React.ReactNode; color?: string }) {
   return (
     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '6px 0', borderBottom: `1px solid rgba(0,200,255,.06)` }}>
@@ -44,10 +63,11 @@ function SectionLabel({ children, color = C.accent }: { children: string; color?
   );
 }
 
-export function SatelliteInfoPanel({ satellite, position, loading, onRefresh }: Props) {
+export function SatelliteInfoPanel({ satellite, position, loading, onRefresh, source }: Props) {
   const { addFavorite, removeFavorite, isFavorite } = useStore();
   const isFav = satellite ? isFavorite(satellite.noradId) : false;
   const toggleFav = () => satellite && (isFav ? removeFavorite(satellite.noradId) : addFavorite(satellite));
+  const eclipse = useEclipse(position?.noradId || satellite?.noradId || null);
 
   /* empty */
   if (!position && !loading) {
@@ -117,7 +137,7 @@ export function SatelliteInfoPanel({ satellite, position, loading, onRefresh }:
             <Row icon={<Mountain   style={{ width: 11, height: 11 }} />} label="Altitude"  value={`${position.altitudeKm.toFixed(1)} km`}         color={C.orange} />
             <Row icon={<Gauge      style={{ width: 11, height: 11 }} />} label="Speed"     value={`${(position.speedKmPerS ?? 0).toFixed(2)} km/s`} color={C.green} />
             <Row icon={<RotateCcw  style={{ width: 11, height: 11 }} />} label="Period"    value={position.orbitalPeriodMinutes ? `${position.orbitalPeriodMinutes.toFixed(1)} min` : '—'} />
-            <Row icon={<Activity   style={{ width: 11, height: 11 }} />} label="Updated"   value={formatDistanceToNow(new Date(position.timestamp), { addSuffix: true })} color={C.muted} />
+            <Row icon={<Activity   style={{ width: 11, height: 11 }} />} label="Updated"   value={formatDistance(new Date(position.timestamp), simNow(), { addSuffix: true })} color={C.muted} />
 
             {/* altitude visual bar */}
             <div style={{ marginTop: 12 }}>
@@ -130,6 +150,32 @@ export function SatelliteInfoPanel({ satellite, position, loading, onRefresh }:
               </div>
             </div>
 
+            {eclipse && (() => {
+              const ill = ILLUMINATION[eclipse.state];
+              return (
+                <>
+                  <SectionLabel color={ill.color}>ILLUMINATION</SectionLabel>
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, padding: '6px 10px', background: `${ill.color}0f`, border: `1px solid ${ill.color}33` }}>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: 8, color: ill.color }}>
+                      {ill.icon}
+                      <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 3, fontWeight: 700 }}>{eclipse.state}</span>
+                    </span>
+                    {eclipse.state === 'PENUMBRA' && (
+                      <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: ill.color }}>
+                        {(eclipse.sunFraction * 100).toFixed(0)}% SUN
+                      </span>
+                    )}
+                  </div>
+                  <Row
+                    icon={<Timer style={{ width: 11, height: 11 }} />}
+                    label={eclipse.next ? (eclipse.next.entering ? 'Eclipse entry' : 'Eclipse exit') : 'Next eclipse'}
+                    value={eclipse.next ? `T−${countdown(eclipse.next.time.getTime() - simNow().getTime())}` : 'NONE IN 24 H'}
+                    color={eclipse.next ? (eclipse.next.entering ? C.shadow : C.yellow) : C.muted}
+                  />
+                </>
+              );
+            })()}
+
             {position.lookAngles && (
               <>
                 <SectionLabel color={C.yellow}>LOOK ANGLES</SectionLabel>
@@ -149,6 +195,7 @@ export function SatelliteInfoPanel({ satellite, position, loading, onRefresh }:
             )}
 
             <div style={{ marginTop: 14, paddingTop: 8, borderTop: '1px solid rgba(0,200,255,.06)', fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 1, color: 'rgba(0,200,255,.2)', textAlign: 'right' }}>
+              {source === 'local' && <span style={{ color: 'rgba(0,255,136,.35)' }}>SGP4 LOCAL · </span>}
               {format(new Date(position.timestamp), 'yyyy-MM-dd HH:mm:ss')} UTC
             </div>
           </>
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pause, Play, SkipBack, SkipForward, RotateCcw } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import { useUtcClock } from '../hooks';
+import { formatOffset, formatRate, isLive, PLAYBACK_RATES } from '../lib/simClock';
+
+const C = {
+  cyan:   '#00c8ff',
+  green:  '#00ff88',
+  orange: '#ff7e35',
+  muted:  'rgba(150,190,220,.55)',
+  border: 'rgba(0,200,255,.12)',
+};
+
+const mono = "'Share Tech Mono',monospace";
+
+const STEPS_SEC = [60, 600, 3600];
+
+/** <input type="datetime-local"> works in local time; the clock is shown in UTC. */
+const toInputValue = (d: Date) => d.toISOString().slice(0, 19);
+
+/**
+ * Header clock. Shows the simulation time, flags when it isn't live, and
+ * opens a panel for pause, step, jump-to-time and playback speed.
+ */
+export function SimClockControl() {
+  const now = useUtcClock();
+  const { simClock, setSimRate, setSimPaused, stepSim, jumpSim, resetSimClock } = useStore();
+  const [open, setOpen] = useState(false);
+  const [stepSec, setStepSec] = useState(STEPS_SEC[0]);
+  const [jumpValue, setJumpValue] = useState('');
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  const live = isLive(simClock);
+  const offsetMs = now.getTime() - Date.now();
+  const utc = now.toISOString().replace('T', ' ').split('.')[0] + ' UTC';
+  const accent = live ? C.cyan : C.orange;
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (boxRef.current && !boxRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDown);
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const jump = () => {
+    const d = new Date(`${jumpValue}Z`);
+    if (!Number.isNaN(d.getTime())) jumpSim(d);
+  };
+
+  const btn = (active = false): React.CSSProperties => ({
+    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 4,
+    padding: '4px 8px', cursor: 'pointer',
+    background: active ? 'rgba(0,200,255,.1)' : 'rgba(0,200,255,.03)',
+    border: `1px solid ${active ? 'rgba(0,200,255,.45)' : C.border}`,
+    color: active ? C.cyan : C.muted, fontFamily: mono, fontSize: 10, letterSpacing: 1,
+  });
+
+  return (
+    <div ref={boxRef} style={{ position: 'relative', flexShrink: 0 }}>
+      <button onClick={() => setOpen(v => !v)} title="Simulation clock" style={{
+        display: 'flex', alignItems: 'center', gap: 7, padding: '4px 14px', cursor: 'pointer',
+        background: live ? 'rgba(0,200,255,.04)' : 'rgba(255,126,53,.06)',
+        border: `1px solid ${live ? 'rgba(0,200,255,.12)' : 'rgba(255,126,53,.35)'}`,
+      }}>
+        <span style={{ width: 5, height: 5, borderRadius: '50%', background: live ? C.green : C.orange, boxShadow: `0 0 8px ${live ? C.green : C.orange}`, display: 'inline-block', animation: simClock.paused ? 'none' : '__blink 1s infinite', flexShrink: 0 }} />
+        <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 11, letterSpacing: 1.5, color: accent, textShadow: `0 0 10px ${accent}b3`, whiteSpace: 'nowrap' }}>{utc}</span>
+        {!live && (
+          <span style={{ fontFamily: mono, fontSize: 9, letterSpacing: 1, color: C.orange, whiteSpace: 'nowrap' }}>
+            SIM {simClock.paused ? 'PAUSED' : formatRate(simClock.rate)}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div style={{
+          position: 'absolute', top: 'calc(100% + 8px)', left: 0, zIndex: 10, width: 300,
+          background: 'rgba(3,7,18,.98)', border: '1px solid rgba(0,200,255,.2)', padding: 12,
+          display: 'flex', flexDirection: 'column', gap: 10, animation: '__fadeIn .15s ease',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontFamily: mono, fontSize: 9, letterSpacing: 1.5 }}>
+            <span style={{ color: 'rgba(0,200,255,.45)' }}>SIMULATION CLOCK</span>
+            <span style={{ color: live ? C.green : C.orange }}>{live ? 'LIVE' : `${formatOffset(offsetMs)} FROM NOW`}</span>
+          </div>
+
+          <div style={{ display: 'flex', gap: 4 }}>
+            <button onClick={() => stepSim(-stepSec)} style={{ ...btn(), flex: 1 }} title="Step back">
+              <SkipBack style={{ width: 11, height: 11 }} />
+            </button>
+            <button onClick={() => setSimPaused(!simClock.paused)} style={{ ...btn(simClock.paused), flex: 1 }} title={simClock.paused ? 'Resume' : 'Pause'}>
+              {simClock.paused ? <Play style={{ width: 11, height: 11 }} /> : <Pause style={{ width: 11, height: 11 }} />}
+            </button>
+            <button onClick={() => stepSim(stepSec)} style={{ ...btn(), flex: 1 }} title="Step forward">
+              <SkipForward style={{ width: 11, height: 11 }} />
+            </button>
+            <select value={stepSec} onChange={e => setStepSec(Number(e.target.value))} title="Step size"
+              style={{ ...btn(), flex: 1, appearance: 'none', textAlign: 'center' }}>
+              {STEPS_SEC.map(s => <option key={s} value={s}>{s >= 3600 ? `${s / 3600} h` : `${s / 60} min`}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <div style={{ fontFamily: mono, fontSize: 8, letterSpacing: 1.5, color: 'rgba(0,200,255,.3)', marginBottom: 4 }}>PLAYBACK SPEED</div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 3 }}>
+              {PLAYBACK_RATES.map(r => (
+                <button key={r} onClick={() => setSimRate(r)} style={btn(simClock.rate === r)}>{formatRate(r)}</button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div style={{ fontFamily: mono, fontSize: 8, letterSpacing: 1.5, color: 'rgba(0,200,255,.3)', marginBottom: 4 }}>JUMP TO (UTC)</div>
+            <div style={{ display: 'flex', gap: 4 }}>
+              <input
+                type="datetime-local"
+                step={1}
+                value={jumpValue || toInputValue(now)}
+                onChange={e => setJumpValue(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') jump(); }}
+                style={{ flex: 1, minWidth: 0, padding: '4px 6px', background: 'rgba(0,200,255,.03)', border: `1px solid ${C.border}`, color: '#e2f0ff', fontFamily: mono, fontSize: 10, colorScheme: 'dark' }}
+              />
+              <button onClick={jump} disabled={!jumpValue} style={{ ...btn(), opacity: jumpValue ? 1 : 0.4 }}>GO</button>
+            </div>
+          </div>
+
+          <button onClick={() => { resetSimClock(); setJumpValue(''); }} disabled={live}
+            style={{ ...btn(), color: live ? C.muted : C.green, borderColor: live ? C.border : 'rgba(0,255,136,.35)', opacity: live ? 0.5 : 1 }}>
+            <RotateCcw style={{ width: 11, height: 11 }} /> BACK TO LIVE
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Upload, Trash2, Radio, AlertTriangle, ChevronRight } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import { useTransmitters } from '../hooks';
+import {
+  dopplerLink,
+  formatFrequency,
+  isTransponder,
+  parseSatnogsTransmitters,
+  transmitterPrefill,
+} from '../lib/transmitters';
+import type { Transmitter } from '../types';
+
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  red:     '#ff3344',
+  violet:  '#c77dff',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+};
+
+const mono = "'Share Tech Mono',monospace";
+
+const STATUS_COLOR: Record<Transmitter['status'], string> = {
+  active:   C.green,
+  inactive: C.orange,
+  invalid:  C.red,
+};
+
+function TransmitterRow({ t }: { t: Transmitter }) {
+  const prefill = transmitterPrefill(t);
+  const status = t.status === 'active' && !t.alive ? 'inactive' : t.status;
+  const rows: [string, string][] = [
+    ['DOWN', formatFrequency(t.downlinkLowHz, t.downlinkHighHz)],
+    ...(t.uplinkLowHz != null ? [['UP', formatFrequency(t.uplinkLowHz, t.uplinkHighHz)] as [string, string]] : []),
+    ['MODE', [t.mode, t.uplinkMode && t.uplinkMode !== t.mode ? `↑ ${t.uplinkMode}` : null].filter(Boolean).join(' ') || '—'],
+    ...(t.baud != null ? [['BAUD', t.baud.toLocaleString()] as [string, string]] : []),
+  ];
+
+  return (
+    <div style={{ padding: '8px 10px', border: `1px solid ${C.border}`, borderLeft: `2px solid ${STATUS_COLOR[status]}`, background: 'rgba(0,200,255,.02)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 5 }}>
+        <span style={{ flex: 1, fontFamily: mono, fontSize: 11, color: '#e2f0ff' }}>{t.description}</span>
+        {isTransponder(t) && (
+          <span style={{ fontFamily: mono, fontSize: 8, letterSpacing: 1, color: C.violet }}>
+            {t.invert ? 'INVERTING' : 'LINEAR'}
+          </span>
+        )}
+        {t.source === 'user' && (
+          <span style={{ fontFamily: mono, fontSize: 8, letterSpacing: 1, color: 'rgba(255,208,96,.7)' }}>IMPORTED</span>
+        )}
+        <span style={{ fontFamily: mono, fontSize: 8, letterSpacing: 1, color: STATUS_COLOR[status] }}>{status.toUpperCase()}</span>
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: '44px 1fr', gap: '2px 8px', fontFamily: mono, fontSize: 10 }}>
+        {rows.map(([k, v]) => (
+          <div key={k} style={{ display: 'contents' }}>
+            <span style={{ color: C.muted, fontSize: 9, letterSpacing: 1 }}>{k}</span>
+            <span style={{ color: k === 'DOWN' ? C.cyan : '#cbd9e8' }}>{v}</span>
+          </div>
+        ))}
+      </div>
+      {prefill && (
+        <Link to={dopplerLink(prefill)} style={{
+          marginTop: 7, display: 'inline-flex', alignItems: 'center', gap: 5, padding: '3px 10px',
+          background: 'rgba(0,200,255,.06)', border: '1px solid rgba(0,200,255,.3)', color: C.cyan,
+          fontFamily: mono, fontSize: 9, letterSpacing: 1, textDecoration: 'none',
+        }}>
+          <Radio style={{ width: 10, height: 10 }} /> DOPPLER {prefill.transponderMode ? '· UP + DOWN' : ''}
+          <ChevronRight style={{ width: 10, height: 10 }} />
+        </Link>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Transmitter catalog of one satellite, with a SatNOGS DB JSON import that
+ * fills in (or overrides) what the server knows.
+ */
+export function TransmitterList({ noradId }: { noradId: string }) {
+  const { transmitters, loading, error } = useTransmitters(noradId);
+  const { importTransmitters, removeImportedTransmitters } = useStore();
+  const [notice, setNotice] = useState<{ ok: boolean; lines: string[] } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const importedHere = transmitters.filter(t => t.source === 'user').length;
+
+  const onFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        const { transmitters: parsed, rejected } = parseSatnogsTransmitters(text);
+        if (parsed.length) importTransmitters(parsed);
+        const here = parsed.filter(t => t.noradId === noradId).length;
+        setNotice({
+          ok: parsed.length > 0,
+          lines: [
+            parsed.length
+              ? `${parsed.length} transmitter${parsed.length === 1 ? '' : 's'} imported · ${here} for this satellite`
+              : 'Nothing imported',
+            ...rejected.slice(0, 4),
+            ...(rejected.length > 4 ? [`…and ${rejected.length - 4} more`] : []),
+          ],
+        });
+      })
+      .catch(() => setNotice({ ok: false, lines: [`Could not read ${file.name}`] }));
+  };
+
+  const btn: React.CSSProperties = {
+    flex: 1, padding: '5px 0', cursor: 'pointer',
+    background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`, color: C.muted,
+    fontFamily: mono, fontSize: 9, letterSpacing: 1,
+    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 5,
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ display: 'flex', gap: 4 }}>
+        <button onClick={() => fileRef.current?.click()} style={btn} title="JSON from db.satnogs.org/api/transmitters/">
+          <Upload style={{ width: 10, height: 10 }} /> IMPORT SATNOGS JSON
+        </button>
+        <button onClick={() => { removeImportedTransmitters(noradId); setNotice(null); }} disabled={!importedHere}
+          style={{ ...btn, flex: 'none', padding: '5px 10px', color: 'rgba(255,68,102,.7)', opacity: importedHere ? 1 : 0.4 }}
+          title="Remove imported transmitters of this satellite">
+          <Trash2 style={{ width: 10, height: 10 }} />
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={e => { onFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {notice && (
+        <div style={{
+          padding: '5px 8px', fontFamily: mono, fontSize: 9,
+          background: notice.ok ? 'rgba(57,255,20,.05)' : 'rgba(255,51,68,.08)',
+          border: `1px solid ${notice.ok ? 'rgba(57,255,20,.25)' : 'rgba(255,51,68,.3)'}`,
+          color: notice.ok ? C.green : C.red,
+        }}>
+          {notice.lines.map((m, i) => (
+            <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 5 }}>
+              {i === 0 && !notice.ok && <AlertTriangle style={{ width: 10, height: 10 }} />}{m}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && <div style={{ fontFamily: mono, fontSize: 10, color: C.muted }}>Loading transmitters…</div>}
+      {error && !transmitters.length && (
+        <div style={{ fontFamily: mono, fontSize: 10, color: C.orange }}>{error} — import a SatNOGS JSON file instead</div>
+      )}
+      {!loading && !error && !transmitters.length && (
+        <div style={{ fontFamily: mono, fontSize: 10, color: C.muted }}>No transmitters known for this satellite</div>
+      )}
+
+      {transmitters.map(t => <TransmitterRow key={t.uuid} t={t} />)}
+    </div>
+  );
+}
@@ -1,14 +1,37 @@
-import { useEffect, useRef, useState } from 'react';
-import L, { type Map as LeafletMap, type Marker, type Polyline, type Circle } from 'leaflet';
+import { lazy, Suspense, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import L, { type Map as LeafletMap, type Marker, type Polyline } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 import type { SatellitePosition, TrackPoint } from '../types';
 import { useStore } from '../stores/useStore';
-
-/* ─── fix vite icon paths ──────────────────────────────────── */
+import { isCustomId } from '../lib/customObjects';
+import { nightRegion, subsolarPoint, TWILIGHT_LIMITS, type TwilightBand } from '../lib/terminator';
+import { footprintCovers, footprintRings } from '../lib/footprint';
+import { exportTrack, splitAtAntimeridian, TRACK_EXPORT_FORMATS, type TrackExportFormat } from '../lib/trackExport';
+import { downloadText } from '../lib/download';
+import { createSatelliteCanvasLayer, type SatelliteCanvasLayer } from './satelliteCanvasLayer';
+import { createOfflineBasemap } from './offlineBasemap';
+import { LayerManagerPanel } from './LayerManagerPanel';
+import { loadGeocoderUrl, useCategories, useMapLayout, useTileSources } from '../hooks';
+import { MAP_LAYERS, type LayerId } from '../lib/mapLayers';
+import { pickTileSource } from '../lib/tileSources';
+import { describeAoi, groundDistanceKm, unwrapRing, type LatLon } from '../lib/aoi';
+import { wrapLongitude } from '../lib/frames';
+import { reverseGeocode } from '../lib/geocoder';
+import { escapeHtml } from '../lib/html';
+
+// three.js is heavy; only fetch it once someone opens the globe
+const GlobeView = lazy(() => import('./GlobeView').then(m => ({ default: m.GlobeView })));
+
+/* ─── fix vite icon paths (bundled, so they load without internet) ── */
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-  iconUrl:       'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  shadowUrl:     'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+  iconRetinaUrl: markerIcon2x,
+  iconUrl:       markerIcon,
+  shadowUrl:     markerShadow,
 });
 
 interface WorldMapProps {
@@ -16,9 +39,13 @@ interface WorldMapProps {
   trackPoints?: TrackPoint[];
   selectedNoradId?: string | null;
   onSatelliteClick?: (noradId: string) => void;
+  /** Time the day/night overlay and globe orbits are drawn for; defaults to the wall clock */
+  time?: Date;
 }
 
-type ViewMode = 'normal' | 'satellite' | 'terrain';
+/* A tile source id (lib/tileSources.ts), or the 3D globe */
+type ViewMode = string;
+const GLOBE = 'globe';
 
 /* ─── color palette — uniform steel-blue/cyan tones ─────────── */
 const COLORS = ['#00C2FF','#0094C6','#4DA8CC','#6EC6E6','#2A7FAA','#1A6A99','#3AACCC','#5BBAD5','#0080AA','#80D4F0'];
@@ -29,27 +56,64 @@ function getSatColor(id: string) {
   return colorMap[id];
 }
 
-/* ─── tile configs ──────────────────────────────────────────── */
-const TILES: Record<ViewMode, { url: string; attr: string; maxZoom: number }> = {
-  normal: {
-    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth_dark/{z}/{x}/{y}{r}.png',
-    attr: '© <a href="https://stadiamaps.com">Stadia Maps</a> © <a href="https://openstreetmap.org">OSM</a>',
-    maxZoom: 20,
-  },
-  satellite: {
-    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-    attr: '© <a href="https://www.esri.com">Esri</a>, Maxar, GeoEye, Earthstar Geographics',
-    maxZoom: 19,
-  },
-  terrain: {
-    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
-    attr: '© <a href="https://www.esri.com">Esri</a>, HERE, Garmin',
-    maxZoom: 19,
-  },
+/* Above this many objects, all but the selected one are drawn on a canvas */
+const CANVAS_MARKER_THRESHOLD = 300;
+
+function satTooltip(id: string, pos: SatellitePosition, color: string): string {
+  const name = escapeHtml(pos.name || `NORAD-${id}`);
+  const alt  = pos.altitudeKm ? `${pos.altitudeKm.toFixed(0)} km` : '';
+  const vel  = pos.speedKmPerS ? `${pos.speedKmPerS.toFixed(2)} km/s` : '';
+  return `<div style="font-family:'Orbitron',monospace;font-size:10px;color:${color};letter-spacing:2px;margin-bottom:4px;">${name}</div>` +
+    (isCustomId(id) ? `<div style="font-size:8px;color:#ffd060;letter-spacing:2px;margin-bottom:2px;">◆ USER-SUPPLIED TLE</div>` : '') +
+    (alt ? `<div style="font-size:9px;color:rgba(140,180,210,.65);letter-spacing:1px;">ALT ${alt}${vel?' · '+vel:''}</div>` : '');
+}
+
+/* ─── day/night overlay ─────────────────────────────────────── */
+// Each band darkens everything beyond it, so deeper twilight stacks darker
+const TWILIGHT_BANDS: TwilightBand[] = ['sunset', 'civil', 'nautical', 'astronomical'];
+const NIGHT_FILL = '#000814';
+const NIGHT_FILL_OPACITY = 0.17;
+const TERMINATOR_REFRESH_MS = 60_000;
+
+/* ─── coverage footprints ──────────────────────────────────── */
+const FOOTPRINT_MIN_ELEVATIONS = MAP_LAYERS.find(l => l.id === 'footprints')!.options
+  .find(o => o.key === 'minElevation')!.choices.map(c => c.value as number);
+
+/* ─── layer panes (lib/mapLayers.ts) ───────────────────────── */
+// Opacity and visibility of a layer are applied to its panes as a whole
+const LAYER_PANES: Partial<Record<LayerId, string[]>> = {
+  graticule:    ['graticule'],
+  night:        ['terminator'],
+  footprints:   ['footprints'],
+  tracks:       ['tracks'],
+  observer:     ['observer'],
+  aoi:          ['aoi'],
+  markers:      ['satelliteCanvas', 'satellites'],
+  labels:       ['satelliteLabels'],
+  userLocation: ['userLocation'],
+};
+
+/* ─── area of interest (overflight finder) ─────────────────── */
+const AOI_COLOR = '#ff7e35';
+type AoiDrawMode = 'polygon' | 'circle';
+/* a click this close to the first vertex closes the polygon, px */
+const AOI_SNAP_PX = 10;
+
+/* Labelling every object of a large catalog is unreadable; above this only the selected one is */
+const MAX_LABELS = 150;
+
+/* ─── view buttons: look of the built-in tile sources ──────── */
+const VIEW_STYLES: Record<string, { icon: string; color: string }> = {
+  normal:    { icon: '◈', color: '#00C2FF' },
+  satellite: { icon: '⊛', color: '#4DA8CC' },
+  terrain:   { icon: '⬡', color: '#B87333' },
+  offline:   { icon: '▦', color: '#8FA2C7' },
+  [GLOBE]:   { icon: '◍', color: '#6EC6E6' },
 };
+const VIEW_STYLE_FALLBACK = { icon: '▣', color: '#00C2FF' };
 
 /* ─── satellite SVG icon ────────────────────────────────────── */
-function makeSatIcon(color: string, selected: boolean, name: string): L.DivIcon {
+function makeSatIcon(color: string, selected: boolean): L.DivIcon {
   const S = selected ? 18 : 10;
   const W = selected ? 44 : 26;
   const H = W;
@@ -71,14 +135,6 @@ function makeSatIcon(color: string, selected: boolean, name: string): L.DivIcon
     <line x1="2" y1="${cy}" x2="${cx-S/2-2}" y2="${cy}" stroke="${color}" stroke-width="0.7" opacity="0.5"/>
     <line x1="${cx+S/2+2}" y1="${cy}" x2="${W-2}" y2="${cy}" stroke="${color}" stroke-width="0.7" opacity="0.5"/>` : '';
 
-  const label = selected ? `
-    <div style="position:absolute;top:${H+5}px;left:50%;transform:translateX(-50%);
-      white-space:nowrap;pointer-events:none;
-      font-family:'Orbitron',monospace;font-size:9px;font-weight:600;
-      letter-spacing:1.5px;color:${color};
-      background:rgba(11,15,26,.95);padding:2px 7px;
-      border:1px solid ${color}33;">${name}</div>` : '';
-
   return L.divIcon({
     html: `<div style="position:relative;width:${W}px;height:${H}px;">
       <svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" overflow="visible">
@@ -105,13 +161,29 @@ function makeSatIcon(color: string, selected: boolean, name: string): L.DivIcon
         ${!selected ? `<circle cx="${cx}" cy="${cy}" r="2.5" fill="#fff" opacity="0.5">
           <animate attributeName="opacity" values="0.5;0.15;0.5" dur="3s" repeatCount="indefinite"/>
         </circle>` : ''}
-      </svg>${label}</div>`,
+      </svg></div>`,
     className: '__sat_icon_host',
     iconSize:   [W, H],
     iconAnchor: [cx, cy],
   });
 }
 
+/* ─── satellite name label, hung just below the marker ──────── */
+function makeLabelIcon(color: string, selected: boolean, name: string): L.DivIcon {
+  const top = selected ? 27 : 16;
+  return L.divIcon({
+    html: `<div style="position:absolute;top:${top}px;left:0;transform:translateX(-50%);
+      white-space:nowrap;pointer-events:none;
+      font-family:'Orbitron',monospace;font-size:${selected ? 9 : 8}px;font-weight:600;
+      letter-spacing:1.5px;color:${color};opacity:${selected ? 1 : 0.75};
+      background:rgba(11,15,26,.95);padding:2px 7px;
+      border:1px solid ${color}33;">${escapeHtml(name)}</div>`,
+    className: '__sat_icon_host',
+    iconSize:   [0, 0],
+    iconAnchor: [0, 0],
+  });
+}
+
 /* ─── observer icon (radar) ─────────────────────────────────── */
 function makeObserverIcon(): L.DivIcon {
   return L.divIcon({
@@ -164,9 +236,6 @@ function injectMapStyles() {
   const s = document.createElement('style');
   s.id = '__wm_styles';
   s.textContent = `
-    @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@600&family=Share+Tech+Mono&display=swap');
-    @import url('https://unpkg.com/leaflet@1.9.4/dist/leaflet.css');
-
     .__sat_icon_host { background:none!important;border:none!important; }
     .leaflet-container { background:#0B0F1A!important;font-family:'Share Tech Mono',monospace!important; }
     .leaflet-tile-pane,.leaflet-tile { background:#0B0F1A; }
@@ -245,29 +314,79 @@ function injectMapStyles() {
 /* ══════════════════════════════════════════════════════════════
    COMPONENT
 ══════════════════════════════════════════════════════════════ */
-export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteClick }: WorldMapProps) {
+export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteClick, time }: WorldMapProps) {
   const mapRef             = useRef<LeafletMap | null>(null);
   const containerRef       = useRef<HTMLDivElement>(null);
   const markersRef         = useRef<Record<string, Marker>>({});
   const trackRef           = useRef<(Polyline | L.CircleMarker | Marker)[]>([]);
   const observerMarkerRef  = useRef<Marker | null>(null);
-  const horizonRef         = useRef<Circle | null>(null);
-  const tileLayerRef       = useRef<L.TileLayer | null>(null);
+  const horizonRef         = useRef<L.LayerGroup | null>(null);
+  const tileLayerRef       = useRef<L.GridLayer | null>(null);
   const userDotRef         = useRef<Marker | null>(null);
   const userAccRef         = useRef<Marker | null>(null);
   const geocodeTimerRef    = useRef<ReturnType<typeof setTimeout> | null>(null);
   const watchIdRef         = useRef<number | null>(null);
+  const terminatorRef      = useRef<L.LayerGroup | null>(null);
+  const footprintsRef      = useRef<Record<string, L.Polygon>>({});
+  const labelsRef          = useRef<Record<string, Marker>>({});
+  const canvasLayerRef     = useRef<SatelliteCanvasLayer | null>(null);
+  const hoverTipRef        = useRef<L.Tooltip | null>(null);
+  const aoiRef             = useRef<L.Layer | null>(null);
+  const positionsRef       = useRef(positions);
+  const onClickRef         = useRef(onSatelliteClick);
+  positionsRef.current = positions;
+  onClickRef.current = onSatelliteClick;
 
   const observerLocation = useStore(s => s.observerLocation);
+  const aoi = useStore(s => s.aoi);
+  const { setMapLayer, setMapLayerOption, setAoi } = useStore();
+  const layout = useMapLayout();
+  const { sources: tileSources, loaded: tileSourcesLoaded } = useTileSources();
+  const { categories } = useCategories();
 
   const [count,         setCount]         = useState(0);
-  const [viewMode,      setViewMode]      = useState<ViewMode>('normal');
+  const [isGlobe,       setIsGlobe]       = useState(false);
   const [isTransition,  setIsTransition]  = useState(false);
   const [locationLabel, setLocationLabel] = useState('');
   const [zoomLevel,     setZoomLevel]     = useState(2);
   const [userPos,       setUserPos]       = useState<{ lat: number; lon: number; acc: number } | null>(null);
   const [userLocLabel,  setUserLocLabel]  = useState('');
   const [locStatus,     setLocStatus]     = useState<'idle'|'locating'|'found'|'error'>('idle');
+  const [wallClock,     setWallClock]     = useState(() => new Date());
+  const [exportOpen,    setExportOpen]    = useState(false);
+  const [layersOpen,    setLayersOpen]    = useState(false);
+  const [aoiOpen,       setAoiOpen]       = useState(false);
+  const [drawMode,      setDrawMode]      = useState<AoiDrawMode | null>(null);
+
+  // the base map style is a layer option; the globe is a view of its own
+  const tileSource     = pickTileSource(tileSources, layout.basemap.options.style);
+  const viewMode: ViewMode = isGlobe ? GLOBE : tileSource.id;
+  const setViewMode    = (mode: ViewMode) => {
+    setIsGlobe(mode === GLOBE);
+    if (mode !== GLOBE) setMapLayerOption('basemap', 'style', mode);
+  };
+  const showNight      = layout.night.visible;
+  const showSubsolar   = layout.night.options.subsolar as boolean;
+  const showFootprints = layout.footprints.visible;
+  const footprintMinEl = layout.footprints.options.minElevation as number;
+  const showTrack      = layout.tracks.visible;
+  const trackArrows    = layout.tracks.options.arrows as boolean;
+  const trackShadow    = layout.tracks.options.shadow as boolean;
+  const showRings      = layout.observer.options.rings as boolean;
+  const showUserLoc    = layout.userLocation.visible;
+  const showAccuracy   = layout.userLocation.options.accuracy as boolean;
+  const basemap        = layout.basemap;
+
+  // objects drawn as markers (and so eligible for a label)
+  const markerIds = !layout.markers.visible ? []
+    : layout.markers.options.scope === 'selected' ? (selectedNoradId && positions[selectedNoradId] ? [selectedNoradId] : [])
+    : Object.keys(positions);
+  const labelIds = !layout.labels.visible ? []
+    : layout.labels.options.scope === 'all' && markerIds.length <= MAX_LABELS ? markerIds
+    : markerIds.filter(id => id === selectedNoradId);
+  // a polygon per object is far too much for a catalog; then only the selected one
+  const footprintIds = Object.keys(positions).length <= CANVAS_MARKER_THRESHOLD ? Object.keys(positions)
+    : selectedNoradId && positions[selectedNoradId] ? [selectedNoradId] : [];
 
   useEffect(() => { injectMapStyles(); }, []);
 
@@ -284,45 +403,115 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
 
     L.control.zoom({ position: 'bottomright' }).addTo(map);
 
-    const cfg = TILES.normal;
-    const layer = L.tileLayer(cfg.url, { attribution: cfg.attr, maxZoom: cfg.maxZoom });
-    layer.addTo(map);
-    tileLayerRef.current = layer;
-
     map.on('zoom', () => setZoomLevel(map.getZoom()));
 
+    /* night shading sits above the tiles but under tracks and markers */
+    const nightPane = map.createPane('terminator');
+    nightPane.style.zIndex = '350';
+    nightPane.style.pointerEvents = 'none';
+    terminatorRef.current = L.layerGroup().addTo(map);
+
+    const footprintPane = map.createPane('footprints');
+    footprintPane.style.zIndex = '360';
+    footprintPane.style.pointerEvents = 'none';
+
+    /* one pane per managed layer, so the layer manager can fade it as a whole */
+    const gridPane = map.createPane('graticule');
+    gridPane.style.zIndex = '390';
+    gridPane.style.pointerEvents = 'none';
+    map.createPane('aoi').style.zIndex = '395';
+    map.createPane('tracks').style.zIndex = '410';
+    map.createPane('observer').style.zIndex = '595';
+    map.createPane('satellites').style.zIndex = '600';
+    const labelPane = map.createPane('satelliteLabels');
+    labelPane.style.zIndex = '610';
+    labelPane.style.pointerEvents = 'none';
+    map.createPane('userLocation').style.zIndex = '620';
+
     /* graticule */
-    const gr = { color: 'rgba(0,194,255,.05)', weight: 0.5, interactive: false as const };
+    const gr = { color: 'rgba(0,194,255,.05)', weight: 0.5, pane: 'graticule', interactive: false as const };
     for (let lt = -60; lt <= 60; lt += 30) L.polyline([[lt,-180],[lt,180]], gr).addTo(map);
     for (let ln = -150; ln <= 150; ln += 30) L.polyline([[-90,ln],[90,ln]], gr).addTo(map);
-    L.polyline([[0,-180],[0,180]], { color:'rgba(0,194,255,.18)', weight:1, dashArray:'6 12', interactive:false }).addTo(map);
-    L.polyline([[-90,0],[90,0]], { color:'rgba(0,194,255,.12)', weight:1, dashArray:'6 12', interactive:false }).addTo(map);
-    [23.5,-23.5].forEach(lt => L.polyline([[lt,-180],[lt,180]], { color:'rgba(184,115,51,.08)', weight:0.6, dashArray:'3 8', interactive:false }).addTo(map));
-    [66.5,-66.5].forEach(lt => L.polyline([[lt,-180],[lt,180]], { color:'rgba(0,150,200,.06)', weight:0.5, dashArray:'2 6', interactive:false }).addTo(map));
+    L.polyline([[0,-180],[0,180]], { color:'rgba(0,194,255,.18)', weight:1, dashArray:'6 12', pane:'graticule', interactive:false }).addTo(map);
+    L.polyline([[-90,0],[90,0]], { color:'rgba(0,194,255,.12)', weight:1, dashArray:'6 12', pane:'graticule', interactive:false }).addTo(map);
+    [23.5,-23.5].forEach(lt => L.polyline([[lt,-180],[lt,180]], { color:'rgba(184,115,51,.08)', weight:0.6, dashArray:'3 8', pane:'graticule', interactive:false }).addTo(map));
+    [66.5,-66.5].forEach(lt => L.polyline([[lt,-180],[lt,180]], { color:'rgba(0,150,200,.06)', weight:0.5, dashArray:'2 6', pane:'graticule', interactive:false }).addTo(map));
+
+    /* canvas markers: one shared tooltip follows the hovered object */
+    const hoverTip = L.tooltip({ direction: 'top', offset: [0, -8] });
+    hoverTipRef.current = hoverTip;
+    canvasLayerRef.current = createSatelliteCanvasLayer(map, {
+      onHover: (m, at) => {
+        const pos = m && positionsRef.current[m.id];
+        if (!pos || !at) { hoverTip.remove(); return; }
+        hoverTip.setLatLng(at).setContent(satTooltip(m.id, pos, m.color));
+        if (!map.hasLayer(hoverTip)) hoverTip.addTo(map);
+      },
+      onClick: (m) => onClickRef.current?.(m.id),
+    });
 
     mapRef.current = map;
     return () => {
+      canvasLayerRef.current?.remove();
+      canvasLayerRef.current = null;
+      hoverTipRef.current = null;
       if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
       map.remove();
       mapRef.current = null;
       markersRef.current = {};
+      labelsRef.current = {};
       tileLayerRef.current = null;
+      terminatorRef.current = null;
+      footprintsRef.current = {};
     };
   }, []);
 
   /* ── 2. Swap tile layer on view change ───────────────────── */
+  useEffect(() => {
+    setIsTransition(true);
+    const t = setTimeout(() => setIsTransition(false), 450);
+    return () => clearTimeout(t);
+  }, [viewMode]);
+
   useEffect(() => {
     const map = mapRef.current;
     if (!map) return;
-    setIsTransition(true);
-    setTimeout(() => setIsTransition(false), 450);
     if (tileLayerRef.current) { map.removeLayer(tileLayerRef.current); tileLayerRef.current = null; }
-    const cfg = TILES[viewMode];
-    const layer = L.tileLayer(cfg.url, { attribution: cfg.attr, maxZoom: cfg.maxZoom });
+    // wait for the deployment's config before asking any tile server
+    if (!tileSourcesLoaded) return;
+    // the map can't zoom beyond what its base map serves
+    map.setMinZoom(Math.max(1, tileSource.minZoom));
+    map.setMaxZoom(tileSource.maxZoom);
+    if (!basemap.visible) return;
+    const layer = tileSource.kind === 'offline'
+      ? createOfflineBasemap(tileSource, basemap.opacity)
+      : L.tileLayer(tileSource.url, {
+          attribution: tileSource.attribution,
+          minZoom: tileSource.minZoom,
+          maxZoom: tileSource.maxZoom,
+          ...(tileSource.subdomains && { subdomains: tileSource.subdomains }),
+          opacity: basemap.opacity,
+        });
     layer.addTo(map);
     layer.bringToBack();
     tileLayerRef.current = layer;
-  }, [viewMode]);
+  }, [tileSource, tileSourcesLoaded, basemap.visible]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => { tileLayerRef.current?.setOpacity(basemap.opacity); }, [basemap.opacity]);
+
+  /* ── 2b. Overlay opacity and visibility, per pane ────────── */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    (Object.keys(LAYER_PANES) as LayerId[]).forEach(id => {
+      LAYER_PANES[id]!.forEach(name => {
+        const pane = map.getPane(name);
+        if (!pane) return;
+        pane.style.opacity = String(layout[id].opacity);
+        pane.style.display = layout[id].visible ? '' : 'none';
+      });
+    });
+  }, [layout]);
 
   /* ── 3. Browser GPS (high-accuracy watch) ────────────────── */
   useEffect(() => {
@@ -337,13 +526,9 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
         const { latitude: lat, longitude: lon, accuracy: acc } = pos.coords;
         setUserPos({ lat, lon, acc });
         setLocStatus('found');
-        fetch(
-          `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&zoom=10&addressdetails=1`,
-          { headers: { 'Accept-Language': 'en' } }
-        )
-          .then(r => r.json())
-          .then(data => {
-            const a = data?.address;
+        loadGeocoderUrl()
+          .then(url => (url ? reverseGeocode(url, lat, lon, 10) : null))
+          .then(a => {
             if (a) {
               const parts = [
                 a.suburb || a.neighbourhood || a.city_district || a.borough,
@@ -378,29 +563,36 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
     const map = mapRef.current;
     if (!map || !userPos) return;
 
+    if (!showAccuracy) {
+      userAccRef.current?.remove();
+      userAccRef.current = null;
+    } else if (userAccRef.current) {
+      userAccRef.current.setLatLng([userPos.lat, userPos.lon]);
+    } else {
+      userAccRef.current = L.marker([userPos.lat, userPos.lon], {
+        icon: L.divIcon({
+          html: `<div style="width:50px;height:50px;border-radius:50%;background:rgba(66,133,244,0.08);border:1px solid rgba(66,133,244,0.25);"></div>`,
+          className: '',
+          iconSize: [50, 50],
+          iconAnchor: [25, 25],
+        }),
+        pane: 'userLocation',
+        zIndexOffset: 900,
+        interactive: false,
+      }).addTo(map);
+    }
+
     if (userDotRef.current) {
       userDotRef.current
         .setLatLng([userPos.lat, userPos.lon])
         .setTooltipContent(
           `<div style="font-family:'Orbitron',monospace;font-size:10px;color:#4285f4;letter-spacing:2px;margin-bottom:3px;">YOUR LOCATION</div>
-           <div style="font-size:9px;color:rgba(140,180,210,.8);letter-spacing:1px;">${userLocLabel}</div>
+           <div style="font-size:9px;color:rgba(140,180,210,.8);letter-spacing:1px;">${escapeHtml(userLocLabel)}</div>
            <div style="font-size:8px;color:rgba(100,140,180,.45);margin-top:2px;">±${Math.round(userPos.acc)}m accuracy</div>`
         );
-      userAccRef.current?.setLatLng([userPos.lat, userPos.lon]);
       return;
     }
 
-    userAccRef.current = L.marker([userPos.lat, userPos.lon], {
-      icon: L.divIcon({
-        html: `<div style="width:50px;height:50px;border-radius:50%;background:rgba(66,133,244,0.08);border:1px solid rgba(66,133,244,0.25);"></div>`,
-        className: '',
-        iconSize: [50, 50],
-        iconAnchor: [25, 25],
-      }),
-      zIndexOffset: 900,
-      interactive: false,
-    }).addTo(map);
-
     userDotRef.current = L.marker([userPos.lat, userPos.lon], {
       icon: L.divIcon({
         html: `<div style="position:relative;width:22px;height:22px;">
@@ -412,32 +604,47 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
         iconSize:   [22, 22],
         iconAnchor: [11, 11],
       }),
+      pane: 'userLocation',
       zIndexOffset: 1500,
     })
       .bindTooltip(
         `<div style="font-family:'Orbitron',monospace;font-size:10px;color:#4285f4;letter-spacing:2px;margin-bottom:3px;">YOUR LOCATION</div>
-         <div style="font-size:9px;color:rgba(140,180,210,.8);letter-spacing:1px;">${userLocLabel}</div>
+         <div style="font-size:9px;color:rgba(140,180,210,.8);letter-spacing:1px;">${escapeHtml(userLocLabel)}</div>
          <div style="font-size:8px;color:rgba(100,140,180,.45);margin-top:2px;">±${Math.round(userPos.acc)}m accuracy</div>`,
         { direction: 'top', offset: [0, -14] }
       )
       .addTo(map);
-  }, [userPos, userLocLabel]);
+  }, [userPos, userLocLabel, showAccuracy]);
 
   /* ── 5. Satellite markers ────────────────────────────────── */
   useEffect(() => {
     const map = mapRef.current;
     if (!map) return;
     setCount(Object.keys(positions).length);
-    Object.entries(positions).forEach(([id, pos]) => {
+    const entries = markerIds.map(id => [id, positions[id]] as const);
+    const shown = new Set(markerIds);
+
+    // Large catalogs go to the canvas layer; the selected object keeps its
+    // DivIcon for the pulse rings
+    const useCanvas = entries.length > CANVAS_MARKER_THRESHOLD;
+    const asMarker = (id: string) => shown.has(id) && (!useCanvas || id === selectedNoradId);
+    canvasLayerRef.current?.setMarkers(useCanvas
+      ? entries
+          .filter(([id]) => id !== selectedNoradId)
+          .map(([id, pos]) => ({ id, lat: pos.latitudeDeg, lon: pos.longitudeDeg, color: getSatColor(id) }))
+      : []);
+
+    // drop markers for objects that left the map (e.g. a deleted custom TLE)
+    // or that the canvas now draws
+    Object.keys(markersRef.current).forEach((id) => {
+      if (!asMarker(id)) { markersRef.current[id].remove(); delete markersRef.current[id]; }
+    });
+    entries.forEach(([id, pos]) => {
+      if (!asMarker(id)) return;
       const sel   = id === selectedNoradId;
       const color = getSatColor(id);
-      const name  = pos.name || `NORAD-${id}`;
-      const icon  = makeSatIcon(color, sel, name);
-      const alt   = pos.altitudeKm ? `${pos.altitudeKm.toFixed(0)} km` : '';
-      const vel   = pos.speedKmPerS ? `${pos.speedKmPerS.toFixed(2)} km/s` : '';
-      const tip =
-        `<div style="font-family:'Orbitron',monospace;font-size:10px;color:${color};letter-spacing:2px;margin-bottom:4px;">${name}</div>` +
-        (alt ? `<div style="font-size:9px;color:rgba(140,180,210,.65);letter-spacing:1px;">ALT ${alt}${vel?' · '+vel:''}</div>` : '');
+      const icon  = makeSatIcon(color, sel);
+      const tip   = satTooltip(id, pos, color);
       if (markersRef.current[id]) {
         markersRef.current[id]
           .setLatLng([pos.latitudeDeg, pos.longitudeDeg])
@@ -445,7 +652,7 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
           .setTooltipContent(tip);
       } else {
         const m = L.marker([pos.latitudeDeg, pos.longitudeDeg], {
-          icon, zIndexOffset: sel ? 2000 : 100,
+          icon, pane: 'satellites', zIndexOffset: sel ? 2000 : 100,
         })
           .bindTooltip(tip, { direction: 'top', offset: [0, -14] })
           .addTo(map)
@@ -457,7 +664,53 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
       const p = positions[selectedNoradId];
       map.panTo([p.latitudeDeg, p.longitudeDeg], { animate: true, duration: 1.0 });
     }
-  }, [positions, selectedNoradId, onSatelliteClick]);
+  }, [positions, selectedNoradId, onSatelliteClick, layout.markers]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /* ── 5a. Name labels ─────────────────────────────────────── */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const labels = labelsRef.current;
+    const wanted = new Set(labelIds);
+    Object.keys(labels).forEach((id) => {
+      if (!wanted.has(id)) { labels[id].remove(); delete labels[id]; }
+    });
+    labelIds.forEach((id) => {
+      const pos  = positions[id];
+      const icon = makeLabelIcon(getSatColor(id), id === selectedNoradId, pos.name || `NORAD-${id}`);
+      if (labels[id]) labels[id].setLatLng([pos.latitudeDeg, pos.longitudeDeg]).setIcon(icon);
+      else labels[id] = L.marker([pos.latitudeDeg, pos.longitudeDeg], { icon, pane: 'satelliteLabels', interactive: false, keyboard: false }).addTo(map);
+    });
+  }, [positions, selectedNoradId, layout.markers, layout.labels]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /* ── 5b. Coverage footprints ─────────────────────────────── */
+  // Solid outline when the footprint reaches the observer, dashed otherwise.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layers = footprintsRef.current;
+    const wanted = new Set(footprintIds);
+    Object.keys(layers).forEach((id) => {
+      if (!showFootprints || !wanted.has(id)) { layers[id].remove(); delete layers[id]; }
+    });
+    if (!showFootprints) return;
+
+    footprintIds.forEach((id) => {
+      const pos = positions[id];
+      const rings = footprintRings(pos.latitudeDeg, pos.longitudeDeg, pos.altitudeKm, footprintMinEl);
+      const sel   = id === selectedNoradId;
+      const reach = !!observerLocation && footprintCovers(pos, observerLocation, footprintMinEl);
+      const color = getSatColor(id);
+      const style: L.PathOptions = {
+        color, weight: sel ? 1.4 : 0.8, opacity: sel ? 0.7 : 0.35,
+        fillColor: color, fillOpacity: sel ? 0.08 : 0.03,
+        dashArray: reach ? '' : '4 6',
+      };
+      const latlngs = rings.map(r => [r]);
+      if (layers[id]) layers[id].setLatLngs(latlngs).setStyle(style);
+      else layers[id] = L.polygon(latlngs, { ...style, pane: 'footprints', interactive: false }).addTo(map);
+    });
+  }, [positions, showFootprints, footprintMinEl, selectedNoradId, observerLocation]);
 
   /* ── 6. Orbital track ────────────────────────────────────── */
   useEffect(() => {
@@ -467,7 +720,7 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
     trackRef.current.forEach(l => map.removeLayer(l));
     trackRef.current = [];
 
-    if (!trackPoints?.length || !selectedNoradId) return;
+    if (!showTrack || !trackPoints?.length || !selectedNoradId) return;
 
     const color    = getSatColor(selectedNoradId);
     const nPts     = trackPoints.length;
@@ -492,36 +745,25 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
       ${timeLast  ? `<div style="font-family:'Share Tech Mono',monospace;font-size:9px;letter-spacing:1px;color:rgba(140,180,210,.4);">&nbsp;&nbsp;TO &nbsp;<span style="color:rgba(200,225,245,.65)">${timeLast}</span></div>` : ''}
     `;
 
-    function splitAtAntimeridian(pts: TrackPoint[]): [number, number][][] {
-      const segs: [number, number][][] = [];
-      let seg: [number, number][] = [];
-      pts.forEach((pt, i) => {
-        if (i > 0 && Math.abs(pt.longitudeDeg - pts[i - 1].longitudeDeg) > 180) {
-          if (seg.length > 1) segs.push(seg);
-          seg = [];
-        }
-        seg.push([pt.latitudeDeg, pt.longitudeDeg]);
-      });
-      if (seg.length > 1) segs.push(seg);
-      return segs;
-    }
+    const latLngSegments = (pts: TrackPoint[]) =>
+      splitAtAntimeridian(pts).map(seg => seg.map((pt): [number, number] => [pt.latitudeDeg, pt.longitudeDeg]));
 
     const pastPts   = trackPoints.slice(0, splitIdx + 1);
     const futurePts = trackPoints.slice(splitIdx);
 
     /* ── PAST: glow halo (non-interactive, visual) ── */
-    splitAtAntimeridian(pastPts).forEach(seg => {
+    latLngSegments(pastPts).forEach(seg => {
       if (seg.length < 2) return;
       trackRef.current.push(L.polyline(seg, {
-        color, weight: 6, opacity: 0.12, interactive: false, lineCap: 'round', lineJoin: 'round',
+        color, weight: 6, opacity: 0.12, pane: 'tracks', interactive: false, lineCap: 'round', lineJoin: 'round',
       }).addTo(map));
     });
 
     /* ── PAST: solid visible line (non-interactive) ── */
-    splitAtAntimeridian(pastPts).forEach(seg => {
+    latLngSegments(pastPts).forEach(seg => {
       if (seg.length < 2) return;
       trackRef.current.push(L.polyline(seg, {
-        color, weight: 2, opacity: 0.9, interactive: false, lineCap: 'round', lineJoin: 'round',
+        color, weight: 2, opacity: 0.9, pane: 'tracks', interactive: false, lineCap: 'round', lineJoin: 'round',
       }).addTo(map));
     });
 
@@ -533,14 +775,14 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
       const radius  = 1.2 + ageFraction * 1.2;
       trackRef.current.push(L.circleMarker([pt.latitudeDeg, pt.longitudeDeg], {
         radius, color, fillColor: color, fillOpacity: opacity,
-        weight: 0, opacity, interactive: false,
+        weight: 0, opacity, pane: 'tracks', interactive: false,
       }).addTo(map));
     });
 
     /* ── PAST: invisible wide hit-area → shows tooltip on hover ── */
-    splitAtAntimeridian(pastPts).forEach(seg => {
+    latLngSegments(pastPts).forEach(seg => {
       if (seg.length < 2) return;
-      const overlay = L.polyline(seg, { color, weight: 20, opacity: 0, interactive: true });
+      const overlay = L.polyline(seg, { color, weight: 20, opacity: 0, pane: 'tracks', interactive: true });
       overlay.bindTooltip(pastTipHtml, {
         sticky: true, direction: 'top', offset: [0, -12], className: 'trk-tip-past',
       });
@@ -549,23 +791,49 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
     });
 
     /* ── FUTURE: glow halo (non-interactive, visual) ── */
-    splitAtAntimeridian(futurePts).forEach(seg => {
+    latLngSegments(futurePts).forEach(seg => {
       if (seg.length < 2) return;
       trackRef.current.push(L.polyline(seg, {
-        color, weight: 4, opacity: 0.06, interactive: false, lineCap: 'round',
+        color, weight: 4, opacity: 0.06, pane: 'tracks', interactive: false, lineCap: 'round',
       }).addTo(map));
     });
 
     /* ── FUTURE: dashed visible line (non-interactive) ── */
-    splitAtAntimeridian(futurePts).forEach(seg => {
+    latLngSegments(futurePts).forEach(seg => {
       if (seg.length < 2) return;
       trackRef.current.push(L.polyline(seg, {
-        color, weight: 1.5, opacity: 0.55, dashArray: '5 9', interactive: false, lineCap: 'round',
+        color, weight: 1.5, opacity: 0.55, dashArray: '5 9', pane: 'tracks', interactive: false, lineCap: 'round',
       }).addTo(map));
     });
 
+    /* ── EARTH SHADOW: darken the stretches flown in umbra/penumbra ── */
+    const shadowRuns: TrackPoint[][] = [];
+    let run: TrackPoint[] = [];
+    trackPoints.forEach((pt, i) => {
+      const dark = pt.illumination && pt.illumination !== 'SUNLIT';
+      if (dark) {
+        // start one point early so the shading meets the sunlit line
+        if (!run.length && i > 0) run.push(trackPoints[i - 1]);
+        run.push(pt);
+      } else if (run.length) {
+        run.push(pt);
+        shadowRuns.push(run);
+        run = [];
+      }
+    });
+    if (run.length) shadowRuns.push(run);
+
+    if (trackShadow) shadowRuns.forEach(r => {
+      const umbra = r.some(pt => pt.illumination === 'UMBRA');
+      latLngSegments(r).forEach(seg => {
+        trackRef.current.push(L.polyline(seg, {
+          color: '#02040a', weight: 3, opacity: umbra ? 0.7 : 0.4, pane: 'tracks', interactive: false, lineCap: 'butt',
+        }).addTo(map));
+      });
+    });
+
     /* ── FUTURE: direction arrows ── */
-    futurePts.forEach((pt, i) => {
+    if (trackArrows) futurePts.forEach((pt, i) => {
       if (i === 0 || i % 12 !== 0 || i >= futurePts.length - 1) return;
       const prev = futurePts[i - 1];
       if (Math.abs(pt.longitudeDeg - prev.longitudeDeg) > 180) return;
@@ -576,15 +844,15 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
             html: `<div style="width:0;height:0;border-left:4px solid transparent;border-right:4px solid transparent;border-bottom:9px solid ${color};opacity:0.6;transform:rotate(${angle}deg);transform-origin:center center;"></div>`,
             className: '', iconSize: [8, 9], iconAnchor: [4, 4],
           }),
-          interactive: false, zIndexOffset: -100,
+          pane: 'tracks', interactive: false, zIndexOffset: -100,
         }).addTo(map)
       );
     });
 
     /* ── FUTURE: invisible wide hit-area → shows tooltip on hover ── */
-    splitAtAntimeridian(futurePts).forEach(seg => {
+    latLngSegments(futurePts).forEach(seg => {
       if (seg.length < 2) return;
-      const overlay = L.polyline(seg, { color, weight: 20, opacity: 0, interactive: true });
+      const overlay = L.polyline(seg, { color, weight: 20, opacity: 0, pane: 'tracks', interactive: true });
       overlay.bindTooltip(futureTipHtml, {
         sticky: true, direction: 'top', offset: [0, -12], className: 'trk-tip-future',
       });
@@ -607,23 +875,23 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
 
     const startMarker = L.circleMarker(
       [trackPoints[0].latitudeDeg, trackPoints[0].longitudeDeg],
-      { radius: 3.5, color, fillColor: 'transparent', fillOpacity: 0, weight: 1.2, opacity: 0.4, interactive: true }
+      { radius: 3.5, color, fillColor: 'transparent', fillOpacity: 0, weight: 1.2, opacity: 0.4, pane: 'tracks', interactive: true }
     ).bindTooltip(startTip, { direction: 'top', offset: [0, -8], className: 'trk-tip-node' }).addTo(map);
     trackRef.current.push(startMarker);
 
     const nowMarker = L.circleMarker(
       [trackPoints[splitIdx].latitudeDeg, trackPoints[splitIdx].longitudeDeg],
-      { radius: 6, color, fillColor: color, fillOpacity: 0.1, weight: 1.2, opacity: 0.6, interactive: true }
+      { radius: 6, color, fillColor: color, fillOpacity: 0.1, weight: 1.2, opacity: 0.6, pane: 'tracks', interactive: true }
     ).bindTooltip(nowTip, { direction: 'top', offset: [0, -10], className: 'trk-tip-node' }).addTo(map);
     trackRef.current.push(nowMarker);
 
     const endMarker = L.circleMarker(
       [trackPoints[nPts - 1].latitudeDeg, trackPoints[nPts - 1].longitudeDeg],
-      { radius: 4.5, color, fillColor: color, fillOpacity: 0.12, weight: 1.2, opacity: 0.5, interactive: true }
+      { radius: 4.5, color, fillColor: color, fillOpacity: 0.12, weight: 1.2, opacity: 0.5, pane: 'tracks', interactive: true }
     ).bindTooltip(endTip, { direction: 'top', offset: [0, -8], className: 'trk-tip-node' }).addTo(map);
     trackRef.current.push(endMarker);
 
-  }, [trackPoints, selectedNoradId]);
+  }, [trackPoints, selectedNoradId, showTrack, trackArrows, trackShadow]);
 
   /* ── 7. Observer marker ──────────────────────────────────── */
   useEffect(() => {
@@ -635,7 +903,7 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
 
     observerMarkerRef.current = L.marker(
       [observerLocation.lat, observerLocation.lon],
-      { icon: makeObserverIcon(), zIndexOffset: 1000 }
+      { icon: makeObserverIcon(), pane: 'observer', zIndexOffset: 1000 }
     ).bindTooltip(
       `<div style="font-family:'Orbitron',monospace;font-size:10px;color:#2E8B57;letter-spacing:3px;">OBSERVER</div>
        <div style="font-size:9px;color:rgba(46,139,87,.6);letter-spacing:1px;margin-top:2px;">
@@ -643,37 +911,98 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
       { direction: 'top', offset: [0, -18] }
     ).addTo(map);
 
-    horizonRef.current = L.circle(
-      [observerLocation.lat, observerLocation.lon],
-      { radius:1_800_000, color:'rgba(46,139,87,.22)', fillColor:'rgba(46,139,87,.03)', weight:1, dashArray:'6 10', interactive:false }
-    ).addTo(map);
+    if (showRings) {
+      horizonRef.current = L.layerGroup([
+        L.circle(
+          [observerLocation.lat, observerLocation.lon],
+          { radius:1_800_000, color:'rgba(46,139,87,.22)', fillColor:'rgba(46,139,87,.03)', weight:1, dashArray:'6 10', pane:'observer', interactive:false }
+        ),
+        L.circle(
+          [observerLocation.lat, observerLocation.lon],
+          { radius:500_000, color:'rgba(46,139,87,.09)', fillColor:'transparent', weight:0.5, dashArray:'3 6', pane:'observer', interactive:false }
+        ),
+      ]).addTo(map);
+    }
 
-    L.circle(
-      [observerLocation.lat, observerLocation.lon],
-      { radius:500_000, color:'rgba(46,139,87,.09)', fillColor:'transparent', weight:0.5, dashArray:'3 6', interactive:false }
-    ).addTo(map);
+    return () => { observerMarkerRef.current?.remove(); horizonRef.current?.remove(); horizonRef.current = null; };
+  }, [observerLocation, showRings]);
 
-    return () => { observerMarkerRef.current?.remove(); horizonRef.current?.remove(); };
-  }, [observerLocation]);
+  /* ── 8. Day/night terminator, twilight bands, subsolar point ── */
+  useEffect(() => {
+    if (time || !showNight) return;
+    setWallClock(new Date());
+    const interval = setInterval(() => setWallClock(new Date()), TERMINATOR_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [time, showNight]);
+
+  // compared by value — callers may pass a fresh Date for the same instant
+  const overlayMs = (time ?? wallClock).getTime();
 
-  /* ── 8. Reverse-geocode selected satellite ───────────────── */
   useEffect(() => {
-    if (!selectedNoradId || !positions[selectedNoradId]) { setLocationLabel(''); return; }
+    const group = terminatorRef.current;
+    if (!group) return;
+    group.clearLayers();
+    if (!showNight) return;
+    const overlayTime = new Date(overlayMs);
+
+    TWILIGHT_BANDS.forEach(band => {
+      const region = nightRegion(overlayTime, TWILIGHT_LIMITS[band]);
+      region.polygons.forEach(ring => {
+        L.polygon(ring, {
+          pane: 'terminator', stroke: false, fillColor: NIGHT_FILL, fillOpacity: NIGHT_FILL_OPACITY, interactive: false,
+        }).addTo(group);
+      });
+      if (band === 'sunset') {
+        region.boundary.forEach(line => {
+          L.polyline(line, {
+            pane: 'terminator', color: 'rgba(255,208,96,.45)', weight: 1, dashArray: '2 5', interactive: false,
+          }).addTo(group);
+        });
+      }
+    });
+
+    if (!showSubsolar) return;
+    const sub = subsolarPoint(overlayTime);
+    L.marker([sub.lat, sub.lon], {
+      icon: L.divIcon({
+        html: `<div style="width:18px;height:18px;border-radius:50%;background:radial-gradient(circle,#ffd060 0 35%,rgba(255,208,96,.25) 36% 60%,transparent 62%);box-shadow:0 0 14px rgba(255,208,96,.55);"></div>`,
+        className: '', iconSize: [18, 18], iconAnchor: [9, 9],
+      }),
+      pane: 'terminator',
+      zIndexOffset: -200,
+    })
+      .bindTooltip(
+        `<div style="font-family:'Orbitron',monospace;font-size:9px;letter-spacing:2px;color:#ffd060;margin-bottom:3px;">☀ SUBSOLAR POINT</div>` +
+        `<div style="font-size:9px;color:rgba(200,225,245,.75);">${sub.lat.toFixed(2)}°, ${sub.lon.toFixed(2)}°</div>` +
+        `<div style="font-size:8px;color:rgba(140,180,210,.5);margin-top:2px;">${overlayTime.toISOString().replace('T', ' ').slice(0, 19)} UTC</div>`,
+        { direction: 'top', offset: [0, -10] }
+      )
+      .addTo(group);
+  }, [overlayMs, showNight, showSubsolar]);
+
+  /* ── 9. Reverse-geocode selected satellite ───────────────── */
+  // Positions tick every second when propagated locally, so a debounce would
+  // never settle — instead schedule at most one lookup per 10 s window.
+  useEffect(() => {
     if (geocodeTimerRef.current) clearTimeout(geocodeTimerRef.current);
+    geocodeTimerRef.current = null;
+  }, [selectedNoradId]);
+
+  useEffect(() => {
+    if (!selectedNoradId || !positions[selectedNoradId]) { setLocationLabel(''); return; }
+    if (geocodeTimerRef.current) return;
+    const pos = positions[selectedNoradId];
     geocodeTimerRef.current = setTimeout(async () => {
-      const pos = positions[selectedNoradId];
-      if (!pos) return;
+      geocodeTimerRef.current = null;
       try {
-        const res = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?lat=${pos.latitudeDeg}&lon=${pos.longitudeDeg}&format=json&zoom=5`,
-          { headers: { 'Accept-Language': 'en' } }
-        );
-        const data = await res.json();
-        if (data?.error || !data?.address) {
+        // no geocoder configured: no place name
+        const url = await loadGeocoderUrl();
+        if (!url) { setLocationLabel(''); return; }
+        const a = await reverseGeocode(url, pos.latitudeDeg, pos.longitudeDeg, 5);
+        if (!a) {
           setLocationLabel('Over open ocean');
           return;
         }
-        const a = data.address;
         const parts = [
           a.city || a.town || a.county || a.state_district,
           a.state || a.region,
@@ -683,9 +1012,93 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
       } catch {
         setLocationLabel(prev => prev || 'Over open ocean');
       }
-    }, 4000);
+    }, 10000);
   }, [selectedNoradId, positions]);
 
+  /* ── 10. Area of interest ────────────────────────────────── */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !aoi) return;
+    const style = { pane: 'aoi', color: AOI_COLOR, weight: 1.5, fillColor: AOI_COLOR, fillOpacity: 0.08 };
+    const shape = aoi.kind === 'circle'
+      ? L.circle([aoi.center.lat, aoi.center.lon], { ...style, radius: aoi.radiusKm * 1000 })
+      : L.polygon(aoi.polygons.map(unwrapRing), style);
+    aoiRef.current = shape.bindTooltip(
+      `<div style="font-family:'Orbitron',monospace;font-size:9px;letter-spacing:2px;color:${AOI_COLOR};margin-bottom:3px;">${escapeHtml(aoi.name.toUpperCase())}</div>` +
+      `<div style="font-size:9px;color:rgba(200,225,245,.75);">${describeAoi(aoi)}</div>`,
+      { sticky: true }
+    ).addTo(map);
+    return () => { aoiRef.current?.remove(); aoiRef.current = null; };
+  }, [aoi]);
+
+  // Polygon: click vertices, then click the first one, double-click or Enter.
+  // Circle: click the centre, then a point on the edge. Esc cancels either.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !drawMode) return;
+    const pts: L.LatLng[] = [];
+    const draft = L.layerGroup().addTo(map);
+    const line = { pane: 'aoi', color: AOI_COLOR, weight: 1.5, dashArray: '4 6', fillColor: AOI_COLOR, fillOpacity: 0.05, interactive: false };
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    const redraw = (cursor?: L.LatLng) => {
+      draft.clearLayers();
+      if (drawMode === 'circle') {
+        if (pts.length && cursor) L.circle(pts[0], { ...line, radius: pts[0].distanceTo(cursor) }).addTo(draft);
+      } else {
+        const ring = cursor ? [...pts, cursor] : pts;
+        if (ring.length > 1) L.polygon(ring, line).addTo(draft);
+      }
+      pts.forEach((p, i) => L.circleMarker(p, { pane: 'aoi', radius: i === 0 ? 5 : 3, color: AOI_COLOR, weight: 1.5, fillOpacity: 0.6, interactive: false }).addTo(draft));
+    };
+
+    const closePolygon = () => {
+      if (pts.length < 3) return;
+      // keep the first vertex on the main world copy, the rest unwrapped from it
+      const shift = Math.round(pts[0].lng / 360) * 360;
+      setAoi({ kind: 'polygon', name: 'Drawn area', polygons: [unwrapRing(pts.map(p => [p.lat, p.lng - shift] as LatLon))] });
+      setDrawMode(null);
+    };
+
+    const onClick = (e: L.LeafletMouseEvent) => {
+      const last = pts[pts.length - 1];
+      // the two clicks of a double-click land on the same spot
+      if (last && map.latLngToContainerPoint(last).distanceTo(e.containerPoint) < 4) return;
+      if (drawMode === 'circle') {
+        if (!pts.length) { pts.push(e.latlng); redraw(); return; }
+        const radiusKm = groundDistanceKm(pts[0].lat, pts[0].lng, e.latlng.lat, e.latlng.lng);
+        setAoi({ kind: 'circle', name: 'Drawn circle', center: { lat: pts[0].lat, lon: wrapLongitude(pts[0].lng) }, radiusKm });
+        setDrawMode(null);
+        return;
+      }
+      if (pts.length >= 3 && map.latLngToContainerPoint(pts[0]).distanceTo(e.containerPoint) < AOI_SNAP_PX) { closePolygon(); return; }
+      pts.push(e.latlng);
+      redraw(e.latlng);
+    };
+    const onMove = (e: L.LeafletMouseEvent) => redraw(e.latlng);
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDrawMode(null);
+      if (e.key === 'Enter' && drawMode === 'polygon') closePolygon();
+    };
+
+    map.on('click', onClick);
+    map.on('mousemove', onMove);
+    map.on('dblclick', closePolygon);
+    document.addEventListener('keydown', onKey);
+    return () => {
+      map.off('click', onClick);
+      map.off('mousemove', onMove);
+      map.off('dblclick', closePolygon);
+      document.removeEventListener('keydown', onKey);
+      draft.remove();
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [drawMode]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => { if (isGlobe) setDrawMode(null); }, [isGlobe]);
+
   /* ── fly-to-me handler ────────────────────────────────────── */
   const flyToMe = () => {
     const map = mapRef.current;
@@ -706,6 +1119,23 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
     }
   };
 
+  /* ── track export handler ─────────────────────────────────── */
+  // The track always belongs to the selected satellite
+  const downloadMap = (format: TrackExportFormat) => {
+    const spec = TRACK_EXPORT_FORMATS.find(f => f.format === format)!;
+    const trackId = trackPoints?.length && selectedNoradId ? selectedNoradId : null;
+    const name = trackId ? positions[trackId]?.name ?? trackId : 'map';
+    const text = exportTrack(format, {
+      track: trackId ? { noradId: trackId, name, points: trackPoints! } : undefined,
+      observer: observerLocation,
+      markers: Object.values(positions),
+      footprintMinElevationDeg: showFootprints ? footprintMinEl : undefined,
+    });
+    const stem = name.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'map';
+    downloadText(`${stem}-track.${spec.extension}`, text, spec.mimeType);
+    setExportOpen(false);
+  };
+
   const sel    = selectedNoradId ? positions[selectedNoradId] : null;
   const selClr = selectedNoradId ? getSatColor(selectedNoradId) : '#00C2FF';
 
@@ -714,15 +1144,33 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
     : zoomLevel <= 11 ? 'CITY' : zoomLevel <= 14 ? 'DISTRICT' : 'STREET';
 
   const viewBtns: { mode: ViewMode; label: string; icon: string; color: string; desc: string }[] = [
-    { mode: 'normal',    label: 'DARK',    icon: '◈', color: '#00C2FF', desc: 'Dark vector' },
-    { mode: 'satellite', label: 'SAT',     icon: '⊛', color: '#4DA8CC', desc: 'Aerial imagery' },
-    { mode: 'terrain',   label: 'TERRAIN', icon: '⬡', color: '#B87333', desc: 'Topographic' },
+    ...tileSources.map(s => ({ mode: s.id, label: s.label, desc: s.description ?? s.label, ...(VIEW_STYLES[s.id] ?? VIEW_STYLE_FALLBACK) })),
+    { mode: GLOBE, label: 'GLOBE', desc: '3D globe · drag to orbit', ...VIEW_STYLES[GLOBE] },
   ];
 
   return (
     <div style={{ position:'relative', width:'100%', height:'100%', borderRadius:'inherit', overflow:'hidden', background:'#0B0F1A' }}>
 
-      <div ref={containerRef} style={{ width:'100%', height:'100%', background:'#0B0F1A', opacity: isTransition ? 0.6 : 1, transition:'opacity 0.4s ease' }} />
+      <div ref={containerRef} style={{ width:'100%', height:'100%', background:'#0B0F1A', opacity: isTransition ? 0.6 : 1, transition:'opacity 0.4s ease', visibility: isGlobe ? 'hidden' : 'visible' }} />
+
+      {isGlobe && (
+        <Suspense fallback={
+          <div style={{ position:'absolute', inset:0, display:'flex', alignItems:'center', justifyContent:'center', fontFamily:"'Share Tech Mono',monospace", fontSize:10, letterSpacing:2, color:'rgba(0,194,255,.45)' }}>
+            LOADING GLOBE…
+          </div>
+        }>
+          <GlobeView
+            positions={positions}
+            selectedNoradId={selectedNoradId}
+            onSatelliteClick={onSatelliteClick}
+            colorOf={getSatColor}
+            tileSource={tileSource}
+            showCoverage={showFootprints}
+            coverageMinEl={footprintMinEl}
+            time={time}
+          />
+        </Suspense>
+      )}
 
       <div style={{ position:'absolute', inset:0, pointerEvents:'none', zIndex:400, backgroundImage:'repeating-linear-gradient(0deg,transparent,transparent 2px,rgba(0,194,255,.008) 2px,rgba(0,194,255,.008) 4px)', opacity: viewMode === 'satellite' ? 0.25 : 1 }} />
       <div style={{ position:'absolute', inset:0, pointerEvents:'none', zIndex:401, background:'radial-gradient(ellipse at center,transparent 55%,rgba(11,15,26,.55) 100%)' }} />
@@ -739,9 +1187,22 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
         <span style={{ fontFamily:"'Orbitron',monospace", fontSize:9, letterSpacing:4, color:'rgba(0,194,255,.8)' }}>LIVE ORBITAL DISPLAY</span>
       </div>
 
-      <div style={{ position:'absolute', top:12, left:12, zIndex:460, animation:'__fadeIn 0.4s ease' }}>
+      {drawMode && (
+        <div style={{ position:'absolute', top:44, left:'50%', transform:'translateX(-50%)', zIndex:462, display:'flex', alignItems:'center', gap:10, background:'rgba(11,15,26,.95)', border:'1px solid rgba(255,126,53,.35)', padding:'5px 6px 5px 14px', animation:'__fadeIn 0.2s ease' }}>
+          <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1, color:AOI_COLOR, whiteSpace:'nowrap' }}>
+            {drawMode === 'polygon'
+              ? 'CLICK TO ADD VERTICES · CLICK THE FIRST ONE OR DOUBLE-CLICK TO CLOSE'
+              : 'CLICK THE CENTRE, THEN A POINT ON THE EDGE'}
+          </span>
+          <button onClick={() => setDrawMode(null)} style={{ padding:'2px 8px', cursor:'pointer', background:'transparent', border:'1px solid rgba(255,126,53,.3)', borderRadius:2, color:AOI_COLOR, fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+            ESC
+          </button>
+        </div>
+      )}
+
+      <div style={{ position:'absolute', top:12, left:12, zIndex:461, animation:'__fadeIn 0.4s ease' }}>
         <div style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:2, color:'rgba(0,194,255,.28)', marginBottom:4, paddingLeft:2 }}>MAP VIEW</div>
-        <div style={{ display:'flex', gap:3 }}>
+        <div style={{ display:'flex', flexWrap:'wrap', gap:3, maxWidth:300 }}>
           {viewBtns.map(({ mode, label, icon, color, desc }) => {
             const active = viewMode === mode;
             return (
@@ -754,9 +1215,86 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
           })}
         </div>
         <div style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1, color: viewBtns.find(b=>b.mode===viewMode)?.color, opacity:0.4, paddingLeft:2, marginTop:5, transition:'color 0.3s' }}>{viewBtns.find(b=>b.mode===viewMode)?.desc}</div>
+        {!isGlobe && (
+          <button title="Day/night terminator with civil, nautical and astronomical twilight" onClick={() => setMapLayer('night', { visible: !showNight })} style={{ marginTop:4, display:'flex', alignItems:'center', gap:6, padding:'3px 8px', cursor:'pointer', background: showNight ? 'rgba(255,208,96,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${showNight ? 'rgba(255,208,96,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: showNight ? '#ffd060' : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+            <span style={{ fontSize:11, lineHeight:1 }}>☾</span> DAY / NIGHT
+          </button>
+        )}
+        <div style={{ marginTop:4, display:'flex', gap:3 }}>
+          <button title="Coverage footprint of each tracked satellite" onClick={() => setMapLayer('footprints', { visible: !showFootprints })} style={{ display:'flex', alignItems:'center', gap:6, padding:'3px 8px', cursor:'pointer', background: showFootprints ? 'rgba(0,194,255,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${showFootprints ? 'rgba(0,194,255,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: showFootprints ? '#00C2FF' : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+            <span style={{ fontSize:11, lineHeight:1 }}>◎</span> FOOTPRINT
+          </button>
+          {showFootprints && (
+            <button title="Minimum elevation for the footprint edge — click to change" onClick={() => setMapLayerOption('footprints', 'minElevation', FOOTPRINT_MIN_ELEVATIONS[(FOOTPRINT_MIN_ELEVATIONS.indexOf(footprintMinEl) + 1) % FOOTPRINT_MIN_ELEVATIONS.length])} style={{ padding:'3px 8px', cursor:'pointer', background:'rgba(11,15,26,.95)', border:'1px solid rgba(0,194,255,.25)', borderRadius:2, color:'#00C2FF', fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+              ≥{footprintMinEl}°
+            </button>
+          )}
+          <div style={{ position:'relative' }}>
+            <button title="Download the track, observer, markers and footprints for Google Earth, QGIS or Cesium" onClick={() => setExportOpen(v => !v)} style={{ display:'flex', alignItems:'center', gap:6, padding:'3px 8px', cursor:'pointer', background: exportOpen ? 'rgba(0,194,255,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${exportOpen ? 'rgba(0,194,255,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: exportOpen ? '#00C2FF' : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+              <span style={{ fontSize:11, lineHeight:1 }}>⇩</span> EXPORT
+            </button>
+            {exportOpen && (
+              <div style={{ position:'absolute', top:'calc(100% + 3px)', left:0, display:'flex', flexDirection:'column', gap:2, padding:3, background:'rgba(11,15,26,.97)', border:'1px solid rgba(0,194,255,.25)', minWidth:92 }}>
+                {TRACK_EXPORT_FORMATS.map(({ format, label }) => (
+                  <button key={format} onClick={() => downloadMap(format)} style={{ padding:'3px 8px', cursor:'pointer', textAlign:'left', background:'transparent', border:'1px solid rgba(0,194,255,.12)', borderRadius:2, color:'#00C2FF', fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+                    .{label}
+                  </button>
+                ))}
+                <div style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:7, letterSpacing:1, color:'rgba(0,194,255,.28)', padding:'2px 2px 0' }}>
+                  {trackPoints?.length ? 'TRACK' : 'NO TRACK'}{observerLocation ? ' · OBSERVER' : ''}{showFootprints ? ' · FOOTPRINTS' : ''}
+                </div>
+              </div>
+            )}
+          </div>
+          <div style={{ position:'relative' }}>
+            <button title="Layer manager — visibility, opacity and options of every map layer" onClick={() => setLayersOpen(v => !v)} style={{ display:'flex', alignItems:'center', gap:6, padding:'3px 8px', cursor:'pointer', background: layersOpen ? 'rgba(0,194,255,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${layersOpen ? 'rgba(0,194,255,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: layersOpen ? '#00C2FF' : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+              <span style={{ fontSize:11, lineHeight:1 }}>≣</span> LAYERS
+            </button>
+            {layersOpen && (
+              <div style={{ position:'absolute', top:'calc(100% + 3px)', left:0 }}>
+                <LayerManagerPanel
+                  runtimeChoices={{
+                    'basemap.style': tileSources.map(s => ({ value: s.id, label: s.label })),
+                    'markers.catalog': [{ value: '', label: 'NONE' }, ...categories.map(c => ({ value: c, label: c.toUpperCase() }))],
+                  }}
+                  onClose={() => setLayersOpen(false)}
+                />
+              </div>
+            )}
+          </div>
+          {!isGlobe && (
+            <div style={{ position:'relative' }}>
+              <button title="Area of interest for the overflight finder — draw a polygon or circle" onClick={() => setAoiOpen(v => !v)} style={{ display:'flex', alignItems:'center', gap:6, padding:'3px 8px', cursor:'pointer', background: aoiOpen || drawMode ? 'rgba(255,126,53,.06)' : 'rgba(11,15,26,.95)', border:`1px solid ${aoiOpen || drawMode ? 'rgba(255,126,53,.45)' : 'rgba(0,194,255,.12)'}`, borderRadius:2, color: aoiOpen || drawMode ? AOI_COLOR : 'rgba(0,194,255,.35)', fontFamily:"'Orbitron',monospace", fontSize:7, letterSpacing:1, fontWeight:700 }}>
+                <span style={{ fontSize:11, lineHeight:1 }}>⬠</span> AREA
+              </button>
+              {aoiOpen && (
+                <div style={{ position:'absolute', top:'calc(100% + 3px)', left:0, display:'flex', flexDirection:'column', gap:2, padding:3, background:'rgba(11,15,26,.97)', border:'1px solid rgba(255,126,53,.25)', minWidth:150 }}>
+                  {([['polygon', '⬠ DRAW POLYGON'], ['circle', '◯ DRAW CIRCLE']] as [AoiDrawMode, string][]).map(([mode, label]) => (
+                    <button key={mode} onClick={() => { setDrawMode(mode); setAoiOpen(false); }} style={{ padding:'3px 8px', cursor:'pointer', textAlign:'left', background:'transparent', border:'1px solid rgba(255,126,53,.18)', borderRadius:2, color:AOI_COLOR, fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+                      {label}
+                    </button>
+                  ))}
+                  {aoi && (
+                    <>
+                      <div style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:0.5, color:'rgba(200,225,245,.6)', padding:'3px 2px', lineHeight:1.5 }}>
+                        {aoi.name}<br />{describeAoi(aoi)}
+                      </div>
+                      <Link to="/overflights" style={{ padding:'3px 8px', background:'rgba(255,126,53,.08)', border:'1px solid rgba(255,126,53,.35)', borderRadius:2, color:AOI_COLOR, fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+                        FIND OVERFLIGHTS →
+                      </Link>
+                      <button onClick={() => { setAoi(null); setAoiOpen(false); }} style={{ padding:'3px 8px', cursor:'pointer', textAlign:'left', background:'transparent', border:'1px solid rgba(0,194,255,.12)', borderRadius:2, color:'rgba(255,68,102,.7)', fontFamily:"'Share Tech Mono',monospace", fontSize:9, letterSpacing:1 }}>
+                        ✕ CLEAR AREA
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
-      <div style={{ position:'absolute', top:138, left:12, zIndex:460, background:'rgba(11,15,26,.95)', border:'1px solid rgba(66,133,244,.18)', borderLeft:'2px solid rgba(66,133,244,.4)', minWidth:178, animation:'__fadeIn 0.5s ease 0.15s both' }}>
+      {showUserLoc && <div style={{ position:'absolute', top:164, left:12, zIndex:460, background:'rgba(11,15,26,.95)', border:'1px solid rgba(66,133,244,.18)', borderLeft:'2px solid rgba(66,133,244,.4)', minWidth:178, animation:'__fadeIn 0.5s ease 0.15s both' }}>
         <div style={{ display:'flex', alignItems:'center', justifyContent:'space-between', padding:'7px 10px 6px', borderBottom:'1px solid rgba(66,133,244,.1)' }}>
           <div style={{ display:'flex', alignItems:'center', gap:6 }}>
             <div style={{ width:7, height:7, borderRadius:'50%', background:'#4285f4', animation: locStatus==='locating' ? '__pulse 0.9s infinite' : 'none' }} />
@@ -788,13 +1326,15 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
             </>
           )}
         </div>
-      </div>
+      </div>}
 
-      <div style={{ position:'absolute', bottom:82, right:11, zIndex:460, background:'rgba(11,15,26,.92)', border:'1px solid rgba(0,194,255,.1)', padding:'5px 10px', pointerEvents:'none', display:'flex', flexDirection:'column', alignItems:'center', minWidth:52 }}>
-        <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:7, letterSpacing:1.5, color:'rgba(0,194,255,.28)', marginBottom:1 }}>ZOOM</span>
-        <span style={{ fontFamily:"'Orbitron',monospace", fontSize:14, fontWeight:700, color:'rgba(0,194,255,.7)', lineHeight:1 }}>{zoomLevel}</span>
-        <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:7, color:'rgba(0,194,255,.25)', letterSpacing:0.5, marginTop:2 }}>{zoomLabel}</span>
-      </div>
+      {!isGlobe && (
+        <div style={{ position:'absolute', bottom:82, right:11, zIndex:460, background:'rgba(11,15,26,.92)', border:'1px solid rgba(0,194,255,.1)', padding:'5px 10px', pointerEvents:'none', display:'flex', flexDirection:'column', alignItems:'center', minWidth:52 }}>
+          <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:7, letterSpacing:1.5, color:'rgba(0,194,255,.28)', marginBottom:1 }}>ZOOM</span>
+          <span style={{ fontFamily:"'Orbitron',monospace", fontSize:14, fontWeight:700, color:'rgba(0,194,255,.7)', lineHeight:1 }}>{zoomLevel}</span>
+          <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:7, color:'rgba(0,194,255,.25)', letterSpacing:0.5, marginTop:2 }}>{zoomLabel}</span>
+        </div>
+      )}
 
       <div style={{ position:'absolute', bottom:36, left:12, zIndex:460, background:'rgba(11,15,26,.92)', border:'1px solid rgba(0,194,255,.12)', padding:'5px 12px', pointerEvents:'none' }}>
         <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:10, letterSpacing:2, color:'rgba(0,194,255,.55)' }}>
@@ -827,30 +1367,65 @@ export function WorldMap({ positions, trackPoints, selectedNoradId, onSatelliteC
         </div>
       )}
 
-      <div style={{ position:'absolute', top:12, right:12, zIndex:460, background:'rgba(11,15,26,.9)', border:'1px solid rgba(0,194,255,.1)', padding:'8px 12px', pointerEvents:'none' }}>
-        {[
-          { c:'rgba(0,194,255,.5)',   label:'EQUATOR',  dot:false, solid:false },
-          { c:'rgba(184,115,51,.45)', label:'TROPICS',  dot:false, solid:false },
-          { c:'rgba(0,150,200,.35)',  label:'POLAR',    dot:false, solid:false },
-          { c:'rgba(46,139,87,.45)',  label:'OBSERVER', dot:false, solid:true  },
-          { c:'#4285f4',              label:'YOU',      dot:true,  solid:false },
-        ].map(({ c, label, dot, solid }) => (
-          <div key={label} style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
-            {dot ? <div style={{ width:7, height:7, borderRadius:'50%', background:c, border:'1.5px solid #fff', flexShrink:0 }} /> : <div style={{ width:18, height:0, borderTop: solid ? `1.5px solid ${c}` : `1px dashed ${c}`, flexShrink:0 }} />}
-            <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>{label}</span>
-          </div>
-        ))}
-        <div style={{ borderTop:'1px solid rgba(0,194,255,.06)', marginTop:5, paddingTop:5 }}>
-          <div style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
-            <div style={{ width:18, height:0, borderTop:'1.5px solid rgba(0,194,255,.7)', flexShrink:0 }} />
-            <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>PAST ORBIT</span>
-          </div>
-          <div style={{ display:'flex', alignItems:'center', gap:8 }}>
-            <div style={{ width:18, height:0, borderTop:'1px dashed rgba(0,194,255,.4)', flexShrink:0 }} />
-            <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>FUTURE PATH</span>
+      {!isGlobe && (
+        <div style={{ position:'absolute', top:12, right:12, zIndex:460, background:'rgba(11,15,26,.9)', border:'1px solid rgba(0,194,255,.1)', padding:'8px 12px', pointerEvents:'none' }}>
+          {[
+            { c:'rgba(0,194,255,.5)',   label:'EQUATOR',  dot:false, solid:false },
+            { c:'rgba(184,115,51,.45)', label:'TROPICS',  dot:false, solid:false },
+            { c:'rgba(0,150,200,.35)',  label:'POLAR',    dot:false, solid:false },
+            { c:'rgba(46,139,87,.45)',  label:'OBSERVER', dot:false, solid:true  },
+            { c:'#4285f4',              label:'YOU',      dot:true,  solid:false },
+            ...(aoi && layout.aoi.visible ? [{ c:AOI_COLOR, label:'AREA', dot:false, solid:true }] : []),
+          ].map(({ c, label, dot, solid }) => (
+            <div key={label} style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+              {dot ? <div style={{ width:7, height:7, borderRadius:'50%', background:c, border:'1.5px solid #fff', flexShrink:0 }} /> : <div style={{ width:18, height:0, borderTop: solid ? `1.5px solid ${c}` : `1px dashed ${c}`, flexShrink:0 }} />}
+              <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>{label}</span>
+            </div>
+          ))}
+          <div style={{ borderTop:'1px solid rgba(0,194,255,.06)', marginTop:5, paddingTop:5 }}>
+            <div style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+              <div style={{ width:18, height:0, borderTop:'1.5px solid rgba(0,194,255,.7)', flexShrink:0 }} />
+              <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>PAST ORBIT</span>
+            </div>
+            <div style={{ display:'flex', alignItems:'center', gap:8 }}>
+              <div style={{ width:18, height:0, borderTop:'1px dashed rgba(0,194,255,.4)', flexShrink:0 }} />
+              <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>FUTURE PATH</span>
+            </div>
           </div>
+          {showFootprints && (
+            <div style={{ borderTop:'1px solid rgba(0,194,255,.06)', marginTop:5, paddingTop:5 }}>
+              <div style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+                <div style={{ width:18, height:0, borderTop:'1px solid rgba(0,194,255,.6)', flexShrink:0 }} />
+                <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>FOOTPRINT · REACHES OBS</span>
+              </div>
+              <div style={{ display:'flex', alignItems:'center', gap:8 }}>
+                <div style={{ width:18, height:0, borderTop:'1px dashed rgba(0,194,255,.35)', flexShrink:0 }} />
+                <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>FOOTPRINT ≥{footprintMinEl}° EL</span>
+              </div>
+            </div>
+          )}
+          {showNight && (
+            <div style={{ borderTop:'1px solid rgba(0,194,255,.06)', marginTop:5, paddingTop:5 }}>
+              <div style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+                <div style={{ width:18, height:0, borderTop:'1px dashed rgba(255,208,96,.55)', flexShrink:0 }} />
+                <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>TERMINATOR</span>
+              </div>
+              <div style={{ display:'flex', alignItems:'center', gap:8, marginBottom:3 }}>
+                <div style={{ display:'flex', width:18, height:6, flexShrink:0 }}>
+                  {[1, 2, 3, 4].map(n => (
+                    <div key={n} style={{ flex:1, background:`rgba(140,180,210,${0.5 - n * 0.1})` }} />
+                  ))}
+                </div>
+                <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>CIV · NAU · AST · NIGHT</span>
+              </div>
+              <div style={{ display:'flex', alignItems:'center', gap:8 }}>
+                <div style={{ width:7, height:7, borderRadius:'50%', background:'#ffd060', boxShadow:'0 0 6px #ffd060', margin:'0 5.5px', flexShrink:0 }} />
+                <span style={{ fontFamily:"'Share Tech Mono',monospace", fontSize:8, letterSpacing:1.5, color:'rgba(0,194,255,.28)' }}>SUBSOLAR</span>
+              </div>
+            </div>
+          )}
         </div>
-      </div>
+      )}
 
       {isTransition && <div style={{ position:'absolute', inset:0, zIndex:500, pointerEvents:'none', background:'rgba(11,15,26,.22)', animation:'__blink 0.4s ease' }} />}
 
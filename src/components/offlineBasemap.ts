@@ -0,0 +1,115 @@
+/**
+ * offlineBasemap.ts
+ *
+ * A base map that needs no tile server: Natural Earth 1:110m country
+ * polygons (public domain, bundled in src/data) drawn into canvas tiles in
+ * the browser. Coarse, but enough to orient ground tracks and footprints up
+ * to country level, and it keeps working on a network with no tiles at all.
+ *
+ * The GeoJSON is fetched as its own chunk the first time the offline source
+ * is shown, projected to Web Mercator once, and each tile then only draws
+ * the polygons whose bounding box overlaps it.
+ */
+
+import L from 'leaflet';
+import type { FeatureCollection, Geometry } from 'geojson';
+import type { TileSource } from '../lib/tileSources';
+
+const TILE = 256;
+const OCEAN  = '#0B0F1A';
+const LAND   = '#131B2B';
+const BORDER = 'rgba(0,194,255,.18)';
+const MAX_LAT = 85.0511;
+
+interface ProjectedPolygon {
+  /** Rings as x, y pairs in [0, 1] Web Mercator units */
+  rings: Float64Array[];
+  minX: number; minY: number; maxX: number; maxY: number;
+}
+
+let projected: Promise<ProjectedPolygon[]> | null = null;
+
+function project(fc: FeatureCollection<Geometry>): ProjectedPolygon[] {
+  const out: ProjectedPolygon[] = [];
+  fc.features.forEach(({ geometry: g }) => {
+    const polygons = g.type === 'Polygon' ? [g.coordinates] : g.type === 'MultiPolygon' ? g.coordinates : [];
+    polygons.forEach((poly) => {
+      const p: ProjectedPolygon = { rings: [], minX: 1, minY: 1, maxX: 0, maxY: 0 };
+      poly.forEach((ring) => {
+        const xy = new Float64Array(ring.length * 2);
+        ring.forEach(([lon, lat], i) => {
+          const phi = Math.max(-MAX_LAT, Math.min(MAX_LAT, lat)) * Math.PI / 180;
+          const x = (lon + 180) / 360;
+          const y = 0.5 - Math.log(Math.tan(Math.PI / 4 + phi / 2)) / (2 * Math.PI);
+          xy[i * 2] = x; xy[i * 2 + 1] = y;
+          p.minX = Math.min(p.minX, x); p.maxX = Math.max(p.maxX, x);
+          p.minY = Math.min(p.minY, y); p.maxY = Math.max(p.maxY, y);
+        });
+        p.rings.push(xy);
+      });
+      out.push(p);
+    });
+  });
+  return out;
+}
+
+/** The bundled countries, loaded on first use (also used by the globe). */
+export function loadNaturalEarth(): Promise<FeatureCollection<Geometry>> {
+  return import('../data/ne_110m_admin_0_countries.json').then(m => m.default as unknown as FeatureCollection<Geometry>);
+}
+
+function loadProjected(): Promise<ProjectedPolygon[]> {
+  projected ??= loadNaturalEarth().then(project);
+  return projected;
+}
+
+function drawTile(canvas: HTMLCanvasElement, coords: L.Coords, polygons: ProjectedPolygon[]) {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = canvas.height = TILE * dpr;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+  ctx.fillStyle = OCEAN;
+  ctx.fillRect(0, 0, TILE, TILE);
+
+  const scale = TILE * 2 ** coords.z;
+  const ox = coords.x * TILE, oy = coords.y * TILE;
+  ctx.lineWidth = coords.z < 3 ? 0.5 : 0.8;
+  ctx.lineJoin = 'round';
+
+  polygons.forEach((p) => {
+    if (p.maxX * scale < ox || p.minX * scale > ox + TILE || p.maxY * scale < oy || p.minY * scale > oy + TILE) return;
+    ctx.beginPath();
+    p.rings.forEach((xy) => {
+      for (let i = 0; i < xy.length; i += 2) {
+        const x = xy[i] * scale - ox, y = xy[i + 1] * scale - oy;
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      }
+      ctx.closePath();
+    });
+    ctx.fillStyle = LAND;
+    ctx.fill('evenodd');
+    ctx.strokeStyle = BORDER;
+    ctx.stroke();
+  });
+}
+
+// Leaflet's extension point for generated tiles is subclassing GridLayer
+class OfflineGridLayer extends L.GridLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const canvas = document.createElement('canvas');
+    loadProjected()
+      .then((polygons) => { drawTile(canvas, coords, polygons); done(undefined, canvas); })
+      .catch((e: Error) => done(e, canvas));
+    return canvas;
+  }
+}
+
+export function createOfflineBasemap(source: TileSource, opacity = 1): L.GridLayer {
+  return new OfflineGridLayer({
+    attribution: source.attribution,
+    minZoom: source.minZoom,
+    maxZoom: source.maxZoom,
+    tileSize: TILE,
+    opacity,
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * satelliteCanvasLayer.ts
+ *
+ * Draws satellite markers onto one <canvas> over the Leaflet map, for
+ * catalogs far too large for a DivIcon per object. Each colour is rendered
+ * once into a sprite and stamped with drawImage, so a frame of ~10 000
+ * markers stays within a few milliseconds.
+ *
+ * The canvas covers the map container and is redrawn (once per animation
+ * frame at most) on move, resize and marker updates; it is hidden for the
+ * zoom animation and redrawn at the new zoom. Every world copy in view is
+ * drawn, like Leaflet does for markers with worldCopyJump.
+ *
+ * Hit-testing uses a uniform grid of the drawn screen positions, rebuilt on
+ * each draw: hover and click look at the 3×3 cells around the pointer.
+ */
+
+import L, { type Map as LeafletMap } from 'leaflet';
+
+export interface CanvasMarker {
+  id: string;
+  lat: number;
+  lon: number;
+  color: string;
+}
+
+export interface SatelliteCanvasLayer {
+  setMarkers: (markers: CanvasMarker[]) => void;
+  remove: () => void;
+}
+
+interface Options {
+  /** Fired when the marker under the pointer changes, with the world copy it was drawn at */
+  onHover?: (marker: CanvasMarker | null, at: L.LatLng | null) => void;
+  onClick?: (marker: CanvasMarker) => void;
+}
+
+const PANE = 'satelliteCanvas';
+const DOT_RADIUS = 4;
+const GLOW_RADIUS = 8;
+const HIT_RADIUS = 7;
+const CELL = 24;
+
+/** Same look as the unselected DivIcon: glow, white-cored dot, light rim. */
+function makeSprite(color: string, dpr: number): HTMLCanvasElement {
+  const size = GLOW_RADIUS * 2;
+  const c = document.createElement('canvas');
+  c.width = c.height = Math.ceil(size * dpr);
+  const ctx = c.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+  const mid = GLOW_RADIUS;
+
+  const glow = ctx.createRadialGradient(mid, mid, DOT_RADIUS * 0.5, mid, mid, GLOW_RADIUS);
+  glow.addColorStop(0, color + '55');
+  glow.addColorStop(1, color + '00');
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, size, size);
+
+  const dot = ctx.createRadialGradient(mid, mid, 0, mid, mid, DOT_RADIUS);
+  dot.addColorStop(0, 'rgba(255,255,255,.8)');
+  dot.addColorStop(0.4, color);
+  dot.addColorStop(1, color + 'bf');
+  ctx.beginPath();
+  ctx.arc(mid, mid, DOT_RADIUS, 0, Math.PI * 2);
+  ctx.fillStyle = dot;
+  ctx.fill();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = 'rgba(255,255,255,.6)';
+  ctx.stroke();
+  return c;
+}
+
+export function createSatelliteCanvasLayer(map: LeafletMap, opts: Options = {}): SatelliteCanvasLayer {
+  const pane = map.getPane(PANE) ?? map.createPane(PANE);
+  // above tracks and footprints, below the DivIcon markers (600)
+  pane.style.zIndex = '590';
+  pane.style.pointerEvents = 'none';
+
+  const canvas = L.DomUtil.create('canvas', '', pane);
+  const ctx = canvas.getContext('2d')!;
+  let dpr = window.devicePixelRatio || 1;
+  const sprites = new Map<string, HTMLCanvasElement>();
+
+  let markers: CanvasMarker[] = [];
+  // the markers of the last draw and their screen positions: x, y, index
+  let drawn: CanvasMarker[] = [];
+  let drawnX = new Float32Array(0);
+  let drawnY = new Float32Array(0);
+  let drawnIdx = new Int32Array(0);
+  let drawnCount = 0;
+  const grid = new Map<number, number[]>();
+  let hovered: CanvasMarker | null = null;
+  let pointer: L.Point | null = null;
+  let frame = 0;
+
+  const sprite = (color: string) => {
+    let s = sprites.get(color);
+    if (!s) { s = makeSprite(color, dpr); sprites.set(color, s); }
+    return s;
+  };
+
+  const draw = () => {
+    frame = 0;
+    const size = map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+    if (ratio !== dpr) { dpr = ratio; sprites.clear(); }
+
+    // the pane moves with the map; pin the canvas to the container's corner
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    if (canvas.width !== Math.round(size.x * dpr) || canvas.height !== Math.round(size.y * dpr)) {
+      canvas.width = Math.round(size.x * dpr);
+      canvas.height = Math.round(size.y * dpr);
+      canvas.style.width = `${size.x}px`;
+      canvas.style.height = `${size.y}px`;
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const worldWidth = map.options.crs!.scale(map.getZoom());
+    const capacity = markers.length * 3;
+    if (drawnX.length < capacity) {
+      drawnX = new Float32Array(capacity);
+      drawnY = new Float32Array(capacity);
+      drawnIdx = new Int32Array(capacity);
+    }
+    drawn = markers;
+    drawnCount = 0;
+    grid.clear();
+
+    const d = GLOW_RADIUS * 2;
+    markers.forEach((m, i) => {
+      const p = map.latLngToContainerPoint([m.lat, m.lon]);
+      if (p.y < -GLOW_RADIUS || p.y > size.y + GLOW_RADIUS) return;
+      const img = sprite(m.color);
+      for (let k = Math.ceil((-GLOW_RADIUS - p.x) / worldWidth); ; k++) {
+        const x = p.x + k * worldWidth;
+        if (x > size.x + GLOW_RADIUS) break;
+        ctx.drawImage(img, (x - GLOW_RADIUS) * dpr, (p.y - GLOW_RADIUS) * dpr, d * dpr, d * dpr);
+        if (drawnCount < drawnX.length) {
+          drawnX[drawnCount] = x; drawnY[drawnCount] = p.y; drawnIdx[drawnCount] = i;
+          const key = Math.floor(x / CELL) * 4096 + Math.floor(p.y / CELL);
+          const cell = grid.get(key);
+          if (cell) cell.push(drawnCount); else grid.set(key, [drawnCount]);
+          drawnCount++;
+        }
+      }
+    });
+
+    // markers move under a resting pointer too: re-test, and let the hover
+    // target follow its marker
+    if (pointer) {
+      const j = hitAt(pointer);
+      if (j >= 0 && drawn[drawnIdx[j]].id === hovered?.id) {
+        hovered = drawn[drawnIdx[j]];
+        opts.onHover?.(hovered, map.containerPointToLatLng([drawnX[j], drawnY[j]]));
+      } else setHovered(j);
+    }
+  };
+
+  const schedule = () => {
+    if (!frame) frame = requestAnimationFrame(draw);
+  };
+
+  /** Index into the drawn positions of the marker under `pt`, or -1 */
+  function hitAt(pt: L.Point): number {
+    const cx = Math.floor(pt.x / CELL), cy = Math.floor(pt.y / CELL);
+    let best = -1, bestD = HIT_RADIUS * HIT_RADIUS;
+    for (let gx = cx - 1; gx <= cx + 1; gx++) {
+      for (let gy = cy - 1; gy <= cy + 1; gy++) {
+        grid.get(gx * 4096 + gy)?.forEach((j) => {
+          const dx = drawnX[j] - pt.x, dy = drawnY[j] - pt.y;
+          const dd = dx * dx + dy * dy;
+          // later markers are drawn on top, so they win ties
+          if (dd <= bestD) { bestD = dd; best = j; }
+        });
+      }
+    }
+    return best;
+  }
+
+  function setHovered(j: number) {
+    const m = j >= 0 ? drawn[drawnIdx[j]] ?? null : null;
+    if (m?.id === hovered?.id) return;
+    hovered = m;
+    map.getContainer().style.cursor = m ? 'pointer' : '';
+    opts.onHover?.(m, m ? map.containerPointToLatLng([drawnX[j], drawnY[j]]) : null);
+  }
+
+  const onMouseMove = (e: L.LeafletMouseEvent) => { pointer = e.containerPoint; setHovered(hitAt(pointer)); };
+  const onMouseOut = () => { pointer = null; setHovered(-1); };
+  const onClick = (e: L.LeafletMouseEvent) => {
+    const j = hitAt(e.containerPoint);
+    if (j >= 0 && drawn[drawnIdx[j]]) opts.onClick?.(drawn[drawnIdx[j]]);
+  };
+  const onZoomStart = () => { canvas.style.visibility = 'hidden'; setHovered(-1); };
+  const onZoomEnd = () => { canvas.style.visibility = ''; schedule(); };
+
+  map.on('move resize viewreset', schedule);
+  map.on('zoomstart', onZoomStart);
+  map.on('zoomend', onZoomEnd);
+  map.on('mousemove', onMouseMove);
+  map.on('mouseout', onMouseOut);
+  map.on('click', onClick);
+
+  return {
+    setMarkers: (next) => {
+      markers = next;
+      schedule();
+    },
+    remove: () => {
+      if (frame) cancelAnimationFrame(frame);
+      map.off('move resize viewreset', schedule);
+      map.off('zoomstart', onZoomStart);
+      map.off('zoomend', onZoomEnd);
+      map.off('mousemove', onMouseMove);
+      map.off('mouseout', onMouseOut);
+      map.off('click', onClick);
+      map.getContainer().style.cursor = '';
+      canvas.remove();
+    },
+  };
+}
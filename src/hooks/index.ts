@@ -1,8 +1,22 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { satelliteApi } from '../services/api';
 import { trackingApi } from '../services/trackingApi';
 import { wsService } from '../services/websocket';
-import { useStore } from '../stores/useStore';
+import { layoutOwner, simNow, useStore, type CachedTle } from '../stores/useStore';
+import { isLive, simTimeAt } from '../lib/simClock';
+import { getSatrec, positionAt, trackAt, withIllumination } from '../lib/propagator';
+import { dopplerAt, dopplerCurve, withTransponder } from '../lib/doppler';
+import { isCustomId } from '../lib/customObjects';
+import { nextShadowTransition, satelliteShadow, type ShadowState } from '../lib/sun';
+import { clearsMask } from '../lib/horizonMask';
+import { radarBlip, type RadarBlip } from '../lib/radar';
+import { predictPasses } from '../lib/passes';
+import type { TimelineRow } from '../lib/timeline';
+import type { SatRec } from '../lib/sgp4';
+import { findOverflights, type OverflightRow } from '../lib/overflights';
+import { mergeTransmitters } from '../lib/transmitters';
+import { resolveLayout } from '../lib/mapLayers';
+import { DEFAULT_GEOCODER_URL, DEFAULT_TILE_SOURCES, parseTileConfig, TILE_CONFIG_URL, type TileConfigResult, type TileSource } from '../lib/tileSources';
 import type {
   SatellitePosition,
   SatelliteSummary,
@@ -12,6 +26,7 @@ import type {
   PassRequest,
   DopplerRequest,
   DopplerResult,
+  Transmitter,
   ConjunctionSummary,
   ConjunctionPageResponse,
   NotificationDto,
@@ -35,14 +50,269 @@ function safeSubscribe(method: string, handler: (payload: any) => void): () => v
   return () => {}; // safe no-op unsubscribe
 }
 
+// ─── CLIENT-SIDE PROPAGATION ──────────────────────────────────────────────────
+// Positions are computed in the browser from cached TLEs (lib/propagator).
+// The backend is only hit to refresh an element set once it goes stale, or as
+// a fallback for satellites whose TLE could not be loaded.
+
+const TLE_REFRESH_MS    = 6 * 60 * 60 * 1000;
+const TLE_CHECK_MS      = 10 * 60 * 1000;
+const PROPAGATE_TICK_MS = 1000;
+/** Ground-track windows move in steps of this much simulated time */
+const TRACK_ANCHOR_MS   = 60 * 1000;
+/** Element-set requests in flight at once; a catalog category on the map can be thousands of ids */
+const TLE_FETCH_CONCURRENCY = 6;
+/** Fetched element sets are written to the store together, at most this often */
+const TLE_COMMIT_MS = 250;
+
+const tleRequests = new Map<string, Promise<void>>();
+const tleWaiting: (() => void)[] = [];
+let tleFetching = 0;
+let tleBatch: CachedTle[] = [];
+let tleCommit: Promise<void> | null = null;
+
+/** Resolves with a release callback once a request slot is free. */
+function tleSlot(): Promise<() => void> {
+  return new Promise((resolve) => {
+    const start = () => {
+      tleFetching++;
+      // newest first: a satellite just picked doesn't wait behind a whole category
+      resolve(() => { tleFetching--; tleWaiting.pop()?.(); });
+    };
+    if (tleFetching < TLE_FETCH_CONCURRENCY) start(); else tleWaiting.push(start);
+  });
+}
+
+/** Queues an entry for the next batched store write; resolves once it's written. */
+function commitTle(entry: CachedTle): Promise<void> {
+  tleBatch.push(entry);
+  if (!tleCommit) {
+    tleCommit = new Promise((resolve) => setTimeout(() => {
+      const batch = tleBatch;
+      tleBatch = [];
+      tleCommit = null;
+      useStore.getState().setTles(batch);
+      resolve();
+    }, TLE_COMMIT_MS));
+  }
+  return tleCommit;
+}
+
+function isTleStale(entry: CachedTle | undefined): boolean {
+  return !entry || Date.now() - new Date(entry.cachedAt).getTime() > TLE_REFRESH_MS;
+}
+
+/**
+ * Fetches the TLE and the satellite's name into the cache; one request per
+ * id at a time, and at most TLE_FETCH_CONCURRENCY overall. Failures keep any
+ * stale entry, so check the cache after.
+ */
+export function refreshTle(noradId: string): Promise<void> {
+  const pending = tleRequests.get(noradId);
+  if (pending) return pending;
+
+  const req = tleSlot()
+    .then((release) => Promise.all([
+      satelliteApi.tle(noradId),
+      satelliteApi.get(noradId).catch(() => null),
+    ]).finally(release))
+    .then(([tle, summary]) => {
+      const prev = useStore.getState().tles[noradId];
+      // cached under the id asked for: the body may omit it or zero-pad it
+      return commitTle({
+        tle: { ...tle, noradId },
+        name: summary?.name ?? prev?.name ?? `NORAD-${noradId}`,
+        cachedAt: new Date().toISOString(),
+      });
+    })
+    .catch(() => { /* keep the stale entry (if any); retried on the next check */ })
+    .finally(() => tleRequests.delete(noradId));
+
+  tleRequests.set(noradId, req);
+  return req;
+}
+
+/**
+ * Keeps the TLE cache fresh for the given ids and returns the cache, with
+ * user-supplied custom objects merged in. Custom ids never hit the backend.
+ */
+export function useTles(noradIds: string[]) {
+  const cached = useStore((s) => s.tles);
+  const customObjects = useStore((s) => s.customObjects);
+  const key = noradIds.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    const ids = key.split(',').filter((id) => !isCustomId(id));
+    if (!ids.length) return;
+    const check = () => ids.forEach((id) => {
+      if (isTleStale(useStore.getState().tles[id])) refreshTle(id);
+    });
+    check();
+    const interval = setInterval(check, TLE_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [key]);
+
+  return useMemo(() => {
+    if (!customObjects.length) return cached;
+    const merged: Record<string, CachedTle> = { ...cached };
+    customObjects.forEach((o) => {
+      merged[o.noradId] = { tle: o.tle, name: o.name, cachedAt: o.addedAt };
+    });
+    return merged;
+  }, [cached, customObjects]);
+}
+
+/**
+ * Propagates every id in `noradIds` locally at 1 Hz and writes the results to
+ * the store's `positions` map in a single batch per tick.
+ */
+export function useTrackedPositions(noradIds: string[]) {
+  const tles = useTles(noradIds);
+  const updatePositions = useStore((s) => s.updatePositions);
+  const observerLocation = useStore((s) => s.observerLocation);
+  const simClock = useStore((s) => s.simClock);
+  const key = noradIds.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    const ids = key.split(',');
+    const tick = () => {
+      const now = simNow();
+      const batch: SatellitePosition[] = [];
+      ids.forEach((id) => {
+        const entry = tles[id];
+        const satrec = entry && getSatrec(entry.tle);
+        if (!satrec) return;
+        const pos = positionAt(satrec, { noradId: id, name: entry.name }, now, observerLocation);
+        if (pos) batch.push(pos);
+      });
+      updatePositions(batch);
+    };
+    tick();
+    const interval = setInterval(tick, PROPAGATE_TICK_MS);
+    return () => clearInterval(interval);
+  }, [key, tles, observerLocation, updatePositions, simClock]);
+}
+
+const ECLIPSE_TICK_MS = 1000;
+// How often to search again when no transition was found within the horizon
+// (e.g. GEO outside eclipse season)
+const ECLIPSE_RESEARCH_MS = 10 * 60_000;
+
+export interface EclipseStatus extends ShadowState {
+  /** Next shadow entry/exit within 24 h, or null if there is none */
+  next: { time: Date; entering: boolean } | null;
+}
+
+/**
+ * Illumination of one satellite, updated every second, with the next eclipse
+ * entry or exit. The transition search only reruns once the previous one has
+ * passed.
+ */
+export function useEclipse(noradId: string | null) {
+  const tles = useTles(noradId ? [noradId] : []);
+  const tleEntry = noradId ? tles[noradId] : undefined;
+  const satrec = useMemo(() => (tleEntry ? getSatrec(tleEntry.tle) : null), [tleEntry]);
+  const [status, setStatus] = useState<EclipseStatus | null>(null);
+  const simClock = useStore((s) => s.simClock);
+
+  useEffect(() => {
+    if (!satrec) { setStatus(null); return; }
+    let next: EclipseStatus['next'] = null;
+    let searchedAt = Infinity;
+    let searchAfter = 0;
+
+    const tick = () => {
+      const now = simNow();
+      const shadow = satelliteShadow(satrec, now);
+      if (!shadow) { setStatus(null); return; }
+      // running backwards can cross a transition before the one found
+      const rewound = now.getTime() < searchedAt;
+      if (rewound || (next ? next.time <= now : now.getTime() >= searchAfter)) {
+        next = nextShadowTransition(satrec, now);
+        searchedAt = now.getTime();
+        searchAfter = now.getTime() + ECLIPSE_RESEARCH_MS;
+      }
+      setStatus({ ...shadow, next });
+    };
+    tick();
+    const interval = setInterval(tick, ECLIPSE_TICK_MS);
+    return () => clearInterval(interval);
+  }, [satrec, simClock]);
+
+  return status;
+}
+
 // ─── EXISTING HOOKS ───────────────────────────────────────────────────────────
 
+/**
+ * Sky radar: a blip for every id in `noradIds` that is above the observer's
+ * horizon, recomputed every second. `pending` counts ids still waiting for
+ * a TLE. Nothing is shown until an observer location is set.
+ */
+export function useRadar(noradIds: string[]) {
+  const tles = useTles(noradIds);
+  const observerLocation = useStore((s) => s.observerLocation);
+  const [blips, setBlips] = useState<RadarBlip[]>([]);
+  const simClock = useStore((s) => s.simClock);
+  const key = noradIds.join(',');
+
+  useEffect(() => {
+    if (!key || !observerLocation) {
+      setBlips([]);
+      return;
+    }
+    const ids = key.split(',');
+    const obs = { lat: observerLocation.lat, lon: observerLocation.lon, altKm: observerLocation.alt ?? 0 };
+    const tick = () => {
+      const now = simNow();
+      const next: RadarBlip[] = [];
+      ids.forEach((id) => {
+        const entry = tles[id];
+        const satrec = entry && getSatrec(entry.tle);
+        if (!satrec) return;
+        const blip = radarBlip(satrec, { noradId: id, name: entry.name }, obs, now, observerLocation.horizonMask);
+        if (blip) next.push(blip);
+      });
+      next.sort((a, b) => b.look.elevationDeg - a.look.elevationDeg);
+      setBlips(next);
+    };
+    tick();
+    const interval = setInterval(tick, PROPAGATE_TICK_MS);
+    return () => clearInterval(interval);
+  }, [key, tles, observerLocation, simClock]);
+
+  const pending = useMemo(() => (key ? key.split(',').filter((id) => !tles[id]).length : 0), [key, tles]);
+
+  return { blips, pending };
+}
+
 export function useLivePosition(noradId: string | null, pollIntervalMs = 10000) {
   const [position, setPosition] = useState<SatellitePosition | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const updatePosition = useStore((s) => s.updatePosition);
   const observerLocation = useStore((s) => s.observerLocation);
+  const simClock = useStore((s) => s.simClock);
+
+  // Local propagation takes over as soon as a usable TLE is cached
+  const tles = useTles(noradId ? [noradId] : []);
+  const tleEntry = noradId ? tles[noradId] : undefined;
+  const satrec = tleEntry ? getSatrec(tleEntry.tle) : null;
+
+  const propagateNow = useCallback(() => {
+    if (!noradId || !satrec || !tleEntry) return;
+    const pos = positionAt(satrec, { noradId, name: tleEntry.name }, simNow(), observerLocation);
+    if (pos) {
+      setPosition(pos);
+      updatePosition(noradId, pos);
+      setError(null);
+    } else {
+      setError('Position unavailable');
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [noradId, satrec, tleEntry?.name, observerLocation?.lat, observerLocation?.lon, observerLocation?.alt, observerLocation?.horizonMask, simClock]);
 
   const fetchPosition = useCallback(async () => {
     if (!noradId) return;
@@ -53,6 +323,11 @@ export function useLivePosition(noradId: string | null, pollIntervalMs = 10000)
         observerLocation?.lat,
         observerLocation?.lon
       );
+      // the server's `visible` assumes a flat horizon
+      const look = pos.lookAngles;
+      if (look && observerLocation?.horizonMask) {
+        pos.lookAngles = { ...look, visible: clearsMask(observerLocation.horizonMask, look.azimuthDeg, look.elevationDeg) };
+      }
       setPosition(pos);
       updatePosition(noradId, pos);
       setError(null);
@@ -64,13 +339,25 @@ export function useLivePosition(noradId: string | null, pollIntervalMs = 10000)
       setLoading(false);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [noradId, observerLocation?.lat, observerLocation?.lon]);
+  }, [noradId, observerLocation?.lat, observerLocation?.lon, observerLocation?.horizonMask]);
 
   useEffect(() => {
     if (!noradId) {
       setPosition(null);
       return;
     }
+    if (satrec) {
+      propagateNow();
+      const interval = setInterval(propagateNow, PROPAGATE_TICK_MS);
+      return () => clearInterval(interval);
+    }
+    if (isCustomId(noradId)) {
+      setPosition(null);
+      setError('Custom element set could not be propagated');
+      return;
+    }
+    // No TLE yet — fall back to server positions (always real time; the
+    // backend knows nothing of the simulation clock)
     fetchPosition();
     // subscribeToSatellite is an existing method — keep direct call
     const unsub = safeSubscribe('subscribeToSatellite', (pos: SatellitePosition) => {
@@ -82,9 +369,15 @@ export function useLivePosition(noradId: string | null, pollIntervalMs = 10000)
       unsub();
       clearInterval(interval);
     };
-  }, [noradId, fetchPosition, pollIntervalMs, updatePosition]);
+  }, [noradId, satrec, propagateNow, fetchPosition, pollIntervalMs, updatePosition]);
 
-  return { position, loading, error, refresh: fetchPosition };
+  return {
+    position,
+    loading,
+    error,
+    refresh: satrec ? propagateNow : fetchPosition,
+    source: (satrec ? 'local' : 'server') as 'local' | 'server',
+  };
 }
 
 export function useSatelliteList(query: string, category: string | null, page = 0) {
@@ -115,6 +408,89 @@ export function useSatelliteList(query: string, category: string | null, page =
   return { data, loading, error };
 }
 
+export function useCategories() {
+  const [categories, setCategories] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const data = await satelliteApi.categories();
+        if (!controller.signal.aborted) { setCategories(data); setError(null); }
+      } catch {
+        if (!controller.signal.aborted) setError('Failed to load categories');
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  return { categories, error };
+}
+
+/** Members of each category, up to `limit` per category (one page of the list API). */
+export function useCategoryMembers(categories: string[], limit = 100) {
+  const [members, setMembers] = useState<SatelliteSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const key = categories.join(',');
+
+  useEffect(() => {
+    if (!key) { setMembers([]); setError(null); return; }
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setLoading(true);
+        const pages = await Promise.all(key.split(',').map((cat) => satelliteApi.list(0, limit, cat)));
+        if (!controller.signal.aborted) { setMembers(pages.flatMap((p) => p.content)); setError(null); }
+      } catch {
+        if (!controller.signal.aborted) setError('Failed to load category members');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [key, limit]);
+
+  return { members, loading, error };
+}
+
+/**
+ * Transmitters of one satellite: the server catalog merged with entries
+ * imported from SatNOGS JSON. Custom objects only have imported entries, and
+ * a server failure still leaves the imported ones.
+ */
+export function useTransmitters(noradId: string | null) {
+  const imported = useStore((s) => s.importedTransmitters);
+  const [server, setServer] = useState<Transmitter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setServer([]);
+    if (!noradId || isCustomId(noradId)) { setError(null); return; }
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setLoading(true);
+        const data = await satelliteApi.transmitters(noradId);
+        if (!controller.signal.aborted) { setServer(data); setError(null); }
+      } catch {
+        if (!controller.signal.aborted) setError('Transmitter catalog unavailable');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [noradId]);
+
+  const transmitters = useMemo(
+    () => mergeTransmitters(server, imported.filter((t) => t.noradId === noradId)),
+    [server, imported, noradId],
+  );
+  return { transmitters, loading, error };
+}
+
 export function useOrbitalTrack(
   noradId: string | null,
   startIso: string,
@@ -124,15 +500,28 @@ export function useOrbitalTrack(
   const [track, setTrack] = useState<TrackResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const tles = useTles(noradId ? [noradId] : []);
+  const live = isLive(useStore((s) => s.simClock));
+  // The backend has never heard of user-supplied objects; and off the live
+  // clock fast playback would mean a request per step, so use the cached TLE
+  const localOnly = !!noradId && isCustomId(noradId);
+  const local = noradId && (localOnly || !live) ? tles[noradId] ?? null : null;
 
   useEffect(() => {
     if (!noradId) return;
+    if (localOnly || local) {
+      const satrec = local ? getSatrec(local.tle) : null;
+      if (!satrec || !local) { setTrack(null); setError('Track computation failed'); return; }
+      setTrack(trackAt(satrec, { noradId, name: local.name }, new Date(startIso), new Date(endIso), intervalSec));
+      setError(null);
+      return;
+    }
     const controller = new AbortController();
     (async () => {
       try {
         setLoading(true);
         const data = await satelliteApi.track(noradId, startIso, endIso, intervalSec);
-        if (!controller.signal.aborted) { setTrack(data); setError(null); }
+        if (!controller.signal.aborted) { setTrack(withIllumination(data)); setError(null); }
       } catch {
         if (!controller.signal.aborted) { setError('Track computation failed'); setTrack(null); }
       } finally {
@@ -140,7 +529,7 @@ export function useOrbitalTrack(
       }
     })();
     return () => controller.abort();
-  }, [noradId, startIso, endIso, intervalSec]);
+  }, [noradId, startIso, endIso, intervalSec, localOnly, local]);
 
   return { track, loading, error };
 }
@@ -170,15 +559,72 @@ export function useGeolocation() {
   return { locate, status };
 }
 
+/** Current time on the simulation clock, re-rendering every second and on any clock change. */
 export function useUtcClock() {
-  const [now, setNow] = useState(() => new Date());
+  const simClock = useStore((s) => s.simClock);
+  const [now, setNow] = useState(() => new Date(simTimeAt(simClock)));
   useEffect(() => {
-    const interval = setInterval(() => setNow(new Date()), 1000);
+    const tick = () => setNow(new Date(simTimeAt(simClock)));
+    tick();
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [simClock]);
   return now;
 }
 
+/**
+ * Simulation time rounded down to a minute, for ground-track windows: the
+ * track is fetched again whenever its window moves, and once a minute is plenty.
+ */
+export function useTrackAnchor() {
+  const ms = Math.floor(useUtcClock().getTime() / TRACK_ANCHOR_MS) * TRACK_ANCHOR_MS;
+  return useMemo(() => new Date(ms), [ms]);
+}
+
+/** The signed-in user's map layer layout, with defaults for anything unsaved. */
+export function useMapLayout() {
+  const saved = useStore((s) => s.mapLayouts[layoutOwner(s.user)]);
+  return useMemo(() => resolveLayout(saved), [saved]);
+}
+
+let tileConfig: Promise<Omit<TileConfigResult, 'rejected'>> | null = null;
+
+/** The deployment's tile config, fetched once per page load; the built-in one without it. */
+function loadTileConfig() {
+  tileConfig ??= fetch(TILE_CONFIG_URL, { cache: 'no-cache' })
+    .then((r) => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+    .then((data) => {
+      const { rejected, ...config } = parseTileConfig(data);
+      if (rejected.length) console.warn('Tile config:', rejected.join('; '));
+      return config;
+    })
+    // no config (or the SPA fallback page instead of JSON): built-in sources
+    .catch(() => ({ sources: DEFAULT_TILE_SOURCES, geocoderUrl: DEFAULT_GEOCODER_URL }));
+  return tileConfig;
+}
+
+/** Reverse geocoder URL template from the tile config; null when the deployment turned it off. */
+export function loadGeocoderUrl(): Promise<string | null> {
+  return loadTileConfig().then((c) => c.geocoderUrl);
+}
+
+/**
+ * Base map sources: the deployment's tile config when it serves one, else
+ * the built-in list. Fetched once per page load; `loaded` turns true once
+ * that settled, so no tile is requested from a server the config replaces.
+ */
+export function useTileSources() {
+  const [state, setState] = useState<{ sources: TileSource[]; loaded: boolean }>({ sources: DEFAULT_TILE_SOURCES, loaded: false });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTileConfig().then(({ sources }) => { if (!cancelled) setState({ sources, loaded: true }); });
+    return () => { cancelled = true; };
+  }, []);
+
+  return state;
+}
+
 // ─── V2 HOOKS ─────────────────────────────────────────────────────────────────
 
 export function usePassPredictions(req: PassRequest | null) {
@@ -235,37 +681,191 @@ export function useSatellitePasses(
   return { passes, loading, error };
 }
 
+/**
+ * Runs a computation for each id with a cached TLE, one satellite per
+ * macrotask so the page stays responsive; `compute` starts (or restarts) it.
+ * `prepare` gets the simulation time the run starts at and returns either
+ * the per-satellite step or a message saying why it can't run. `progress`
+ * counts satellites done; ids without a TLE yet are listed in `missing`.
+ */
+function useSatelliteBatch<R>(
+  noradIds: string[],
+  prepare: (start: Date) => string | ((satrec: SatRec, meta: { noradId: string; name: string }) => R),
+) {
+  const tles = useTles(noradIds);
+  const [rows, setRows] = useState<R[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [computedAt, setComputedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef(0);
+
+  // stop a running computation when the component goes away
+  useEffect(() => () => { runRef.current++; }, []);
+
+  const compute = useCallback(() => {
+    const start = simNow();
+    const perSatellite = prepare(start);
+    if (typeof perSatellite === 'string') { setError(perSatellite); return; }
+    const run = ++runRef.current;
+    const queue = noradIds.filter((id) => tles[id]);
+    const done: R[] = [];
+
+    setError(null);
+    setRows([]);
+    setMissing(noradIds.filter((id) => !tles[id]));
+    setProgress({ done: 0, total: queue.length });
+    setComputedAt(start);
+
+    const step = (i: number) => {
+      if (run !== runRef.current || i >= queue.length) return;
+      const entry = tles[queue[i]];
+      const satrec = getSatrec(entry.tle);
+      if (satrec) {
+        done.push(perSatellite(satrec, { noradId: queue[i], name: entry.name }));
+        setRows([...done]);
+      }
+      setProgress({ done: i + 1, total: queue.length });
+      setTimeout(() => step(i + 1), 0);
+    };
+    step(0);
+  }, [noradIds, tles, prepare]);
+
+  const loading = progress.done < progress.total;
+  return { rows, missing, progress, loading, computedAt, error, compute };
+}
+
+/**
+ * Passes for several satellites at the stored observer, predicted in the
+ * browser from cached TLEs with the observer's horizon mask.
+ */
+export function useMultiPasses(
+  noradIds: string[],
+  options: { days: number; minElevation: number; visibleOnly?: boolean },
+) {
+  const observerLocation = useStore((s) => s.observerLocation);
+  const prepare = useCallback((start: Date) => {
+    if (!observerLocation) return 'Set an observer location first';
+    const obs = { lat: observerLocation.lat, lon: observerLocation.lon, altKm: observerLocation.alt ?? 0 };
+    return (satrec: SatRec, meta: { noradId: string; name: string }): TimelineRow => ({
+      ...meta,
+      passes: predictPasses(satrec, obs, {
+        start,
+        days: options.days,
+        minElevation: options.minElevation,
+        visibleOnly: options.visibleOnly ?? false,
+        horizonMask: observerLocation.horizonMask,
+      }),
+    });
+  }, [observerLocation, options.days, options.minElevation, options.visibleOnly]);
+  return useSatelliteBatch(noradIds, prepare);
+}
+
+/** Overflights of the stored area of interest by several satellites, found in the browser from cached TLEs. */
+export function useOverflights(
+  noradIds: string[],
+  options: { days: number; maxOffNadirKm: number },
+) {
+  const aoi = useStore((s) => s.aoi);
+  const prepare = useCallback((start: Date) => {
+    if (!aoi) return 'Draw or import an area of interest first';
+    return (satrec: SatRec, meta: { noradId: string; name: string }): OverflightRow => ({
+      ...meta,
+      overflights: findOverflights(satrec, aoi, { start, days: options.days, maxOffNadirKm: options.maxOffNadirKm }),
+    });
+  }, [aoi, options.days, options.maxOffNadirKm]);
+  return useSatelliteBatch(noradIds, prepare);
+}
+
+const LOCAL_DOPPLER_STEP_SEC = 10;
+
+/** /v1/doppler/curve samples every 5 s and times out beyond this window. */
+export const SERVER_CURVE_MAX_MINUTES = 20;
+
+function observerOf(req: DopplerRequest) {
+  return { lat: req.observerLat, lon: req.observerLon, altKm: req.observerAltMeters / 1000 };
+}
+
+// The backend computes the downlink only; the uplink side is added from its range rate
+function serverRequestOf(req: DopplerRequest): DopplerRequest {
+  const { uplinkFrequencyMhz, transponderMode, ...downlink } = req;
+  return downlink;
+}
+
+function transponderOf(req: DopplerRequest): (r: DopplerResult) => DopplerResult {
+  const { uplinkFrequencyMhz: up, transponderMode: mode } = req;
+  return up != null && mode ? (r) => withTransponder(r, up, mode) : (r) => r;
+}
+
+/**
+ * Current Doppler plus a pass curve. The curve is computed in the browser from
+ * the cached TLE at any step and window length; for catalog objects the
+ * server curve is fetched alongside as `referenceCurve` when the window is
+ * short enough for the backend. Without a usable TLE the server curve is
+ * returned as `curve` instead.
+ */
 export function useDoppler(req: DopplerRequest | null) {
   const [result, setResult] = useState<DopplerResult | null>(null);
   const [curve, setCurve] = useState<DopplerResult[]>([]);
+  const [referenceCurve, setReferenceCurve] = useState<DopplerResult[]>([]);
+  const [curveSource, setCurveSource] = useState<'local' | 'server' | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const tles = useTles(req ? [req.noradId] : []);
+  const tleEntry = req ? tles[req.noradId] : undefined;
+  const satrec = useMemo(() => (tleEntry ? getSatrec(tleEntry.tle) : null), [tleEntry]);
+
   const fetchCurrent = useCallback(async () => {
     if (!req) return;
+    const xpdr = transponderOf(req);
+    // Custom objects aren't known to the backend
+    if (isCustomId(req.noradId)) {
+      const r = satrec && dopplerAt(satrec, observerOf(req), req.frequencyMhz, simNow());
+      setResult(r ? xpdr(r) : null);
+      setError(r ? null : 'Doppler calculation failed');
+      return;
+    }
     try {
       setLoading(true); setError(null);
-      setResult(await trackingApi.currentDoppler(req));
+      setResult(xpdr(await trackingApi.currentDoppler(serverRequestOf(req))));
     } catch {
       setError('Doppler calculation failed');
     } finally {
       setLoading(false);
     }
-  }, [req]);
+  }, [req, satrec]);
 
-  const fetchCurve = useCallback(async (passStart: string, passEnd: string) => {
+  const fetchCurve = useCallback(async (passStart: string, passEnd: string, stepSec = LOCAL_DOPPLER_STEP_SEC) => {
     if (!req) return;
+    const start = new Date(passStart);
+    const end = new Date(passEnd);
+    const xpdr = transponderOf(req);
+    const local = satrec ? dopplerCurve(satrec, observerOf(req), req.frequencyMhz, start, end, stepSec).map(xpdr) : [];
+    setCurve(local);
+    setReferenceCurve([]);
+    setCurveSource(local.length ? 'local' : null);
+
+    const serverCovers = !isCustomId(req.noradId)
+      && end.getTime() - start.getTime() <= SERVER_CURVE_MAX_MINUTES * 60_000;
+    if (!serverCovers) {
+      setError(local.length ? null : 'Doppler curve failed');
+      return;
+    }
     try {
       setLoading(true); setError(null);
-      setCurve(await trackingApi.dopplerCurve(req, passStart, passEnd));
+      const server = (await trackingApi.dopplerCurve(serverRequestOf(req), passStart, passEnd)).map(xpdr);
+      if (local.length) setReferenceCurve(server);
+      else { setCurve(server); setCurveSource('server'); }
     } catch {
-      setError('Doppler curve failed');
+      // the local curve stands on its own; only fail when there is nothing to show
+      if (!local.length) setError('Doppler curve failed');
     } finally {
       setLoading(false);
     }
-  }, [req]);
+  }, [req, satrec]);
 
-  return { result, curve, loading, error, fetchCurrent, fetchCurve };
+  return { result, curve, referenceCurve, curveSource, loading, error, fetchCurrent, fetchCurve };
 }
 
 /**
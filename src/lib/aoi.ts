@@ -0,0 +1,213 @@
+/**
+ * aoi.ts
+ *
+ * Area of interest for the overflight finder: one or more polygons, or a
+ * circle around a point. Drawn on the map or imported from GeoJSON.
+ *
+ * Geometry is on a sphere of radius WGS84_A, like the footprints. Polygons
+ * are tested for containment in plain lon/lat with their longitudes
+ * unwrapped, so an area across the antimeridian works; one around a pole
+ * does not. Holes in imported polygons are ignored.
+ */
+
+import { WGS84_A } from './frames';
+import { centralAngleDeg } from './footprint';
+
+export type LatLon = [number, number];
+
+export type Aoi =
+  | { kind: 'polygon'; name: string; /** Outer rings, [lat, lon], not closed */ polygons: LatLon[][] }
+  | { kind: 'circle'; name: string; center: { lat: number; lon: number }; radiusKm: number };
+
+export interface AoiImportResult {
+  aoi: Aoi | null;
+  /** One message per feature that couldn't be read */
+  rejected: string[];
+}
+
+const RAD = Math.PI / 180;
+
+/** Great-circle distance between two points, km. */
+export function groundDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return centralAngleDeg(lat1, lon1, lat2, lon2) * RAD * WGS84_A;
+}
+
+/** Consecutive longitudes no more than 180° apart, so the ring draws and tests as one piece. */
+export function unwrapRing(ring: LatLon[]): LatLon[] {
+  const out: LatLon[] = [];
+  ring.forEach(([lat, lon], i) => {
+    if (i === 0) { out.push([lat, lon]); return; }
+    const prev = out[i - 1][1];
+    out.push([lat, lon + Math.round((prev - lon) / 360) * 360]);
+  });
+  return out;
+}
+
+export function describeAoi(aoi: Aoi): string {
+  if (aoi.kind === 'circle') {
+    return `Circle r ${aoi.radiusKm.toFixed(aoi.radiusKm < 10 ? 1 : 0)} km at ${aoi.center.lat.toFixed(3)}°, ${aoi.center.lon.toFixed(3)}°`;
+  }
+  const vertices = aoi.polygons.reduce((n, p) => n + p.length, 0);
+  return `${aoi.polygons.length > 1 ? `${aoi.polygons.length} polygons` : 'Polygon'} · ${vertices} vertices`;
+}
+
+// ─── Distance ───────────────────────────────────────────────────────────────
+
+type Vec = [number, number, number];
+
+function unit(lat: number, lon: number): Vec {
+  const p = lat * RAD, l = lon * RAD;
+  return [Math.cos(p) * Math.cos(l), Math.cos(p) * Math.sin(l), Math.sin(p)];
+}
+
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const angle = (a: Vec, b: Vec) => Math.atan2(Math.hypot(...cross(a, b)), dot(a, b));
+
+interface Edge { a: Vec; b: Vec; /** Unit normal of the edge's great circle; null for a degenerate edge */ n: Vec | null }
+
+/** Angle from p to the great-circle arc a→b, radians. */
+function edgeDistance(p: Vec, { a, b, n }: Edge): number {
+  if (n) {
+    const s = dot(p, n);
+    const c: Vec = [p[0] - s * n[0], p[1] - s * n[1], p[2] - s * n[2]];
+    // the foot of the perpendicular lies on the arc itself
+    if (dot(cross(a, c), n) >= 0 && dot(cross(c, b), n) >= 0) return Math.asin(Math.min(1, Math.abs(s)));
+  }
+  return Math.min(angle(p, a), angle(p, b));
+}
+
+function inRing(ring: LatLon[], lat: number, lon: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [yi, xi] = ring[i], [yj, xj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Signed ground distance from a point to the area, km: negative inside (by
+ * how far the edge is), positive outside.
+ *
+ * Checking every edge of a large imported polygon at each step adds up, so
+ * beyond `exactWithinKm` the result may be the cheaper distance to the
+ * area's enclosing circle, which never overstates the true one.
+ */
+export type AoiDistance = (lat: number, lon: number, exactWithinKm?: number) => number;
+
+export function aoiDistance(aoi: Aoi): AoiDistance {
+  if (aoi.kind === 'circle') {
+    const { center, radiusKm } = aoi;
+    return (lat, lon) => groundDistanceKm(lat, lon, center.lat, center.lon) - radiusKm;
+  }
+
+  const rings = aoi.polygons.map(unwrapRing);
+  const edges: Edge[] = [];
+  const sum: Vec = [0, 0, 0];
+  rings.forEach((ring) => {
+    const v = ring.map(([lat, lon]) => unit(lat, lon));
+    v.forEach((a, i) => {
+      const b = v[(i + 1) % v.length];
+      const n = cross(a, b);
+      const len = Math.hypot(...n);
+      edges.push({ a, b, n: len > 1e-12 ? [n[0] / len, n[1] / len, n[2] / len] : null });
+      sum[0] += a[0]; sum[1] += a[1]; sum[2] += a[2];
+    });
+  });
+  const sumLen = Math.hypot(...sum) || 1;
+  const center: Vec = [sum[0] / sumLen, sum[1] / sumLen, sum[2] / sumLen];
+  const capRad = Math.max(0, ...edges.map(e => angle(center, e.a)));
+
+  return (lat, lon, exactWithinKm = Infinity) => {
+    const p = unit(lat, lon);
+    // an enclosing circle over a hemisphere says nothing useful
+    if (capRad < Math.PI / 2) {
+      const lowerKm = (angle(p, center) - capRad) * WGS84_A;
+      if (lowerKm > exactWithinKm) return lowerKm;
+    }
+    let edgeRad = Infinity;
+    edges.forEach((e) => { edgeRad = Math.min(edgeRad, edgeDistance(p, e)); });
+    const inside = rings.some(ring => [lon, lon - 360, lon + 360].some(l => inRing(ring, lat, l)));
+    return (inside ? -edgeRad : edgeRad) * WGS84_A;
+  };
+}
+
+// ─── GeoJSON import ─────────────────────────────────────────────────────────
+
+function toLatLonRing(coords: unknown): LatLon[] | null {
+  if (!Array.isArray(coords)) return null;
+  const ring: LatLon[] = [];
+  for (const c of coords) {
+    if (!Array.isArray(c) || typeof c[0] !== 'number' || typeof c[1] !== 'number') return null;
+    const [lon, lat] = c;
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90) return null;
+    ring.push([lat, lon]);
+  }
+  // GeoJSON rings repeat the first position at the end
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) ring.pop();
+  return ring.length >= 3 ? ring : null;
+}
+
+function radiusOf(props: Record<string, unknown>): number | null {
+  const km = Number(props.radiusKm ?? (props.radius != null ? Number(props.radius) / 1000 : NaN));
+  return Number.isFinite(km) && km > 0 ? km : null;
+}
+
+/**
+ * Reads a GeoJSON FeatureCollection, Feature or bare geometry. Every Polygon
+ * and MultiPolygon goes into one area; with none, a Point with a
+ * `radiusKm` (or `radius` in metres) property becomes a circle.
+ */
+export function parseAoiGeoJson(text: string, fallbackName = 'Imported area'): AoiImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { aoi: null, rejected: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+
+  const root = data as { type?: unknown; features?: unknown; geometry?: unknown; properties?: unknown } | null;
+  if (!root || typeof root !== 'object') return { aoi: null, rejected: ['Expected a GeoJSON object'] };
+  const features = root.type === 'FeatureCollection' && Array.isArray(root.features) ? root.features
+    : root.type === 'Feature' ? [root]
+    : [{ type: 'Feature', geometry: root, properties: {} }];
+
+  const polygons: LatLon[][] = [];
+  const circles: Extract<Aoi, { kind: 'circle' }>[] = [];
+  const rejected: string[] = [];
+  let name: string | null = null;
+
+  features.forEach((f, i) => {
+    const { geometry: g, properties } = (f ?? {}) as { geometry?: { type?: unknown; coordinates?: unknown }; properties?: unknown };
+    const props = (properties && typeof properties === 'object' ? properties : {}) as Record<string, unknown>;
+    const label = `Feature ${i + 1}`;
+    const rings = g?.type === 'Polygon' && Array.isArray(g.coordinates) ? [g.coordinates[0]]
+      : g?.type === 'MultiPolygon' && Array.isArray(g.coordinates) ? g.coordinates.map((p: unknown) => (Array.isArray(p) ? p[0] : null))
+      : null;
+
+    if (rings) {
+      const read = rings.map(toLatLonRing);
+      if (read.some(r => !r)) { rejected.push(`${label}: a ring needs at least 3 valid [lon, lat] positions`); return; }
+      polygons.push(...(read as LatLon[][]));
+    } else if (g?.type === 'Point' && Array.isArray(g.coordinates)) {
+      const [lon, lat] = g.coordinates as unknown[];
+      const radiusKm = radiusOf(props);
+      if (typeof lat !== 'number' || typeof lon !== 'number') { rejected.push(`${label}: point has no valid [lon, lat]`); return; }
+      if (!radiusKm) { rejected.push(`${label}: a point needs a "radiusKm" property`); return; }
+      circles.push({ kind: 'circle', name: '', center: { lat, lon }, radiusKm });
+    } else {
+      rejected.push(`${label}: ${String(g?.type ?? 'no geometry')} is not a Polygon, MultiPolygon or Point`);
+      return;
+    }
+    if (!name && typeof props.name === 'string' && props.name.trim()) name = props.name.trim();
+  });
+
+  if (polygons.length) {
+    if (circles.length) rejected.push(`${circles.length} point${circles.length > 1 ? 's' : ''} ignored next to polygons`);
+    return { aoi: { kind: 'polygon', name: name ?? fallbackName, polygons }, rejected };
+  }
+  if (circles.length > 1) rejected.push(`Only the first of ${circles.length} points is used`);
+  return { aoi: circles.length ? { ...circles[0], name: name ?? fallbackName } : null, rejected };
+}
@@ -0,0 +1,135 @@
+/**
+ * customObjects.ts
+ *
+ * User-supplied element sets for objects the backend doesn't know about
+ * (new launches, cubesats before cataloguing, analyst objects).
+ *
+ * Accepts two/three-line element sets and CCSDS OMM in any encoding.
+ *
+ * Every custom object gets a "USER-" id so it can never collide with — or be
+ * mistaken for — a catalog NORAD id, and so any code path can tell at a
+ * glance that it must stay client-side. The id carries the name as well as
+ * the catalog number: objects without a NORAD id usually share a placeholder
+ * number such as 99999 or 00000.
+ */
+
+import type { CustomObject, SatelliteSummary } from '../types';
+import { parseTle, splitTleSets } from './tle';
+import { detectOmmFormat, ommToTleInfo, parseOmm } from './omm';
+
+export const CUSTOM_ID_PREFIX = 'USER-';
+export const CUSTOM_CATEGORY = 'CUSTOM';
+
+export function isCustomId(noradId: string | null | undefined): boolean {
+  return !!noradId && noradId.startsWith(CUSTOM_ID_PREFIX);
+}
+
+export interface ElementImportResult {
+  objects: CustomObject[];
+  /** Per-set problems, keyed by the set's display name */
+  rejected: { name: string; messages: string[] }[];
+  /** Lines that couldn't be paired into a set at all */
+  unmatched: string[];
+  /** Names of sets dropped for a later one with the same catalog number and name */
+  duplicates: string[];
+}
+
+/** 32-bit FNV-1a, for names with nothing left after slugging */
+function nameHash(name: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) h = Math.imul(h ^ name.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36).toUpperCase();
+}
+
+/**
+ * Id for a custom object. The same catalog number and name is taken to be
+ * the same object, so importing a newer element set for it replaces the old
+ * one; a different name under the same number is a different object.
+ */
+export function customObjectId(catalogNumber: string | number, name: string): string {
+  const trimmed = name.trim();
+  const slug = trimmed.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const suffix = slug || (trimmed ? nameHash(trimmed) : '');
+  return `${CUSTOM_ID_PREFIX}${String(catalogNumber).trim()}${suffix ? `-${suffix}` : ''}`;
+}
+
+/**
+ * Parses pasted/uploaded text into custom objects. OMM (JSON, XML or KVN) is
+ * detected first; anything else is read as TLEs. Sets with parse errors are
+ * rejected; TLEs with only warnings (e.g. checksum) are kept.
+ */
+export function importElementText(text: string, now = new Date()): ElementImportResult {
+  // keyed by id so a set repeated within one paste keeps only its last copy
+  const objects = new Map<string, CustomObject>();
+  const duplicates: string[] = [];
+  const add = (obj: CustomObject) => {
+    const prev = objects.get(obj.noradId);
+    if (prev) { duplicates.push(prev.name); objects.delete(obj.noradId); }
+    objects.set(obj.noradId, obj);
+  };
+
+  if (detectOmmFormat(text)) {
+    const { records, errors } = parseOmm(text);
+    records.forEach((omm) => {
+      const noradId = customObjectId(omm.NORAD_CAT_ID, omm.OBJECT_NAME ?? '');
+      add({
+        noradId,
+        name: omm.OBJECT_NAME || `OBJECT ${omm.NORAD_CAT_ID}`,
+        addedAt: now.toISOString(),
+        tle: ommToTleInfo(omm, 'user', now.toISOString(), noradId),
+      });
+    });
+    return {
+      objects: Array.from(objects.values()),
+      rejected: errors.length ? [{ name: 'OMM', messages: errors }] : [],
+      unmatched: [],
+      duplicates,
+    };
+  }
+
+  const { sets, unmatched } = splitTleSets(text);
+  const rejected: ElementImportResult['rejected'] = [];
+
+  sets.forEach((set) => {
+    const parsed = parseTle(set.line1, set.line2);
+    const name = set.name || `OBJECT ${set.line1.substring(2, 7).trim()}`;
+    if (!parsed.elements) {
+      rejected.push({
+        name,
+        messages: parsed.issues
+          .filter((i) => i.severity === 'error')
+          .map((i) => `Line ${i.line}${i.column ? `, col ${i.column}` : ''}: ${i.message}`),
+      });
+      return;
+    }
+    const noradId = customObjectId(parsed.elements.noradId, set.name ?? '');
+    add({
+      noradId,
+      name,
+      addedAt: now.toISOString(),
+      tle: {
+        noradId,
+        line1: set.line1,
+        line2: set.line2,
+        epoch: parsed.elements.epoch.toISOString(),
+        source: 'user',
+        fetchedAt: now.toISOString(),
+      },
+    });
+  });
+
+  return { objects: Array.from(objects.values()), rejected, unmatched, duplicates };
+}
+
+/** Minimal catalog-shaped entry so custom objects can share list/card UI. */
+export function customObjectToSummary(obj: CustomObject): SatelliteSummary {
+  return {
+    id: 0,
+    noradId: obj.noradId,
+    name: obj.name,
+    category: CUSTOM_CATEGORY,
+    description: 'User-supplied element set',
+    active: true,
+    tleEpoch: obj.tle.epoch,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * doppler.ts
+ *
+ * Browser-side Doppler shift from the SGP4 range rate, returning the same
+ * DopplerResult shape as /v1/doppler so results from either source can be
+ * displayed and compared side by side.
+ *
+ *   Δf = −f₀ · ṙ / c      (first-order, non-relativistic)
+ *
+ * For a linear transponder the uplink is corrected the other way, so the
+ * satellite hears the same frequency all pass ("one true frequency"): the
+ * ground transmits f_up · (1 + ṙ/c) and receives f_down · (1 − ṙ/c).
+ */
+
+import type { DopplerResult, TransponderMode } from '../types';
+import { gstime, julianDate, propagate, type SatRec } from './sgp4';
+import { eciToEcf, eciVelocityToEcf, lookAngles, type ObserverGeodetic } from './frames';
+
+export const SPEED_OF_LIGHT_KM_S = 299_792.458;
+
+export function dopplerAt(satrec: SatRec, obs: ObserverGeodetic, frequencyMhz: number, time: Date): DopplerResult | null {
+  const sv = propagate(satrec, time);
+  if (!sv) return null;
+  const gmst = gstime(julianDate(time));
+  const look = lookAngles(
+    obs,
+    eciToEcf(sv.position, gmst),
+    eciVelocityToEcf(sv.position, sv.velocity, gmst),
+  );
+  const shiftHz = -frequencyMhz * 1e6 * (look.rangeRateKmPerS / SPEED_OF_LIGHT_KM_S);
+
+  return {
+    dopplerShiftHz: shiftHz,
+    observedFrequencyMhz: frequencyMhz + shiftHz / 1e6,
+    radialVelocityKms: look.rangeRateKmPerS,
+    elevationDeg: look.elevationDeg,
+    rangKm: look.rangeKm,
+    nominalFrequencyMhz: frequencyMhz,
+    computedAt: time.toISOString(),
+  };
+}
+
+/**
+ * Adds the uplink side of a linear transponder to a downlink result. Only the
+ * range rate is needed, so this works on server results as well.
+ *
+ * The satellite's output moves with its input: an uplink offset δ appears on
+ * the downlink as +δ (non-inverting) or −δ (inverting). That is what the
+ * fixed-uplink figure shows — with an inverting transponder the uplink
+ * Doppler largely cancels the downlink's.
+ */
+export function withTransponder(r: DopplerResult, uplinkMhz: number, mode: TransponderMode): DopplerResult {
+  const beta = r.radialVelocityKms / SPEED_OF_LIGHT_KM_S;
+  const heardOffsetMhz = -uplinkMhz * beta;
+  const sign = mode === 'INVERTING' ? -1 : 1;
+  return {
+    ...r,
+    uplinkFrequencyMhz: uplinkMhz,
+    transponderMode: mode,
+    correctedUplinkMhz: uplinkMhz * (1 + beta),
+    fixedUplinkDownlinkMhz: (r.nominalFrequencyMhz + sign * heardOffsetMhz) * (1 - beta),
+  };
+}
+
+/** Samples the Doppler curve every `stepSec` seconds over [start, end]. */
+export function dopplerCurve(
+  satrec: SatRec,
+  obs: ObserverGeodetic,
+  frequencyMhz: number,
+  start: Date,
+  end: Date,
+  stepSec: number,
+): DopplerResult[] {
+  const out: DopplerResult[] = [];
+  const stepMs = Math.max(1, stepSec) * 1000;
+  for (let t = start.getTime(); t <= end.getTime(); t += stepMs) {
+    const r = dopplerAt(satrec, obs, frequencyMhz, new Date(t));
+    if (r) out.push(r);
+  }
+  return out;
+}
+
+export interface CurveComparison {
+  /** Reference samples that fell inside the local curve's time span */
+  count:    number;
+  maxAbsHz: number;
+  rmsHz:    number;
+  meanHz:   number;
+}
+
+/**
+ * Differences `curve` against `reference` at the reference's timestamps,
+ * linearly interpolating `curve` between its own samples. Both must be in
+ * ascending time order. Returns null when the two don't overlap.
+ */
+export function compareCurves(curve: DopplerResult[], reference: DopplerResult[]): CurveComparison | null {
+  if (curve.length < 2 || !reference.length) return null;
+  const times = curve.map((p) => new Date(p.computedAt).getTime());
+  let i = 0, count = 0, sum = 0, sumSq = 0, maxAbs = 0;
+
+  reference.forEach((ref) => {
+    const t = new Date(ref.computedAt).getTime();
+    if (t < times[0] || t > times[times.length - 1]) return;
+    while (i < times.length - 2 && times[i + 1] < t) i++;
+    const span = times[i + 1] - times[i];
+    const f = span > 0 ? (t - times[i]) / span : 0;
+    const local = curve[i].dopplerShiftHz + f * (curve[i + 1].dopplerShiftHz - curve[i].dopplerShiftHz);
+    const d = local - ref.dopplerShiftHz;
+    count++; sum += d; sumSq += d * d;
+    maxAbs = Math.max(maxAbs, Math.abs(d));
+  });
+
+  if (!count) return null;
+  return { count, maxAbsHz: maxAbs, rmsHz: Math.sqrt(sumSq / count), meanHz: sum / count };
+}
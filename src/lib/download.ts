@@ -0,0 +1,16 @@
+/**
+ * download.ts
+ *
+ * Saves generated text (CSV, JSON, calendars, map formats) as a file through
+ * a temporary object URL.
+ */
+
+export function downloadText(filename: string, text: string, mimeType = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
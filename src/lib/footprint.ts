@@ -0,0 +1,108 @@
+/**
+ * footprint.ts
+ *
+ * Coverage footprint of a satellite: the ground area from which it is above
+ * a minimum elevation. On a spherical earth that is a small circle around the
+ * sub-satellite point with earth-central half-angle
+ *
+ *   λ₀ = acos(Rₑ / (Rₑ + h) · cos ε) − ε
+ *
+ * The circle is traced geodesically and then cut into rings Leaflet can draw
+ * on a single world copy: a footprint over the antimeridian is repeated 360°
+ * east or west, and one that contains a pole is closed along that pole.
+ */
+
+import { WGS84_A, wrapLongitude } from './frames';
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+
+/** Earth-central half-angle of the footprint, degrees. */
+export function footprintHalfAngleDeg(altKm: number, minElevationDeg = 0): number {
+  const eps = minElevationDeg * RAD;
+  const ratio = WGS84_A / (WGS84_A + Math.max(0, altKm));
+  return (Math.acos(ratio * Math.cos(eps)) - eps) * DEG;
+}
+
+/** Great-circle angle between two points, degrees. */
+export function centralAngleDeg(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const p1 = lat1 * RAD, p2 = lat2 * RAD;
+  const dl = (lon2 - lon1) * RAD;
+  const c = Math.sin(p1) * Math.sin(p2) + Math.cos(p1) * Math.cos(p2) * Math.cos(dl);
+  return Math.acos(Math.max(-1, Math.min(1, c))) * DEG;
+}
+
+/** True when a ground point sees the satellite above the minimum elevation. */
+export function footprintCovers(
+  sat: { latitudeDeg: number; longitudeDeg: number; altitudeKm: number },
+  point: { lat: number; lon: number },
+  minElevationDeg = 0,
+): boolean {
+  return centralAngleDeg(sat.latitudeDeg, sat.longitudeDeg, point.lat, point.lon)
+    <= footprintHalfAngleDeg(sat.altitudeKm, minElevationDeg);
+}
+
+/**
+ * Footprint edge as one [lat, lon] loop, sampled every `stepDeg` of azimuth.
+ * Longitudes are unwrapped, so a loop around a pole ends 360° from where it
+ * started. Empty when the satellite can't clear the minimum elevation.
+ */
+export function footprintCircle(
+  latDeg: number,
+  lonDeg: number,
+  altKm: number,
+  minElevationDeg = 0,
+  stepDeg = 2,
+): [number, number][] {
+  const radius = footprintHalfAngleDeg(altKm, minElevationDeg) * RAD;
+  if (!(radius > 0)) return [];
+
+  const p1 = latDeg * RAD;
+  const ring: [number, number][] = [];
+  let prevLon = lonDeg;
+
+  for (let az = 0; az <= 360; az += stepDeg) {
+    const b = az * RAD;
+    const p2 = Math.asin(Math.sin(p1) * Math.cos(radius) + Math.cos(p1) * Math.sin(radius) * Math.cos(b));
+    const l2 = lonDeg + Math.atan2(
+      Math.sin(b) * Math.sin(radius) * Math.cos(p1),
+      Math.cos(radius) - Math.sin(p1) * Math.sin(p2),
+    ) * DEG;
+    // unwrap so consecutive vertices never jump by more than 180°
+    const lon = prevLon + wrapLongitude(l2 - prevLon);
+    ring.push([p2 * DEG, lon]);
+    prevLon = lon;
+  }
+  return ring;
+}
+
+/**
+ * Footprint outline as [lat, lon] rings for L.polygon, sampled every
+ * `stepDeg` of azimuth around the sub-satellite point.
+ */
+export function footprintRings(
+  latDeg: number,
+  lonDeg: number,
+  altKm: number,
+  minElevationDeg = 0,
+  stepDeg = 2,
+): [number, number][][] {
+  const ring = footprintCircle(latDeg, lonDeg, altKm, minElevationDeg, stepDeg);
+  if (!ring.length) return [];
+
+  // A ring around a pole doesn't close in longitude — it ends 360° from
+  // where it started. Close it along the pole it encircles.
+  const sweep = ring[ring.length - 1][1] - ring[0][1];
+  if (Math.abs(sweep) > 180) {
+    const pole = latDeg >= 0 ? 90 : -90;
+    ring.push([pole, ring[ring.length - 1][1]], [pole, ring[0][1]]);
+  }
+
+  const lons = ring.map((p) => p[1]);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const rings = [ring];
+  if (maxLon > 180) rings.push(ring.map(([la, lo]): [number, number] => [la, lo - 360]));
+  if (minLon < -180) rings.push(ring.map(([la, lo]): [number, number] => [la, lo + 360]));
+  return rings;
+}
@@ -0,0 +1,166 @@
+/**
+ * frames.ts
+ *
+ * Coordinate transforms between the TEME/ECI frame SGP4 outputs, the
+ * earth-fixed frame, geodetic lat/lon/alt (WGS-84), and topocentric
+ * azimuth/elevation/range for a ground observer.
+ */
+
+import type { Vec3 } from './sgp4';
+
+// ─── WGS-84 ellipsoid ─────────────────────────────────────────────────────────
+export const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+/** Earth rotation rate, rad/s. */
+export const EARTH_ROTATION_RAD_S = 7.292115e-5;
+
+const DEG = 180 / Math.PI;
+const RAD = Math.PI / 180;
+
+export interface Geodetic {
+  latitudeDeg: number;
+  longitudeDeg: number;
+  altitudeKm: number;
+}
+
+export interface Topocentric {
+  azimuthDeg: number;
+  elevationDeg: number;
+  rangeKm: number;
+  rangeRateKmPerS: number;
+}
+
+export interface ObserverGeodetic {
+  lat: number;
+  lon: number;
+  /** Height above the ellipsoid, km. */
+  altKm: number;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function wrapLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+export function magnitude(v: Vec3): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
+
+// ─── ECI ⇄ ECF ────────────────────────────────────────────────────────────────
+
+export function eciToEcf(r: Vec3, gmst: number): Vec3 {
+  const c = Math.cos(gmst);
+  const s = Math.sin(gmst);
+  return {
+    x: r.x * c + r.y * s,
+    y: -r.x * s + r.y * c,
+    z: r.z,
+  };
+}
+
+/**
+ * Earth-fixed velocity: rotate, then remove the frame's own rotation so a
+ * ground observer sees the correct relative motion.
+ */
+export function eciVelocityToEcf(r: Vec3, v: Vec3, gmst: number): Vec3 {
+  const rv = eciToEcf(v, gmst);
+  const rr = eciToEcf(r, gmst);
+  return {
+    x: rv.x + EARTH_ROTATION_RAD_S * rr.y,
+    y: rv.y - EARTH_ROTATION_RAD_S * rr.x,
+    z: rv.z,
+  };
+}
+
+export function ecfToEci(r: Vec3, gmst: number): Vec3 {
+  return eciToEcf(r, -gmst);
+}
+
+// ─── Geodetic ────────────────────────────────────────────────────────────────
+
+export function ecfToGeodetic(r: Vec3): Geodetic {
+  const p = Math.sqrt(r.x * r.x + r.y * r.y);
+  const lon = Math.atan2(r.y, r.x);
+
+  // Bowring-style fixed-point iteration; converges to < 1 mm in ~3 rounds
+  let lat = Math.atan2(r.z, p * (1 - WGS84_E2));
+  let n = WGS84_A;
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(lat);
+    n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    lat = Math.atan2(r.z + n * WGS84_E2 * sinLat, p);
+  }
+  const cosLat = Math.cos(lat);
+  // directly over a pole p/cos(lat) degenerates; measure along z instead
+  const alt = Math.abs(cosLat) > 1e-9
+    ? p / cosLat - n
+    : Math.abs(r.z) - WGS84_A * Math.sqrt(1 - WGS84_E2);
+
+  return {
+    latitudeDeg: lat * DEG,
+    longitudeDeg: wrapLongitude(lon * DEG),
+    altitudeKm: alt,
+  };
+}
+
+export function eciToGeodetic(r: Vec3, gmst: number): Geodetic {
+  return ecfToGeodetic(eciToEcf(r, gmst));
+}
+
+export function geodeticToEcf(latDeg: number, lonDeg: number, altKm: number): Vec3 {
+  const lat = latDeg * RAD;
+  const lon = lonDeg * RAD;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  return {
+    x: (n + altKm) * cosLat * Math.cos(lon),
+    y: (n + altKm) * cosLat * Math.sin(lon),
+    z: (n * (1 - WGS84_E2) + altKm) * sinLat,
+  };
+}
+
+// ─── Look angles ─────────────────────────────────────────────────────────────
+
+/**
+ * Azimuth (from true north, clockwise), elevation, slant range and range rate
+ * of an earth-fixed target as seen from the observer.
+ * `velEcf` is optional — without it the range rate is reported as 0.
+ */
+export function lookAngles(obs: ObserverGeodetic, posEcf: Vec3, velEcf?: Vec3): Topocentric {
+  const o = geodeticToEcf(obs.lat, obs.lon, obs.altKm);
+  const rx = posEcf.x - o.x;
+  const ry = posEcf.y - o.y;
+  const rz = posEcf.z - o.z;
+
+  const lat = obs.lat * RAD;
+  const lon = obs.lon * RAD;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const sinLon = Math.sin(lon);
+  const cosLon = Math.cos(lon);
+
+  // south-east-zenith components
+  const s = sinLat * cosLon * rx + sinLat * sinLon * ry - cosLat * rz;
+  const e = -sinLon * rx + cosLon * ry;
+  const z = cosLat * cosLon * rx + cosLat * sinLon * ry + sinLat * rz;
+
+  const range = Math.sqrt(rx * rx + ry * ry + rz * rz);
+  let az = Math.atan2(-e, s) + Math.PI;
+  if (az >= 2 * Math.PI) az -= 2 * Math.PI;
+  const el = Math.asin(Math.max(-1, Math.min(1, z / range)));
+
+  const rangeRate = velEcf
+    ? (rx * velEcf.x + ry * velEcf.y + rz * velEcf.z) / range
+    : 0;
+
+  return {
+    azimuthDeg: az * DEG,
+    elevationDeg: el * DEG,
+    rangeKm: range,
+    rangeRateKmPerS: rangeRate,
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * geocoder.ts
+ *
+ * Place names for coordinates, from a Nominatim-compatible reverse geocoder.
+ * Which one (or none) is part of the deployment's tile config; see
+ * tileSources.ts.
+ */
+
+/** Nominatim's `address` object: suburb, city, town, state, country, … */
+export type GeoAddress = Record<string, string | undefined>;
+
+/**
+ * The address at a point, or null where the service knows none (open
+ * ocean). `zoom` is Nominatim's detail level: 3 country … 10 city … 18
+ * building. Rejects when the request fails.
+ */
+export async function reverseGeocode(urlTemplate: string, lat: number, lon: number, zoom: number): Promise<GeoAddress | null> {
+  const url = urlTemplate
+    .replace('{lat}', String(lat))
+    .replace('{lon}', String(lon))
+    .replace('{zoom}', String(zoom));
+  const res = await fetch(url, { headers: { 'Accept-Language': 'en' } });
+  if (!res.ok) throw new Error(`Geocoder: HTTP ${res.status}`);
+  const data = await res.json();
+  return data?.address && !data.error ? (data.address as GeoAddress) : null;
+}
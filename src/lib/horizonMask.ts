@@ -0,0 +1,133 @@
+/**
+ * horizonMask.ts
+ *
+ * Site horizon masks: the minimum clear elevation per azimuth sector for an
+ * observer whose view is blocked by trees, buildings or terrain.
+ *
+ * A mask is a list of points sorted by azimuth. Each point's elevation holds
+ * from its azimuth up to the next point's, wrapping past north, so the mask
+ * is a step function and matches how sites are surveyed (one reading per
+ * sector). An empty mask is the flat 0° horizon.
+ *
+ * CSV is `azimuth,elevation` in degrees, one sector start per line; a header
+ * line, blank lines and `#` comments are ignored.
+ */
+
+import type { HorizonMaskPoint, ObserverLocation } from '../types';
+
+export const MASK_MIN_ELEVATION = -5;
+export const MASK_MAX_ELEVATION = 90;
+
+/** Observers this close are treated as the same site and share a mask. */
+const SAME_SITE_KM = 1;
+
+const norm360 = (az: number) => ((az % 360) + 360) % 360;
+
+/**
+ * Sorts by azimuth, wraps azimuths into [0, 360), keeps the last value given
+ * for a repeated azimuth and drops points that don't change the elevation.
+ */
+export function normalizeMask(points: HorizonMaskPoint[]): HorizonMaskPoint[] {
+  const byAz = new Map<number, number>();
+  points.forEach((p) => {
+    if (!Number.isFinite(p.azimuthDeg) || !Number.isFinite(p.elevationDeg)) return;
+    const el = Math.max(MASK_MIN_ELEVATION, Math.min(MASK_MAX_ELEVATION, p.elevationDeg));
+    byAz.set(Math.round(norm360(p.azimuthDeg) * 100) / 100, el);
+  });
+  const sorted = Array.from(byAz, ([azimuthDeg, elevationDeg]) => ({ azimuthDeg, elevationDeg }))
+    .sort((a, b) => a.azimuthDeg - b.azimuthDeg);
+  if (sorted.length < 2) return sorted.filter((p) => p.elevationDeg !== 0);
+
+  // the sector before the first point is the last point's (wrap-around)
+  const out = sorted.filter((p, i) => p.elevationDeg !== sorted[(i + sorted.length - 1) % sorted.length].elevationDeg);
+  if (!out.length) return sorted[0].elevationDeg === 0 ? [] : [{ azimuthDeg: 0, elevationDeg: sorted[0].elevationDeg }];
+  return out;
+}
+
+/** Minimum clear elevation at an azimuth; 0 with no mask. */
+export function maskElevationAt(mask: HorizonMaskPoint[] | undefined, azimuthDeg: number): number {
+  if (!mask || !mask.length) return 0;
+  const az = norm360(azimuthDeg);
+  let el = mask[mask.length - 1].elevationDeg;
+  for (const p of mask) {
+    if (p.azimuthDeg > az) break;
+    el = p.elevationDeg;
+  }
+  return el;
+}
+
+/**
+ * True when a direction is above the site mask, or the flat 0° horizon with
+ * none. The mask alone decides: it may dip below 0° where a site on high
+ * ground sees over lower terrain.
+ */
+export function clearsMask(mask: HorizonMaskPoint[] | undefined, azimuthDeg: number, elevationDeg: number): boolean {
+  return elevationDeg > maskElevationAt(mask, azimuthDeg);
+}
+
+/**
+ * Sets the elevation over [fromAz, toAz), leaving the rest of the mask
+ * unchanged. Used by the polar editor, which edits one sector per click.
+ */
+export function setMaskSector(
+  mask: HorizonMaskPoint[],
+  fromAz: number,
+  toAz: number,
+  elevationDeg: number,
+): HorizonMaskPoint[] {
+  const from = norm360(fromAz);
+  const to = norm360(toAz);
+  const inside = (az: number) => (from < to ? az >= from && az < to : az >= from || az < to);
+  const after = maskElevationAt(mask, to);
+  return normalizeMask([
+    ...mask.filter((p) => !inside(p.azimuthDeg)),
+    { azimuthDeg: from, elevationDeg },
+    ...(to !== from ? [{ azimuthDeg: to, elevationDeg: after }] : []),
+  ]);
+}
+
+export interface ParsedMaskCsv {
+  mask: HorizonMaskPoint[];
+  errors: string[];
+}
+
+export function parseHorizonMaskCsv(text: string): ParsedMaskCsv {
+  const points: HorizonMaskPoint[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) return;
+    const cells = line.split(/[,;\t ]+/).filter(Boolean);
+    const az = Number(cells[0]);
+    const el = Number(cells[1]);
+    if (cells.length < 2 || !Number.isFinite(az) || !Number.isFinite(el)) {
+      // a non-numeric first line is a header
+      if (!points.length && !errors.length && !/^-?\d/.test(cells[0] ?? '')) return;
+      errors.push(`Line ${i + 1}: expected "azimuth,elevation"`);
+      return;
+    }
+    if (az < 0 || az > 360) { errors.push(`Line ${i + 1}: azimuth ${az} outside 0–360°`); return; }
+    if (el < MASK_MIN_ELEVATION || el > MASK_MAX_ELEVATION) {
+      errors.push(`Line ${i + 1}: elevation ${el} outside ${MASK_MIN_ELEVATION}–${MASK_MAX_ELEVATION}°`);
+      return;
+    }
+    points.push({ azimuthDeg: az, elevationDeg: el });
+  });
+
+  return { mask: normalizeMask(points), errors };
+}
+
+export function horizonMaskToCsv(mask: HorizonMaskPoint[]): string {
+  return ['azimuth_deg,elevation_deg', ...mask.map((p) => `${p.azimuthDeg},${p.elevationDeg}`)].join('\n') + '\n';
+}
+
+/** Whether two observer positions are the same site (haversine, < 1 km). */
+export function isSameSite(a: Pick<ObserverLocation, 'lat' | 'lon'>, b: Pick<ObserverLocation, 'lat' | 'lon'>): boolean {
+  const R = 6371;
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLon = ((b.lon - a.lon) * Math.PI) / 180;
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h))) < SAME_SITE_KM;
+}
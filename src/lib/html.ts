@@ -0,0 +1,16 @@
+/**
+ * html.ts
+ *
+ * Leaflet tooltips and DivIcons, and the globe's labels, are HTML strings
+ * set with innerHTML. Names in them come from pasted TLEs, imported files
+ * and other services, so they go through escapeHtml before being inserted.
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,120 @@
+/**
+ * ical.ts
+ *
+ * Pass predictions as an RFC 5545 iCalendar file: one VEVENT per pass from
+ * AOS to LOS, with an optional display alarm ahead of AOS.
+ *
+ * The format details that calendar apps are strict about: CRLF line endings,
+ * content lines folded at 75 octets (never inside a UTF-8 sequence), TEXT
+ * values escaped, times in UTC, and a UID that stays the same when the same
+ * pass is exported again so re-imports update instead of duplicating.
+ */
+
+import type { PassSummary } from '../types';
+
+export interface ICalOptions {
+  satelliteName: string;
+  noradId: string;
+  /** Observer position, written as GEO and LOCATION */
+  observer?: { lat: number; lon: number; label?: string };
+  /** Minutes before AOS; null for no alarm */
+  alarmMinutes: number | null;
+  now?: Date;
+}
+
+export const ALARM_MINUTES = [0, 2, 5, 10, 15, 30, 60];
+
+const PRODID = '-//SatTrack//Pass Predictions//EN';
+const MAX_LINE_OCTETS = 75;
+
+/** 20240410T063212Z */
+function icalTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+/** Folds a content line: continuation lines start with a space (RFC 5545 §3.1). */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    // continuation lines lose one octet to the leading space
+    const limit = out.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + n > limit) {
+      out.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += n;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+function passDescription(p: PassSummary): string {
+  return [
+    `Max elevation ${p.maxElevation.toFixed(1)}°`,
+    `AOS azimuth ${p.aosAzimuth.toFixed(0)}° ${p.aosDirection}`,
+    `TCA ${new Date(p.tca).toISOString().slice(11, 19)} UTC, azimuth ${p.tcaAzimuth.toFixed(0)}°`,
+    `LOS azimuth ${p.losAzimuth.toFixed(0)}° ${p.losDirection}`,
+    `Duration ${p.durationLabel}`,
+    p.magnitude != null ? `Magnitude ${p.magnitude.toFixed(1)}` : null,
+    p.visible ? 'Visible to the naked eye' : 'Not visible (daylight or eclipsed)',
+    p.masked ? 'AOS/LOS at the horizon mask' : null,
+  ].filter(Boolean).join('\n');
+}
+
+export function passesToICalendar(passes: PassSummary[], opts: ICalOptions): string {
+  const stamp = icalTime(opts.now ?? new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${opts.satelliteName} passes`)}`,
+  ];
+
+  passes.forEach((p) => {
+    const aos = new Date(p.aos);
+    const obs = opts.observer;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${opts.noradId}-${icalTime(aos)}${obs ? `-${obs.lat.toFixed(3)}_${obs.lon.toFixed(3)}` : ''}@sattrack`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icalTime(aos)}`,
+      `DTEND:${icalTime(new Date(p.los))}`,
+      `SUMMARY:${escapeText(`${opts.satelliteName} pass · max ${p.maxElevation.toFixed(0)}°${p.visible ? ' · visible' : ''}`)}`,
+      `DESCRIPTION:${escapeText(passDescription(p))}`,
+      `CATEGORIES:${escapeText('Satellite pass')}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (obs) {
+      lines.push(
+        `GEO:${obs.lat.toFixed(6)};${obs.lon.toFixed(6)}`,
+        `LOCATION:${escapeText(obs.label ?? `${obs.lat.toFixed(4)}, ${obs.lon.toFixed(4)}`)}`,
+      );
+    }
+    if (opts.alarmMinutes !== null) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER;RELATED=START:${opts.alarmMinutes > 0 ? `-PT${opts.alarmMinutes}M` : 'PT0S'}`,
+        `DESCRIPTION:${escapeText(`${opts.satelliteName} AOS${opts.alarmMinutes > 0 ? ` in ${opts.alarmMinutes} min` : ''}`)}`,
+        'END:VALARM',
+      );
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,218 @@
+/**
+ * mapLayers.ts
+ *
+ * The map's overlays as a registry the layer manager and WorldMap both read.
+ * Each layer has a visibility, an opacity and a handful of named options
+ * with a fixed set of choices; a layout is the state of every layer.
+ *
+ * Saved layouts are sparse and may predate a layer or option, so they are
+ * always read through resolveLayout(), which fills the gaps from the
+ * defaults. Adding an overlay is a new entry in MAP_LAYERS plus the code in
+ * WorldMap that draws it.
+ */
+
+export type LayerId =
+  | 'basemap'
+  | 'graticule'
+  | 'night'
+  | 'footprints'
+  | 'tracks'
+  | 'markers'
+  | 'labels'
+  | 'observer'
+  | 'aoi'
+  | 'userLocation';
+
+export type LayerOptionValue = string | number | boolean;
+
+export interface LayerOptionDef {
+  key: string;
+  label: string;
+  choices: { value: LayerOptionValue; label: string }[];
+  /** Choices only known at runtime (e.g. configured tile sources); any string is kept */
+  runtime?: boolean;
+}
+
+export interface MapLayerDef {
+  id: LayerId;
+  label: string;
+  description: string;
+  options: LayerOptionDef[];
+  /** Visibility, opacity and option values for a fresh layout */
+  defaults: LayerState;
+}
+
+export interface LayerState {
+  visible: boolean;
+  /** 0–1 */
+  opacity: number;
+  options: Record<string, LayerOptionValue>;
+}
+
+export type MapLayout = Record<LayerId, LayerState>;
+
+const ON_OFF = [{ value: true, label: 'ON' }, { value: false, label: 'OFF' }];
+
+// Listed top to bottom as the map stacks them
+export const MAP_LAYERS: MapLayerDef[] = [
+  {
+    id: 'labels',
+    label: 'Labels',
+    description: 'Satellite names beside their markers',
+    options: [
+      { key: 'scope', label: 'Show', choices: [{ value: 'selected', label: 'SELECTED' }, { value: 'all', label: 'ALL' }] },
+    ],
+    defaults: { visible: true, opacity: 1, options: { scope: 'selected' } },
+  },
+  {
+    id: 'userLocation',
+    label: 'My location',
+    description: 'Browser GPS position',
+    options: [{ key: 'accuracy', label: 'Accuracy ring', choices: ON_OFF }],
+    defaults: { visible: true, opacity: 1, options: { accuracy: true } },
+  },
+  {
+    id: 'markers',
+    label: 'Satellites',
+    description: 'Markers for the selected and tracked objects, plus a catalog category',
+    options: [
+      { key: 'scope', label: 'Show', choices: [{ value: 'all', label: 'ALL' }, { value: 'selected', label: 'SELECTED' }] },
+      // a backend category whose members are all propagated; '' for none
+      { key: 'catalog', label: 'Catalog', choices: [], runtime: true },
+    ],
+    defaults: { visible: true, opacity: 1, options: { scope: 'all', catalog: '' } },
+  },
+  {
+    id: 'observer',
+    label: 'Observer',
+    description: 'Observer marker and horizon rings',
+    options: [{ key: 'rings', label: 'Horizon rings', choices: ON_OFF }],
+    defaults: { visible: true, opacity: 1, options: { rings: true } },
+  },
+  {
+    id: 'aoi',
+    label: 'Area of interest',
+    description: 'Area drawn or imported for the overflight finder',
+    options: [],
+    defaults: { visible: true, opacity: 1, options: {} },
+  },
+  {
+    id: 'tracks',
+    label: 'Ground track',
+    description: 'Past and future path of the selected satellite',
+    options: [
+      { key: 'arrows', label: 'Direction arrows', choices: ON_OFF },
+      { key: 'shadow', label: 'Eclipse shading', choices: ON_OFF },
+    ],
+    defaults: { visible: true, opacity: 1, options: { arrows: true, shadow: true } },
+  },
+  {
+    id: 'footprints',
+    label: 'Footprints',
+    description: 'Coverage area of each satellite',
+    options: [
+      { key: 'minElevation', label: 'Min elevation', choices: [0, 5, 10, 20].map(v => ({ value: v, label: `${v}°` })) },
+    ],
+    defaults: { visible: true, opacity: 1, options: { minElevation: 5 } },
+  },
+  {
+    id: 'night',
+    label: 'Day / night',
+    description: 'Terminator, twilight bands and subsolar point',
+    options: [{ key: 'subsolar', label: 'Subsolar point', choices: ON_OFF }],
+    defaults: { visible: true, opacity: 1, options: { subsolar: true } },
+  },
+  {
+    id: 'graticule',
+    label: 'Grid',
+    description: 'Graticule, equator, tropics and polar circles',
+    options: [],
+    defaults: { visible: true, opacity: 1, options: {} },
+  },
+  {
+    id: 'basemap',
+    label: 'Base map',
+    description: 'Tile imagery under everything else',
+    options: [
+      // a tile source id (lib/tileSources.ts)
+      { key: 'style', label: 'Source', choices: [], runtime: true },
+    ],
+    defaults: { visible: true, opacity: 1, options: { style: 'normal' } },
+  },
+];
+
+export function defaultLayout(): MapLayout {
+  return resolveLayout(undefined);
+}
+
+/** Fill a saved (possibly partial or outdated) layout from the defaults. */
+export function resolveLayout(saved: Partial<Record<string, Partial<LayerState>>> | undefined): MapLayout {
+  const layout = {} as MapLayout;
+  MAP_LAYERS.forEach(({ id, options, defaults }) => {
+    const s = saved?.[id];
+    const picked: Record<string, LayerOptionValue> = { ...defaults.options };
+    // drop values that are no longer among an option's choices
+    options.forEach(({ key, choices, runtime }) => {
+      const v = s?.options?.[key];
+      if (v !== undefined && (runtime ? typeof v === 'string' : choices.some(c => c.value === v))) picked[key] = v;
+    });
+    layout[id] = {
+      visible: typeof s?.visible === 'boolean' ? s.visible : defaults.visible,
+      opacity: typeof s?.opacity === 'number' ? Math.min(1, Math.max(0, s.opacity)) : defaults.opacity,
+      options: picked,
+    };
+  });
+  return layout;
+}
+
+// ─── Presets ────────────────────────────────────────────────────────────────
+
+type LayoutPatch = Partial<Record<LayerId, Partial<LayerState>>>;
+
+export const LAYOUT_PRESETS: { id: string; label: string; description: string; patch: LayoutPatch }[] = [
+  {
+    id: 'default',
+    label: 'DEFAULT',
+    description: 'Every layer back to its default',
+    patch: {},
+  },
+  {
+    id: 'minimal',
+    label: 'MINIMAL',
+    description: 'Just the selected satellite and its track over the base map',
+    patch: {
+      labels:     { visible: true, options: { scope: 'selected' } },
+      markers:    { options: { scope: 'selected' } },
+      tracks:     { options: { arrows: false, shadow: false } },
+      footprints: { visible: false },
+      night:      { visible: false },
+      graticule:  { visible: false },
+      userLocation: { options: { accuracy: false } },
+    },
+  },
+  {
+    id: 'analyst',
+    label: 'ANALYST',
+    description: 'Every object labelled, footprints to the horizon',
+    patch: {
+      labels:     { visible: true, options: { scope: 'all' } },
+      markers:    { options: { scope: 'all' } },
+      footprints: { visible: true, opacity: 0.8, options: { minElevation: 0 } },
+      basemap:    { opacity: 0.7 },
+    },
+  },
+];
+
+/**
+ * A preset applied over the defaults. The base map style is carried over
+ * from `current`: presets are about density, not imagery.
+ */
+export function presetLayout(patch: LayoutPatch, current?: MapLayout): MapLayout {
+  const base = defaultLayout();
+  if (current) base.basemap.options = { ...current.basemap.options };
+  (Object.keys(patch) as LayerId[]).forEach((id) => {
+    const p = patch[id]!;
+    base[id] = { ...base[id], ...p, options: { ...base[id].options, ...p.options } };
+  });
+  return base;
+}
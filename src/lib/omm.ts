@@ -0,0 +1,348 @@
+/**
+ * omm.ts
+ *
+ * CCSDS Orbit Mean-elements Message (CCSDS 502.0-B) support: parsers for the
+ * JSON, XML and KVN encodings, and conversion to and from two-line element
+ * sets.
+ *
+ * OMM carries the same SGP4 mean elements as a TLE but without the fixed
+ * 5-column catalog number, so it is the only format that can describe objects
+ * numbered above 339999 (the Alpha-5 limit). Conversion to TLE returns null
+ * for those.
+ */
+
+import type { Omm, TleInfo } from '../types';
+import {
+  deriveOrbitSize,
+  encodeAlpha5,
+  tleChecksum,
+  type TleElements,
+} from './tle';
+
+export type OmmFormat = 'json' | 'xml' | 'kvn';
+
+export interface ParsedOmm {
+  records: Omm[];
+  /** One message per record that could not be used */
+  errors: string[];
+}
+
+type RawRecord = Record<string, string | number | null | undefined>;
+
+const REQUIRED_KEYS = [
+  'EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION',
+  'RA_OF_ASC_NODE', 'ARG_OF_PERICENTER', 'MEAN_ANOMALY', 'NORAD_CAT_ID',
+] as const;
+
+const NUMERIC_DEFAULTS = {
+  EPHEMERIS_TYPE: 0,
+  ELEMENT_SET_NO: 999,
+  REV_AT_EPOCH: 0,
+  BSTAR: 0,
+  MEAN_MOTION_DOT: 0,
+  MEAN_MOTION_DDOT: 0,
+};
+
+// ─── Record coercion ──────────────────────────────────────────────────────────
+
+/**
+ * Turns a loosely-typed key/value record (numbers as strings, optional fields
+ * missing) into an Omm, or explains why it can't.
+ */
+export function toOmm(raw: RawRecord): { omm: Omm | null; error?: string } {
+  const str = (k: string) => (raw[k] == null ? '' : String(raw[k]).trim());
+  const num = (k: string) => Number(str(k));
+
+  const missing = REQUIRED_KEYS.filter((k) => str(k) === '' || (k !== 'EPOCH' && !Number.isFinite(num(k))));
+  if (missing.length) {
+    return { omm: null, error: `${str('OBJECT_NAME') || 'OMM'}: missing or invalid ${missing.join(', ')}` };
+  }
+  const theory = str('MEAN_ELEMENT_THEORY');
+  if (theory && theory.toUpperCase() !== 'SGP4') {
+    return { omm: null, error: `${str('OBJECT_NAME') || 'OMM'}: mean element theory ${theory} is not supported` };
+  }
+  if (!parseOmmEpoch(str('EPOCH'))) {
+    return { omm: null, error: `${str('OBJECT_NAME') || 'OMM'}: unreadable EPOCH "${str('EPOCH')}"` };
+  }
+
+  const omm: Omm = {
+    OBJECT_NAME: str('OBJECT_NAME'),
+    OBJECT_ID: str('OBJECT_ID'),
+    EPOCH: str('EPOCH').replace(/Z$/i, ''),
+    MEAN_MOTION: num('MEAN_MOTION'),
+    ECCENTRICITY: num('ECCENTRICITY'),
+    INCLINATION: num('INCLINATION'),
+    RA_OF_ASC_NODE: num('RA_OF_ASC_NODE'),
+    ARG_OF_PERICENTER: num('ARG_OF_PERICENTER'),
+    MEAN_ANOMALY: num('MEAN_ANOMALY'),
+    CLASSIFICATION_TYPE: str('CLASSIFICATION_TYPE') || 'U',
+    NORAD_CAT_ID: num('NORAD_CAT_ID'),
+    ...NUMERIC_DEFAULTS,
+  };
+  (Object.keys(NUMERIC_DEFAULTS) as (keyof typeof NUMERIC_DEFAULTS)[]).forEach((k) => {
+    if (str(k) !== '' && Number.isFinite(num(k))) omm[k] = num(k);
+  });
+  (['CENTER_NAME', 'REF_FRAME', 'TIME_SYSTEM', 'MEAN_ELEMENT_THEORY'] as const).forEach((k) => {
+    if (str(k)) omm[k] = str(k);
+  });
+  return { omm };
+}
+
+function collect(raws: RawRecord[]): ParsedOmm {
+  const out: ParsedOmm = { records: [], errors: [] };
+  raws.forEach((raw) => {
+    const { omm, error } = toOmm(raw);
+    if (omm) out.records.push(omm);
+    else if (error) out.errors.push(error);
+  });
+  return out;
+}
+
+// ─── Parsers ──────────────────────────────────────────────────────────────────
+
+/** JSON as served by CelesTrak / Space-Track: one object or an array of them. */
+export function parseOmmJson(text: string): ParsedOmm {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { records: [], errors: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+  const list = Array.isArray(data) ? data : [data];
+  return collect(list.filter((d): d is RawRecord => !!d && typeof d === 'object'));
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * XML (NDM/OMM schema). Every OMM keyword is a leaf element, so the leaves of
+ * each <omm> block are read directly rather than walking the full segment
+ * structure; namespace prefixes are ignored.
+ */
+export function parseOmmXml(text: string): ParsedOmm {
+  const raws: RawRecord[] = [];
+  const blockRe = /<(?:[\w-]+:)?omm\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?omm>/gi;
+  const leafRe = /<(?:[\w-]+:)?([A-Z][A-Z0-9_]*)(?:\s[^>]*)?>([^<]*)<\/(?:[\w-]+:)?\1>/g;
+  let block: RegExpExecArray | null;
+  while ((block = blockRe.exec(text))) {
+    const raw: RawRecord = {};
+    let leaf: RegExpExecArray | null;
+    while ((leaf = leafRe.exec(block[1]))) {
+      raw[leaf[1]] = leaf[2].replace(/&(amp|lt|gt|quot|apos);/g, (_, e: string) => XML_ENTITIES[e]).trim();
+    }
+    raws.push(raw);
+  }
+  if (!raws.length) return { records: [], errors: ['No <omm> elements found'] };
+  return collect(raws);
+}
+
+/**
+ * KVN ("KEY = value [unit]" lines). Several messages may be concatenated;
+ * each CCSDS_OMM_VERS line, or a repeated key, starts a new one.
+ */
+export function parseOmmKvn(text: string): ParsedOmm {
+  const raws: RawRecord[] = [];
+  let current: RawRecord | null = null;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const m = /^\s*([A-Z][A-Z0-9_]*)\s*=\s*(.*?)\s*(\[[^\]]*\])?\s*$/.exec(line);
+    if (!m || m[1] === 'COMMENT') return;
+    const [, key, value] = m;
+    if (!current || key === 'CCSDS_OMM_VERS' || key in current) {
+      current = {};
+      raws.push(current);
+    }
+    current[key] = value;
+  });
+
+  if (!raws.length) return { records: [], errors: ['No KVN keywords found'] };
+  return collect(raws);
+}
+
+export function detectOmmFormat(text: string): OmmFormat | null {
+  const t = text.trimStart();
+  if (t.startsWith('{') || t.startsWith('[')) return 'json';
+  if (t.startsWith('<')) return 'xml';
+  if (/^\s*(CCSDS_OMM_VERS|OBJECT_NAME|EPOCH|MEAN_MOTION)\s*=/m.test(t)) return 'kvn';
+  return null;
+}
+
+/** Parses any OMM encoding, detected from the text itself. */
+export function parseOmm(text: string): ParsedOmm {
+  switch (detectOmmFormat(text)) {
+    case 'json': return parseOmmJson(text);
+    case 'xml':  return parseOmmXml(text);
+    case 'kvn':  return parseOmmKvn(text);
+    default:     return { records: [], errors: ['Not a recognised OMM encoding'] };
+  }
+}
+
+// ─── Epoch handling ───────────────────────────────────────────────────────────
+
+/**
+ * Parses a CCSDS epoch ("YYYY-MM-DDThh:mm:ss.ffffff" or day-of-year form
+ * "YYYY-DDDThh:mm:ss") into year and fractional day-of-year (1-based), keeping
+ * full sub-millisecond precision.
+ */
+export function parseOmmEpoch(epoch: string): { year: number; dayOfYear: number } | null {
+  const m = /^(\d{4})-(?:(\d{2})-(\d{2})|(\d{3}))T(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)Z?$/i.exec(epoch.trim());
+  if (!m) return null;
+  const year = Number(m[1]);
+  const day = m[4]
+    ? Number(m[4])
+    : (Date.UTC(year, Number(m[2]) - 1, Number(m[3])) - Date.UTC(year, 0, 1)) / 86_400_000 + 1;
+  const seconds = Number(m[5]) * 3600 + Number(m[6]) * 60 + Number(m[7]);
+  return { year, dayOfYear: day + seconds / 86_400 };
+}
+
+function formatOmmEpoch(year: number, dayOfYear: number): string {
+  const wholeDay = Math.floor(dayOfYear);
+  let micros = Math.round((dayOfYear - wholeDay) * 86_400e6);
+  let date = new Date(Date.UTC(year, 0, wholeDay));
+  if (micros >= 86_400e6) { micros -= 86_400e6; date = new Date(date.getTime() + 86_400_000); }
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  const h = Math.floor(micros / 3600e6);
+  const min = Math.floor((micros % 3600e6) / 60e6);
+  const sec = Math.floor((micros % 60e6) / 1e6);
+  return `${date.toISOString().slice(0, 10)}T${pad(h)}:${pad(min)}:${pad(sec)}.${pad(micros % 1e6, 6)}`;
+}
+
+// ─── Conversion ───────────────────────────────────────────────────────────────
+
+/** OMM → the same decoded elements parseTle produces, so both share one SGP4 path. */
+export function ommToElements(omm: Omm): TleElements {
+  const epoch = parseOmmEpoch(omm.EPOCH);
+  const year = epoch?.year ?? 2000;
+  const epochDay = epoch?.dayOfYear ?? 1;
+  const epochYear = year % 100;
+  const idMatch = /^\d{2}(\d{2})-(\d{3})(\w*)$/.exec(omm.OBJECT_ID);
+
+  return {
+    noradId: String(omm.NORAD_CAT_ID),
+    classification: omm.CLASSIFICATION_TYPE,
+    intlDesignator: idMatch ? `${idMatch[1]}${idMatch[2]}${idMatch[3]}` : '',
+    epoch: new Date(Date.UTC(year, 0, 1) + (epochDay - 1) * 86_400_000),
+    epochYear,
+    epochDay,
+    meanMotionDot: omm.MEAN_MOTION_DOT,
+    meanMotionDDot: omm.MEAN_MOTION_DDOT,
+    bstar: omm.BSTAR,
+    ephemerisType: omm.EPHEMERIS_TYPE,
+    elementSetNumber: omm.ELEMENT_SET_NO,
+    inclinationDeg: omm.INCLINATION,
+    raanDeg: omm.RA_OF_ASC_NODE,
+    eccentricity: omm.ECCENTRICITY,
+    argPerigeeDeg: omm.ARG_OF_PERICENTER,
+    meanAnomalyDeg: omm.MEAN_ANOMALY,
+    meanMotionRevPerDay: omm.MEAN_MOTION,
+    revolutionNumber: omm.REV_AT_EPOCH,
+    ...deriveOrbitSize(omm.MEAN_MOTION, omm.ECCENTRICITY),
+  };
+}
+
+/** Decoded TLE elements → OMM. */
+export function tleToOmm(el: TleElements, name: string): Omm {
+  const year = el.epochYear < 57 ? 2000 + el.epochYear : 1900 + el.epochYear;
+  const idMatch = /^(\d{2})(\d{3})(\w*)$/.exec(el.intlDesignator);
+  const launchYear = idMatch ? (Number(idMatch[1]) < 57 ? 2000 : 1900) + Number(idMatch[1]) : null;
+
+  return {
+    OBJECT_NAME: name,
+    OBJECT_ID: idMatch ? `${launchYear}-${idMatch[2]}${idMatch[3]}` : '',
+    CENTER_NAME: 'EARTH',
+    REF_FRAME: 'TEME',
+    TIME_SYSTEM: 'UTC',
+    MEAN_ELEMENT_THEORY: 'SGP4',
+    EPOCH: formatOmmEpoch(year, el.epochDay),
+    MEAN_MOTION: el.meanMotionRevPerDay,
+    ECCENTRICITY: el.eccentricity,
+    INCLINATION: el.inclinationDeg,
+    RA_OF_ASC_NODE: el.raanDeg,
+    ARG_OF_PERICENTER: el.argPerigeeDeg,
+    MEAN_ANOMALY: el.meanAnomalyDeg,
+    EPHEMERIS_TYPE: el.ephemerisType,
+    CLASSIFICATION_TYPE: el.classification,
+    NORAD_CAT_ID: Number(el.noradId),
+    ELEMENT_SET_NO: el.elementSetNumber,
+    REV_AT_EPOCH: el.revolutionNumber,
+    BSTAR: el.bstar,
+    MEAN_MOTION_DOT: el.meanMotionDot,
+    MEAN_MOTION_DDOT: el.meanMotionDDot,
+  };
+}
+
+/** Formats a value in the TLE "±NNNNN±E" implied-decimal exponent style. */
+function formatImpliedExponent(v: number): string {
+  if (!v || !Number.isFinite(v)) return ' 00000-0';
+  let exp = Math.floor(Math.log10(Math.abs(v))) + 1;
+  let mantissa = Math.round((Math.abs(v) / Math.pow(10, exp)) * 1e5);
+  if (mantissa >= 1e5) { mantissa = 10_000; exp += 1; }
+  if (exp < -9) return ' 00000-0';
+  return `${v < 0 ? '-' : ' '}${String(mantissa).padStart(5, '0')}${exp < 0 ? '-' : '+'}${Math.min(Math.abs(exp), 9)}`;
+}
+
+const angle = (deg: number) => (((deg % 360) + 360) % 360).toFixed(4).padStart(8);
+
+/**
+ * OMM → TLE lines with fresh checksums. Returns null when the catalog number
+ * can't be written in five columns (above 339999).
+ */
+export function ommToTle(omm: Omm): { line1: string; line2: string } | null {
+  const sat = encodeAlpha5(omm.NORAD_CAT_ID);
+  const epoch = parseOmmEpoch(omm.EPOCH);
+  if (!sat || !epoch) return null;
+
+  const idMatch = /^\d{2}(\d{2})-(\d{3})(\w*)$/.exec(omm.OBJECT_ID);
+  const intl = (idMatch ? `${idMatch[1]}${idMatch[2]}${idMatch[3]}` : '').padEnd(8).slice(0, 8);
+  const yy = String(epoch.year % 100).padStart(2, '0');
+  const day = epoch.dayOfYear.toFixed(8).padStart(12, '0');
+  const ndot = `${omm.MEAN_MOTION_DOT < 0 ? '-' : ' '}${Math.abs(omm.MEAN_MOTION_DOT).toFixed(8).replace(/^0/, '')}`;
+  const elset = String(omm.ELEMENT_SET_NO % 10_000).padStart(4);
+  const cls = (omm.CLASSIFICATION_TYPE || 'U').charAt(0);
+
+  const body1 =
+    `1 ${sat}${cls} ${intl} ${yy}${day} ${ndot} ${formatImpliedExponent(omm.MEAN_MOTION_DDOT)} ` +
+    `${formatImpliedExponent(omm.BSTAR)} ${omm.EPHEMERIS_TYPE % 10} ${elset}`;
+  const body2 =
+    `2 ${sat} ${angle(omm.INCLINATION)} ${angle(omm.RA_OF_ASC_NODE)} ` +
+    `${omm.ECCENTRICITY.toFixed(7).slice(2)} ${angle(omm.ARG_OF_PERICENTER)} ${angle(omm.MEAN_ANOMALY)} ` +
+    `${omm.MEAN_MOTION.toFixed(8).padStart(11)}${String(omm.REV_AT_EPOCH % 100_000).padStart(5)}`;
+
+  return {
+    line1: `${body1}${tleChecksum(body1)}`,
+    line2: `${body2}${tleChecksum(body2)}`,
+  };
+}
+
+const KVN_ORDER: (keyof Omm)[] = [
+  'OBJECT_NAME', 'OBJECT_ID', 'CENTER_NAME', 'REF_FRAME', 'TIME_SYSTEM', 'MEAN_ELEMENT_THEORY',
+  'EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'RA_OF_ASC_NODE', 'ARG_OF_PERICENTER',
+  'MEAN_ANOMALY', 'EPHEMERIS_TYPE', 'CLASSIFICATION_TYPE', 'NORAD_CAT_ID', 'ELEMENT_SET_NO',
+  'REV_AT_EPOCH', 'BSTAR', 'MEAN_MOTION_DOT', 'MEAN_MOTION_DDOT',
+];
+
+/** Serialises one OMM as KVN text. */
+export function ommToKvn(omm: Omm): string {
+  const lines = ['CCSDS_OMM_VERS = 2.0'];
+  KVN_ORDER.forEach((k) => {
+    if (omm[k] !== undefined && omm[k] !== '') lines.push(`${k.padEnd(20)}= ${omm[k]}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Wraps an OMM in the TleInfo shape the rest of the app passes around. The
+ * TLE lines are filled in when the catalog number allows it.
+ */
+export function ommToTleInfo(omm: Omm, source: string, fetchedAt: string, noradId = String(omm.NORAD_CAT_ID)): TleInfo {
+  const lines = ommToTle(omm);
+  return {
+    noradId,
+    line1: lines?.line1 ?? '',
+    line2: lines?.line2 ?? '',
+    epoch: ommToElements(omm).epoch.toISOString(),
+    source,
+    fetchedAt,
+    omm,
+  };
+}
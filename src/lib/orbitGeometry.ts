@@ -0,0 +1,111 @@
+/**
+ * orbitGeometry.ts
+ *
+ * Geometry for the 3D globe: orbit paths in the inertial or earth-fixed
+ * frame, and coverage cones from a satellite down to its footprint edge.
+ *
+ * The globe draws an earth-fixed sphere, so everything is returned as
+ * latitude / longitude / altitude:
+ *
+ *   ECI   one revolution, every sample rotated by the GMST of `start` — the
+ *         orbit ring as it hangs in space right now, closed for any orbit
+ *   ECEF  one revolution, each sample at its own GMST — the path over the
+ *         rotating earth (a figure-eight for GEO, a ground track for LEO)
+ *
+ * Longitudes are unwrapped along each path so the globe never joins two
+ * consecutive points the long way round.
+ */
+
+import { gstime, julianDate, propagate, type SatRec, type Vec3 } from './sgp4';
+import { eciToGeodetic, wrapLongitude, WGS84_A } from './frames';
+import { footprintCircle } from './footprint';
+import { orbitalPeriodMinutes } from './propagator';
+
+export type OrbitFrame = 'ECI' | 'ECEF';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  altKm: number;
+}
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+
+export function orbitPath(satrec: SatRec, start: Date, frame: OrbitFrame, samples = 180): GeoPoint[] {
+  const periodMs = orbitalPeriodMinutes(satrec) * 60_000;
+  if (!Number.isFinite(periodMs) || periodMs <= 0) return [];
+  const gmst0 = gstime(julianDate(start));
+  const path: GeoPoint[] = [];
+
+  for (let i = 0; i <= samples; i++) {
+    const date = new Date(start.getTime() + (i / samples) * periodMs);
+    const sv = propagate(satrec, date);
+    if (!sv) continue;
+    const geo = eciToGeodetic(sv.position, frame === 'ECI' ? gmst0 : gstime(julianDate(date)));
+    const prev = path[path.length - 1];
+    path.push({
+      lat: geo.latitudeDeg,
+      lng: prev ? prev.lng + wrapLongitude(geo.longitudeDeg - prev.lng) : geo.longitudeDeg,
+      altKm: geo.altitudeKm,
+    });
+  }
+  return path;
+}
+
+// ─── Coverage cone ──────────────────────────────────────────────────────────
+
+export interface CoverageCone {
+  /** Footprint edge on the ground */
+  edge: GeoPoint[];
+  /** Straight lines from the satellite to points on the edge */
+  rays: GeoPoint[][];
+}
+
+// The globe is a sphere; use the same radius both ways
+function toCartesian(p: GeoPoint): Vec3 {
+  const r = WGS84_A + p.altKm;
+  const phi = p.lat * RAD, lam = p.lng * RAD;
+  return { x: r * Math.cos(phi) * Math.cos(lam), y: r * Math.cos(phi) * Math.sin(lam), z: r * Math.sin(phi) };
+}
+
+function toGeo(v: Vec3): GeoPoint {
+  const r = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+  return { lat: Math.asin(v.z / r) * DEG, lng: Math.atan2(v.y, v.x) * DEG, altKm: r - WGS84_A };
+}
+
+/**
+ * Cone from the satellite to its footprint edge at `minElevationDeg`, with
+ * `rayCount` rays. Rays are sampled along the straight line, since the globe
+ * would otherwise bend a two-point path along the surface.
+ */
+export function coverageCone(
+  sat: { latitudeDeg: number; longitudeDeg: number; altitudeKm: number },
+  minElevationDeg = 0,
+  rayCount = 12,
+  raySamples = 16,
+): CoverageCone | null {
+  const circle = footprintCircle(sat.latitudeDeg, sat.longitudeDeg, sat.altitudeKm, minElevationDeg);
+  if (!circle.length) return null;
+  const edge = circle.map(([lat, lng]) => ({ lat, lng, altKm: 0 }));
+
+  const apex = toCartesian({ lat: sat.latitudeDeg, lng: sat.longitudeDeg, altKm: sat.altitudeKm });
+  const stride = Math.max(1, Math.floor((edge.length - 1) / rayCount));
+  const rays: GeoPoint[][] = [];
+  for (let i = 0; i < edge.length - 1; i += stride) {
+    const end = toCartesian(edge[i]);
+    const ray: GeoPoint[] = [];
+    for (let k = 0; k <= raySamples; k++) {
+      const s = k / raySamples;
+      ray.push(toGeo({
+        x: apex.x + s * (end.x - apex.x),
+        y: apex.y + s * (end.y - apex.y),
+        z: apex.z + s * (end.z - apex.z),
+      }));
+    }
+    // atan2 wraps; keep the ray continuous like the other paths
+    for (let k = 1; k < ray.length; k++) ray[k].lng = ray[k - 1].lng + wrapLongitude(ray[k].lng - ray[k - 1].lng);
+    rays.push(ray);
+  }
+  return { edge, rays };
+}
@@ -0,0 +1,184 @@
+/**
+ * overflights.ts
+ *
+ * When does a satellite fly over an area of interest? An overflight is an
+ * interval in which the sub-satellite point is inside the area, or within
+ * `maxOffNadirKm` of it — half an instrument's swath, so that the area is in
+ * view of a nadir-pointing imager.
+ *
+ * Method: step along the ground track by conservative advancement. The
+ * sub-satellite point can't move faster than a bound from the orbit's
+ * perigee speed, so a point d km from the boundary can't cross it for
+ * d / speed seconds, and the next sample goes there. Steps shrink close to
+ * the area and grow to minutes away from it; entry and exit are refined by
+ * bisection, and the closest approach with a golden-section search.
+ * Overflights shorter than MIN_STEP_MS may be missed.
+ */
+
+import { gstime, julianDate, propagate, type SatRec } from './sgp4';
+import { EARTH_ROTATION_RAD_S, eciToGeodetic, WGS84_A } from './frames';
+import { aoiDistance, type Aoi, type AoiDistance } from './aoi';
+import { formatDuration } from './passes';
+
+export interface OverflightOptions {
+  start: Date;
+  days: number;
+  /** How far from the ground track the area may be and still count; 0 = it must be crossed */
+  maxOffNadirKm: number;
+}
+
+export interface Overflight {
+  /** ISO-8601 UTC */
+  entry: string;
+  exit: string;
+  durationSec: number;
+  durationLabel: string;
+  /** Smallest ground distance from the sub-satellite point to the area; 0 when the track crosses it */
+  minOffNadirKm: number;
+  /** Off-nadir look angle from the satellite to the area at that moment, degrees */
+  minOffNadirDeg: number;
+  closestTime: string;
+  altitudeKm: number;
+  /** In progress at the start or end of the window, which then stands in for entry or exit */
+  clipped: boolean;
+}
+
+export interface OverflightRow {
+  noradId: string;
+  name: string;
+  overflights: Overflight[];
+}
+
+const MU_KM3_S2 = 398600.4418;
+const DAY_MS = 86_400_000;
+const MIN_STEP_MS = 1_000;
+const MAX_STEP_MS = 600_000;
+const REFINE_TOLERANCE_MS = 100;
+/** Headroom on the ground-speed bound for the oblate earth and drag */
+const SPEED_MARGIN = 1.1;
+/** Beyond this much of the threshold, a bound on the distance to the area is enough */
+const EXACT_WITHIN_KM = 200;
+
+/** Upper bound on how fast the sub-satellite point moves, km/s. */
+function groundSpeedBound(satrec: SatRec): number {
+  const n = satrec.no / 60;
+  const a = Math.cbrt(MU_KM3_S2 / (n * n));
+  const rp = Math.max(WGS84_A, a * (1 - satrec.ecco));
+  const vp = Math.sqrt(MU_KM3_S2 * (2 / rp - 1 / a));
+  return (vp * (WGS84_A / rp) + EARTH_ROTATION_RAD_S * WGS84_A) * SPEED_MARGIN;
+}
+
+interface Sample { t: number; km: number; altitudeKm: number }
+
+function sampler(satrec: SatRec, distance: AoiDistance, maxOffNadirKm: number) {
+  return (t: number, exact = false): Sample | null => {
+    const date = new Date(t);
+    const sv = propagate(satrec, date);
+    if (!sv) return null;
+    const geo = eciToGeodetic(sv.position, gstime(julianDate(date)));
+    const km = distance(geo.latitudeDeg, geo.longitudeDeg, exact ? Infinity : maxOffNadirKm + EXACT_WITHIN_KM);
+    return { t, km: km - maxOffNadirKm, altitudeKm: geo.altitudeKm };
+  };
+}
+
+/** Off-nadir angle at the satellite for a ground point `km` from its nadir, degrees. */
+export function offNadirAngleDeg(km: number, altitudeKm: number): number {
+  const g = km / WGS84_A;
+  return Math.atan2(WGS84_A * Math.sin(g), WGS84_A + altitudeKm - WGS84_A * Math.cos(g)) * 180 / Math.PI;
+}
+
+/** Time within [lo, hi] where the sample goes from one side of the threshold to the other. */
+function bisect(at: (t: number) => Sample | null, lo: number, hi: number, entering: boolean): number {
+  while (hi - lo > REFINE_TOLERANCE_MS) {
+    const mid = (lo + hi) / 2;
+    const inside = (at(mid)?.km ?? Infinity) <= 0;
+    if (inside === entering) hi = mid; else lo = mid;
+  }
+  return entering ? hi : lo;
+}
+
+function closestApproach(at: (t: number) => Sample | null, lo: number, hi: number): Sample | null {
+  // coarse scan first: the distance is only unimodal near the minimum
+  const steps = Math.max(2, Math.min(120, Math.round((hi - lo) / 5_000)));
+  let best: Sample | null = null;
+  for (let i = 0; i <= steps; i++) {
+    const s = at(lo + ((hi - lo) * i) / steps);
+    if (s && (!best || s.km < best.km)) best = s;
+  }
+  if (!best) return null;
+
+  const span = (hi - lo) / steps;
+  let a = Math.max(lo, best.t - span), b = Math.min(hi, best.t + span);
+  const phi = (Math.sqrt(5) - 1) / 2;
+  while (b - a > REFINE_TOLERANCE_MS) {
+    const c = b - phi * (b - a), d = a + phi * (b - a);
+    if ((at(c)?.km ?? Infinity) < (at(d)?.km ?? Infinity)) b = d; else a = c;
+  }
+  const refined = at((a + b) / 2);
+  return refined && refined.km < best.km ? refined : best;
+}
+
+/** Overflights of one satellite over the area, in time order. */
+export function findOverflights(satrec: SatRec, aoi: Aoi, opts: OverflightOptions): Overflight[] {
+  const distance = aoiDistance(aoi);
+  const at = sampler(satrec, distance, opts.maxOffNadirKm);
+  const exactAt = (t: number) => at(t, true);
+  const speed = groundSpeedBound(satrec);
+  const t0 = opts.start.getTime();
+  const t1 = t0 + opts.days * DAY_MS;
+  const out: Overflight[] = [];
+
+  const summarise = (entry: number, exit: number, clipped: boolean) => {
+    const closest = closestApproach(exactAt, entry, exit);
+    if (!closest) return;
+    // the minimum is measured to the area itself, not to the swath threshold
+    const km = Math.max(0, closest.km + opts.maxOffNadirKm);
+    out.push({
+      entry: new Date(entry).toISOString(),
+      exit: new Date(exit).toISOString(),
+      durationSec: (exit - entry) / 1000,
+      durationLabel: formatDuration((exit - entry) / 1000),
+      minOffNadirKm: km,
+      minOffNadirDeg: offNadirAngleDeg(km, closest.altitudeKm),
+      closestTime: new Date(closest.t).toISOString(),
+      altitudeKm: closest.altitudeKm,
+      clipped,
+    });
+  };
+
+  let prev = at(t0);
+  if (!prev) return out;
+  let entry: number | null = prev.km <= 0 ? t0 : null;
+  let clipped = entry !== null;
+
+  while (prev.t < t1) {
+    const step = Math.min(MAX_STEP_MS, Math.max(MIN_STEP_MS, (Math.abs(prev.km) / speed) * 1000));
+    const cur = at(Math.min(t1, prev.t + step));
+    // decayed: whatever was in progress ends here
+    if (!cur) break;
+    if (entry === null && cur.km <= 0) {
+      entry = bisect(at, prev.t, cur.t, true);
+    } else if (entry !== null && cur.km > 0) {
+      summarise(entry, bisect(at, prev.t, cur.t, false), clipped);
+      entry = null;
+      clipped = false;
+    }
+    prev = cur;
+  }
+  if (entry !== null) summarise(entry, prev.t, true);
+  return out;
+}
+
+// ─── Export ─────────────────────────────────────────────────────────────────
+
+/** One line per overflight, earliest first. */
+export function overflightsCsv(rows: OverflightRow[]): string {
+  const lines = rows
+    .flatMap(r => r.overflights.map(o => ({ r, o })))
+    .sort((x, y) => x.o.entry.localeCompare(y.o.entry))
+    .map(({ r, o }) => [
+      r.noradId, `"${r.name.replace(/"/g, '""')}"`, o.entry, o.exit, o.durationSec.toFixed(0),
+      o.minOffNadirKm.toFixed(1), o.minOffNadirDeg.toFixed(2), o.closestTime, o.altitudeKm.toFixed(1), o.clipped,
+    ].join(','));
+  return ['norad_id,name,entry_utc,exit_utc,duration_s,min_off_nadir_km,min_off_nadir_deg,closest_utc,altitude_km,clipped', ...lines].join('\n') + '\n';
+}
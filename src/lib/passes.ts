@@ -0,0 +1,244 @@
+/**
+ * passes.ts
+ *
+ * Browser-side pass predictor. Produces the same PassSummary shape as
+ * POST /v1/passes/predict so the Passes page can render either source.
+ *
+ * Method: step through the window at a coarse interval looking for horizon
+ * crossings, refine AOS/LOS by bisection to ~1 s, then locate TCA with a
+ * golden-section search on elevation.
+ *
+ * With a horizon mask the "horizon" is the mask: AOS/LOS are where the
+ * satellite clears it, and a pass that dips behind an obstruction splits in two.
+ */
+
+import type { HorizonMaskPoint, PassSummary } from '../types';
+import { gstime, julianDate, propagate, type SatRec } from './sgp4';
+import { eciToEcf, lookAngles, type ObserverGeodetic } from './frames';
+import { isSunlit, sunElevationDeg, sunPositionEci } from './sun';
+import { clearsMask } from './horizonMask';
+
+export interface PassOptions {
+  start: Date;
+  days: number;
+  minElevation: number;
+  visibleOnly: boolean;
+  horizonMask?: HorizonMaskPoint[];
+}
+
+export interface LookSample {
+  time: Date;
+  azimuthDeg: number;
+  elevationDeg: number;
+  rangeKm: number;
+}
+
+const COARSE_STEP_MS = 30_000;
+const REFINE_TOLERANCE_MS = 1_000;
+/** Sun must be this far below the horizon for the observer to see a satellite. */
+const VISUAL_SUN_LIMIT_DEG = -6;
+const VISIBILITY_SAMPLES = 24;
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export function compassDirection(azimuthDeg: number): string {
+  return COMPASS[Math.round((((azimuthDeg % 360) + 360) % 360) / 45) % 8];
+}
+
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = s % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${rest}s`;
+}
+
+/** Topocentric look angles at one instant, or null if propagation failed. */
+export function lookAt(satrec: SatRec, obs: ObserverGeodetic, time: Date): LookSample | null {
+  const sv = propagate(satrec, time);
+  if (!sv) return null;
+  const look = lookAngles(obs, eciToEcf(sv.position, gstime(julianDate(time))));
+  return { time, azimuthDeg: look.azimuthDeg, elevationDeg: look.elevationDeg, rangeKm: look.rangeKm };
+}
+
+function elevationAt(satrec: SatRec, obs: ObserverGeodetic, ms: number): number {
+  return lookAt(satrec, obs, new Date(ms))?.elevationDeg ?? -90;
+}
+
+function isUp(satrec: SatRec, obs: ObserverGeodetic, ms: number, mask?: HorizonMaskPoint[]): boolean {
+  const look = lookAt(satrec, obs, new Date(ms));
+  return !!look && clearsMask(mask, look.azimuthDeg, look.elevationDeg);
+}
+
+/** Bisects for the instant the satellite clears the horizon (or mask) between lo and hi. */
+function refineCrossing(
+  satrec: SatRec, obs: ObserverGeodetic, lo: number, hi: number, rising: boolean, mask?: HorizonMaskPoint[],
+): number {
+  while (hi - lo > REFINE_TOLERANCE_MS) {
+    const mid = (lo + hi) / 2;
+    if (isUp(satrec, obs, mid, mask) === rising) hi = mid; else lo = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+function findCulmination(satrec: SatRec, obs: ObserverGeodetic, a: number, b: number): number {
+  const g = (Math.sqrt(5) - 1) / 2;
+  let c = b - g * (b - a);
+  let d = a + g * (b - a);
+  while (b - a > REFINE_TOLERANCE_MS) {
+    if (elevationAt(satrec, obs, c) > elevationAt(satrec, obs, d)) b = d; else a = c;
+    c = b - g * (b - a);
+    d = a + g * (b - a);
+  }
+  return (a + b) / 2;
+}
+
+/** Evenly spaced look-angle samples between two instants (inclusive). */
+export function samplePass(satrec: SatRec, obs: ObserverGeodetic, from: Date, to: Date, count: number): LookSample[] {
+  const out: LookSample[] = [];
+  const span = to.getTime() - from.getTime();
+  for (let i = 0; i <= count; i++) {
+    const s = lookAt(satrec, obs, new Date(from.getTime() + (span * i) / count));
+    if (s) out.push(s);
+  }
+  return out;
+}
+
+export interface SkySample extends LookSample {
+  /** Satellite outside the earth's shadow */
+  sunlit: boolean;
+  /** Sunlit, clear of the site's horizon mask and against a dark enough sky to be seen */
+  visible: boolean;
+}
+
+/**
+ * Look angles through a pass for the sky plot, every `stepSec` from AOS to
+ * LOS (both included), with the satellite's lighting at each sample. Behind
+ * the mask (or below 0° without one) a sample is never visible.
+ */
+export function passSkyTrack(
+  satrec: SatRec, obs: ObserverGeodetic, aos: Date, los: Date, stepSec = 10, mask?: HorizonMaskPoint[],
+): SkySample[] {
+  const out: SkySample[] = [];
+  const end = los.getTime();
+  for (let ms = aos.getTime(); ; ms = Math.min(ms + stepSec * 1000, end)) {
+    const time = new Date(ms);
+    const sv = propagate(satrec, time);
+    if (sv) {
+      const look = lookAngles(obs, eciToEcf(sv.position, gstime(julianDate(time))));
+      const sunlit = isSunlit(sv.position, sunPositionEci(time));
+      out.push({
+        time,
+        azimuthDeg: look.azimuthDeg,
+        elevationDeg: look.elevationDeg,
+        rangeKm: look.rangeKm,
+        sunlit,
+        visible: sunlit && clearsMask(mask, look.azimuthDeg, look.elevationDeg)
+          && sunElevationDeg(obs, time) <= VISUAL_SUN_LIMIT_DEG,
+      });
+    }
+    if (ms >= end) break;
+  }
+  return out;
+}
+
+/**
+ * Visual pass test: at some point above minElevation the satellite is sunlit
+ * while the observer's sky is dark enough to see it.
+ */
+function isVisualPass(
+  satrec: SatRec, obs: ObserverGeodetic, aos: number, los: number, minElevation: number, mask?: HorizonMaskPoint[],
+): boolean {
+  for (let i = 0; i <= VISIBILITY_SAMPLES; i++) {
+    const t = new Date(aos + ((los - aos) * i) / VISIBILITY_SAMPLES);
+    const sv = propagate(satrec, t);
+    if (!sv) continue;
+    const look = lookAngles(obs, eciToEcf(sv.position, gstime(julianDate(t))));
+    if (look.elevationDeg < minElevation || !clearsMask(mask, look.azimuthDeg, look.elevationDeg)) continue;
+    if (sunElevationDeg(obs, t) > VISUAL_SUN_LIMIT_DEG) continue;
+    if (isSunlit(sv.position, sunPositionEci(t))) return true;
+  }
+  return false;
+}
+
+export function predictPasses(satrec: SatRec, obs: ObserverGeodetic, opts: PassOptions): PassSummary[] {
+  const start = opts.start.getTime();
+  return scanPasses(satrec, obs, start, start + opts.days * 86_400_000, opts);
+}
+
+/**
+ * Re-times a pass from another source (the backend assumes a flat horizon)
+ * against the observer's horizon mask. Returns the parts of the pass that
+ * clear the mask — none if it stays hidden, two if it dips behind an
+ * obstruction.
+ */
+export function clipPassToMask(
+  satrec: SatRec,
+  obs: ObserverGeodetic,
+  pass: PassSummary,
+  opts: Pick<PassOptions, 'minElevation' | 'visibleOnly' | 'horizonMask'>,
+): PassSummary[] {
+  const from = new Date(pass.aos).getTime() - COARSE_STEP_MS;
+  const to = new Date(pass.los).getTime() + COARSE_STEP_MS;
+  return scanPasses(satrec, obs, from, to, opts).map((p) => ({ ...p, magnitude: pass.magnitude ?? p.magnitude }));
+}
+
+function scanPasses(
+  satrec: SatRec,
+  obs: ObserverGeodetic,
+  start: number,
+  end: number,
+  opts: Pick<PassOptions, 'minElevation' | 'visibleOnly' | 'horizonMask'>,
+): PassSummary[] {
+  const mask = opts.horizonMask?.length ? opts.horizonMask : undefined;
+  const passes: PassSummary[] = [];
+
+  let prevT = start;
+  let prevUp = isUp(satrec, obs, start, mask);
+  let aos: number | null = prevUp ? start : null;
+
+  const closePass = (losMs: number) => {
+    if (aos === null) return;
+    const aosMs = aos;
+    const tca = findCulmination(satrec, obs, aosMs, losMs);
+    const aosLook = lookAt(satrec, obs, new Date(aosMs));
+    const tcaLook = lookAt(satrec, obs, new Date(tca));
+    const losLook = lookAt(satrec, obs, new Date(losMs));
+    if (!aosLook || !tcaLook || !losLook || tcaLook.elevationDeg < opts.minElevation) return;
+
+    const visible = isVisualPass(satrec, obs, aosMs, losMs, opts.minElevation, mask);
+    if (opts.visibleOnly && !visible) return;
+
+    passes.push({
+      aos: new Date(aosMs).toISOString(),
+      tca: new Date(tca).toISOString(),
+      los: new Date(losMs).toISOString(),
+      aosAzimuth: aosLook.azimuthDeg,
+      aosDirection: compassDirection(aosLook.azimuthDeg),
+      tcaAzimuth: tcaLook.azimuthDeg,
+      losAzimuth: losLook.azimuthDeg,
+      losDirection: compassDirection(losLook.azimuthDeg),
+      maxElevation: tcaLook.elevationDeg,
+      durationLabel: formatDuration((losMs - aosMs) / 1000),
+      visible,
+      magnitude: null,
+      ...(mask ? { masked: true } : {}),
+    });
+  };
+
+  for (let t = start + COARSE_STEP_MS; t <= end; t += COARSE_STEP_MS) {
+    const up = isUp(satrec, obs, t, mask);
+    if (up && !prevUp) {
+      aos = refineCrossing(satrec, obs, prevT, t, true, mask);
+    } else if (!up && prevUp) {
+      closePass(refineCrossing(satrec, obs, prevT, t, false, mask));
+      aos = null;
+    }
+    prevT = t;
+    prevUp = up;
+  }
+  // still above the horizon when the window closes
+  if (prevUp) closePass(prevT);
+
+  return passes;
+}
@@ -0,0 +1,161 @@
+/**
+ * propagator.ts
+ *
+ * Turns a TleInfo from the backend (TLE lines or OMM) into the same SatellitePosition shape that
+ * /satellites/{id}/current returns, computed entirely in the browser.
+ *
+ * SatRec initialisation is the expensive step, so initialised records are
+ * cached per element-set object and reused for every subsequent tick.
+ */
+
+import type { ObserverLocation, SatellitePosition, TleInfo, TrackResponse } from '../types';
+import { gstime, julianDate, propagate, sgp4init, type SatRec, type StateVector } from './sgp4';
+import { parseTle, toMeanElements } from './tle';
+import { ommToElements } from './omm';
+import { eciToEcf, eciToGeodetic, eciVelocityToEcf, lookAngles, magnitude } from './frames';
+import { geodeticShadow, shadowAt, sunPositionEci } from './sun';
+import { clearsMask } from './horizonMask';
+
+/**
+ * Initialised records, keyed on the element-set object itself. The TLE cache
+ * keeps one object per satellite until it is refreshed, so lookups are a
+ * pointer comparison however many objects are propagated per tick, and an
+ * entry goes away with the element set it was built from.
+ */
+const satrecCache = new WeakMap<object, SatRec | null>();
+
+/**
+ * Returns a (cached) initialised SatRec for an element set, or null if it
+ * won't parse. OMM is used when present — it keeps full precision and is the
+ * only form available for catalog numbers beyond Alpha-5.
+ */
+export function getSatrec(tle: Pick<TleInfo, 'line1' | 'line2' | 'omm'>): SatRec | null {
+  const hit = satrecCache.get(tle);
+  if (hit !== undefined) return hit;
+
+  const elements = tle.omm ? ommToElements(tle.omm) : parseTle(tle.line1, tle.line2).elements;
+  const satrec = elements ? sgp4init(toMeanElements(elements)) : null;
+  const usable = satrec && satrec.error === 0 && Number.isFinite(satrec.no) ? satrec : null;
+  // unusable sets are remembered too, so a bad one isn't re-parsed every tick
+  satrecCache.set(tle, usable);
+  return usable;
+}
+
+/** Orbital period in minutes from the un-Kozai'd mean motion (rad/min). */
+export function orbitalPeriodMinutes(satrec: SatRec): number {
+  return (2 * Math.PI) / satrec.no;
+}
+
+/** Raw TEME state at a given time, or null if the orbit has decayed. */
+export function stateAt(satrec: SatRec, date: Date): StateVector | null {
+  return propagate(satrec, date);
+}
+
+/**
+ * Propagates to `date` and converts to a SatellitePosition.
+ * Look angles are only filled in when an observer is given; `visible` honours
+ * the observer's horizon mask.
+ */
+export function positionAt(
+  satrec: SatRec,
+  meta: { noradId: string; name: string },
+  date: Date,
+  observer?: ObserverLocation | null,
+): SatellitePosition | null {
+  const sv = propagate(satrec, date);
+  if (!sv) return null;
+
+  const gmst = gstime(julianDate(date));
+  const geo = eciToGeodetic(sv.position, gmst);
+  const speed = magnitude(sv.velocity);
+
+  const pos: SatellitePosition = {
+    noradId: meta.noradId,
+    name: meta.name,
+    timestamp: date.toISOString(),
+    latitudeDeg: geo.latitudeDeg,
+    longitudeDeg: geo.longitudeDeg,
+    altitudeKm: geo.altitudeKm,
+    speedKmPerS: speed,
+    velocityKmPerS: speed,
+    orbitalPeriodMinutes: orbitalPeriodMinutes(satrec),
+    illumination: shadowAt(sv.position, sunPositionEci(date)).state,
+  };
+
+  if (observer) {
+    const look = lookAngles(
+      { lat: observer.lat, lon: observer.lon, altKm: observer.alt ?? 0 },
+      eciToEcf(sv.position, gmst),
+      eciVelocityToEcf(sv.position, sv.velocity, gmst),
+    );
+    pos.lookAngles = {
+      azimuthDeg: look.azimuthDeg,
+      elevationDeg: look.elevationDeg,
+      rangeKm: look.rangeKm,
+      visible: clearsMask(observer.horizonMask, look.azimuthDeg, look.elevationDeg),
+    };
+  }
+
+  return pos;
+}
+
+/** Convenience wrapper: TLE in, position out. */
+export function positionFromTle(
+  tle: TleInfo,
+  name: string,
+  date: Date,
+  observer?: ObserverLocation | null,
+): SatellitePosition | null {
+  const satrec = getSatrec(tle);
+  if (!satrec) return null;
+  return positionAt(satrec, { noradId: tle.noradId, name }, date, observer);
+}
+
+/**
+ * Ground track in the same shape as /satellites/{id}/track, sampled every
+ * `intervalSec` seconds between the two instants.
+ */
+export function trackAt(
+  satrec: SatRec,
+  meta: { noradId: string; name: string },
+  start: Date,
+  end: Date,
+  intervalSec: number,
+): TrackResponse {
+  const stepMs = Math.max(1, intervalSec) * 1000;
+  const points: TrackResponse['points'] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += stepMs) {
+    const date = new Date(t);
+    const sv = propagate(satrec, date);
+    if (!sv) continue;
+    const geo = eciToGeodetic(sv.position, gstime(julianDate(date)));
+    points.push({
+      timestamp: date.toISOString(),
+      latitudeDeg: geo.latitudeDeg,
+      longitudeDeg: geo.longitudeDeg,
+      altitudeKm: geo.altitudeKm,
+      speedKmPerS: magnitude(sv.velocity),
+      illumination: shadowAt(sv.position, sunPositionEci(date)).state,
+    });
+  }
+  return {
+    noradId: meta.noradId,
+    name: meta.name,
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    intervalSeconds: intervalSec,
+    points,
+  };
+}
+
+/** Adds illumination to backend track points, which don't carry it. */
+export function withIllumination(track: TrackResponse): TrackResponse {
+  return {
+    ...track,
+    points: track.points.map((p) => {
+      const date = new Date(p.timestamp);
+      if (p.illumination || Number.isNaN(date.getTime())) return p;
+      return { ...p, illumination: geodeticShadow(p.latitudeDeg, p.longitudeDeg, p.altitudeKm, date).state };
+    }),
+  };
+}
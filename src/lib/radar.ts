@@ -0,0 +1,88 @@
+/**
+ * radar.ts
+ *
+ * Data for the live sky radar: where each satellite is in the observer's
+ * sky right now, where it has been over the last few minutes and where it
+ * is heading. Only objects above the horizon become blips — above 0°, or
+ * lower where the site's mask dips below 0° (a site on high ground).
+ */
+
+import type { HorizonMaskPoint } from '../types';
+import type { SatRec } from './sgp4';
+import type { ObserverGeodetic } from './frames';
+import { lookAt, type LookSample } from './passes';
+import { clearsMask } from './horizonMask';
+
+export const RADAR_TRAIL_MINUTES = 5;
+export const RADAR_AHEAD_MINUTES = 10;
+const PATH_STEP_MS = 20_000;
+
+export interface RadarBlip {
+  noradId: string;
+  name: string;
+  look: LookSample;
+  /** Above 0° but behind the observer's horizon mask */
+  obstructed: boolean;
+  /** Past and future path, split into the stretches above the horizon */
+  trail: LookSample[][];
+  ahead: LookSample[][];
+}
+
+/** Above 0°, or above a mask that is lower than that in this direction. */
+function aboveHorizon(s: LookSample, mask?: HorizonMaskPoint[]): boolean {
+  return s.elevationDeg > 0 || clearsMask(mask, s.azimuthDeg, s.elevationDeg);
+}
+
+/**
+ * Splits a path into runs above the horizon. Each run keeps the sample on
+ * either side of it, so a plot that clamps to the horizon draws the run all
+ * the way to the edge.
+ */
+export function aboveHorizonRuns(samples: LookSample[], mask?: HorizonMaskPoint[]): LookSample[][] {
+  const runs: LookSample[][] = [];
+  let run: LookSample[] = [];
+  samples.forEach((s, i) => {
+    if (aboveHorizon(s, mask)) {
+      if (!run.length && i > 0) run.push(samples[i - 1]);
+      run.push(s);
+    } else if (run.length) {
+      run.push(s);
+      runs.push(run);
+      run = [];
+    }
+  });
+  if (run.length) runs.push(run);
+  return runs.filter((r) => r.length > 1);
+}
+
+function samplePath(satrec: SatRec, obs: ObserverGeodetic, fromMs: number, toMs: number): LookSample[] {
+  const out: LookSample[] = [];
+  for (let ms = fromMs; ms <= toMs; ms += PATH_STEP_MS) {
+    const s = lookAt(satrec, obs, new Date(ms));
+    if (s) out.push(s);
+  }
+  return out;
+}
+
+/** The satellite's blip at `now`, or null when it is below the horizon. */
+export function radarBlip(
+  satrec: SatRec,
+  sat: { noradId: string; name: string },
+  obs: ObserverGeodetic,
+  now: Date,
+  horizonMask?: HorizonMaskPoint[],
+): RadarBlip | null {
+  const look = lookAt(satrec, obs, now);
+  if (!look || !aboveHorizon(look, horizonMask)) return null;
+
+  const t = now.getTime();
+  const trail = samplePath(satrec, obs, t - RADAR_TRAIL_MINUTES * 60_000, t);
+  const ahead = samplePath(satrec, obs, t, t + RADAR_AHEAD_MINUTES * 60_000);
+  return {
+    ...sat,
+    look,
+    obstructed: !clearsMask(horizonMask, look.azimuthDeg, look.elevationDeg),
+    trail: aboveHorizonRuns(trail, horizonMask),
+    ahead: aboveHorizonRuns(ahead, horizonMask),
+  };
+}
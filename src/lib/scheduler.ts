@@ -0,0 +1,168 @@
+/**
+ * scheduler.ts
+ *
+ * Contact scheduler for a single-antenna ground station. Given the passes of
+ * several satellites, a priority per satellite and the time the antenna needs
+ * between contacts (slew + setup), picks the set of non-conflicting passes
+ * with the largest total weight, where a pass weighs
+ *
+ *   priority × contact minutes
+ *
+ * This is weighted interval scheduling: sort by LOS, and for each pass the
+ * best schedule either skips it or takes it plus the best schedule ending
+ * early enough before its AOS. Passes are scheduled whole.
+ *
+ * Every pass that is not scheduled gets a reason, so the operator can see
+ * what to change (a priority, the gap) to get it back.
+ */
+
+import type { PassSummary } from '../types';
+import type { TimelineRow } from './timeline';
+
+export const DEFAULT_PRIORITY = 1;
+export const MAX_PRIORITY = 5;
+
+export interface ScheduleCandidate {
+  noradId: string;
+  name: string;
+  priority: number;
+  pass: PassSummary;
+  aos: number;
+  los: number;
+  weight: number;
+}
+
+export type RejectionReason =
+  | { kind: 'excluded' }
+  | { kind: 'empty' }
+  | { kind: 'overlap'; with: ScheduleCandidate[] }
+  | { kind: 'setup-gap'; with: ScheduleCandidate[] };
+
+export interface RejectedPass {
+  candidate: ScheduleCandidate;
+  reason: RejectionReason;
+}
+
+export interface ContactSchedule {
+  accepted: ScheduleCandidate[];
+  rejected: RejectedPass[];
+  setupGapSec: number;
+  totalWeight: number;
+  totalContactSec: number;
+}
+
+/** Flattens timeline rows into candidates; priority 0 means "never schedule". */
+export function scheduleCandidates(rows: TimelineRow[], priorities: Record<string, number>): ScheduleCandidate[] {
+  return rows.flatMap((row) => row.passes.map((pass) => {
+    const priority = priorities[row.noradId] ?? DEFAULT_PRIORITY;
+    const aos = new Date(pass.aos).getTime();
+    const los = new Date(pass.los).getTime();
+    return { noradId: row.noradId, name: row.name, priority, pass, aos, los, weight: (priority * (los - aos)) / 60_000 };
+  }));
+}
+
+export function scheduleContacts(candidates: ScheduleCandidate[], setupGapSec: number): ContactSchedule {
+  const gapMs = Math.max(0, setupGapSec) * 1000;
+  const eligible = candidates.filter((c) => c.priority > 0 && c.los > c.aos).sort((a, b) => a.los - b.los);
+
+  // prev[j]: number of passes (in LOS order) that end early enough for pass j
+  const prev = eligible.map((c) => {
+    let lo = 0, hi = eligible.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (eligible[mid].los + gapMs <= c.aos) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  });
+
+  // best[k]: best total weight using the first k passes
+  const best = new Array<number>(eligible.length + 1).fill(0);
+  eligible.forEach((c, j) => {
+    best[j + 1] = Math.max(best[j], c.weight + best[prev[j]]);
+  });
+
+  const accepted: ScheduleCandidate[] = [];
+  for (let k = eligible.length; k > 0;) {
+    const c = eligible[k - 1];
+    if (c.weight + best[prev[k - 1]] >= best[k - 1]) {
+      accepted.push(c);
+      k = prev[k - 1];
+    } else {
+      k--;
+    }
+  }
+  accepted.reverse();
+
+  const taken = new Set(accepted);
+  const rejected: RejectedPass[] = candidates
+    .filter((c) => !taken.has(c))
+    .map((candidate) => ({ candidate, reason: rejectionReason(candidate, accepted, gapMs) }))
+    .sort((a, b) => a.candidate.aos - b.candidate.aos);
+
+  return {
+    accepted,
+    rejected,
+    setupGapSec,
+    totalWeight: best[eligible.length],
+    totalContactSec: accepted.reduce((s, c) => s + (c.los - c.aos) / 1000, 0),
+  };
+}
+
+function rejectionReason(c: ScheduleCandidate, accepted: ScheduleCandidate[], gapMs: number): RejectionReason {
+  if (c.priority <= 0) return { kind: 'excluded' };
+  if (c.los <= c.aos) return { kind: 'empty' };
+  const overlapping = accepted.filter((a) => a.aos < c.los && a.los > c.aos);
+  if (overlapping.length) return { kind: 'overlap', with: overlapping };
+  return { kind: 'setup-gap', with: accepted.filter((a) => a.aos < c.los + gapMs && a.los + gapMs > c.aos) };
+}
+
+/** One line of plain English per rejection, for the schedule view and exports. */
+export function describeRejection(r: RejectedPass): string {
+  const names = (list: ScheduleCandidate[]) =>
+    list.map((a) => `${a.name} (P${a.priority}, ${a.weight.toFixed(1)})`).join(', ');
+  switch (r.reason.kind) {
+    case 'excluded':
+      return 'Priority 0 — excluded from scheduling';
+    case 'empty':
+      return 'No contact time';
+    case 'overlap':
+      return `Overlaps ${names(r.reason.with)}; taking it instead would lower the total weight`;
+    case 'setup-gap':
+      return `Less than the setup gap from ${names(r.reason.with)}`;
+  }
+}
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+export function scheduleToCsv(s: ContactSchedule): string {
+  const esc = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const line = (c: ScheduleCandidate, status: string, note: string) => [
+    status, c.noradId, c.name, iso(c.aos), iso(c.los),
+    ((c.los - c.aos) / 1000).toFixed(0), c.pass.maxElevation.toFixed(1), String(c.priority), c.weight.toFixed(2), note,
+  ].map(esc).join(',');
+
+  return [
+    'status,norad_id,name,aos_utc,los_utc,duration_s,max_elevation_deg,priority,weight,note',
+    ...s.accepted.map((c) => line(c, 'SCHEDULED', '')),
+    ...s.rejected.map((r) => line(r.candidate, 'REJECTED', describeRejection(r))),
+  ].join('\n') + '\n';
+}
+
+export function scheduleToJson(s: ContactSchedule): string {
+  const entry = (c: ScheduleCandidate) => ({
+    noradId: c.noradId,
+    name: c.name,
+    aos: iso(c.aos),
+    los: iso(c.los),
+    maxElevation: c.pass.maxElevation,
+    priority: c.priority,
+    weight: c.weight,
+  });
+  return JSON.stringify({
+    setupGapSec: s.setupGapSec,
+    totalWeight: s.totalWeight,
+    totalContactSec: s.totalContactSec,
+    contacts: s.accepted.map(entry),
+    rejected: s.rejected.map((r) => ({ ...entry(r.candidate), reason: r.reason.kind, note: describeRejection(r) })),
+  }, null, 2);
+}
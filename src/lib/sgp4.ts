@@ -0,0 +1,978 @@
+/**
+ * sgp4.ts
+ *
+ * Browser-side SGP4/SDP4 propagator (Vallado et al., "Revisiting Spacetrack
+ * Report #3", AIAA 2006-6753) — the same model the backend runs, so positions
+ * computed here agree with /satellites/{id}/current to within a few metres.
+ *
+ * Near-earth objects (period < 225 min) use SGP4; deep-space objects switch to
+ * SDP4 with lunar-solar periodics and 12h / 24h resonance integration.
+ *
+ * Units follow the original report: distances in earth radii internally,
+ * angles in radians, time in minutes since epoch. Output is TEME km, km/s.
+ */
+
+// ─── WGS-72 constants (SGP4 is defined against WGS-72, not WGS-84) ───────────
+export const EARTH_RADIUS_KM = 6378.135;
+const MU = 398600.8;
+const XKE = 60.0 / Math.sqrt((EARTH_RADIUS_KM * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / MU);
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+
+const PI = Math.PI;
+const TWO_PI = 2 * PI;
+const DEG2RAD = PI / 180;
+const X2O3 = 2 / 3;
+
+export interface Vec3 { x: number; y: number; z: number }
+
+export interface StateVector {
+  position: Vec3; // TEME, km
+  velocity: Vec3; // TEME, km/s
+}
+
+/**
+ * Mean orbital elements as consumed by sgp4init.
+ * Angles in radians, mean motion in rad/min, epoch as a Julian date.
+ */
+export interface MeanElements {
+  satnum: string;
+  jdEpoch: number;
+  bstar: number;
+  ecco: number;
+  argpo: number;
+  inclo: number;
+  mo: number;
+  no: number;
+  nodeo: number;
+}
+
+/**
+ * Propagator state. Field names mirror the reference implementation so the
+ * code below can be checked line-by-line against Vallado's C++ source.
+ */
+export interface SatRec {
+  satnum: string;
+  jdsatepoch: number;
+  error: number;
+  operationmode: 'a' | 'i';
+  init: 'y' | 'n';
+  method: 'n' | 'd';
+
+  // near earth
+  isimp: number; aycof: number; con41: number; cc1: number; cc4: number; cc5: number;
+  d2: number; d3: number; d4: number; delmo: number; eta: number; argpdot: number;
+  omgcof: number; sinmao: number; t: number; t2cof: number; t3cof: number; t4cof: number;
+  t5cof: number; x1mth2: number; x7thm1: number; mdot: number; nodedot: number;
+  xlcof: number; xmcof: number; nodecf: number;
+
+  // deep space
+  irez: number; d2201: number; d2211: number; d3210: number; d3222: number; d4410: number;
+  d4422: number; d5220: number; d5232: number; d5421: number; d5433: number; dedt: number;
+  del1: number; del2: number; del3: number; didt: number; dmdt: number; dnodt: number;
+  domdt: number; e3: number; ee2: number; peo: number; pgho: number; pho: number;
+  pinco: number; plo: number; se2: number; se3: number; sgh2: number; sgh3: number;
+  sgh4: number; sh2: number; sh3: number; si2: number; si3: number; sl2: number; sl3: number;
+  sl4: number; gsto: number; xfact: number; xgh2: number; xgh3: number; xgh4: number;
+  xh2: number; xh3: number; xi2: number; xi3: number; xl2: number; xl3: number; xl4: number;
+  xlamo: number; zmol: number; zmos: number; atime: number; xli: number; xni: number;
+
+  // elements
+  bstar: number; ecco: number; argpo: number; inclo: number; mo: number; no: number; nodeo: number;
+}
+
+// ─── Time helpers ─────────────────────────────────────────────────────────────
+
+export function julianDate(date: Date): number {
+  return date.getTime() / 86_400_000 + 2440587.5;
+}
+
+export function jday(year: number, mon: number, day: number, hr = 0, minute = 0, sec = 0): number {
+  return (
+    367.0 * year -
+    Math.floor(7 * (year + Math.floor((mon + 9) / 12.0)) * 0.25) +
+    Math.floor((275 * mon) / 9.0) +
+    day + 1721013.5 +
+    ((sec / 60.0 + minute) / 60.0 + hr) / 24.0
+  );
+}
+
+/** Greenwich mean sidereal time (IAU-82), radians. */
+export function gstime(jdut1: number): number {
+  const tut1 = (jdut1 - 2451545.0) / 36525.0;
+  let temp =
+    -6.2e-6 * tut1 * tut1 * tut1 +
+    0.093104 * tut1 * tut1 +
+    (876600.0 * 3600 + 8640184.812866) * tut1 +
+    67310.54841;
+  temp = ((temp * DEG2RAD) / 240.0) % TWO_PI;
+  if (temp < 0) temp += TWO_PI;
+  return temp;
+}
+
+// ─── Deep-space periodics ─────────────────────────────────────────────────────
+
+interface DpperState { ep: number; inclp: number; nodep: number; argpp: number; mp: number }
+
+function dpper(s: SatRec, init: 'y' | 'n', state: DpperState): DpperState {
+  let { ep, inclp, nodep, argpp, mp } = state;
+
+  const zns = 1.19459e-5;
+  const zes = 0.01675;
+  const znl = 1.5835218e-4;
+  const zel = 0.0549;
+
+  // time-varying solar periodics
+  let zm = init === 'y' ? s.zmos : s.zmos + zns * s.t;
+  let zf = zm + 2.0 * zes * Math.sin(zm);
+  let sinzf = Math.sin(zf);
+  let f2 = 0.5 * sinzf * sinzf - 0.25;
+  let f3 = -0.5 * sinzf * Math.cos(zf);
+  const ses = s.se2 * f2 + s.se3 * f3;
+  const sis = s.si2 * f2 + s.si3 * f3;
+  const sls = s.sl2 * f2 + s.sl3 * f3 + s.sl4 * sinzf;
+  const sghs = s.sgh2 * f2 + s.sgh3 * f3 + s.sgh4 * sinzf;
+  const shs = s.sh2 * f2 + s.sh3 * f3;
+
+  // time-varying lunar periodics
+  zm = init === 'y' ? s.zmol : s.zmol + znl * s.t;
+  zf = zm + 2.0 * zel * Math.sin(zm);
+  sinzf = Math.sin(zf);
+  f2 = 0.5 * sinzf * sinzf - 0.25;
+  f3 = -0.5 * sinzf * Math.cos(zf);
+  const sel = s.ee2 * f2 + s.e3 * f3;
+  const sil = s.xi2 * f2 + s.xi3 * f3;
+  const sll = s.xl2 * f2 + s.xl3 * f3 + s.xl4 * sinzf;
+  const sghl = s.xgh2 * f2 + s.xgh3 * f3 + s.xgh4 * sinzf;
+  const shll = s.xh2 * f2 + s.xh3 * f3;
+
+  let pe = ses + sel;
+  let pinc = sis + sil;
+  let pl = sls + sll;
+  let pgh = sghs + sghl;
+  let ph = shs + shll;
+
+  if (init === 'n') {
+    pe -= s.peo;
+    pinc -= s.pinco;
+    pl -= s.plo;
+    pgh -= s.pgho;
+    ph -= s.pho;
+    inclp += pinc;
+    ep += pe;
+    const sinip = Math.sin(inclp);
+    const cosip = Math.cos(inclp);
+
+    if (inclp >= 0.2) {
+      ph /= sinip;
+      pgh -= cosip * ph;
+      argpp += pgh;
+      nodep += ph;
+      mp += pl;
+    } else {
+      // Lyddane modification for low inclinations
+      const sinop = Math.sin(nodep);
+      const cosop = Math.cos(nodep);
+      let alfdp = sinip * sinop;
+      let betdp = sinip * cosop;
+      const dalf = ph * cosop + pinc * cosip * sinop;
+      const dbet = -ph * sinop + pinc * cosip * cosop;
+      alfdp += dalf;
+      betdp += dbet;
+      nodep %= TWO_PI;
+      if (nodep < 0 && s.operationmode === 'a') nodep += TWO_PI;
+      let xls = mp + argpp + cosip * nodep;
+      const dls = pl + pgh - pinc * nodep * sinip;
+      xls += dls;
+      const xnoh = nodep;
+      nodep = Math.atan2(alfdp, betdp);
+      if (nodep < 0 && s.operationmode === 'a') nodep += TWO_PI;
+      if (Math.abs(xnoh - nodep) > PI) {
+        nodep = nodep < xnoh ? nodep + TWO_PI : nodep - TWO_PI;
+      }
+      mp += pl;
+      argpp = xls - mp - cosip * nodep;
+    }
+  }
+
+  return { ep, inclp, nodep, argpp, mp };
+}
+
+// ─── Deep-space common terms ──────────────────────────────────────────────────
+
+function dscom(epoch: number, ep: number, argpp: number, tc: number, inclp: number, nodep: number, np: number) {
+  const zes = 0.01675;
+  const zel = 0.0549;
+  const c1ss = 2.9864797e-6;
+  const c1l = 4.7968065e-7;
+  const zsinis = 0.39785416;
+  const zcosis = 0.91744867;
+  const zcosgs = 0.1945905;
+  const zsings = -0.98088458;
+
+  const nm = np;
+  const em = ep;
+  const snodm = Math.sin(nodep);
+  const cnodm = Math.cos(nodep);
+  const sinomm = Math.sin(argpp);
+  const cosomm = Math.cos(argpp);
+  const sinim = Math.sin(inclp);
+  const cosim = Math.cos(inclp);
+  const emsq = em * em;
+  const betasq = 1.0 - emsq;
+  const rtemsq = Math.sqrt(betasq);
+
+  const day = epoch + 18261.5 + tc / 1440.0;
+  const xnodce = (4.523602 - 9.2422029e-4 * day) % TWO_PI;
+  const stem = Math.sin(xnodce);
+  const ctem = Math.cos(xnodce);
+  const zcosil = 0.91375164 - 0.03568096 * ctem;
+  const zsinil = Math.sqrt(1.0 - zcosil * zcosil);
+  const zsinhl = (0.089683511 * stem) / zsinil;
+  const zcoshl = Math.sqrt(1.0 - zsinhl * zsinhl);
+  const gam = 5.8351514 + 0.001944368 * day;
+  let zx = (0.39785416 * stem) / zsinil;
+  const zy = zcoshl * ctem + 0.91744867 * zsinhl * stem;
+  zx = Math.atan2(zx, zy);
+  zx += gam - xnodce;
+  const zcosgl = Math.cos(zx);
+  const zsingl = Math.sin(zx);
+
+  let zcosg = zcosgs;
+  let zsing = zsings;
+  let zcosi = zcosis;
+  let zsini = zsinis;
+  let zcosh = cnodm;
+  let zsinh = snodm;
+  let cc = c1ss;
+  const xnoi = 1.0 / nm;
+
+  let s1 = 0, s2 = 0, s3 = 0, s4 = 0, s5 = 0, s6 = 0, s7 = 0;
+  let ss1 = 0, ss2 = 0, ss3 = 0, ss4 = 0, ss5 = 0, ss6 = 0, ss7 = 0;
+  let z1 = 0, z2 = 0, z3 = 0, z11 = 0, z12 = 0, z13 = 0, z21 = 0, z22 = 0, z23 = 0, z31 = 0, z32 = 0, z33 = 0;
+  let sz1 = 0, sz2 = 0, sz3 = 0, sz11 = 0, sz12 = 0, sz13 = 0, sz21 = 0, sz22 = 0, sz23 = 0, sz31 = 0, sz32 = 0, sz33 = 0;
+
+  // first pass: solar terms, second pass: lunar terms
+  for (let lsflg = 1; lsflg <= 2; lsflg++) {
+    const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+    const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+    const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+    const a8 = zsing * zsini;
+    const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+    const a10 = zcosg * zsini;
+    const a2 = cosim * a7 + sinim * a8;
+    const a4 = cosim * a9 + sinim * a10;
+    const a5 = -sinim * a7 + cosim * a8;
+    const a6 = -sinim * a9 + cosim * a10;
+
+    const x1 = a1 * cosomm + a2 * sinomm;
+    const x2 = a3 * cosomm + a4 * sinomm;
+    const x3 = -a1 * sinomm + a2 * cosomm;
+    const x4 = -a3 * sinomm + a4 * cosomm;
+    const x5 = a5 * sinomm;
+    const x6 = a6 * sinomm;
+    const x7 = a5 * cosomm;
+    const x8 = a6 * cosomm;
+
+    z31 = 12.0 * x1 * x1 - 3.0 * x3 * x3;
+    z32 = 24.0 * x1 * x2 - 6.0 * x3 * x4;
+    z33 = 12.0 * x2 * x2 - 3.0 * x4 * x4;
+    z1 = 3.0 * (a1 * a1 + a2 * a2) + z31 * emsq;
+    z2 = 6.0 * (a1 * a3 + a2 * a4) + z32 * emsq;
+    z3 = 3.0 * (a3 * a3 + a4 * a4) + z33 * emsq;
+    z11 = -6.0 * a1 * a5 + emsq * (-24.0 * x1 * x7 - 6.0 * x3 * x5);
+    z12 = -6.0 * (a1 * a6 + a3 * a5) + emsq * (-24.0 * (x2 * x7 + x1 * x8) + -6.0 * (x3 * x6 + x4 * x5));
+    z13 = -6.0 * a3 * a6 + emsq * (-24.0 * x2 * x8 - 6.0 * x4 * x6);
+    z21 = 6.0 * a2 * a5 + emsq * (24.0 * x1 * x5 - 6.0 * x3 * x7);
+    z22 = 6.0 * (a4 * a5 + a2 * a6) + emsq * (24.0 * (x2 * x5 + x1 * x6) - 6.0 * (x4 * x7 + x3 * x8));
+    z23 = 6.0 * a4 * a6 + emsq * (24.0 * x2 * x6 - 6.0 * x4 * x8);
+    z1 = z1 + z1 + betasq * z31;
+    z2 = z2 + z2 + betasq * z32;
+    z3 = z3 + z3 + betasq * z33;
+    s3 = cc * xnoi;
+    s2 = (-0.5 * s3) / rtemsq;
+    s4 = s3 * rtemsq;
+    s1 = -15.0 * em * s4;
+    s5 = x1 * x3 + x2 * x4;
+    s6 = x2 * x3 + x1 * x4;
+    s7 = x2 * x4 - x1 * x3;
+
+    if (lsflg === 1) {
+      ss1 = s1; ss2 = s2; ss3 = s3; ss4 = s4; ss5 = s5; ss6 = s6; ss7 = s7;
+      sz1 = z1; sz2 = z2; sz3 = z3;
+      sz11 = z11; sz12 = z12; sz13 = z13;
+      sz21 = z21; sz22 = z22; sz23 = z23;
+      sz31 = z31; sz32 = z32; sz33 = z33;
+      zcosg = zcosgl;
+      zsing = zsingl;
+      zcosi = zcosil;
+      zsini = zsinil;
+      zcosh = zcoshl * cnodm + zsinhl * snodm;
+      zsinh = snodm * zcoshl - cnodm * zsinhl;
+      cc = c1l;
+    }
+  }
+
+  const zmol = (4.7199672 + (0.2299715 * day - gam)) % TWO_PI;
+  const zmos = (6.2565837 + 0.017201977 * day) % TWO_PI;
+
+  return {
+    sinim, cosim, em, emsq, nm,
+    s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5,
+    sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33,
+    z1, z3, z11, z13, z21, z23, z31, z33,
+    zmol, zmos,
+    // solar periodic coefficients
+    se2: 2.0 * ss1 * ss6,
+    se3: 2.0 * ss1 * ss7,
+    si2: 2.0 * ss2 * sz12,
+    si3: 2.0 * ss2 * (sz13 - sz11),
+    sl2: -2.0 * ss3 * sz2,
+    sl3: -2.0 * ss3 * (sz3 - sz1),
+    sl4: -2.0 * ss3 * (-21.0 - 9.0 * emsq) * zes,
+    sgh2: 2.0 * ss4 * sz32,
+    sgh3: 2.0 * ss4 * (sz33 - sz31),
+    sgh4: -18.0 * ss4 * zes,
+    sh2: -2.0 * ss2 * sz22,
+    sh3: -2.0 * ss2 * (sz23 - sz21),
+    // lunar periodic coefficients
+    ee2: 2.0 * s1 * s6,
+    e3: 2.0 * s1 * s7,
+    xi2: 2.0 * s2 * z12,
+    xi3: 2.0 * s2 * (z13 - z11),
+    xl2: -2.0 * s3 * z2,
+    xl3: -2.0 * s3 * (z3 - z1),
+    xl4: -2.0 * s3 * (-21.0 - 9.0 * emsq) * zel,
+    xgh2: 2.0 * s4 * z32,
+    xgh3: 2.0 * s4 * (z33 - z31),
+    xgh4: -18.0 * s4 * zel,
+    xh2: -2.0 * s2 * z22,
+    xh3: -2.0 * s2 * (z23 - z21),
+  };
+}
+
+type DscomResult = ReturnType<typeof dscom>;
+
+// ─── Deep-space resonance initialisation ──────────────────────────────────────
+
+function dsinit(s: SatRec, d: DscomResult, tc: number, xpidot: number, eccsq: number) {
+  const q22 = 1.7891679e-6;
+  const q31 = 2.1460748e-6;
+  const q33 = 2.2123015e-7;
+  const root22 = 1.7891679e-6;
+  const root44 = 7.3636953e-9;
+  const root54 = 2.1765803e-9;
+  const rptim = 4.37526908801129966e-3;
+  const root32 = 3.7393792e-7;
+  const root52 = 1.1428639e-7;
+  const znl = 1.5835218e-4;
+  const zns = 1.19459e-5;
+
+  const { cosim, sinim, s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5 } = d;
+  const { sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33, z1, z3, z11, z13, z21, z23, z31, z33 } = d;
+  let { em, emsq, nm } = d;
+  const inclm = s.inclo;
+
+  s.irez = 0;
+  if (nm < 0.0052359877 && nm > 0.0034906585) s.irez = 1;
+  if (nm >= 8.26e-3 && nm <= 9.24e-3 && em >= 0.5) s.irez = 2;
+
+  // solar terms
+  const ses = ss1 * zns * ss5;
+  const sis = ss2 * zns * (sz11 + sz13);
+  const sls = -zns * ss3 * (sz1 + sz3 - 14.0 - 6.0 * emsq);
+  const sghs = ss4 * zns * (sz31 + sz33 - 6.0);
+  let shs = -zns * ss2 * (sz21 + sz23);
+  if (inclm < 5.2359877e-2 || inclm > PI - 5.2359877e-2) shs = 0.0;
+  if (sinim !== 0.0) shs /= sinim;
+  const sgs = sghs - cosim * shs;
+
+  // lunar terms
+  s.dedt = ses + s1 * znl * s5;
+  s.didt = sis + s2 * znl * (z11 + z13);
+  s.dmdt = sls - znl * s3 * (z1 + z3 - 14.0 - 6.0 * emsq);
+  const sghl = s4 * znl * (z31 + z33 - 6.0);
+  let shll = -znl * s2 * (z21 + z23);
+  if (inclm < 5.2359877e-2 || inclm > PI - 5.2359877e-2) shll = 0.0;
+  s.domdt = sgs + sghl;
+  s.dnodt = shs;
+  if (sinim !== 0.0) {
+    s.domdt -= (cosim / sinim) * shll;
+    s.dnodt += shll / sinim;
+  }
+
+  const theta = (s.gsto + tc * rptim) % TWO_PI;
+
+  if (s.irez !== 0) {
+    const aonv = Math.pow(nm / XKE, X2O3);
+
+    // geopotential resonance for 12-hour orbits
+    if (s.irez === 2) {
+      const cosisq = cosim * cosim;
+      const emo = em;
+      em = s.ecco;
+      const emsqo = emsq;
+      emsq = eccsq;
+      const eoc = em * emsq;
+      const g201 = -0.306 - (em - 0.64) * 0.44;
+
+      let g211: number, g310: number, g322: number, g410: number, g422: number, g520: number;
+      let g521: number, g532: number, g533: number;
+      if (em <= 0.65) {
+        g211 = 3.616 - 13.247 * em + 16.29 * emsq;
+        g310 = -19.302 + 117.39 * em - 228.419 * emsq + 156.591 * eoc;
+        g322 = -18.9068 + 109.7927 * em - 214.6334 * emsq + 146.5816 * eoc;
+        g410 = -41.122 + 242.694 * em - 471.094 * emsq + 313.953 * eoc;
+        g422 = -146.407 + 841.88 * em - 1629.014 * emsq + 1083.435 * eoc;
+        g520 = -532.114 + 3017.977 * em - 5740.032 * emsq + 3708.276 * eoc;
+      } else {
+        g211 = -72.099 + 331.819 * em - 508.738 * emsq + 266.724 * eoc;
+        g310 = -346.844 + 1582.851 * em - 2415.925 * emsq + 1246.113 * eoc;
+        g322 = -342.585 + 1554.908 * em - 2366.899 * emsq + 1215.972 * eoc;
+        g410 = -1052.797 + 4758.686 * em - 7193.992 * emsq + 3651.957 * eoc;
+        g422 = -3581.69 + 16178.11 * em - 24462.77 * emsq + 12422.52 * eoc;
+        g520 = em > 0.715
+          ? -5149.66 + 29936.92 * em - 54087.36 * emsq + 31324.56 * eoc
+          : 1464.74 - 4664.75 * em + 3763.64 * emsq;
+      }
+      if (em < 0.7) {
+        g533 = -919.2277 + 4988.61 * em - 9064.77 * emsq + 5542.21 * eoc;
+        g521 = -822.71072 + 4568.6173 * em - 8491.4146 * emsq + 5337.524 * eoc;
+        g532 = -853.666 + 4690.25 * em - 8624.77 * emsq + 5341.4 * eoc;
+      } else {
+        g533 = -37995.78 + 161616.52 * em - 229838.2 * emsq + 109377.94 * eoc;
+        g521 = -51752.104 + 218913.95 * em - 309468.16 * emsq + 146349.42 * eoc;
+        g532 = -40023.88 + 170470.89 * em - 242699.48 * emsq + 115605.82 * eoc;
+      }
+
+      const sini2 = sinim * sinim;
+      const f220 = 0.75 * (1.0 + 2.0 * cosim + cosisq);
+      const f221 = 1.5 * sini2;
+      const f321 = 1.875 * sinim * (1.0 - 2.0 * cosim - 3.0 * cosisq);
+      const f322 = -1.875 * sinim * (1.0 + 2.0 * cosim - 3.0 * cosisq);
+      const f441 = 35.0 * sini2 * f220;
+      const f442 = 39.375 * sini2 * sini2;
+      const f522 = 9.84375 * sinim * (sini2 * (1.0 - 2.0 * cosim - 5.0 * cosisq) + 0.33333333 * (-2.0 + 4.0 * cosim + 6.0 * cosisq));
+      const f523 = sinim * (4.92187512 * sini2 * (-2.0 - 4.0 * cosim + 10.0 * cosisq) + 6.56250012 * (1.0 + 2.0 * cosim - 3.0 * cosisq));
+      const f542 = 29.53125 * sinim * (2.0 - 8.0 * cosim + cosisq * (-12.0 + 8.0 * cosim + 10.0 * cosisq));
+      const f543 = 29.53125 * sinim * (-2.0 - 8.0 * cosim + cosisq * (12.0 + 8.0 * cosim - 10.0 * cosisq));
+
+      const xno2 = nm * nm;
+      const ainv2 = aonv * aonv;
+      let temp1 = 3.0 * xno2 * ainv2;
+      let temp = temp1 * root22;
+      s.d2201 = temp * f220 * g201;
+      s.d2211 = temp * f221 * g211;
+      temp1 *= aonv;
+      temp = temp1 * root32;
+      s.d3210 = temp * f321 * g310;
+      s.d3222 = temp * f322 * g322;
+      temp1 *= aonv;
+      temp = 2.0 * temp1 * root44;
+      s.d4410 = temp * f441 * g410;
+      s.d4422 = temp * f442 * g422;
+      temp1 *= aonv;
+      temp = temp1 * root52;
+      s.d5220 = temp * f522 * g520;
+      s.d5232 = temp * f523 * g532;
+      temp = 2.0 * temp1 * root54;
+      s.d5421 = temp * f542 * g521;
+      s.d5433 = temp * f543 * g533;
+      s.xlamo = (s.mo + s.nodeo + s.nodeo - (theta + theta)) % TWO_PI;
+      s.xfact = s.mdot + s.dmdt + 2.0 * (s.nodedot + s.dnodt - rptim) - s.no;
+      em = emo;
+      emsq = emsqo;
+    }
+
+    // synchronous resonance terms
+    if (s.irez === 1) {
+      const g200 = 1.0 + emsq * (-2.5 + 0.8125 * emsq);
+      const g310 = 1.0 + 2.0 * emsq;
+      const g300 = 1.0 + emsq * (-6.0 + 6.60937 * emsq);
+      const f220 = 0.75 * (1.0 + cosim) * (1.0 + cosim);
+      const f311 = 0.9375 * sinim * sinim * (1.0 + 3.0 * cosim) - 0.75 * (1.0 + cosim);
+      let f330 = 1.0 + cosim;
+      f330 *= 1.875 * f330 * f330;
+      s.del1 = 3.0 * nm * nm * aonv * aonv;
+      s.del2 = 2.0 * s.del1 * f220 * g200 * q22;
+      s.del3 = 3.0 * s.del1 * f330 * g300 * q33 * aonv;
+      s.del1 = s.del1 * f311 * g310 * q31 * aonv;
+      s.xlamo = (s.mo + s.nodeo + s.argpo - theta) % TWO_PI;
+      s.xfact = s.mdot + xpidot + s.dmdt + s.domdt + s.dnodt - (s.no + rptim);
+    }
+
+    // initialise the integrator
+    s.xli = s.xlamo;
+    s.xni = s.no;
+    s.atime = 0.0;
+  }
+}
+
+// ─── Deep-space secular effects and resonance integration ────────────────────
+
+interface DspaceState { em: number; argpm: number; inclm: number; mm: number; nodem: number; nm: number }
+
+function dspace(s: SatRec, t: number, state: DspaceState): DspaceState {
+  const fasx2 = 0.13130908;
+  const fasx4 = 2.8843198;
+  const fasx6 = 0.37448087;
+  const g22 = 5.7686396;
+  const g32 = 0.95240898;
+  const g44 = 1.8014998;
+  const g52 = 1.050833;
+  const g54 = 4.4108898;
+  const rptim = 4.37526908801129966e-3;
+  const stepp = 720.0;
+  const stepn = -720.0;
+  const step2 = 259200.0;
+
+  let { em, argpm, inclm, mm, nodem, nm } = state;
+
+  const theta = (s.gsto + t * rptim) % TWO_PI;
+  em += s.dedt * t;
+  inclm += s.didt * t;
+  argpm += s.domdt * t;
+  nodem += s.dnodt * t;
+  mm += s.dmdt * t;
+
+  if (s.irez !== 0) {
+    // restart the integrator from epoch when stepping backwards or past it
+    if (s.atime === 0.0 || t * s.atime <= 0.0 || Math.abs(t) < Math.abs(s.atime)) {
+      s.atime = 0.0;
+      s.xni = s.no;
+      s.xli = s.xlamo;
+    }
+    const delt = t > 0.0 ? stepp : stepn;
+
+    let ft = 0.0;
+    let xndt = 0.0;
+    let xnddt = 0.0;
+    let xldot = 0.0;
+    for (;;) {
+      if (s.irez !== 2) {
+        // near-synchronous resonance terms
+        xndt =
+          s.del1 * Math.sin(s.xli - fasx2) +
+          s.del2 * Math.sin(2.0 * (s.xli - fasx4)) +
+          s.del3 * Math.sin(3.0 * (s.xli - fasx6));
+        xldot = s.xni + s.xfact;
+        xnddt =
+          s.del1 * Math.cos(s.xli - fasx2) +
+          2.0 * s.del2 * Math.cos(2.0 * (s.xli - fasx4)) +
+          3.0 * s.del3 * Math.cos(3.0 * (s.xli - fasx6));
+        xnddt *= xldot;
+      } else {
+        // near half-day resonance terms
+        const xomi = s.argpo + s.argpdot * s.atime;
+        const x2omi = xomi + xomi;
+        const x2li = s.xli + s.xli;
+        xndt =
+          s.d2201 * Math.sin(x2omi + s.xli - g22) +
+          s.d2211 * Math.sin(s.xli - g22) +
+          s.d3210 * Math.sin(xomi + s.xli - g32) +
+          s.d3222 * Math.sin(-xomi + s.xli - g32) +
+          s.d4410 * Math.sin(x2omi + x2li - g44) +
+          s.d4422 * Math.sin(x2li - g44) +
+          s.d5220 * Math.sin(xomi + s.xli - g52) +
+          s.d5232 * Math.sin(-xomi + s.xli - g52) +
+          s.d5421 * Math.sin(xomi + x2li - g54) +
+          s.d5433 * Math.sin(-xomi + x2li - g54);
+        xldot = s.xni + s.xfact;
+        xnddt =
+          s.d2201 * Math.cos(x2omi + s.xli - g22) +
+          s.d2211 * Math.cos(s.xli - g22) +
+          s.d3210 * Math.cos(xomi + s.xli - g32) +
+          s.d3222 * Math.cos(-xomi + s.xli - g32) +
+          s.d5220 * Math.cos(xomi + s.xli - g52) +
+          s.d5232 * Math.cos(-xomi + s.xli - g52) +
+          2.0 * (
+            s.d4410 * Math.cos(x2omi + x2li - g44) +
+            s.d4422 * Math.cos(x2li - g44) +
+            s.d5421 * Math.cos(xomi + x2li - g54) +
+            s.d5433 * Math.cos(-xomi + x2li - g54)
+          );
+        xnddt *= xldot;
+      }
+
+      if (Math.abs(t - s.atime) < stepp) {
+        ft = t - s.atime;
+        break;
+      }
+      s.xli += xldot * delt + xndt * step2;
+      s.xni += xndt * delt + xnddt * step2;
+      s.atime += delt;
+    }
+
+    nm = s.xni + xndt * ft + xnddt * ft * ft * 0.5;
+    const xl = s.xli + xldot * ft + xndt * ft * ft * 0.5;
+    mm = s.irez !== 1
+      ? xl - 2.0 * nodem + 2.0 * theta
+      : xl - nodem - argpm + theta;
+    nm = s.no + (nm - s.no);
+  }
+
+  return { em, argpm, inclm, mm, nodem, nm };
+}
+
+// ─── Initialisation ───────────────────────────────────────────────────────────
+
+function emptySatRec(el: MeanElements): SatRec {
+  return {
+    satnum: el.satnum, jdsatepoch: el.jdEpoch, error: 0,
+    operationmode: 'i', init: 'y', method: 'n',
+    isimp: 0, aycof: 0, con41: 0, cc1: 0, cc4: 0, cc5: 0, d2: 0, d3: 0, d4: 0, delmo: 0,
+    eta: 0, argpdot: 0, omgcof: 0, sinmao: 0, t: 0, t2cof: 0, t3cof: 0, t4cof: 0, t5cof: 0,
+    x1mth2: 0, x7thm1: 0, mdot: 0, nodedot: 0, xlcof: 0, xmcof: 0, nodecf: 0,
+    irez: 0, d2201: 0, d2211: 0, d3210: 0, d3222: 0, d4410: 0, d4422: 0, d5220: 0, d5232: 0,
+    d5421: 0, d5433: 0, dedt: 0, del1: 0, del2: 0, del3: 0, didt: 0, dmdt: 0, dnodt: 0,
+    domdt: 0, e3: 0, ee2: 0, peo: 0, pgho: 0, pho: 0, pinco: 0, plo: 0, se2: 0, se3: 0,
+    sgh2: 0, sgh3: 0, sgh4: 0, sh2: 0, sh3: 0, si2: 0, si3: 0, sl2: 0, sl3: 0, sl4: 0,
+    gsto: 0, xfact: 0, xgh2: 0, xgh3: 0, xgh4: 0, xh2: 0, xh3: 0, xi2: 0, xi3: 0, xl2: 0,
+    xl3: 0, xl4: 0, xlamo: 0, zmol: 0, zmos: 0, atime: 0, xli: 0, xni: 0,
+    bstar: el.bstar, ecco: el.ecco, argpo: el.argpo, inclo: el.inclo, mo: el.mo,
+    no: el.no, nodeo: el.nodeo,
+  };
+}
+
+/** Builds an initialised propagator from mean elements. */
+export function sgp4init(el: MeanElements): SatRec {
+  const s = emptySatRec(el);
+  const epoch = el.jdEpoch - 2433281.5;
+  const temp4 = 1.5e-12;
+
+  const ss = 78.0 / EARTH_RADIUS_KM + 1.0;
+  const qzms2t = Math.pow((120.0 - 78.0) / EARTH_RADIUS_KM, 4);
+
+  // ── initl: un-Kozai the mean motion and derive auxiliary quantities ────────
+  const eccsq = s.ecco * s.ecco;
+  const omeosq = 1.0 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(s.inclo);
+  const cosio2 = cosio * cosio;
+
+  const ak = Math.pow(XKE / s.no, X2O3);
+  const d1 = (0.75 * J2 * (3.0 * cosio2 - 1.0)) / (rteosq * omeosq);
+  let delPrime = d1 / (ak * ak);
+  const adel = ak * (1.0 - delPrime * delPrime - delPrime * (1.0 / 3.0 + (134.0 * delPrime * delPrime) / 81.0));
+  delPrime = d1 / (adel * adel);
+  s.no /= 1.0 + delPrime;
+
+  const ao = Math.pow(XKE / s.no, X2O3);
+  const sinio = Math.sin(s.inclo);
+  const po = ao * omeosq;
+  const con42 = 1.0 - 5.0 * cosio2;
+  s.con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1.0 - s.ecco);
+  s.gsto = gstime(epoch + 2433281.5);
+
+  if (omeosq >= 0.0 || s.no >= 0.0) {
+    s.isimp = rp < 220.0 / EARTH_RADIUS_KM + 1.0 ? 1 : 0;
+    let sfour = ss;
+    let qzms24 = qzms2t;
+    const perige = (rp - 1.0) * EARTH_RADIUS_KM;
+
+    // perigees below 156 km alter s and qoms2t
+    if (perige < 156.0) {
+      sfour = perige < 98.0 ? 20.0 : perige - 78.0;
+      qzms24 = Math.pow((120.0 - sfour) / EARTH_RADIUS_KM, 4);
+      sfour = sfour / EARTH_RADIUS_KM + 1.0;
+    }
+
+    const pinvsq = 1.0 / posq;
+    const tsi = 1.0 / (ao - sfour);
+    s.eta = ao * s.ecco * tsi;
+    const etasq = s.eta * s.eta;
+    const eeta = s.ecco * s.eta;
+    const psisq = Math.abs(1.0 - etasq);
+    const coef = qzms24 * Math.pow(tsi, 4.0);
+    const coef1 = coef / Math.pow(psisq, 3.5);
+    const cc2 =
+      coef1 * s.no *
+      (ao * (1.0 + 1.5 * etasq + eeta * (4.0 + etasq)) +
+        ((0.375 * J2 * tsi) / psisq) * s.con41 * (8.0 + 3.0 * etasq * (8.0 + etasq)));
+    s.cc1 = s.bstar * cc2;
+    let cc3 = 0.0;
+    if (s.ecco > 1.0e-4) cc3 = (-2.0 * coef * tsi * J3OJ2 * s.no * sinio) / s.ecco;
+    s.x1mth2 = 1.0 - cosio2;
+    s.cc4 =
+      2.0 * s.no * coef1 * ao * omeosq *
+      (s.eta * (2.0 + 0.5 * etasq) +
+        s.ecco * (0.5 + 2.0 * etasq) -
+        ((J2 * tsi) / (ao * psisq)) *
+          (-3.0 * s.con41 * (1.0 - 2.0 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+            0.75 * s.x1mth2 * (2.0 * etasq - eeta * (1.0 + etasq)) * Math.cos(2.0 * s.argpo)));
+    s.cc5 = 2.0 * coef1 * ao * omeosq * (1.0 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+    const cosio4 = cosio2 * cosio2;
+    const temp1 = 1.5 * J2 * pinvsq * s.no;
+    const temp2 = 0.5 * temp1 * J2 * pinvsq;
+    const temp3 = -0.46875 * J4 * pinvsq * pinvsq * s.no;
+    s.mdot = s.no + 0.5 * temp1 * rteosq * s.con41 + 0.0625 * temp2 * rteosq * (13.0 - 78.0 * cosio2 + 137.0 * cosio4);
+    s.argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7.0 - 114.0 * cosio2 + 395.0 * cosio4) + temp3 * (3.0 - 36.0 * cosio2 + 49.0 * cosio4);
+    const xhdot1 = -temp1 * cosio;
+    s.nodedot = xhdot1 + (0.5 * temp2 * (4.0 - 19.0 * cosio2) + 2.0 * temp3 * (3.0 - 7.0 * cosio2)) * cosio;
+    const xpidot = s.argpdot + s.nodedot;
+    s.omgcof = s.bstar * cc3 * Math.cos(s.argpo);
+    s.xmcof = 0.0;
+    if (s.ecco > 1.0e-4) s.xmcof = (-X2O3 * coef * s.bstar) / eeta;
+    s.nodecf = 3.5 * omeosq * xhdot1 * s.cc1;
+    s.t2cof = 1.5 * s.cc1;
+
+    // avoid a divide by zero at 180° inclination
+    s.xlcof = Math.abs(cosio + 1.0) > 1.5e-12
+      ? (-0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio)) / (1.0 + cosio)
+      : (-0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio)) / temp4;
+    s.aycof = -0.5 * J3OJ2 * sinio;
+    s.delmo = Math.pow(1.0 + s.eta * Math.cos(s.mo), 3);
+    s.sinmao = Math.sin(s.mo);
+    s.x7thm1 = 7.0 * cosio2 - 1.0;
+
+    // ── deep-space initialisation ───────────────────────────────────────────
+    if ((2 * PI) / s.no >= 225.0) {
+      s.method = 'd';
+      s.isimp = 1;
+      const tc = 0.0;
+      const d = dscom(epoch, s.ecco, s.argpo, tc, s.inclo, s.nodeo, s.no);
+      s.e3 = d.e3; s.ee2 = d.ee2;
+      s.se2 = d.se2; s.se3 = d.se3;
+      s.sgh2 = d.sgh2; s.sgh3 = d.sgh3; s.sgh4 = d.sgh4;
+      s.sh2 = d.sh2; s.sh3 = d.sh3;
+      s.si2 = d.si2; s.si3 = d.si3;
+      s.sl2 = d.sl2; s.sl3 = d.sl3; s.sl4 = d.sl4;
+      s.xgh2 = d.xgh2; s.xgh3 = d.xgh3; s.xgh4 = d.xgh4;
+      s.xh2 = d.xh2; s.xh3 = d.xh3;
+      s.xi2 = d.xi2; s.xi3 = d.xi3;
+      s.xl2 = d.xl2; s.xl3 = d.xl3; s.xl4 = d.xl4;
+      s.zmol = d.zmol; s.zmos = d.zmos;
+
+      const p = dpper(s, s.init, { ep: s.ecco, inclp: s.inclo, nodep: s.nodeo, argpp: s.argpo, mp: s.mo });
+      s.ecco = p.ep;
+      s.inclo = p.inclp;
+      s.nodeo = p.nodep;
+      s.argpo = p.argpp;
+      s.mo = p.mp;
+
+      dsinit(s, d, tc, xpidot, eccsq);
+    }
+
+    // ── near-earth drag terms ───────────────────────────────────────────────
+    if (s.isimp !== 1) {
+      const cc1sq = s.cc1 * s.cc1;
+      s.d2 = 4.0 * ao * tsi * cc1sq;
+      const temp = (s.d2 * tsi * s.cc1) / 3.0;
+      s.d3 = (17.0 * ao + sfour) * temp;
+      s.d4 = 0.5 * temp * ao * tsi * (221.0 * ao + 31.0 * sfour) * s.cc1;
+      s.t3cof = s.d2 + 2.0 * cc1sq;
+      s.t4cof = 0.25 * (3.0 * s.d3 + s.cc1 * (12.0 * s.d2 + 10.0 * cc1sq));
+      s.t5cof = 0.2 * (3.0 * s.d4 + 12.0 * s.cc1 * s.d3 + 6.0 * s.d2 * s.d2 + 15.0 * cc1sq * (2.0 * s.d2 + cc1sq));
+    }
+  }
+
+  sgp4(s, 0.0);
+  s.init = 'n';
+  return s;
+}
+
+// ─── Propagation ──────────────────────────────────────────────────────────────
+
+/**
+ * Propagates to `tsince` minutes from epoch.
+ * Returns null and sets `satrec.error` when the orbit has decayed or the
+ * elements have gone non-physical (error codes as in the reference code).
+ */
+export function sgp4(s: SatRec, tsince: number): StateVector | null {
+  const temp4 = 1.5e-12;
+  const vkmpersec = (EARTH_RADIUS_KM * XKE) / 60.0;
+
+  s.t = tsince;
+  s.error = 0;
+
+  // secular gravity and atmospheric drag
+  const xmdf = s.mo + s.mdot * s.t;
+  const argpdf = s.argpo + s.argpdot * s.t;
+  const nodedf = s.nodeo + s.nodedot * s.t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = s.t * s.t;
+  let nodem = nodedf + s.nodecf * t2;
+  let tempa = 1.0 - s.cc1 * s.t;
+  let tempe = s.bstar * s.cc4 * s.t;
+  let templ = s.t2cof * t2;
+
+  if (s.isimp !== 1) {
+    const delomg = s.omgcof * s.t;
+    const delm = s.xmcof * (Math.pow(1.0 + s.eta * Math.cos(xmdf), 3) - s.delmo);
+    const temp = delomg + delm;
+    mm = xmdf + temp;
+    argpm = argpdf - temp;
+    const t3 = t2 * s.t;
+    const t4 = t3 * s.t;
+    tempa = tempa - s.d2 * t2 - s.d3 * t3 - s.d4 * t4;
+    tempe += s.bstar * s.cc5 * (Math.sin(mm) - s.sinmao);
+    templ = templ + s.t3cof * t3 + t4 * (s.t4cof + s.t * s.t5cof);
+  }
+
+  let nm = s.no;
+  let em = s.ecco;
+  let inclm = s.inclo;
+
+  if (s.method === 'd') {
+    ({ em, argpm, inclm, mm, nodem, nm } = dspace(s, s.t, { em, argpm, inclm, mm, nodem, nm }));
+  }
+
+  if (nm <= 0.0) {
+    s.error = 2;
+    return null;
+  }
+
+  const am = Math.pow(XKE / nm, X2O3) * tempa * tempa;
+  nm = XKE / Math.pow(am, 1.5);
+  em -= tempe;
+
+  if (em >= 1.0 || em < -0.001) {
+    s.error = 1;
+    return null;
+  }
+  if (em < 1.0e-6) em = 1.0e-6;
+
+  mm += s.no * templ;
+  let xlm = mm + argpm + nodem;
+  nodem %= TWO_PI;
+  argpm %= TWO_PI;
+  xlm %= TWO_PI;
+  mm = (xlm - argpm - nodem) % TWO_PI;
+
+  const sinim = Math.sin(inclm);
+  const cosim = Math.cos(inclm);
+
+  // lunar-solar periodics
+  let ep = em;
+  let xincp = inclm;
+  let argpp = argpm;
+  let nodep = nodem;
+  let mp = mm;
+  let sinip = sinim;
+  let cosip = cosim;
+
+  if (s.method === 'd') {
+    ({ ep, inclp: xincp, nodep, argpp, mp } = dpper(s, 'n', { ep, inclp: xincp, nodep, argpp, mp }));
+    if (xincp < 0.0) {
+      xincp = -xincp;
+      nodep += PI;
+      argpp -= PI;
+    }
+    if (ep < 0.0 || ep > 1.0) {
+      s.error = 3;
+      return null;
+    }
+
+    sinip = Math.sin(xincp);
+    cosip = Math.cos(xincp);
+    s.aycof = -0.5 * J3OJ2 * sinip;
+    s.xlcof = Math.abs(cosip + 1.0) > 1.5e-12
+      ? (-0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip)) / (1.0 + cosip)
+      : (-0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip)) / temp4;
+  }
+
+  // long-period periodics
+  const axnl = ep * Math.cos(argpp);
+  let temp = 1.0 / (am * (1.0 - ep * ep));
+  const aynl = ep * Math.sin(argpp) + temp * s.aycof;
+  const xl = mp + argpp + nodep + temp * s.xlcof * axnl;
+
+  // solve Kepler's equation
+  const u = (xl - nodep) % TWO_PI;
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let ktr = 1; Math.abs(tem5) >= 1.0e-12 && ktr <= 10; ktr++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = 1.0 - coseo1 * axnl - sineo1 * aynl;
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / tem5;
+    if (Math.abs(tem5) >= 0.95) tem5 = tem5 > 0.0 ? 0.95 : -0.95;
+    eo1 += tem5;
+  }
+
+  // short-period preliminary quantities
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1.0 - el2);
+  if (pl < 0.0) {
+    s.error = 4;
+    return null;
+  }
+
+  const rl = am * (1.0 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1.0 - el2);
+  temp = esine / (1.0 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1.0 - 2.0 * sinu * sinu;
+  temp = 1.0 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  if (s.method === 'd') {
+    const cosisq = cosip * cosip;
+    s.con41 = 3.0 * cosisq - 1.0;
+    s.x1mth2 = 1.0 - cosisq;
+    s.x7thm1 = 7.0 * cosisq - 1.0;
+  }
+
+  // short-period periodics
+  const mrt = rl * (1.0 - 1.5 * temp2 * betal * s.con41) + 0.5 * temp1 * s.x1mth2 * cos2u;
+  if (mrt < 1.0) {
+    // below the earth's surface — decayed
+    s.error = 6;
+    return null;
+  }
+  su -= 0.25 * temp2 * s.x7thm1 * sin2u;
+  const xnode = nodep + 1.5 * temp2 * cosip * sin2u;
+  const xinc = xincp + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * s.x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (s.x1mth2 * cos2u + 1.5 * s.con41)) / XKE;
+
+  // orientation vectors
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  return {
+    position: {
+      x: mrt * ux * EARTH_RADIUS_KM,
+      y: mrt * uy * EARTH_RADIUS_KM,
+      z: mrt * uz * EARTH_RADIUS_KM,
+    },
+    velocity: {
+      x: (mvt * ux + rvdot * vx) * vkmpersec,
+      y: (mvt * uy + rvdot * vy) * vkmpersec,
+      z: (mvt * uz + rvdot * vz) * vkmpersec,
+    },
+  };
+}
+
+/** Propagates to an absolute time. */
+export function propagate(s: SatRec, date: Date): StateVector | null {
+  return sgp4(s, (julianDate(date) - s.jdsatepoch) * 1440.0);
+}
@@ -0,0 +1,84 @@
+/**
+ * simClock.ts
+ *
+ * The simulation clock everything time-dependent reads instead of the wall
+ * clock, so passes can be rehearsed ahead of time and past events (a
+ * conjunction TCA, an eclipse exit) replayed.
+ *
+ * The clock is stored as an anchor — a simulated instant, the wall time it
+ * was taken at, and a rate — rather than as a ticking value:
+ *
+ *   sim(wall) = anchorSimMs + (wall − anchorWallMs) · rate      (running)
+ *   sim(wall) = anchorSimMs                                     (paused)
+ *
+ * so reading it is cheap and exact at any moment, and only the controls
+ * (rate change, pause, step, jump) write new state. Every operation
+ * re-anchors at the current instant, keeping the simulated time continuous.
+ */
+
+export interface SimClock {
+  anchorSimMs: number;
+  anchorWallMs: number;
+  /** Simulated seconds per wall second; negative runs backwards */
+  rate: number;
+  paused: boolean;
+}
+
+export const PLAYBACK_RATES = [-100, -10, -1, 1, 10, 60, 100, 1000];
+
+/** Within this of the wall clock at 1×, the clock counts as live. */
+const LIVE_TOLERANCE_MS = 1500;
+
+export function realTimeClock(wallMs = Date.now()): SimClock {
+  return { anchorSimMs: wallMs, anchorWallMs: wallMs, rate: 1, paused: false };
+}
+
+export function simTimeAt(clock: SimClock, wallMs = Date.now()): number {
+  return clock.paused ? clock.anchorSimMs : clock.anchorSimMs + (wallMs - clock.anchorWallMs) * clock.rate;
+}
+
+export function isLive(clock: SimClock, wallMs = Date.now()): boolean {
+  return !clock.paused && clock.rate === 1 && Math.abs(simTimeAt(clock, wallMs) - wallMs) < LIVE_TOLERANCE_MS;
+}
+
+const reanchor = (clock: SimClock, wallMs: number, patch: Partial<SimClock>): SimClock => ({
+  ...clock,
+  anchorSimMs: simTimeAt(clock, wallMs),
+  anchorWallMs: wallMs,
+  ...patch,
+});
+
+export function withRate(clock: SimClock, rate: number, wallMs = Date.now()): SimClock {
+  return reanchor(clock, wallMs, { rate });
+}
+
+export function withPaused(clock: SimClock, paused: boolean, wallMs = Date.now()): SimClock {
+  return reanchor(clock, wallMs, { paused });
+}
+
+export function steppedBy(clock: SimClock, seconds: number, wallMs = Date.now()): SimClock {
+  const c = reanchor(clock, wallMs, {});
+  return { ...c, anchorSimMs: c.anchorSimMs + seconds * 1000 };
+}
+
+export function jumpedTo(clock: SimClock, simMs: number, wallMs = Date.now()): SimClock {
+  return { ...clock, anchorSimMs: simMs, anchorWallMs: wallMs };
+}
+
+// ─── Display ────────────────────────────────────────────────────────────────
+
+/** "+1000×", "−10×", "1×" */
+export function formatRate(rate: number): string {
+  return `${rate < 0 ? '−' : rate > 1 ? '+' : ''}${Math.abs(rate)}×`;
+}
+
+/** Signed offset from the wall clock: "+2 d 03:14:05", "−00:05:00" */
+export function formatOffset(ms: number): string {
+  const sign = ms < 0 ? '−' : '+';
+  let s = Math.round(Math.abs(ms) / 1000);
+  const d = Math.floor(s / 86_400); s -= d * 86_400;
+  const hh = String(Math.floor(s / 3600)).padStart(2, '0');
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(2, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return `${sign}${d ? `${d} d ` : ''}${hh}:${mm}:${ss}`;
+}
@@ -0,0 +1,144 @@
+/**
+ * sun.ts
+ *
+ * Low-precision solar ephemeris (Astronomical Almanac / Vallado Alg. 29,
+ * ~0.01° over 1950–2050) and two shadow models: the cylindrical test used
+ * for visual-pass checks, and a conical umbra/penumbra model (Montenbruck &
+ * Gill §3.4) for illumination state and eclipse timing.
+ *
+ * Positions are in the same inertial frame as SGP4 output (the TEME/MOD
+ * difference is far below the precision needed for illumination).
+ */
+
+import type { Illumination } from '../types';
+import { EARTH_RADIUS_KM, gstime, julianDate, propagate, type SatRec, type Vec3 } from './sgp4';
+import { ecfToEci, eciToEcf, geodeticToEcf, lookAngles, magnitude } from './frames';
+
+const AU_KM = 149_597_870.7;
+const SUN_RADIUS_KM = 696_000;
+const RAD = Math.PI / 180;
+
+/** Geocentric inertial sun vector, km. */
+export function sunPositionEci(date: Date): Vec3 {
+  const jd = julianDate(date);
+  const t = (jd - 2451545.0) / 36525.0;
+
+  const meanLon = (280.460 + 36000.771 * t) % 360;
+  const meanAnom = ((357.5291092 + 35999.05034 * t) % 360) * RAD;
+  const eclLon = (meanLon + 1.914666471 * Math.sin(meanAnom) + 0.019994643 * Math.sin(2 * meanAnom)) * RAD;
+  const obliquity = (23.439291 - 0.0130042 * t) * RAD;
+  const dist = (1.000140612 - 0.016708617 * Math.cos(meanAnom) - 0.000139589 * Math.cos(2 * meanAnom)) * AU_KM;
+
+  return {
+    x: dist * Math.cos(eclLon),
+    y: dist * Math.cos(obliquity) * Math.sin(eclLon),
+    z: dist * Math.sin(obliquity) * Math.sin(eclLon),
+  };
+}
+
+/**
+ * Cylindrical shadow test: the satellite is in shadow when it is on the
+ * night side and within one earth radius of the earth–sun axis.
+ */
+export function isSunlit(satEci: Vec3, sunEci: Vec3): boolean {
+  const sunMag = Math.sqrt(sunEci.x * sunEci.x + sunEci.y * sunEci.y + sunEci.z * sunEci.z);
+  const ux = sunEci.x / sunMag, uy = sunEci.y / sunMag, uz = sunEci.z / sunMag;
+  const along = satEci.x * ux + satEci.y * uy + satEci.z * uz;
+  if (along >= 0) return true;
+  const px = satEci.x - along * ux;
+  const py = satEci.y - along * uy;
+  const pz = satEci.z - along * uz;
+  return Math.sqrt(px * px + py * py + pz * pz) > EARTH_RADIUS_KM;
+}
+
+/** Elevation of the sun above an observer's horizon, degrees. */
+export function sunElevationDeg(obs: { lat: number; lon: number; altKm: number }, date: Date): number {
+  const gmst = gstime(julianDate(date));
+  return lookAngles(obs, eciToEcf(sunPositionEci(date), gmst)).elevationDeg;
+}
+
+// ─── Conical shadow ───────────────────────────────────────────────────────────
+
+export interface ShadowState {
+  state: Illumination;
+  /** Fraction of the solar disc visible from the satellite, 0–1 */
+  sunFraction: number;
+}
+
+/**
+ * Conical shadow model: compares the apparent radii of the sun and the earth
+ * as seen from the satellite with their angular separation. Partial overlap
+ * is penumbra; the visible fraction is the uncovered area of the solar disc.
+ */
+export function shadowAt(satEci: Vec3, sunEci: Vec3): ShadowState {
+  const toSun = { x: sunEci.x - satEci.x, y: sunEci.y - satEci.y, z: sunEci.z - satEci.z };
+  const dSun = magnitude(toSun);
+  const dEarth = magnitude(satEci);
+
+  const a = Math.asin(SUN_RADIUS_KM / dSun);
+  const b = Math.asin(Math.min(1, EARTH_RADIUS_KM / dEarth));
+  const cosC = -(satEci.x * toSun.x + satEci.y * toSun.y + satEci.z * toSun.z) / (dEarth * dSun);
+  const c = Math.acos(Math.max(-1, Math.min(1, cosC)));
+
+  if (c >= a + b) return { state: 'SUNLIT', sunFraction: 1 };
+  if (c <= b - a) return { state: 'UMBRA', sunFraction: 0 };
+  // annular — earth's disc entirely inside the sun's; not reachable from earth orbit
+  if (c <= a - b) return { state: 'PENUMBRA', sunFraction: 1 - (b * b) / (a * a) };
+
+  const x = (c * c + a * a - b * b) / (2 * c);
+  const y = Math.sqrt(Math.max(0, a * a - x * x));
+  const overlap = a * a * Math.acos(x / a) + b * b * Math.acos((c - x) / b) - c * y;
+  return { state: 'PENUMBRA', sunFraction: 1 - overlap / (Math.PI * a * a) };
+}
+
+/** Illumination of a satellite at a time, or null if propagation fails. */
+export function satelliteShadow(satrec: SatRec, date: Date): ShadowState | null {
+  const sv = propagate(satrec, date);
+  return sv ? shadowAt(sv.position, sunPositionEci(date)) : null;
+}
+
+/**
+ * Illumination of a point given geodetically — for tracks that come from the
+ * backend without state vectors.
+ */
+export function geodeticShadow(latDeg: number, lonDeg: number, altKm: number, date: Date): ShadowState {
+  const eci = ecfToEci(geodeticToEcf(latDeg, lonDeg, altKm), gstime(julianDate(date)));
+  return shadowAt(eci, sunPositionEci(date));
+}
+
+const SHADOW_SEARCH_STEP_SEC = 30;
+
+/**
+ * Next time the satellite enters (leaves SUNLIT) or exits (returns to
+ * SUNLIT) the earth's shadow within `horizonMinutes`, to the second.
+ * Penumbra is counted as shadow, so entry is the first loss of sunlight.
+ */
+export function nextShadowTransition(
+  satrec: SatRec,
+  from: Date,
+  horizonMinutes = 24 * 60,
+): { time: Date; entering: boolean } | null {
+  const inShadow = (t: number) => {
+    const s = satelliteShadow(satrec, new Date(t));
+    return s ? s.state !== 'SUNLIT' : null;
+  };
+
+  const start = inShadow(from.getTime());
+  if (start === null) return null;
+  const end = from.getTime() + horizonMinutes * 60_000;
+
+  for (let t = from.getTime(); t < end; t += SHADOW_SEARCH_STEP_SEC * 1000) {
+    const t2 = Math.min(t + SHADOW_SEARCH_STEP_SEC * 1000, end);
+    const s2 = inShadow(t2);
+    if (s2 === null) return null;
+    if (s2 === start) continue;
+
+    let lo = t, hi = t2;
+    while (hi - lo > 1000) {
+      const mid = (lo + hi) / 2;
+      if (inShadow(mid) === start) lo = mid; else hi = mid;
+    }
+    return { time: new Date(hi), entering: !start };
+  }
+  return null;
+}
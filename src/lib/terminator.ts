@@ -0,0 +1,121 @@
+/**
+ * terminator.ts
+ *
+ * Day/night geometry for the map overlay: the subsolar point, and for a given
+ * solar elevation the region of the earth where the sun is below it.
+ *
+ * Each region is found meridian by meridian. Along a meridian the sine of
+ * the sun's elevation is a·sinφ + b·cosφ = R·sin(φ + ψ), so the latitudes
+ * where the sun is below h always form a single interval, solved in closed
+ * form. Runs of meridians with a non-empty interval become one polygon each,
+ * which keeps the poles and the antimeridian free of special cases.
+ */
+
+import { gstime, julianDate } from './sgp4';
+import { eciToEcf } from './frames';
+import { sunPositionEci } from './sun';
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+
+/** Sun elevations bounding the overlay bands, degrees. */
+export const TWILIGHT_LIMITS = {
+  /** Upper limb on the horizon, with standard refraction */
+  sunset:       -0.833,
+  civil:        -6,
+  nautical:     -12,
+  astronomical: -18,
+} as const;
+
+export type TwilightBand = keyof typeof TWILIGHT_LIMITS;
+
+export interface SubsolarPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface NightRegion {
+  /** Closed rings as [lat, lon] pairs, ready for L.polygon */
+  polygons: [number, number][][];
+  /** The edge of the region away from the poles, as [lat, lon] polylines */
+  boundary: [number, number][][];
+}
+
+/** Point on the earth with the sun at the zenith (geocentric latitude). */
+export function subsolarPoint(date: Date): SubsolarPoint {
+  const sun = eciToEcf(sunPositionEci(date), gstime(julianDate(date)));
+  return {
+    lat: Math.atan2(sun.z, Math.hypot(sun.x, sun.y)) * DEG,
+    lon: Math.atan2(sun.y, sun.x) * DEG,
+  };
+}
+
+/**
+ * Latitude interval [lo, hi] (degrees) on meridian `lonDeg` where the sun is
+ * below `elevationDeg`, or null if the sun is above it along the whole meridian.
+ */
+function meridianInterval(lonDeg: number, sub: SubsolarPoint, elevationDeg: number): [number, number] | null {
+  const a = Math.sin(sub.lat * RAD);
+  const b = Math.cos(sub.lat * RAD) * Math.cos((lonDeg - sub.lon) * RAD);
+  const s = Math.sin(elevationDeg * RAD);
+  const f = (phi: number) => a * Math.sin(phi) + b * Math.cos(phi);
+
+  const r = Math.hypot(a, b);
+  if (r <= Math.abs(s)) return f(0) < s ? [-90, 90] : null;
+
+  const psi = Math.atan2(b, a);
+  const t = Math.asin(s / r);
+  const half = Math.PI / 2;
+  const norm = (x: number) => Math.atan2(Math.sin(x), Math.cos(x));
+  const roots = [norm(t - psi), norm(Math.PI - t - psi)]
+    .filter((phi) => phi > -half && phi < half)
+    .sort((x, y) => x - y);
+
+  const edges = [-half, ...roots, half];
+  let lo = NaN, hi = NaN;
+  for (let i = 0; i < edges.length - 1; i++) {
+    if (f((edges[i] + edges[i + 1]) / 2) >= s) continue;
+    if (Number.isNaN(lo)) lo = edges[i];
+    hi = edges[i + 1];
+  }
+  return Number.isNaN(lo) ? null : [lo * DEG, hi * DEG];
+}
+
+/**
+ * Region where the sun is below `elevationDeg` at `date`, sampled every
+ * `stepDeg` of longitude.
+ */
+export function nightRegion(date: Date, elevationDeg: number, stepDeg = 0.5): NightRegion {
+  const sub = subsolarPoint(date);
+  const polygons: NightRegion['polygons'] = [];
+  const boundary: NightRegion['boundary'] = [];
+
+  let run: { lon: number; lo: number; hi: number }[] = [];
+  const flush = () => {
+    if (run.length > 1) {
+      polygons.push([
+        ...run.map((p): [number, number] => [p.hi, p.lon]),
+        ...run.slice().reverse().map((p): [number, number] => [p.lo, p.lon]),
+      ]);
+      // an edge that sits on a pole is not part of the terminator
+      [run.map((p) => p.hi), run.map((p) => p.lo)].forEach((lats) => {
+        let line: [number, number][] = [];
+        lats.forEach((lat, i) => {
+          if (Math.abs(lat) < 89.999) line.push([lat, run[i].lon]);
+          else { if (line.length > 1) boundary.push(line); line = []; }
+        });
+        if (line.length > 1) boundary.push(line);
+      });
+    }
+    run = [];
+  };
+
+  for (let lon = -180; lon <= 180 + 1e-9; lon += stepDeg) {
+    const iv = meridianInterval(lon, sub, elevationDeg);
+    if (iv) run.push({ lon, lo: iv[0], hi: iv[1] });
+    else flush();
+  }
+  flush();
+
+  return { polygons, boundary };
+}
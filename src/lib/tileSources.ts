@@ -0,0 +1,186 @@
+/**
+ * tileSources.ts
+ *
+ * Base map tile sources. The built-in list points at public Stadia and Esri
+ * servers; a deployment can replace it at runtime with a JSON file served
+ * next to the app (TILE_CONFIG_URL), so air-gapped networks can point at
+ * their own tile server without a rebuild:
+ *
+ *   {
+ *     "includeDefaults": false,
+ *     "sources": [
+ *       { "id": "ops", "label": "OPS", "url": "https://tiles.ops.local/{z}/{x}/{y}.png",
+ *         "attribution": "© OpenStreetMap", "minZoom": 0, "maxZoom": 16, "subdomains": "abc" }
+ *     ],
+ *     "geocoder": "https://nominatim.ops.local/reverse?lat={lat}&lon={lon}&zoom={zoom}&format=json"
+ *   }
+ *
+ * URLs use Leaflet's template syntax: {z}/{x}/{y}, {s} for a subdomain and
+ * {r} for "@2x" on high-DPI screens. The offline source is always available:
+ * it draws bundled Natural Earth 1:110m countries in the browser, so the map
+ * still works with no tile server at all.
+ *
+ * The same file names the reverse geocoder used for place names: a
+ * Nominatim-compatible URL with {lat}, {lon} and {zoom}, or false to turn
+ * place names off. Without the key, public Nominatim is used.
+ */
+
+export type TileSourceKind = 'raster' | 'offline';
+
+export interface TileSource {
+  id: string;
+  label: string;
+  description?: string;
+  kind: TileSourceKind;
+  /** Leaflet URL template; empty for the offline source */
+  url: string;
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+  subdomains?: string[];
+}
+
+export interface TileConfigResult {
+  sources: TileSource[];
+  /** Reverse geocoder URL template (lib/geocoder.ts); null when turned off */
+  geocoderUrl: string | null;
+  /** One message per entry that couldn't be read */
+  rejected: string[];
+}
+
+/** Fetched once at startup; a missing file just means the built-in list. */
+export const TILE_CONFIG_URL = '/tiles.json';
+
+export const OFFLINE_SOURCE: TileSource = {
+  id: 'offline',
+  label: 'OFFLINE',
+  description: 'Natural Earth 1:110m, drawn locally',
+  kind: 'offline',
+  url: '',
+  attribution: 'Made with <a href="https://www.naturalearthdata.com">Natural Earth</a>',
+  minZoom: 0,
+  maxZoom: 8,
+};
+
+export const DEFAULT_TILE_SOURCES: TileSource[] = [
+  {
+    id: 'normal',
+    label: 'DARK',
+    description: 'Dark vector',
+    kind: 'raster',
+    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth_dark/{z}/{x}/{y}{r}.png',
+    attribution: '© <a href="https://stadiamaps.com">Stadia Maps</a> © <a href="https://openstreetmap.org">OSM</a>',
+    minZoom: 0,
+    maxZoom: 20,
+  },
+  {
+    id: 'satellite',
+    label: 'SAT',
+    description: 'Aerial imagery',
+    kind: 'raster',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© <a href="https://www.esri.com">Esri</a>, Maxar, GeoEye, Earthstar Geographics',
+    minZoom: 0,
+    maxZoom: 19,
+  },
+  {
+    id: 'terrain',
+    label: 'TERRAIN',
+    description: 'Topographic',
+    kind: 'raster',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© <a href="https://www.esri.com">Esri</a>, HERE, Garmin',
+    minZoom: 0,
+    maxZoom: 19,
+  },
+  OFFLINE_SOURCE,
+];
+
+export const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org/reverse?lat={lat}&lon={lon}&zoom={zoom}&format=json&addressdetails=1';
+
+function str(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+function zoom(v: unknown, fallback: number): number {
+  return typeof v === 'number' && Number.isFinite(v) ? Math.min(22, Math.max(0, Math.round(v))) : fallback;
+}
+
+/** Reads one configured source; null with a reason when it can't be used. */
+export function toTileSource(rec: Record<string, unknown>): { source: TileSource | null; error?: string } {
+  const id = str(rec.id);
+  if (!id) return { source: null, error: 'needs an "id"' };
+  if (rec.kind === 'offline') return { source: { ...OFFLINE_SOURCE, id, label: str(rec.label) ?? OFFLINE_SOURCE.label } };
+
+  const url = str(rec.url);
+  if (!url || !['{z}', '{x}', '{y}'].every(p => url.includes(p))) {
+    return { source: null, error: `"${id}" needs a "url" with {z}, {x} and {y}` };
+  }
+  const subdomains = typeof rec.subdomains === 'string' ? rec.subdomains.split('')
+    : Array.isArray(rec.subdomains) ? rec.subdomains.filter((s): s is string => typeof s === 'string' && !!s)
+    : [];
+  if (url.includes('{s}') && !subdomains.length) {
+    return { source: null, error: `"${id}" uses {s} but lists no "subdomains"` };
+  }
+  const minZoom = zoom(rec.minZoom, 0);
+  const maxZoom = Math.max(minZoom, zoom(rec.maxZoom, 19));
+  return {
+    source: {
+      id,
+      label: (str(rec.label) ?? id).toUpperCase(),
+      description: str(rec.description) ?? undefined,
+      kind: 'raster',
+      url,
+      attribution: str(rec.attribution) ?? '',
+      minZoom,
+      maxZoom,
+      subdomains: subdomains.length ? subdomains : undefined,
+    },
+  };
+}
+
+/** The "geocoder" key: absent for the default, false/null for none, else a URL with {lat} and {lon}. */
+function toGeocoderUrl(v: unknown): { url: string | null; error?: string } {
+  if (v === undefined) return { url: DEFAULT_GEOCODER_URL };
+  if (v === false || v === null) return { url: null };
+  const url = str(v);
+  if (!url || !url.includes('{lat}') || !url.includes('{lon}')) {
+    return { url: null, error: 'Geocoder: needs a URL with {lat} and {lon}, or false' };
+  }
+  return { url };
+}
+
+/**
+ * Parses the runtime tile config. Configured sources replace the built-in
+ * ones unless "includeDefaults" is set; the offline source is always kept.
+ */
+export function parseTileConfig(data: unknown): TileConfigResult {
+  const cfg = (Array.isArray(data) ? { sources: data } : data) as { sources?: unknown; includeDefaults?: unknown; geocoder?: unknown } | null;
+  if (!cfg || typeof cfg !== 'object' || !Array.isArray(cfg.sources)) {
+    return { sources: DEFAULT_TILE_SOURCES, geocoderUrl: DEFAULT_GEOCODER_URL, rejected: ['Expected an object with a "sources" array'] };
+  }
+
+  const sources: TileSource[] = [];
+  const rejected: string[] = [];
+  cfg.sources.forEach((rec, i) => {
+    const { source, error } = rec && typeof rec === 'object'
+      ? toTileSource(rec as Record<string, unknown>)
+      : { source: null, error: 'not an object' };
+    if (!source) rejected.push(`Source ${i + 1}: ${error}`);
+    else if (sources.some(s => s.id === source.id)) rejected.push(`Source ${i + 1}: duplicate id "${source.id}"`);
+    else sources.push(source);
+  });
+
+  const merged = cfg.includeDefaults === true
+    ? [...sources, ...DEFAULT_TILE_SOURCES.filter(d => !sources.some(s => s.id === d.id))]
+    : sources;
+  if (!merged.some(s => s.kind === 'offline')) merged.push(OFFLINE_SOURCE);
+  const geocoder = toGeocoderUrl(cfg.geocoder);
+  if (geocoder.error) rejected.push(geocoder.error);
+  return { sources: merged, geocoderUrl: geocoder.url, rejected };
+}
+
+/** The source a saved layout asks for, or the first one when it's gone from the config. */
+export function pickTileSource(sources: TileSource[], id: unknown): TileSource {
+  return sources.find(s => s.id === id) ?? sources[0] ?? OFFLINE_SOURCE;
+}
@@ -0,0 +1,82 @@
+/**
+ * timeline.ts
+ *
+ * Multi-satellite pass timeline for one ground station: passes for several
+ * satellites over the same window, and where they overlap. A ground station
+ * with one antenna can only work one pass at a time, so overlaps are the
+ * conflicts the operator has to resolve.
+ */
+
+import type { PassSummary } from '../types';
+
+export interface TimelineRow {
+  noradId: string;
+  name: string;
+  passes: PassSummary[];
+}
+
+/** A stretch of time during which `noradIds.length` (≥ 2) passes are in progress. */
+export interface PassOverlap {
+  start: number;
+  end: number;
+  noradIds: string[];
+}
+
+export const ELEVATION_BANDS = [
+  { min: 60, color: '#39ff14', label: '≥ 60°' },
+  { min: 30, color: '#ffd060', label: '30–60°' },
+  { min: 0,  color: '#ff7e35', label: '< 30°' },
+] as const;
+
+/** Bar colour for a pass, by maximum elevation (same bands as the pass cards). */
+export function elevationColor(maxElevationDeg: number): string {
+  return (ELEVATION_BANDS.find((b) => maxElevationDeg >= b.min) ?? ELEVATION_BANDS[ELEVATION_BANDS.length - 1]).color;
+}
+
+/**
+ * Sweeps the passes of all rows in time order and returns every interval
+ * where two or more satellites are above the horizon together.
+ */
+export function findOverlaps(rows: TimelineRow[]): PassOverlap[] {
+  const events: { t: number; noradId: string; delta: 1 | -1 }[] = [];
+  rows.forEach((row) => row.passes.forEach((p) => {
+    events.push({ t: new Date(p.aos).getTime(), noradId: row.noradId, delta: 1 });
+    events.push({ t: new Date(p.los).getTime(), noradId: row.noradId, delta: -1 });
+  }));
+  // LOS before AOS at the same instant: back-to-back passes don't overlap
+  events.sort((a, b) => a.t - b.t || a.delta - b.delta);
+
+  const active = new Map<string, number>();
+  const overlaps: PassOverlap[] = [];
+  let open: PassOverlap | null = null;
+
+  events.forEach((e) => {
+    if (open && e.t > open.start) {
+      open.end = e.t;
+      overlaps.push(open);
+    }
+    open = null;
+    const n = (active.get(e.noradId) ?? 0) + e.delta;
+    if (n > 0) active.set(e.noradId, n); else active.delete(e.noradId);
+    if (active.size > 1) open = { start: e.t, end: e.t, noradIds: Array.from(active.keys()) };
+  });
+
+  // merge neighbours (a third pass joining splits one overlap into several)
+  return overlaps.reduce<PassOverlap[]>((out, o) => {
+    const last = out[out.length - 1];
+    if (last && last.end === o.start) {
+      last.end = o.end;
+      last.noradIds = Array.from(new Set([...last.noradIds, ...o.noradIds]));
+    } else {
+      out.push({ ...o });
+    }
+    return out;
+  }, []);
+}
+
+/** True when this satellite's pass is part of any overlap. */
+export function passInOverlap(noradId: string, pass: PassSummary, overlaps: PassOverlap[]): boolean {
+  const aos = new Date(pass.aos).getTime();
+  const los = new Date(pass.los).getTime();
+  return overlaps.some((o) => o.start < los && o.end > aos && o.noradIds.includes(noradId));
+}
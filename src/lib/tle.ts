@@ -0,0 +1,338 @@
+/**
+ * tle.ts
+ *
+ * Two-line element set parsing and validation.
+ *
+ * Checks the fixed column layout and modulo-10 checksums, decodes every field
+ * into typed Keplerian elements, and derives the classical orbit size values
+ * (semi-major axis, apogee, perigee, period) shown on the TLE tab.
+ *
+ * Column numbers in messages are 1-based, matching the published format spec.
+ */
+
+import { jday, type MeanElements } from './sgp4';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+const MU_KM3_S2 = 398600.4418;        // WGS-84 gravitational parameter
+const EARTH_EQ_RADIUS_KM = 6378.137;  // WGS-84 equatorial radius
+const DEG2RAD = Math.PI / 180;
+
+export const TLE_LINE_LENGTH = 69;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TleIssue {
+  line: 1 | 2;
+  /** 1-based column, when the problem is tied to one position */
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TleElements {
+  // line 1
+  noradId: string;
+  classification: string;
+  intlDesignator: string;
+  epoch: Date;
+  epochYear: number;
+  epochDay: number;
+  meanMotionDot: number;     // rev/day²  (first derivative / 2)
+  meanMotionDDot: number;    // rev/day³  (second derivative / 6)
+  bstar: number;             // 1/earth radii
+  ephemerisType: number;
+  elementSetNumber: number;
+  // line 2
+  inclinationDeg: number;
+  raanDeg: number;
+  eccentricity: number;
+  argPerigeeDeg: number;
+  meanAnomalyDeg: number;
+  meanMotionRevPerDay: number;
+  revolutionNumber: number;
+  // derived
+  semiMajorAxisKm: number;
+  apogeeKm: number;
+  perigeeKm: number;
+  periodMinutes: number;
+}
+
+export interface ParsedTle {
+  /** null when a required field could not be decoded */
+  elements: TleElements | null;
+  issues: TleIssue[];
+  /** true when there are no issues at all, warnings included */
+  valid: boolean;
+}
+
+// ─── Column layout ────────────────────────────────────────────────────────────
+// [start, end] are 1-based inclusive, as in the Space-Track documentation.
+
+type Field = { name: string; start: number; end: number; kind: 'int' | 'float' | 'decimal' | 'exp' | 'text' };
+
+const LINE1_FIELDS: Field[] = [
+  { name: 'satellite number',       start: 3,  end: 7,  kind: 'text'  },
+  { name: 'classification',         start: 8,  end: 8,  kind: 'text'  },
+  { name: 'international designator', start: 10, end: 17, kind: 'text' },
+  { name: 'epoch year',             start: 19, end: 20, kind: 'int'   },
+  { name: 'epoch day',              start: 21, end: 32, kind: 'float' },
+  { name: 'mean motion dot',        start: 34, end: 43, kind: 'float' },
+  { name: 'mean motion ddot',       start: 45, end: 52, kind: 'exp'   },
+  { name: 'B*',                     start: 54, end: 61, kind: 'exp'   },
+  { name: 'ephemeris type',         start: 63, end: 63, kind: 'text'  },
+  { name: 'element set number',     start: 65, end: 68, kind: 'text'  },
+];
+
+const LINE2_FIELDS: Field[] = [
+  { name: 'satellite number',       start: 3,  end: 7,  kind: 'text'    },
+  { name: 'inclination',            start: 9,  end: 16, kind: 'float'   },
+  { name: 'RAAN',                   start: 18, end: 25, kind: 'float'   },
+  { name: 'eccentricity',           start: 27, end: 33, kind: 'decimal' },
+  { name: 'argument of perigee',    start: 35, end: 42, kind: 'float'   },
+  { name: 'mean anomaly',           start: 44, end: 51, kind: 'float'   },
+  { name: 'mean motion',            start: 53, end: 63, kind: 'float'   },
+  { name: 'revolution number',      start: 64, end: 68, kind: 'text'    },
+];
+
+const LINE1_BLANKS = [2, 9, 18, 33, 44, 53, 62, 64];
+const LINE2_BLANKS = [2, 8, 17, 26, 34, 43, 52];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function col(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+/** Modulo-10 checksum over the first 68 columns: digits count, '-' counts 1. */
+export function tleChecksum(line: string): number {
+  let sum = 0;
+  for (const ch of line.substring(0, TLE_LINE_LENGTH - 1)) {
+    if (ch >= '0' && ch <= '9') sum += ch.charCodeAt(0) - 48;
+    else if (ch === '-') sum += 1;
+  }
+  return sum % 10;
+}
+
+/** Decodes the "±NNNNN±N" implied-decimal-point exponent format. */
+export function parseImpliedExponent(field: string): number {
+  const f = field.trim();
+  if (!f) return 0;
+  const m = /^([+-]?)(\d+)([+-]\d)$/.exec(f);
+  if (!m) return NaN;
+  const sign = m[1] === '-' ? -1 : 1;
+  return sign * parseFloat(`0.${m[2]}`) * Math.pow(10, parseInt(m[3], 10));
+}
+
+function decode(raw: string, kind: Field['kind']): number {
+  const f = raw.trim();
+  switch (kind) {
+    case 'int':     return /^\d+$/.test(f) ? parseInt(f, 10) : NaN;
+    case 'float':   return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(f) ? parseFloat(f) : NaN;
+    case 'decimal': return /^\d+$/.test(f) ? parseFloat(`0.${f}`) : NaN;
+    case 'exp':     return parseImpliedExponent(f);
+    default:        return NaN;
+  }
+}
+
+function checkLine(line: string, lineNo: 1 | 2, fields: Field[], blanks: number[], issues: TleIssue[]) {
+  if (line.length !== TLE_LINE_LENGTH) {
+    issues.push({
+      line: lineNo, severity: 'error',
+      message: `Line is ${line.length} characters, expected ${TLE_LINE_LENGTH}`,
+    });
+  }
+  if (line[0] !== String(lineNo)) {
+    issues.push({ line: lineNo, column: 1, severity: 'error', message: `Line number should be "${lineNo}"` });
+  }
+  blanks.forEach((c) => {
+    if (line.length >= c && line[c - 1] !== ' ') {
+      issues.push({ line: lineNo, column: c, severity: 'error', message: `Expected a blank at column ${c}` });
+    }
+  });
+  fields.forEach((f) => {
+    if (f.kind === 'text') return;
+    const raw = col(line, f.start, f.end);
+    if (line.length >= f.end && Number.isNaN(decode(raw, f.kind))) {
+      issues.push({
+        line: lineNo, column: f.start, severity: 'error',
+        message: `Malformed ${f.name} "${raw.trim()}" (columns ${f.start}–${f.end})`,
+      });
+    }
+  });
+
+  if (line.length >= TLE_LINE_LENGTH) {
+    const expected = tleChecksum(line);
+    const actual = line[TLE_LINE_LENGTH - 1];
+    if (!/\d/.test(actual)) {
+      issues.push({ line: lineNo, column: TLE_LINE_LENGTH, severity: 'error', message: 'Checksum digit is missing' });
+    } else if (Number(actual) !== expected) {
+      issues.push({
+        line: lineNo, column: TLE_LINE_LENGTH, severity: 'warning',
+        message: `Checksum mismatch: line says ${actual}, computed ${expected}`,
+      });
+    }
+  }
+}
+
+// ─── Alpha-5 catalog numbers ──────────────────────────────────────────────────
+// 100000–339999 are written as a letter (A=10 … Z=33, skipping I and O) plus
+// four digits, so they still fit the 5-column field.
+
+const ALPHA5_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const ALPHA5_MAX = 339_999;
+
+/** Decodes a 5-column catalog number field; NaN if it isn't numeric or Alpha-5. */
+export function decodeAlpha5(field: string): number {
+  const f = field.trim();
+  if (/^\d{1,5}$/.test(f)) return parseInt(f, 10);
+  const m = /^([A-HJ-NP-Z])(\d{4})$/.exec(f);
+  if (!m) return NaN;
+  return (ALPHA5_LETTERS.indexOf(m[1]) + 10) * 10_000 + parseInt(m[2], 10);
+}
+
+/** Encodes a catalog number for the 5-column field, or null beyond Alpha-5. */
+export function encodeAlpha5(catalogNumber: number): string | null {
+  if (!Number.isInteger(catalogNumber) || catalogNumber < 0 || catalogNumber > ALPHA5_MAX) return null;
+  if (catalogNumber < 100_000) return String(catalogNumber).padStart(5, '0');
+  const letter = ALPHA5_LETTERS[Math.floor(catalogNumber / 10_000) - 10];
+  return `${letter}${String(catalogNumber % 10_000).padStart(4, '0')}`;
+}
+
+// ─── Derived quantities ───────────────────────────────────────────────────────
+
+export function semiMajorAxisKm(meanMotionRevPerDay: number): number {
+  const n = (meanMotionRevPerDay * 2 * Math.PI) / 86400; // rad/s
+  return Math.cbrt(MU_KM3_S2 / (n * n));
+}
+
+/** Orbit size values derived from mean motion and eccentricity. */
+export function deriveOrbitSize(meanMotionRevPerDay: number, eccentricity: number) {
+  const a = semiMajorAxisKm(meanMotionRevPerDay);
+  return {
+    semiMajorAxisKm: a,
+    apogeeKm: a * (1 + eccentricity) - EARTH_EQ_RADIUS_KM,
+    perigeeKm: a * (1 - eccentricity) - EARTH_EQ_RADIUS_KM,
+    periodMinutes: 1440 / meanMotionRevPerDay,
+  };
+}
+
+export function tleEpochToDate(epochYear: number, epochDay: number): Date {
+  const year = epochYear < 57 ? 2000 + epochYear : 1900 + epochYear;
+  return new Date(Date.UTC(year, 0, 1) + (epochDay - 1) * 86_400_000);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Validates and decodes a TLE. Trailing whitespace and CR line endings are
+ * tolerated; everything else is checked against the fixed column layout.
+ * Checksum mismatches are reported as warnings — the elements are still
+ * returned so hand-edited sets remain usable.
+ */
+export function parseTle(rawLine1: string, rawLine2: string): ParsedTle {
+  const line1 = rawLine1.replace(/\s+$/, '');
+  const line2 = rawLine2.replace(/\s+$/, '');
+  const issues: TleIssue[] = [];
+
+  checkLine(line1, 1, LINE1_FIELDS, LINE1_BLANKS, issues);
+  checkLine(line2, 2, LINE2_FIELDS, LINE2_BLANKS, issues);
+
+  const sat1 = col(line1, 3, 7).trim();
+  const sat2 = col(line2, 3, 7).trim();
+  if (sat1 && Number.isNaN(decodeAlpha5(sat1))) {
+    issues.push({ line: 1, column: 3, severity: 'error', message: `Malformed satellite number "${sat1}"` });
+  }
+  if (sat1 && sat2 && sat1 !== sat2) {
+    issues.push({ line: 2, column: 3, severity: 'error', message: `Satellite number ${sat2} does not match line 1 (${sat1})` });
+  }
+
+  if (issues.some((i) => i.severity === 'error')) {
+    return { elements: null, issues, valid: false };
+  }
+
+  const epochYear = decode(col(line1, 19, 20), 'int');
+  const epochDay = decode(col(line1, 21, 32), 'float');
+  const eccentricity = decode(col(line2, 27, 33), 'decimal');
+  const meanMotion = decode(col(line2, 53, 63), 'float');
+
+  if (meanMotion <= 0) {
+    issues.push({ line: 2, column: 53, severity: 'error', message: 'Mean motion must be positive' });
+    return { elements: null, issues, valid: false };
+  }
+
+  const elements: TleElements = {
+    // Alpha-5 is decoded; plain numeric ids are kept exactly as written
+    noradId: /^\d+$/.test(sat1) ? sat1 : String(decodeAlpha5(sat1)),
+    classification: col(line1, 8, 8).trim() || 'U',
+    intlDesignator: col(line1, 10, 17).trim(),
+    epoch: tleEpochToDate(epochYear, epochDay),
+    epochYear,
+    epochDay,
+    meanMotionDot: decode(col(line1, 34, 43), 'float'),
+    meanMotionDDot: decode(col(line1, 45, 52), 'exp'),
+    bstar: decode(col(line1, 54, 61), 'exp'),
+    ephemerisType: parseInt(col(line1, 63, 63), 10) || 0,
+    elementSetNumber: parseInt(col(line1, 65, 68), 10) || 0,
+    inclinationDeg: decode(col(line2, 9, 16), 'float'),
+    raanDeg: decode(col(line2, 18, 25), 'float'),
+    eccentricity,
+    argPerigeeDeg: decode(col(line2, 35, 42), 'float'),
+    meanAnomalyDeg: decode(col(line2, 44, 51), 'float'),
+    meanMotionRevPerDay: meanMotion,
+    revolutionNumber: parseInt(col(line2, 64, 68), 10) || 0,
+    ...deriveOrbitSize(meanMotion, eccentricity),
+  };
+
+  return { elements, issues, valid: issues.length === 0 };
+}
+
+export interface TleSet {
+  name: string | null;
+  line1: string;
+  line2: string;
+}
+
+/**
+ * Splits pasted or uploaded text into element sets. Accepts bare 2-line sets
+ * and 3-line sets whose title line may carry the "0 " prefix used by
+ * Space-Track. Lines that cannot be paired are returned in `unmatched`.
+ */
+export function splitTleSets(text: string): { sets: TleSet[]; unmatched: string[] } {
+  const lines = text.split(/\r?\n/).map((l) => l.replace(/\s+$/, '')).filter((l) => l.trim() !== '');
+  const sets: TleSet[] = [];
+  const unmatched: string[] = [];
+  let pendingName: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1];
+    if (line.startsWith('1 ') && next?.startsWith('2 ')) {
+      sets.push({ name: pendingName, line1: line, line2: next });
+      pendingName = null;
+      i++;
+      continue;
+    }
+    if (pendingName !== null) unmatched.push(pendingName);
+    pendingName = line.startsWith('1 ') || line.startsWith('2 ') ? null : line.replace(/^0 /, '').trim();
+    if (pendingName === null) unmatched.push(line);
+  }
+  if (pendingName !== null) unmatched.push(pendingName);
+
+  return { sets, unmatched };
+}
+
+/** Converts decoded elements into the units sgp4init expects. */
+export function toMeanElements(el: TleElements): MeanElements {
+  const year = el.epochYear < 57 ? 2000 + el.epochYear : 1900 + el.epochYear;
+  return {
+    satnum: el.noradId,
+    jdEpoch: jday(year, 1, 1) - 1 + el.epochDay,
+    bstar: el.bstar,
+    ecco: el.eccentricity,
+    argpo: el.argPerigeeDeg * DEG2RAD,
+    inclo: el.inclinationDeg * DEG2RAD,
+    mo: el.meanAnomalyDeg * DEG2RAD,
+    no: el.meanMotionRevPerDay / (1440 / (2 * Math.PI)), // rev/day → rad/min
+    nodeo: el.raanDeg * DEG2RAD,
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * trackExport.ts
+ *
+ * The map's ground track, observer, satellite markers and coverage footprints
+ * as files other tools open: KML (Google Earth), GeoJSON (QGIS), GPX and
+ * Cesium CZML.
+ *
+ * KML, GeoJSON and GPX draw straight lines between vertices in longitude, so
+ * the track is cut where it crosses the antimeridian exactly like WorldMap
+ * draws it — otherwise a segment would run the long way round the globe.
+ * CZML positions are interpolated on the ellipsoid, so Cesium gets the track
+ * as one time-tagged path.
+ *
+ * Footprints that cross the antimeridian or enclose a pole can't be a plain
+ * polygon in lon/lat; those are exported as their outline, split like the
+ * track. GPX has no polygons, so it carries only the track and waypoints.
+ */
+
+import type { ObserverLocation, SatellitePosition, TrackPoint } from '../types';
+import { footprintRings } from './footprint';
+import { wrapLongitude } from './frames';
+
+export type TrackExportFormat = 'kml' | 'geojson' | 'gpx' | 'czml';
+
+export const TRACK_EXPORT_FORMATS: { format: TrackExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'kml',     label: 'KML',     extension: 'kml',     mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'geojson', label: 'GEOJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'gpx',     label: 'GPX',     extension: 'gpx',     mimeType: 'application/gpx+xml' },
+  { format: 'czml',    label: 'CZML',    extension: 'czml',    mimeType: 'application/json' },
+];
+
+export interface TrackExportInput {
+  /** Satellite the track belongs to */
+  track?: { noradId: string; name: string; points: TrackPoint[] };
+  observer?: ObserverLocation | null;
+  /** Current satellite positions, exported as point markers */
+  markers?: SatellitePosition[];
+  /** Footprints of the markers at this minimum elevation; omit for none */
+  footprintMinElevationDeg?: number;
+  now?: Date;
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+/** Cuts a track wherever consecutive points jump more than 180° in longitude. */
+export function splitAtAntimeridian<T extends { longitudeDeg: number }>(pts: T[]): T[][] {
+  const segs: T[][] = [];
+  let seg: T[] = [];
+  pts.forEach((pt, i) => {
+    if (i > 0 && Math.abs(pt.longitudeDeg - pts[i - 1].longitudeDeg) > 180) {
+      if (seg.length > 1) segs.push(seg);
+      seg = [];
+    }
+    seg.push(pt);
+  });
+  if (seg.length > 1) segs.push(seg);
+  return segs;
+}
+
+interface FootprintShape {
+  marker: SatellitePosition;
+  /** [lon, lat] closed ring when the footprint fits in -180…180 */
+  polygon: [number, number][] | null;
+  /** [lon, lat] outline pieces otherwise */
+  outline: [number, number][][];
+}
+
+function footprintShapes(markers: SatellitePosition[], minEl: number): FootprintShape[] {
+  return markers.flatMap((m): FootprintShape[] => {
+    const rings = footprintRings(m.latitudeDeg, m.longitudeDeg, m.altitudeKm, minEl);
+    if (!rings.length) return [];
+    // footprintRings adds a shifted copy when the ring leaves -180…180
+    if (rings.length === 1) {
+      return [{ marker: m, polygon: rings[0].map(([lat, lon]): [number, number] => [lon, lat]), outline: [] }];
+    }
+    const wrapped = rings[0].map(([lat, lon]) => ({ latitudeDeg: lat, longitudeDeg: wrapLongitude(lon) }));
+    const outline = splitAtAntimeridian(wrapped).map((seg) => seg.map((p): [number, number] => [p.longitudeDeg, p.latitudeDeg]));
+    return [{ marker: m, polygon: null, outline }];
+  });
+}
+
+// ─── Formatting helpers ─────────────────────────────────────────────────────
+
+const deg = (v: number) => Number(v.toFixed(6));
+const metres = (km: number) => Math.round(km * 1000);
+
+function xml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function observerName(o: ObserverLocation): string {
+  return o.label ?? `Observer ${o.lat.toFixed(4)}, ${o.lon.toFixed(4)}`;
+}
+
+function trackTimes(points: TrackPoint[]): { begin: string; end: string } {
+  return { begin: points[0].timestamp, end: points[points.length - 1].timestamp };
+}
+
+// ─── GeoJSON ────────────────────────────────────────────────────────────────
+
+/** RFC 7946 FeatureCollection; positions are [lon, lat, altitude m]. */
+export function trackToGeoJson(input: TrackExportInput): string {
+  const features: object[] = [];
+  const { track, observer, markers = [], footprintMinElevationDeg } = input;
+
+  if (track && track.points.length > 1) {
+    const segs = splitAtAntimeridian(track.points)
+      .map((seg) => seg.map((p) => [deg(p.longitudeDeg), deg(p.latitudeDeg), metres(p.altitudeKm)]));
+    features.push({
+      type: 'Feature',
+      geometry: segs.length === 1
+        ? { type: 'LineString', coordinates: segs[0] }
+        : { type: 'MultiLineString', coordinates: segs },
+      properties: { kind: 'ground-track', noradId: track.noradId, name: track.name, ...trackTimes(track.points) },
+    });
+  }
+
+  if (observer) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [deg(observer.lon), deg(observer.lat), metres(observer.alt ?? 0)] },
+      properties: { kind: 'observer', name: observerName(observer) },
+    });
+  }
+
+  markers.forEach((m) => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [deg(m.longitudeDeg), deg(m.latitudeDeg), metres(m.altitudeKm)] },
+      properties: { kind: 'satellite', noradId: m.noradId, name: m.name, time: m.timestamp, speedKmPerS: m.speedKmPerS },
+    });
+  });
+
+  if (footprintMinElevationDeg != null) {
+    footprintShapes(markers, footprintMinElevationDeg).forEach(({ marker, polygon, outline }) => {
+      features.push({
+        type: 'Feature',
+        geometry: polygon
+          ? { type: 'Polygon', coordinates: [polygon.map(([lon, lat]) => [deg(lon), deg(lat)])] }
+          : { type: 'MultiLineString', coordinates: outline.map((seg) => seg.map(([lon, lat]) => [deg(lon), deg(lat)])) },
+        properties: { kind: 'footprint', noradId: marker.noradId, name: marker.name, minElevationDeg: footprintMinElevationDeg },
+      });
+    });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+// ─── KML ────────────────────────────────────────────────────────────────────
+
+const KML_STYLES = `
+    <Style id="track"><LineStyle><color>ffffc200</color><width>2</width></LineStyle></Style>
+    <Style id="observer"><IconStyle><color>fff48542</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>
+    <Style id="satellite"><IconStyle><color>ffffc200</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/triangle.png</href></Icon></IconStyle></Style>
+    <Style id="footprint"><LineStyle><color>99ffc200</color><width>1</width></LineStyle><PolyStyle><color>1affc200</color></PolyStyle></Style>`;
+
+const kmlCoords = (pts: [number, number, number?][]) =>
+  pts.map(([lon, lat, alt]) => `${deg(lon)},${deg(lat)},${alt ?? 0}`).join(' ');
+
+/** KML 2.2; the track is drawn at orbital altitude, extruded to the ground. */
+export function trackToKml(input: TrackExportInput): string {
+  const { track, observer, markers = [], footprintMinElevationDeg } = input;
+  const parts: string[] = [];
+
+  if (track && track.points.length > 1) {
+    const { begin, end } = trackTimes(track.points);
+    const lines = splitAtAntimeridian(track.points).map((seg) =>
+      `<LineString><extrude>1</extrude><tessellate>1</tessellate><altitudeMode>absolute</altitudeMode><coordinates>${
+        kmlCoords(seg.map((p): [number, number, number] => [p.longitudeDeg, p.latitudeDeg, metres(p.altitudeKm)]))
+      }</coordinates></LineString>`);
+    parts.push(`
+    <Placemark>
+      <name>${xml(`${track.name} ground track`)}</name>
+      <description>${xml(`NORAD ${track.noradId} · ${begin} – ${end}`)}</description>
+      <TimeSpan><begin>${begin}</begin><end>${end}</end></TimeSpan>
+      <styleUrl>#track</styleUrl>
+      <MultiGeometry>${lines.join('')}</MultiGeometry>
+    </Placemark>`);
+  }
+
+  if (observer) {
+    parts.push(`
+    <Placemark>
+      <name>${xml(observerName(observer))}</name>
+      <styleUrl>#observer</styleUrl>
+      <Point><coordinates>${kmlCoords([[observer.lon, observer.lat]])}</coordinates></Point>
+    </Placemark>`);
+  }
+
+  markers.forEach((m) => {
+    parts.push(`
+    <Placemark>
+      <name>${xml(m.name)}</name>
+      <description>${xml(`NORAD ${m.noradId} · ${m.altitudeKm.toFixed(0)} km · ${m.speedKmPerS.toFixed(2)} km/s`)}</description>
+      <TimeStamp><when>${m.timestamp}</when></TimeStamp>
+      <styleUrl>#satellite</styleUrl>
+      <Point><extrude>1</extrude><altitudeMode>absolute</altitudeMode><coordinates>${
+        kmlCoords([[m.longitudeDeg, m.latitudeDeg, metres(m.altitudeKm)]])
+      }</coordinates></Point>
+    </Placemark>`);
+  });
+
+  if (footprintMinElevationDeg != null) {
+    footprintShapes(markers, footprintMinElevationDeg).forEach(({ marker, polygon, outline }) => {
+      const geometry = polygon
+        ? `<Polygon><tessellate>1</tessellate><outerBoundaryIs><LinearRing><coordinates>${kmlCoords(polygon)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+        : `<MultiGeometry>${outline.map((seg) => `<LineString><tessellate>1</tessellate><coordinates>${kmlCoords(seg)}</coordinates></LineString>`).join('')}</MultiGeometry>`;
+      parts.push(`
+    <Placemark>
+      <name>${xml(`${marker.name} footprint ≥${footprintMinElevationDeg}°`)}</name>
+      <styleUrl>#footprint</styleUrl>
+      ${geometry}
+    </Placemark>`);
+    });
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${xml(track ? `${track.name} — SatTrack` : 'SatTrack map')}</name>${KML_STYLES}${parts.join('')}
+  </Document>
+</kml>
+`;
+}
+
+// ─── GPX ────────────────────────────────────────────────────────────────────
+
+/** GPX 1.1: one trkseg per antimeridian piece, observer and markers as waypoints. */
+export function trackToGpx(input: TrackExportInput): string {
+  const { track, observer, markers = [] } = input;
+  const now = (input.now ?? new Date()).toISOString();
+  const wpt = (lat: number, lon: number, eleM: number, name: string, time?: string) =>
+    `  <wpt lat="${deg(lat)}" lon="${deg(lon)}"><ele>${eleM}</ele>${time ? `<time>${time}</time>` : ''}<name>${xml(name)}</name></wpt>`;
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SatTrack" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${xml(track ? `${track.name} ground track` : 'SatTrack map')}</name><time>${now}</time></metadata>`,
+  ];
+  if (observer) lines.push(wpt(observer.lat, observer.lon, metres(observer.alt ?? 0), observerName(observer)));
+  markers.forEach((m) => lines.push(wpt(m.latitudeDeg, m.longitudeDeg, metres(m.altitudeKm), m.name, m.timestamp)));
+
+  if (track && track.points.length > 1) {
+    lines.push('  <trk>', `    <name>${xml(track.name)}</name>`, `    <desc>${xml(`NORAD ${track.noradId}`)}</desc>`);
+    splitAtAntimeridian(track.points).forEach((seg) => {
+      lines.push('    <trkseg>');
+      seg.forEach((p) => lines.push(
+        `      <trkpt lat="${deg(p.latitudeDeg)}" lon="${deg(p.longitudeDeg)}"><ele>${metres(p.altitudeKm)}</ele><time>${p.timestamp}</time></trkpt>`,
+      ));
+      lines.push('    </trkseg>');
+    });
+    lines.push('  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+// ─── CZML ───────────────────────────────────────────────────────────────────
+
+const CYAN_RGBA = [0, 194, 255, 255];
+const OBSERVER_RGBA = [66, 133, 244, 255];
+
+/** Cesium CZML: the track as a sampled position with a path, clock set to its span. */
+export function trackToCzml(input: TrackExportInput): string {
+  const { track, observer, markers = [], footprintMinElevationDeg } = input;
+  const packets: object[] = [];
+  const times = track && track.points.length > 1 ? trackTimes(track.points) : null;
+
+  packets.push({
+    id: 'document',
+    name: track ? `${track.name} — SatTrack` : 'SatTrack map',
+    version: '1.0',
+    ...(times && {
+      clock: { interval: `${times.begin}/${times.end}`, currentTime: times.begin, multiplier: 60, range: 'LOOP_STOP', step: 'SYSTEM_CLOCK_MULTIPLIER' },
+    }),
+  });
+
+  if (track && times) {
+    const epoch = new Date(times.begin).getTime();
+    packets.push({
+      id: `track-${track.noradId}`,
+      name: track.name,
+      description: `NORAD ${track.noradId}`,
+      availability: `${times.begin}/${times.end}`,
+      position: {
+        epoch: times.begin,
+        interpolationAlgorithm: 'LAGRANGE',
+        interpolationDegree: 5,
+        cartographicDegrees: track.points.flatMap((p) => [
+          (new Date(p.timestamp).getTime() - epoch) / 1000, deg(p.longitudeDeg), deg(p.latitudeDeg), metres(p.altitudeKm),
+        ]),
+      },
+      point: { pixelSize: 8, color: { rgba: CYAN_RGBA } },
+      label: { text: track.name, font: '11px monospace', pixelOffset: { cartesian2: [12, 0] }, fillColor: { rgba: CYAN_RGBA } },
+      path: { width: 2, leadTime: 0, trailTime: 1e9, resolution: 60, material: { solidColor: { color: { rgba: CYAN_RGBA } } } },
+    });
+  }
+
+  if (observer) {
+    packets.push({
+      id: 'observer',
+      name: observerName(observer),
+      position: { cartographicDegrees: [deg(observer.lon), deg(observer.lat), metres(observer.alt ?? 0)] },
+      point: { pixelSize: 8, color: { rgba: OBSERVER_RGBA }, heightReference: 'CLAMP_TO_GROUND' },
+      label: { text: observerName(observer), font: '11px monospace', pixelOffset: { cartesian2: [12, 0] }, fillColor: { rgba: OBSERVER_RGBA } },
+    });
+  }
+
+  markers.forEach((m) => {
+    packets.push({
+      id: `satellite-${m.noradId}`,
+      name: m.name,
+      description: `NORAD ${m.noradId} at ${m.timestamp}`,
+      position: { cartographicDegrees: [deg(m.longitudeDeg), deg(m.latitudeDeg), metres(m.altitudeKm)] },
+      point: { pixelSize: 6, color: { rgba: CYAN_RGBA } },
+    });
+  });
+
+  if (footprintMinElevationDeg != null) {
+    markers.forEach((m) => {
+      const rings = footprintRings(m.latitudeDeg, m.longitudeDeg, m.altitudeKm, footprintMinElevationDeg);
+      if (!rings.length) return;
+      // Cesium wraps longitudes itself, so the unsplit ring is what it wants
+      packets.push({
+        id: `footprint-${m.noradId}`,
+        name: `${m.name} footprint ≥${footprintMinElevationDeg}°`,
+        polygon: {
+          positions: { cartographicDegrees: rings[0].flatMap(([lat, lon]) => [deg(wrapLongitude(lon)), deg(lat), 0]) },
+          material: { solidColor: { color: { rgba: [0, 194, 255, 26] } } },
+          outline: true,
+          outlineColor: { rgba: [0, 194, 255, 153] },
+        },
+      });
+    });
+  }
+
+  return JSON.stringify(packets, null, 2);
+}
+
+export function exportTrack(format: TrackExportFormat, input: TrackExportInput): string {
+  switch (format) {
+    case 'kml':     return trackToKml(input);
+    case 'geojson': return trackToGeoJson(input);
+    case 'gpx':     return trackToGpx(input);
+    case 'czml':    return trackToCzml(input);
+  }
+}
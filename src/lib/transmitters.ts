@@ -0,0 +1,151 @@
+/**
+ * transmitters.ts
+ *
+ * Per-satellite transmitter catalog in the SatNOGS DB shape
+ * (https://db.satnogs.org/api/transmitters/): parsing the JSON that endpoint
+ * returns, merging server entries with locally imported ones, and the link
+ * that opens the Doppler page tuned to a transmitter.
+ *
+ * SatNOGS gives frequencies in Hz with snake_case keys; the backend may answer
+ * in either that shape or our camelCase one, so both are read.
+ */
+
+import type { TransmitterStatus, Transmitter, TransponderMode } from '../types';
+
+export interface TransmitterImportResult {
+  transmitters: Transmitter[];
+  /** One message per entry that couldn't be read */
+  rejected: string[];
+}
+
+const STATUSES: TransmitterStatus[] = ['active', 'inactive', 'invalid'];
+
+function num(v: unknown): number | null {
+  const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function str(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/** Reads one SatNOGS (or camelCase) record; null when it has no id or satellite. */
+export function toTransmitter(rec: Record<string, unknown>, source: Transmitter['source']): Transmitter | null {
+  const pick = (snake: string, camel: string) => rec[snake] ?? rec[camel];
+  const uuid = str(rec.uuid);
+  const norad = pick('norad_cat_id', 'noradId');
+  const noradId = norad != null && String(norad).trim() ? String(norad).trim() : null;
+  if (!uuid || !noradId) return null;
+
+  const status = String(rec.status ?? '').toLowerCase() as TransmitterStatus;
+  return {
+    uuid,
+    noradId,
+    description: str(rec.description) ?? 'Transmitter',
+    type: str(rec.type) ?? undefined,
+    uplinkLowHz: num(pick('uplink_low', 'uplinkLowHz')),
+    uplinkHighHz: num(pick('uplink_high', 'uplinkHighHz')),
+    downlinkLowHz: num(pick('downlink_low', 'downlinkLowHz')),
+    downlinkHighHz: num(pick('downlink_high', 'downlinkHighHz')),
+    mode: str(rec.mode),
+    uplinkMode: str(pick('uplink_mode', 'uplinkMode')),
+    invert: rec.invert === true,
+    baud: num(rec.baud),
+    status: STATUSES.includes(status) ? status : 'active',
+    alive: rec.alive !== false,
+    service: str(rec.service) ?? undefined,
+    updated: str(rec.updated) ?? undefined,
+    source,
+  };
+}
+
+/** Parses a SatNOGS DB transmitters export: an array of records or a single one. */
+export function parseSatnogsTransmitters(text: string): TransmitterImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { transmitters: [], rejected: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+
+  const records = Array.isArray(data) ? data : [data];
+  const transmitters: Transmitter[] = [];
+  const rejected: string[] = [];
+  records.forEach((rec, i) => {
+    const t = rec && typeof rec === 'object' ? toTransmitter(rec as Record<string, unknown>, 'user') : null;
+    if (t) transmitters.push(t);
+    else rejected.push(`Entry ${i + 1}: needs "uuid" and "norad_cat_id"`);
+  });
+  return { transmitters, rejected };
+}
+
+/** Imported entries replace server ones with the same uuid; active ones first. */
+export function mergeTransmitters(server: Transmitter[], user: Transmitter[]): Transmitter[] {
+  const byUuid = new Map<string, Transmitter>();
+  [...server, ...user].forEach((t) => byUuid.set(t.uuid, t));
+  const rank = (t: Transmitter) => (t.status === 'active' && t.alive ? 0 : t.status === 'inactive' ? 1 : 2);
+  return Array.from(byUuid.values()).sort((a, b) =>
+    rank(a) - rank(b) || (a.downlinkLowHz ?? Infinity) - (b.downlinkLowHz ?? Infinity));
+}
+
+// ─── Display ────────────────────────────────────────────────────────────────
+
+/** 437550000 → "437.550 MHz"; a passband → "435.765–435.795 MHz" */
+export function formatFrequency(lowHz: number | null, highHz: number | null = null): string {
+  if (lowHz == null) return '—';
+  const mhz = (hz: number) => (hz / 1e6).toFixed(hz % 1000 ? 6 : 3).replace(/(\.\d{3}\d*?)0+$/, '$1');
+  return highHz != null && highHz !== lowHz ? `${mhz(lowHz)}–${mhz(highHz)} MHz` : `${mhz(lowHz)} MHz`;
+}
+
+/** Transponders have a passband; everything else a single channel. */
+export function isTransponder(t: Transmitter): boolean {
+  return t.downlinkHighHz != null || t.uplinkHighHz != null || t.type?.toLowerCase() === 'transponder';
+}
+
+// ─── Doppler page link ──────────────────────────────────────────────────────
+
+export interface DopplerPrefill {
+  noradId: string;
+  /** Downlink; with an uplink, the pair at the passband centres */
+  freqMhz: string;
+  uplinkMhz?: string;
+  transponderMode?: TransponderMode;
+}
+
+const centreHz = (low: number | null, high: number | null) => (low != null && high != null ? (low + high) / 2 : low);
+const toMhz = (hz: number) => String(Number((hz / 1e6).toFixed(6)));
+
+export function transmitterPrefill(t: Transmitter): DopplerPrefill | null {
+  const down = centreHz(t.downlinkLowHz, t.downlinkHighHz);
+  if (down == null) return null;
+  const up = centreHz(t.uplinkLowHz, t.uplinkHighHz);
+  return {
+    noradId: t.noradId,
+    freqMhz: toMhz(down),
+    ...(up != null && { uplinkMhz: toMhz(up), transponderMode: t.invert ? 'INVERTING' : 'NON_INVERTING' }),
+  };
+}
+
+export function dopplerLink(p: DopplerPrefill): string {
+  const q = new URLSearchParams({ norad: p.noradId, down: p.freqMhz });
+  if (p.uplinkMhz && p.transponderMode) {
+    q.set('up', p.uplinkMhz);
+    q.set('mode', p.transponderMode);
+  }
+  return `/doppler?${q}`;
+}
+
+/** Reads a dopplerLink query back; null when it doesn't carry a satellite and frequency. */
+export function parseDopplerLink(params: URLSearchParams): DopplerPrefill | null {
+  const noradId = params.get('norad');
+  const freqMhz = params.get('down');
+  if (!noradId || !freqMhz || !num(freqMhz)) return null;
+  const mode = params.get('mode');
+  const uplinkMhz = params.get('up');
+  const transponderMode = mode === 'INVERTING' || mode === 'NON_INVERTING' ? mode : undefined;
+  return {
+    noradId,
+    freqMhz,
+    ...(uplinkMhz && num(uplinkMhz) && transponderMode && { uplinkMhz, transponderMode }),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * tuning.ts
+ *
+ * Doppler tuning tables for rig-control scripts: the corrected receive and
+ * transmit frequencies at a fixed time step over a pass, in Hz.
+ *
+ * The table is resampled from a Doppler curve's range rate, linearly
+ * interpolated, so its step doesn't have to match the curve's. With the same
+ * first-order model as the curve,
+ *
+ *   RX = f_down · (1 − ṙ/c)     what the ground receives from f_down
+ *   TX = f_up   · (1 + ṙ/c)     what to send so the satellite hears f_up
+ *
+ * where ṙ is positive while the satellite recedes.
+ */
+
+import type { DopplerResult } from '../types';
+import { SPEED_OF_LIGHT_KM_S } from './doppler';
+
+export const TUNING_STEPS_SEC = [1, 2, 5, 10, 30, 60];
+
+export interface TuningOptions {
+  stepSec: number;
+  downlinkMhz: number;
+  /** Omit for receive-only tables */
+  uplinkMhz?: number;
+  /** Drop rows with the satellite below the horizon */
+  aboveHorizonOnly: boolean;
+}
+
+export interface TuningRow {
+  time: number;
+  elevationDeg: number;
+  rangeKm: number;
+  rangeRateKmPerS: number;
+  dopplerHz: number;
+  rxHz: number;
+  txHz: number | null;
+}
+
+export interface TuningMeta {
+  noradId: string;
+  observer: { lat: number; lon: number; altKm: number };
+}
+
+export function tuningTable(curve: DopplerResult[], opts: TuningOptions): TuningRow[] {
+  if (curve.length < 2) return [];
+  const times = curve.map((p) => new Date(p.computedAt).getTime());
+  const stepMs = Math.max(1, opts.stepSec) * 1000;
+  const downHz = opts.downlinkMhz * 1e6;
+  const upHz = opts.uplinkMhz != null ? opts.uplinkMhz * 1e6 : null;
+  const rows: TuningRow[] = [];
+  let i = 0;
+
+  for (let t = times[0]; t <= times[times.length - 1]; t += stepMs) {
+    while (i < times.length - 2 && times[i + 1] < t) i++;
+    const span = times[i + 1] - times[i];
+    const f = span > 0 ? (t - times[i]) / span : 0;
+    const lerp = (a: number, b: number) => a + f * (b - a);
+    const a = curve[i], b = curve[i + 1];
+
+    const elevationDeg = lerp(a.elevationDeg, b.elevationDeg);
+    if (opts.aboveHorizonOnly && elevationDeg < 0) continue;
+    const rangeRateKmPerS = lerp(a.radialVelocityKms, b.radialVelocityKms);
+    const beta = rangeRateKmPerS / SPEED_OF_LIGHT_KM_S;
+
+    rows.push({
+      time: t,
+      elevationDeg,
+      rangeKm: lerp(a.rangKm, b.rangKm),
+      rangeRateKmPerS,
+      dopplerHz: -downHz * beta,
+      rxHz: Math.round(downHz * (1 - beta)),
+      txHz: upHz != null ? Math.round(upHz * (1 + beta)) : null,
+    });
+  }
+  return rows;
+}
+
+// ─── Formats ────────────────────────────────────────────────────────────────
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+export function tuningToCsv(rows: TuningRow[]): string {
+  return [
+    'time_utc,unix_s,elevation_deg,range_km,range_rate_km_s,doppler_hz,rx_hz,tx_hz',
+    ...rows.map((r) => [
+      iso(r.time), (r.time / 1000).toFixed(0), r.elevationDeg.toFixed(2), r.rangeKm.toFixed(1),
+      r.rangeRateKmPerS.toFixed(4), r.dopplerHz.toFixed(1), String(r.rxHz), r.txHz != null ? String(r.txHz) : '',
+    ].join(',')),
+  ].join('\n') + '\n';
+}
+
+/** Fixed-width text in the spirit of Gpredict's pass details export. */
+export function tuningToText(rows: TuningRow[], meta: TuningMeta, opts: TuningOptions): string {
+  const { observer: o } = meta;
+  const pad = (v: string, n: number) => v.padStart(n);
+  const header = [
+    `# Doppler tuning table for ${meta.noradId}`,
+    `# Observer  ${o.lat.toFixed(4)}°, ${o.lon.toFixed(4)}°, ${(o.altKm * 1000).toFixed(0)} m`,
+    `# Downlink  ${opts.downlinkMhz.toFixed(6)} MHz`,
+    `# Uplink    ${opts.uplinkMhz != null ? `${opts.uplinkMhz.toFixed(6)} MHz` : '—'}`,
+    `# Step      ${opts.stepSec} s${opts.aboveHorizonOnly ? ', above the horizon only' : ''}`,
+    '#',
+    `  ${'Time (UTC)'.padEnd(19)}  ${pad('El', 6)}  ${pad('Range', 8)}  ${pad('RRate', 8)}  ${pad('Doppler', 10)}  ${pad('RX [Hz]', 12)}  ${pad('TX [Hz]', 12)}`,
+    `  ${'-'.repeat(19)}  ${pad('[deg]', 6)}  ${pad('[km]', 8)}  ${pad('[km/s]', 8)}  ${pad('[Hz]', 10)}  ${'-'.repeat(12)}  ${'-'.repeat(12)}`,
+  ];
+  const body = rows.map((r) => [
+    iso(r.time).slice(0, 19).replace('T', ' '),
+    pad(r.elevationDeg.toFixed(2), 6),
+    pad(r.rangeKm.toFixed(1), 8),
+    pad(r.rangeRateKmPerS.toFixed(3), 8),
+    pad((r.dopplerHz >= 0 ? '+' : '') + r.dopplerHz.toFixed(0), 10),
+    pad(String(r.rxHz), 12),
+    pad(r.txHz != null ? String(r.txHz) : '—', 12),
+  ].join('  '));
+  return [...header, ...body.map((l) => `  ${l}`)].join('\n') + '\n';
+}
+
+/** Schedule for scripts: apply `rxHz` / `txHz` at each `time`. */
+export function tuningToJson(rows: TuningRow[], meta: TuningMeta, opts: TuningOptions): string {
+  return JSON.stringify({
+    noradId: meta.noradId,
+    observer: meta.observer,
+    downlinkHz: Math.round(opts.downlinkMhz * 1e6),
+    uplinkHz: opts.uplinkMhz != null ? Math.round(opts.uplinkMhz * 1e6) : null,
+    stepSec: opts.stepSec,
+    schedule: rows.map((r) => ({
+      time: iso(r.time),
+      rxHz: r.rxHz,
+      txHz: r.txHz,
+      dopplerHz: Math.round(r.dopplerHz),
+      elevationDeg: Number(r.elevationDeg.toFixed(2)),
+    })),
+  }, null, 2);
+}
@@ -2,6 +2,13 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+// Fonts are bundled rather than fetched from Google Fonts, so the UI looks
+// the same on a network without internet access
+import '@fontsource/orbitron/400.css';
+import '@fontsource/orbitron/600.css';
+import '@fontsource/orbitron/700.css';
+import '@fontsource/orbitron/900.css';
+import '@fontsource/share-tech-mono/400.css';
 import './index.css';
 import { wsService } from './services/websocket';
 
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { AlertTriangle, ChevronRight, Activity } from 'lucide-react';
-import { useConjunctions } from '../hooks';
-import { format, formatDistanceToNow } from 'date-fns';
-import { Link } from 'react-router-dom';
+import { AlertTriangle, ChevronRight, Activity, Play } from 'lucide-react';
+import { useConjunctions, useUtcClock } from '../hooks';
+import { format, formatDistance } from 'date-fns';
+import { Link, useNavigate } from 'react-router-dom';
+import { useStore } from '../stores/useStore';
 
 const C = {
   primary: '#2f6fed',
@@ -23,7 +24,12 @@ const RISK_CONFIG = {
   CRITICAL: { color: C.danger,   label: 'CRITICAL' },
 };
 
+// Replays start a little before TCA so the approach is visible on the map
+const REPLAY_LEAD_MS = 5 * 60_000;
+
 export function Conjunctions() {
+  const navigate = useNavigate();
+  const now = useUtcClock();
   const [page, setPage] = useState(0);
   const { data, loading, error, liveAlert } = useConjunctions(page, 15);
   const [newAlertFlash, setNewAlertFlash] = useState(false);
@@ -36,6 +42,15 @@ export function Conjunctions() {
     }
   }, [liveAlert]);
 
+  const replay = (conj: { noradIdA: string; noradIdB: string; tca: string }) => {
+    const { addTracked, setSelectedSatellite, jumpSim } = useStore.getState();
+    addTracked(conj.noradIdA);
+    addTracked(conj.noradIdB);
+    setSelectedSatellite(conj.noradIdA);
+    jumpSim(new Date(new Date(conj.tca).getTime() - REPLAY_LEAD_MS));
+    navigate('/');
+  };
+
   const totalCritical = data?.content.filter(c => c.riskLevel === 'CRITICAL').length ?? 0;
   const totalHigh     = data?.content.filter(c => c.riskLevel === 'HIGH').length ?? 0;
 
@@ -115,7 +130,7 @@ export function Conjunctions() {
           {data?.content.map((conj, i) => {
             const cfg = RISK_CONFIG[conj.riskLevel as keyof typeof RISK_CONFIG] ?? RISK_CONFIG.LOW;
             const tcaDate = new Date(conj.tca);
-            const isPast  = tcaDate < new Date();
+            const isPast  = tcaDate < now;
 
             return (
               <div key={i} style={{
@@ -157,7 +172,7 @@ export function Conjunctions() {
                     {format(tcaDate, 'MMM dd HH:mm:ss')} UTC
                   </div>
                   <div style={{ fontSize: 12, color: isPast ? C.muted : cfg.color }}>
-                    {isPast ? 'Event passed' : formatDistanceToNow(tcaDate, { addSuffix: true })}
+                    {isPast ? 'Event passed' : formatDistance(tcaDate, now, { addSuffix: true })}
                   </div>
                 </div>
 
@@ -179,6 +194,13 @@ export function Conjunctions() {
                       {conj.noradIdB} <ChevronRight size={12} />
                     </Link>
                   </div>
+                  <button onClick={() => replay(conj)} title="Set the simulation clock just before TCA and show both objects on the map" style={{
+                    marginTop: 8, display: 'flex', alignItems: 'center', gap: 5, padding: '4px 10px',
+                    background: 'transparent', border: `1px solid ${C.border}`, borderRadius: 4,
+                    color: C.primary, fontSize: 12, cursor: 'pointer',
+                  }}>
+                    <Play size={11} /> Replay TCA
+                  </button>
                 </div>
               </div>
             );
@@ -2,21 +2,29 @@ import { useState, useEffect } from 'react';
 import { MapPin, Crosshair, Maximize2, Minimize2 } from 'lucide-react';
 import { WorldMap } from '../components/WorldMap';
 import { SatelliteInfoPanel } from '../components/SatelliteInfoPanel';
-import { useLivePosition, useOrbitalTrack, useUtcClock } from '../hooks';
+import { useCategoryMembers, useLivePosition, useMapLayout, useOrbitalTrack, useTrackAnchor, useTrackedPositions, useUtcClock } from '../hooks';
 import { useStore } from '../stores/useStore';
 import { satelliteApi } from '../services/api';
+import { customObjectToSummary, isCustomId } from '../lib/customObjects';
 import type { SatelliteSummary } from '../types';
 import { addHours, subHours, formatISO } from 'date-fns';
 
+/** Members of the map's catalog category; one page of the list API */
+const CATALOG_LIMIT = 20_000;
+
 export function Dashboard() {
   const {
     selectedNoradId, setSelectedSatellite,
     trackedIds, positions, updatePosition,
-    observerLocation, setObserverLocation
+    observerLocation, setObserverLocation,
+    customObjects, setMapLayer,
   } = useStore();
 
   const [satellite, setSatellite] = useState<SatelliteSummary | null>(null);
-  const [showTrack, setShowTrack] = useState(true);
+  // the ground track is a map layer; don't fetch one while it's hidden
+  const layout = useMapLayout();
+  const showTrack = layout.tracks.visible;
+  const catalog = layout.markers.visible ? String(layout.markers.options.catalog) : '';
   const [trackHours, setTrackHours] = useState(1.5);
   const [searchInput, setSearchInput] = useState('');
   const [searchResults, setSearchResults] = useState<SatelliteSummary[]>([]);
@@ -59,10 +67,20 @@ export function Dashboard() {
   const now = useUtcClock();
 
   // ── All original API/hook logic untouched ────────────────────────────────
-  const { position, loading, refresh } = useLivePosition(selectedNoradId);
+  const { position, loading, refresh, source } = useLivePosition(selectedNoradId);
+
+  // Every other tracked satellite is propagated locally at 1 Hz from its TLE;
+  // user-supplied objects are always shown on the map, and so is the whole of
+  // the catalog category picked in the layer manager
+  const { members: catalogMembers } = useCategoryMembers(catalog ? [catalog] : [], CATALOG_LIMIT);
+  const mapIds = Array.from(new Set([
+    ...trackedIds, ...customObjects.map(o => o.noradId), ...catalogMembers.map(s => s.noradId),
+  ]));
+  useTrackedPositions(mapIds.filter(id => id !== selectedNoradId));
 
-  const trackStart = formatISO(subHours(now, trackHours / 2));
-  const trackEnd   = formatISO(addHours(now, trackHours / 2));
+  const anchor     = useTrackAnchor();
+  const trackStart = formatISO(subHours(anchor, trackHours / 2));
+  const trackEnd   = formatISO(addHours(anchor, trackHours / 2));
   const { track }  = useOrbitalTrack(
     showTrack ? selectedNoradId : null,
     trackStart, trackEnd, 30
@@ -70,6 +88,11 @@ export function Dashboard() {
 
   useEffect(() => {
     if (!selectedNoradId) return;
+    if (isCustomId(selectedNoradId)) {
+      const obj = useStore.getState().customObjects.find(o => o.noradId === selectedNoradId);
+      setSatellite(obj ? customObjectToSummary(obj) : null);
+      return;
+    }
     satelliteApi.get(selectedNoradId)
       .then(setSatellite)
       .catch(() => setSatellite(null));
@@ -77,14 +100,21 @@ export function Dashboard() {
 
   useEffect(() => {
     if (!searchInput.trim()) { setSearchResults([]); return; }
+    const q = searchInput.trim().toLowerCase();
+    const custom = customObjects
+      .filter(o => o.name.toLowerCase().includes(q) || o.noradId.toLowerCase().includes(q))
+      .map(customObjectToSummary);
     const timer = setTimeout(async () => {
       const res = await satelliteApi.search(searchInput, 0, 8).catch(() => null);
-      setSearchResults(res?.content || []);
+      setSearchResults([...custom, ...(res?.content || [])]);
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchInput]);
+  }, [searchInput, customObjects]);
 
-  const allPositions = { ...positions };
+  // positions stay in the store after an object leaves the map (e.g. another
+  // category was picked), so only hand over the ones still on it
+  const allPositions: typeof positions = {};
+  mapIds.forEach((id) => { if (positions[id]) allPositions[id] = positions[id]; });
   if (position && selectedNoradId) allPositions[selectedNoradId] = position;
 
   const POPULAR = [
@@ -192,7 +222,7 @@ export function Dashboard() {
           <input
             type="checkbox"
             checked={showTrack}
-            onChange={e => setShowTrack(e.target.checked)}
+            onChange={e => setMapLayer('tracks', { visible: e.target.checked })}
             className="w-4 h-4 rounded accent-satellite-cyan"
           />
           <span className="text-xs text-gray-400">Show orbit</span>
@@ -290,6 +320,7 @@ export function Dashboard() {
             trackPoints={track?.points}
             selectedNoradId={selectedNoradId}
             onSatelliteClick={setSelectedSatellite}
+            time={now}
           />
         </div>
 
@@ -317,6 +348,7 @@ export function Dashboard() {
               trackPoints={track?.points}
               selectedNoradId={selectedNoradId}
               onSatelliteClick={setSelectedSatellite}
+              time={now}
             />
 
             {/* Fullscreen button overlaid on map — zIndex 600 clears WorldMap internals */}
@@ -360,6 +392,7 @@ export function Dashboard() {
             position={position}
             loading={loading}
             onRefresh={refresh}
+            source={source}
           />
 
           <div className="glass-card p-3">
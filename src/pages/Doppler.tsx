@@ -6,21 +6,56 @@
  *   RESPONSE ← dopplerShiftHz, observedFrequencyMhz, radialVelocityKms,
  *              elevationDeg, rangKm, nominalFrequencyMhz, computedAt
  *
- * CURVE NOTE: backend samples every 5s — window must be ≤ 20 min (240 points max).
- * Sending a multi-day window causes ~570 000 iterations → timeout / empty response.
+ * CURVE NOTE: the curve is computed in the browser from the TLE's range rate at
+ * the chosen step, so window length is only bounded by MAX_LOCAL_SAMPLES.
+ * The backend samples every 5s and times out on windows over 20 min (a
+ * multi-day window is ~570 000 iterations), so its curve is only fetched as a
+ * reference for short windows and differenced against the local one.
+ *
+ * TRANSPONDER NOTE: the backend only knows one frequency. For a linear
+ * transponder it is sent the downlink, and the uplink correction is derived
+ * from each sample's range rate in the browser (lib/doppler.ts).
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { useDoppler } from '../hooks';
-import type { DopplerRequest } from '../types';
-import { Activity, Radio, MapPin, Zap, ChevronRight, AlertCircle, Loader } from 'lucide-react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { loadGeocoderUrl, useDoppler, SERVER_CURVE_MAX_MINUTES } from '../hooks';
+import type { DopplerRequest, DopplerResult, TransponderMode } from '../types';
+import { Activity, Radio, MapPin, Zap, ChevronRight, AlertCircle, Loader, Download } from 'lucide-react';
 import { useStore } from '../stores/useStore';
+import { isCustomId } from '../lib/customObjects';
+import { compareCurves } from '../lib/doppler';
+import { TUNING_STEPS_SEC, tuningTable, tuningToCsv, tuningToJson, tuningToText, type TuningMeta, type TuningOptions } from '../lib/tuning';
+import { downloadText } from '../lib/download';
+import { parseDopplerLink } from '../lib/transmitters';
+import { reverseGeocode } from '../lib/geocoder';
+
+const CURVE_STEPS_SEC = [1, 5, 10, 30, 60, 300];
+
+// One day at 1 s — beyond this the tab stalls building the curve
+const MAX_LOCAL_SAMPLES = 86_400;
+
+// Long curves would blow the localStorage quota; they are shown but not persisted
+const MAX_PERSISTED_SAMPLES = 2_000;
+const persistable = (c: DopplerResult[]) => (c.length <= MAX_PERSISTED_SAMPLES ? c : []);
 
-const MAX_CURVE_MINUTES = 20;
+// Local curves can run to tens of thousands of samples; the polyline is
+// thinned to this many vertices, the crosshair still reads every sample.
+const MAX_CHART_POINTS = 1500;
+
+type CurvePoint = { dopplerShiftHz?: number; observedFrequencyMhz?: number; radialVelocityKms?: number; elevationDeg?: number; rangKm?: number; computedAt?: string; uplinkFrequencyMhz?: number; correctedUplinkMhz?: number };
+
+const UPLINK_COLOR = '#c77dff';
+
+// TX correction on a transponder curve: how far the ground uplink sits from nominal
+const uplinkShiftHz = (d: CurvePoint) =>
+  d.correctedUplinkMhz != null && d.uplinkFrequencyMhz != null ? (d.correctedUplinkMhz - d.uplinkFrequencyMhz) * 1e6 : null;
 
 // ─── SVG curve chart with crosshair ──────────────────────────────────────────
-function DopplerCurveChart({ data }: {
-  data: Array<{ dopplerShiftHz?: number; observedFrequencyMhz?: number; radialVelocityKms?: number; elevationDeg?: number; rangKm?: number; computedAt?: string }>;
+function DopplerCurveChart({ data, reference = [] }: {
+  data: CurvePoint[];
+  /** Server samples drawn as dots over the local curve, placed by timestamp */
+  reference?: CurvePoint[];
 }) {
   if (!data.length) return null;
 
@@ -32,15 +67,30 @@ function DopplerCurveChart({ data }: {
   const plotW = W - P.left - P.right;
   const plotH = H - P.top  - P.bottom;
 
-  const shifts = data.map(d => d.dopplerShiftHz ?? 0);
-  const minHz  = Math.min(...shifts);
-  const maxHz  = Math.max(...shifts);
+  const hasUplink = uplinkShiftHz(data[0]) != null;
+
+  // reduce rather than Math.min(...) — spreading a day of 1 s samples overflows the stack
+  const shifts = [...data, ...reference].map(d => d.dopplerShiftHz ?? 0);
+  if (hasUplink) data.forEach(d => shifts.push(uplinkShiftHz(d) ?? 0));
+  const minHz  = shifts.reduce((a, b) => Math.min(a, b), Infinity);
+  const maxHz  = shifts.reduce((a, b) => Math.max(a, b), -Infinity);
   const range  = maxHz - minHz || 1;
 
   const toX = (i: number) => P.left + (i / Math.max(data.length - 1, 1)) * plotW;
   const toY = (v: number) => P.top  + (1 - (v - minHz) / range) * plotH;
 
-  const pts   = data.map((d, i) => `${toX(i)},${toY(d.dopplerShiftHz ?? 0)}`).join(' ');
+  // Reference samples don't share the local step, so they are placed by time
+  const t0 = new Date(data[0].computedAt ?? 0).getTime();
+  const t1 = new Date(data[data.length - 1].computedAt ?? 0).getTime();
+  const toXt = (iso?: string) => P.left + ((new Date(iso ?? 0).getTime() - t0) / Math.max(t1 - t0, 1)) * plotW;
+
+  const stride = Math.ceil(data.length / MAX_CHART_POINTS);
+  const polyline = (value: (d: CurvePoint) => number) => data
+    .filter((_, i) => i % stride === 0 || i === data.length - 1)
+    .map((d, i, arr) => `${toX(i === arr.length - 1 ? data.length - 1 : i * stride)},${toY(value(d))}`)
+    .join(' ');
+  const pts   = polyline(d => d.dopplerShiftHz ?? 0);
+  const upPts = hasUplink ? polyline(d => uplinkShiftHz(d) ?? 0) : '';
   const zeroY = toY(0);
   const lbls  = [0, Math.floor(data.length / 2), data.length - 1];
 
@@ -140,12 +190,24 @@ function DopplerCurveChart({ data }: {
         <polyline points={pts} fill="none" stroke="#00c8ff"
           strokeWidth={1.8} filter="url(#glow)" clipPath="url(#plotClip)" />
 
+        {/* Uplink correction — transponder curves only */}
+        {hasUplink && (
+          <polyline points={upPts} fill="none" stroke={UPLINK_COLOR}
+            strokeWidth={1.5} strokeDasharray="6 3" clipPath="url(#plotClip)" />
+        )}
+
         {/* Static dots if few points */}
         {data.length <= 30 && data.map((d, i) => (
           <circle key={i} cx={toX(i)} cy={toY(d.dopplerShiftHz ?? 0)}
             r={3} fill="#00c8ff" opacity={0.8} />
         ))}
 
+        {/* Server reference samples */}
+        {reference.map((d, i) => (
+          <circle key={`ref-${i}`} cx={toXt(d.computedAt)} cy={toY(d.dopplerShiftHz ?? 0)}
+            r={2} fill="#ffaa00" opacity={0.75} clipPath="url(#plotClip)" />
+        ))}
+
         {/* X-axis time labels */}
         {lbls.map(idx => (
           <text key={idx} x={toX(idx)} y={H - P.bottom + 18}
@@ -260,8 +322,12 @@ function DopplerCurveChart({ data }: {
 
               {/* Secondary values */}
               {[
+                hd.correctedUplinkMhz != null && {
+                  label: 'TX UPLINK',
+                  value: `${hd.correctedUplinkMhz.toFixed(4)} MHz`,
+                },
                 hd.observedFrequencyMhz != null && {
-                  label: 'OBS FREQ',
+                  label: hd.correctedUplinkMhz != null ? 'RX DOWNLINK' : 'OBS FREQ',
                   value: `${hd.observedFrequencyMhz.toFixed(4)} MHz`,
                 },
                 hd.radialVelocityKms != null && {
@@ -367,6 +433,85 @@ function StatCard({ label, value, sub, highlight, positive }: {
   );
 }
 
+// ─── Tuning table export ─────────────────────────────────────────────────────
+// Resamples the plotted curve into corrected RX/TX frequencies for rig control
+function TuningExport({ curve, meta }: { curve: DopplerResult[]; meta: TuningMeta }) {
+  const [stepSec,    setStepSec]    = useState('1');
+  const [downlink,   setDownlink]   = useState(() => String(curve[0]?.nominalFrequencyMhz ?? ''));
+  const [uplink,     setUplink]     = useState(() => curve[0]?.uplinkFrequencyMhz != null ? String(curve[0].uplinkFrequencyMhz) : '');
+  const [aboveOnly,  setAboveOnly]  = useState(true);
+
+  const downMhz = parseFloat(downlink);
+  const upMhz   = parseFloat(uplink);
+  const opts: TuningOptions = {
+    stepSec: Number(stepSec),
+    downlinkMhz: downMhz,
+    uplinkMhz: uplink.trim() && !isNaN(upMhz) ? upMhz : undefined,
+    aboveHorizonOnly: aboveOnly,
+  };
+  const rows = useMemo(
+    () => (isNaN(downMhz) ? [] : tuningTable(curve, opts)),
+    [curve, stepSec, downlink, uplink, aboveOnly], // eslint-disable-line react-hooks/exhaustive-deps
+  );
+
+  const curveStepSec = curve.length > 1
+    ? (new Date(curve[1].computedAt).getTime() - new Date(curve[0].computedAt).getTime()) / 1000
+    : 0;
+  const stem = `doppler-${meta.noradId}-${new Date(curve[0]?.computedAt ?? 0).toISOString().slice(0, 16).replace(/[-:]/g, '')}`;
+  const formats = [
+    { label: 'CSV',      run: () => downloadText(`${stem}.csv`, tuningToCsv(rows), 'text/csv') },
+    { label: 'GPREDICT', run: () => downloadText(`${stem}.txt`, tuningToText(rows, meta, opts), 'text/plain') },
+    { label: 'JSON',     run: () => downloadText(`${stem}.json`, tuningToJson(rows, meta, opts), 'application/json') },
+  ];
+  const labelStyle: React.CSSProperties = { fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2, color: 'rgba(0,200,255,.5)' };
+
+  return (
+    <div style={{ marginTop: 20, border: '1px solid rgba(0,200,255,.12)', background: 'rgba(0,200,255,.02)', padding: '16px 18px' }}>
+      <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 3,
+        color: 'rgba(0,200,255,.4)', marginBottom: 14, display: 'flex', alignItems: 'center', gap: 8 }}>
+        <Download style={{ width: 11, height: 11 }} /> TUNING TABLE — RIG CONTROL EXPORT
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '110px 1fr 1fr auto', gap: 12, alignItems: 'end' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={labelStyle}>STEP</span>
+          <select value={stepSec} onChange={e => setStepSec(e.target.value)}
+            style={{ background: 'rgba(0,200,255,.04)', border: '1px solid rgba(0,200,255,.18)',
+              padding: '7px 10px', color: '#e2f0ff', fontFamily: "'Share Tech Mono',monospace",
+              fontSize: 12, outline: 'none', borderRadius: 0, colorScheme: 'dark' }}>
+            {TUNING_STEPS_SEC.map(s => <option key={s} value={String(s)}>{s} s</option>)}
+          </select>
+        </div>
+        <Field label="DOWNLINK (RX)" value={downlink} onChange={setDownlink} type="number" step="0.001" unit="MHz" />
+        <Field label="UPLINK (TX) — OPTIONAL" value={uplink} onChange={setUplink} type="number" step="0.001" unit="MHz" placeholder="none" />
+        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer', paddingBottom: 9 }}>
+          <input type="checkbox" checked={aboveOnly} onChange={e => setAboveOnly(e.target.checked)} style={{ accentColor: '#00c8ff' }} />
+          ABOVE HORIZON
+        </label>
+      </div>
+
+      <div style={{ marginTop: 14, display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        {formats.map(({ label, run }) => (
+          <button key={label} onClick={run} disabled={!rows.length}
+            style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '6px 14px',
+              background: rows.length ? 'rgba(0,200,255,.08)' : 'rgba(0,200,255,.03)',
+              border: `1px solid ${rows.length ? 'rgba(0,200,255,.35)' : 'rgba(0,200,255,.1)'}`,
+              color: rows.length ? '#00c8ff' : 'rgba(0,200,255,.25)',
+              fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 2,
+              cursor: rows.length ? 'pointer' : 'not-allowed' }}>
+            <Download style={{ width: 11, height: 11 }} /> {label}
+          </button>
+        ))}
+        <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 1, color: 'rgba(0,200,255,.35)' }}>
+          {rows.length.toLocaleString()} ROWS
+          {curveStepSec > Number(stepSec) ? ` · INTERPOLATED FROM THE ${curveStepSec} S CURVE` : ''}
+          {aboveOnly && !rows.length && !isNaN(downMhz) ? ' · SATELLITE NEVER ABOVE THE HORIZON IN THIS WINDOW' : ''}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 // ─── Pass window duration helper ─────────────────────────────────────────────
 function windowMinutes(start: string, end: string): number {
   if (!start || !end) return 0;
@@ -378,46 +523,66 @@ function windowMinutes(start: string, end: string): number {
 // ─── Main page ────────────────────────────────────────────────────────────────
 export function Doppler() {
   // ── Cache from store ──────────────────────────────────────────────────────
-  const { dopplerCache, setDopplerCache, clearDopplerCache } = useStore();
-
-  // ── Form state — seed from cache, fallback to original defaults ───────────
-  const [noradId,   setNoradId]   = useState(dopplerCache?.noradId   ?? '25544');
-  const [lat,       setLat]       = useState(dopplerCache?.lat       ?? '');
-  const [lon,       setLon]       = useState(dopplerCache?.lon       ?? '');
-  const [alt,       setAlt]       = useState(dopplerCache?.alt       ?? '0');
-  const [freqMhz,   setFreqMhz]   = useState(dopplerCache?.freqMhz   ?? '437.550');
+  const { dopplerCache: storedCache, setDopplerCache, clearDopplerCache, customObjects } = useStore();
+
+  // ── Transmitter link (?norad=&down=&up=&mode=) — read once, then dropped ──
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [prefill] = useState(() => parseDopplerLink(searchParams));
+  useEffect(() => {
+    if (prefill) setSearchParams({}, { replace: true });
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Cached results belong to the cached satellite; a link to another one starts clean
+  const dopplerCache = prefill && prefill.noradId !== storedCache?.noradId ? null : storedCache;
+
+  // ── Form state — seed from link, then cache, fallback to original defaults ─
+  const [noradId,   setNoradId]   = useState(prefill?.noradId   ?? dopplerCache?.noradId   ?? '25544');
+  const [lat,       setLat]       = useState(storedCache?.lat       ?? '');
+  const [lon,       setLon]       = useState(storedCache?.lon       ?? '');
+  const [alt,       setAlt]       = useState(storedCache?.alt       ?? '0');
+  const [freqMhz,   setFreqMhz]   = useState(prefill?.freqMhz   ?? dopplerCache?.freqMhz   ?? '437.550');
+  const [uplinkMhz, setUplinkMhz] = useState(prefill?.uplinkMhz ?? dopplerCache?.uplinkMhz ?? '145.900');
+  const [xpdrMode,  setXpdrMode]  = useState<TransponderMode | null>(
+    prefill ? prefill.transponderMode ?? null : dopplerCache?.transponderMode ?? null,
+  );
   const [passStart, setPassStart] = useState(dopplerCache?.passStart ?? '');
   const [passEnd,   setPassEnd]   = useState(dopplerCache?.passEnd   ?? '');
+  const [stepSec,   setStepSec]   = useState(dopplerCache?.stepSec   ?? '10');
 
   // ── Locate state ──────────────────────────────────────────────────────────
   const [locating, setLocating] = useState(false);
   const [locError, setLocError] = useState('');
-  const [locLabel, setLocLabel] = useState(dopplerCache?.locLabel ?? '');
+  const [locLabel, setLocLabel] = useState(storedCache?.locLabel ?? '');
 
   // ── Cached display data — this is what the UI renders ────────────────────
   // Seeded from store on mount. Updated after each successful fetch.
   // This is the KEY fix: we own result/curve locally, not via the hook.
   const [displayResult, setDisplayResult] = useState<any>(dopplerCache?.result ?? null);
   const [displayCurve,  setDisplayCurve]  = useState<any[]>(dopplerCache?.curve ?? []);
+  const [displayReference, setDisplayReference] = useState<DopplerResult[]>(dopplerCache?.referenceCurve ?? []);
+  const [displaySource,    setDisplaySource]    = useState(dopplerCache?.curveSource ?? null);
 
   // ── Build request ─────────────────────────────────────────────────────────
   const buildReq = useCallback((): DopplerRequest | null => {
     const pLat = parseFloat(lat);
     const pLon = parseFloat(lon);
+    const pUp  = parseFloat(uplinkMhz);
     if (!noradId || isNaN(pLat) || isNaN(pLon)) return null;
+    if (xpdrMode && isNaN(pUp)) return null;
     return {
       noradId,
       observerLat:       pLat,
       observerLon:       pLon,
       observerAltMeters: (parseFloat(alt) || 0) * 1000,
       frequencyMhz:      parseFloat(freqMhz),
+      ...(xpdrMode && { uplinkFrequencyMhz: pUp, transponderMode: xpdrMode }),
     } as unknown as DopplerRequest;
-  }, [noradId, lat, lon, alt, freqMhz]);
+  }, [noradId, lat, lon, alt, freqMhz, uplinkMhz, xpdrMode]);
 
   const req = buildReq();
 
   // ── useDoppler hook — called exactly as original, not modified ────────────
-  const { result, curve, loading, error, fetchCurrent, fetchCurve } = useDoppler(req);
+  const { result, curve, referenceCurve, curveSource, loading, error, fetchCurrent, fetchCurve } = useDoppler(req);
 
   // ── Sync hook output → local display state + store after each fetch ───────
   // When the hook gets fresh data (result/curve change from null/[] to real data),
@@ -426,23 +591,30 @@ export function Doppler() {
     if (result == null) return;
     setDisplayResult(result);
     setDopplerCache({
-      noradId, lat, lon, alt, freqMhz, passStart, passEnd, locLabel,
-      result: result as Record<string, unknown>,
-      curve:  displayCurve as Record<string, unknown>[],
+      noradId, lat, lon, alt, freqMhz, uplinkMhz, transponderMode: xpdrMode, passStart, passEnd, locLabel,
+      result,
+      curve:  persistable(displayCurve),
+      stepSec, curveSource: displaySource,
+      referenceCurve: displayReference,
       computedAt: new Date().toISOString(),
     });
   }, [result]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // The server reference arrives after the local curve, so both are synced together
   useEffect(() => {
     if (!curve || curve.length === 0) return;
     setDisplayCurve(curve as any[]);
+    setDisplayReference(referenceCurve);
+    setDisplaySource(curveSource);
     setDopplerCache({
-      noradId, lat, lon, alt, freqMhz, passStart, passEnd, locLabel,
-      result: displayResult as Record<string, unknown> | null,
-      curve:  curve as Record<string, unknown>[],
+      noradId, lat, lon, alt, freqMhz, uplinkMhz, transponderMode: xpdrMode, passStart, passEnd, locLabel,
+      result: displayResult,
+      curve: persistable(curve),
+      stepSec, curveSource,
+      referenceCurve,
       computedAt: new Date().toISOString(),
     });
-  }, [curve]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [curve, referenceCurve]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // ── Locate handler (mirrors WorldMap GPS approach) ────────────────────────
   const locateAndFill = () => {
@@ -464,13 +636,9 @@ export function Doppler() {
         setLocating(false);
 
         // Reverse-geocode for a friendly label (same approach as WorldMap)
-        fetch(
-          `https://nominatim.openstreetmap.org/reverse?lat=${latitude}&lon=${longitude}&format=json&zoom=10&addressdetails=1`,
-          { headers: { 'Accept-Language': 'en' } }
-        )
-          .then(r => r.json())
-          .then(data => {
-            const a = data?.address;
+        loadGeocoderUrl()
+          .then(url => (url ? reverseGeocode(url, latitude, longitude, 10) : null))
+          .then(a => {
             if (a) {
               const parts = [
                 a.suburb || a.neighbourhood || a.city_district,
@@ -504,10 +672,13 @@ export function Doppler() {
   passStart && passEnd
     ? (Date.parse(passEnd + 'Z') - Date.parse(passStart + 'Z')) / 60000
     : 0;
-  const windowTooLong  = winMins > MAX_CURVE_MINUTES;
+  const step           = Number(stepSec) || 10;
+  const sampleCount    = Math.floor((winMins * 60) / step) + 1;
+  const windowTooLong  = sampleCount > MAX_LOCAL_SAMPLES;
   const windowNegative = winMins < 0;
   const windowOk       = passStart && passEnd && !windowTooLong && !windowNegative && winMins > 0;
   const canCurve       = canSubmit && !!windowOk;
+  const serverRefFits  = winMins <= SERVER_CURVE_MAX_MINUTES;
 
   // ── Formatters ────────────────────────────────────────────────────────────
   const fmtShift = (hz?: number) => {
@@ -530,6 +701,14 @@ export function Doppler() {
 
   const curveAny    = displayCurve as any[];
   const curveShifts = curveAny.map(d => (d.dopplerShiftHz ?? 0) as number);
+  // reduce rather than Math.max(...) — long local curves overflow the argument stack
+  const peakPos     = curveShifts.reduce((a, b) => Math.max(a, b), -Infinity);
+  const peakNeg     = curveShifts.reduce((a, b) => Math.min(a, b), Infinity);
+  const comparison  = useMemo(
+    () => (displaySource === 'local' ? compareCurves(displayCurve, displayReference) : null),
+    [displayCurve, displayReference, displaySource],
+  );
+  const fmtDiff = (hz: number) => `${Math.abs(hz) >= 1000 ? (hz / 1000).toFixed(3) + ' kHz' : hz.toFixed(2) + ' Hz'}`;
 
   // Cache age hint
   const cacheAge = dopplerCache
@@ -573,10 +752,52 @@ export function Doppler() {
 
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, marginBottom: 12 }}>
           <Field label="NORAD CATALOG ID" value={noradId} onChange={setNoradId} placeholder="e.g. 25544" />
-          <Field label="NOMINAL TX FREQUENCY" value={freqMhz} onChange={setFreqMhz}
+          <Field label={xpdrMode ? 'DOWNLINK (SATELLITE TX)' : 'NOMINAL TX FREQUENCY'} value={freqMhz} onChange={setFreqMhz}
             type="number" step="0.001" unit="MHz" />
         </div>
 
+        {/* Linear transponder — uplink and downlink are corrected together */}
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, marginBottom: 12 }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9,
+              letterSpacing: 2, color: 'rgba(0,200,255,.5)' }}>MODE</span>
+            <select value={xpdrMode ?? ''} onChange={e => setXpdrMode((e.target.value || null) as TransponderMode | null)}
+              style={{ background: 'rgba(0,200,255,.04)', border: '1px solid rgba(0,200,255,.18)',
+                padding: '7px 10px', color: '#e2f0ff', fontFamily: "'Share Tech Mono',monospace",
+                fontSize: 12, outline: 'none', borderRadius: 0, colorScheme: 'dark' }}>
+              <option value="">SINGLE FREQUENCY</option>
+              <option value="INVERTING">LINEAR TRANSPONDER · INVERTING</option>
+              <option value="NON_INVERTING">LINEAR TRANSPONDER · NON-INVERTING</option>
+            </select>
+          </div>
+          {xpdrMode && (
+            <Field label="UPLINK (SATELLITE RX)" value={uplinkMhz} onChange={setUplinkMhz}
+              type="number" step="0.001" unit="MHz" />
+          )}
+        </div>
+
+        {/* User-supplied objects — Doppler is computed from their TLE in the browser */}
+        {customObjects.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 6, marginBottom: 12 }}>
+            <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2,
+              color: 'rgba(255,208,96,.6)' }}>CUSTOM TLE</span>
+            {customObjects.map(o => (
+              <button key={o.noradId} onClick={() => setNoradId(o.noradId)}
+                style={{ padding: '3px 10px',
+                  background: noradId === o.noradId ? 'rgba(255,208,96,.12)' : 'rgba(255,208,96,.03)',
+                  border: `1px solid ${noradId === o.noradId ? 'rgba(255,208,96,.6)' : 'rgba(255,208,96,.18)'}`,
+                  color: noradId === o.noradId ? '#ffd060' : 'rgba(255,208,96,.55)',
+                  fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 1, cursor: 'pointer' }}>
+                ◆ {o.name}
+              </button>
+            ))}
+            {isCustomId(noradId) && (
+              <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 1,
+                color: 'rgba(255,208,96,.5)' }}>· computed locally from user-supplied elements</span>
+            )}
+          </div>
+        )}
+
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr auto', gap: 12, alignItems: 'end' }}>
           <Field label="OBSERVER LAT" value={lat} onChange={setLat}
             type="number" step="0.00001" placeholder="e.g. 40.7128" unit="°" />
@@ -652,6 +873,8 @@ export function Doppler() {
                   clearDopplerCache();
                   setDisplayResult(null);
                   setDisplayCurve([]);
+                  setDisplayReference([]);
+                  setDisplaySource(null);
                 }}
                 style={{ background: 'none', border: 'none', color: 'rgba(255,68,102,.6)',
                   fontFamily: "'Share Tech Mono',monospace", fontSize: 9,
@@ -715,6 +938,25 @@ export function Doppler() {
               />
             )}
           </div>
+
+          {/* ── Transponder tuning pair ── */}
+          {r?.correctedUplinkMhz != null && (
+            <div style={{ marginTop: 14 }}>
+              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2,
+                color: 'rgba(199,125,255,.6)', marginBottom: 8 }}>
+                ONE TRUE FREQUENCY · {r.transponderMode === 'INVERTING' ? 'INVERTING' : 'NON-INVERTING'} TRANSPONDER
+              </div>
+              <div style={{ display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: 10 }}>
+                <StatCard label="TX — UPLINK" value={fmtMhz(r.correctedUplinkMhz)} highlight
+                  sub={`satellite hears ${fmtMhz(r.uplinkFrequencyMhz)}`} />
+                <StatCard label="RX — DOWNLINK" value={fmtMhz(obsFreq)} highlight
+                  sub={`satellite sends ${fmtMhz(r.nominalFrequencyMhz)}`} />
+                <StatCard label="RX WITH TX UNCORRECTED" value={fmtMhz(r.fixedUplinkDownlinkMhz)}
+                  sub={`TX left on ${fmtMhz(r.uplinkFrequencyMhz)}`} />
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -732,10 +974,10 @@ export function Doppler() {
         {/* ── MAX WINDOW HINT ── */}
         <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 1,
           color: 'rgba(0,200,255,.28)', marginBottom: 18 }}>
-          MAX {MAX_CURVE_MINUTES} MIN WINDOW · backend samples every 5 s · typical pass = 5–12 min
+          COMPUTED LOCALLY AT ANY STEP · server reference (5 s) for windows ≤ {SERVER_CURVE_MAX_MINUTES} MIN · typical pass = 5–12 min
         </div>
 
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto',
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 110px auto',
           gap: 12, alignItems: 'end', marginBottom: 12 }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
             <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9,
@@ -753,12 +995,24 @@ export function Doppler() {
                 padding: '7px 10px', color: '#e2f0ff', fontFamily: "'Share Tech Mono',monospace",
                 fontSize: 12, outline: 'none', borderRadius: 0, colorScheme: 'dark' }} />
           </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9,
+              letterSpacing: 2, color: 'rgba(0,200,255,.5)' }}>STEP</span>
+            <select value={stepSec} onChange={e => setStepSec(e.target.value)}
+              style={{ background: 'rgba(0,200,255,.04)', border: '1px solid rgba(0,200,255,.18)',
+                padding: '7px 10px', color: '#e2f0ff', fontFamily: "'Share Tech Mono',monospace",
+                fontSize: 12, outline: 'none', borderRadius: 0, colorScheme: 'dark' }}>
+              {CURVE_STEPS_SEC.map(s => (
+                <option key={s} value={String(s)}>{s < 60 ? `${s} s` : `${s / 60} min`}</option>
+              ))}
+            </select>
+          </div>
           <button
             onClick={() => {
               if (!windowOk) return;
               const startIso = passStart + ':00Z';
               const endIso   = passEnd + ':00Z';
-              fetchCurve(startIso, endIso);
+              fetchCurve(startIso, endIso, step);
             }}
             disabled={!canCurve}
             style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '10px 24px',
@@ -789,8 +1043,8 @@ export function Doppler() {
                 fontFamily: "'Share Tech Mono',monospace", fontSize: 10,
                 color: '#ffa020', letterSpacing: 1 }}>
                 <AlertCircle style={{ width: 12, height: 12, flexShrink: 0 }} />
-                WINDOW IS {winMins.toFixed(0)} MIN — MAX ALLOWED IS {MAX_CURVE_MINUTES} MIN.
-                {' '}A TYPICAL PASS IS 5–12 MIN. PLEASE NARROW THE WINDOW.
+                {sampleCount.toLocaleString()} SAMPLES — MAX IS {MAX_LOCAL_SAMPLES.toLocaleString()}.
+                {' '}INCREASE THE STEP OR NARROW THE WINDOW.
               </div>
             )}
             {!windowNegative && !windowTooLong && winMins > 0 && (
@@ -800,7 +1054,12 @@ export function Doppler() {
                 color: '#00ff88', letterSpacing: 1 }}>
                 <span style={{ width: 6, height: 6, borderRadius: '50%', background: '#00ff88',
                   display: 'inline-block', flexShrink: 0 }} />
-                WINDOW: {winMins.toFixed(1)} MIN · ~{Math.round(winMins * 12)} SAMPLES
+                WINDOW: {winMins.toFixed(1)} MIN · {sampleCount.toLocaleString()} SAMPLES
+                {isCustomId(noradId)
+                  ? ' · NO SERVER REFERENCE FOR CUSTOM OBJECTS'
+                  : serverRefFits
+                    ? ' · SERVER REFERENCE INCLUDED'
+                    : ` · NO SERVER REFERENCE BEYOND ${SERVER_CURVE_MAX_MINUTES} MIN`}
               </div>
             )}
           </div>
@@ -811,26 +1070,57 @@ export function Doppler() {
           <div>
             <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2,
               color: 'rgba(0,200,255,.3)', marginBottom: 12 }}>
-              FREQUENCY SHIFT OVER PASS · {displayCurve.length} SAMPLES
+              FREQUENCY SHIFT OVER PASS · {displayCurve.length.toLocaleString()} SAMPLES
+              {displaySource === 'server' ? ' · SERVER CURVE (NO TLE CACHED)' : ' · LOCAL SGP4'}
+              {displayReference.length > 0 && (
+                <span style={{ color: 'rgba(255,170,0,.6)' }}> · ● SERVER REFERENCE</span>
+              )}
+              {curveAny[0]?.correctedUplinkMhz != null && (
+                <span> · <span style={{ color: '#00c8ff' }}>━ DOWNLINK</span>
+                  {' '}<span style={{ color: UPLINK_COLOR }}>╌ UPLINK TX CORRECTION</span></span>
+              )}
             </div>
-            <DopplerCurveChart data={curveAny} />
+            <DopplerCurveChart data={curveAny}
+              reference={displaySource === 'local' ? displayReference : []} />
             <div style={{ display: 'grid',
               gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: 8, marginTop: 20 }}>
               <StatCard label="PEAK POSITIVE SHIFT"
-                value={fmtShift(Math.max(...curveShifts))} sub="max approach" />
+                value={fmtShift(peakPos)} sub="max approach" />
               <StatCard label="PEAK NEGATIVE SHIFT"
-                value={fmtShift(Math.min(...curveShifts))} sub="max recession" />
+                value={fmtShift(peakNeg)} sub="max recession" />
               <StatCard label="TOTAL SHIFT RANGE"
-                value={fmtShift(Math.max(...curveShifts) - Math.min(...curveShifts))}
+                value={fmtShift(peakPos - peakNeg)}
                 sub="peak-to-peak" />
-              <StatCard label="SAMPLES" value={String(displayCurve.length)} sub="over pass window" />
+              <StatCard label="SAMPLES" value={displayCurve.length.toLocaleString()} sub="over pass window" />
             </div>
+
+            {/* ── Local vs server reference ── */}
+            {comparison && (
+              <div style={{ marginTop: 20 }}>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2,
+                  color: 'rgba(255,170,0,.55)', marginBottom: 8 }}>
+                  LOCAL − SERVER · {comparison.count} REFERENCE POINTS
+                </div>
+                <div style={{ display: 'grid',
+                  gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: 8 }}>
+                  <StatCard label="MAX |Δ|" value={fmtDiff(comparison.maxAbsHz)} sub="worst single sample" />
+                  <StatCard label="RMS Δ" value={fmtDiff(comparison.rmsHz)} sub="over reference window" />
+                  <StatCard label="MEAN Δ" value={(comparison.meanHz >= 0 ? '+' : '') + fmtDiff(comparison.meanHz)}
+                    sub="systematic bias" />
+                </div>
+              </div>
+            )}
+
+            <TuningExport key={`${curveAny[0]?.nominalFrequencyMhz}/${curveAny[0]?.uplinkFrequencyMhz}`} curve={displayCurve as DopplerResult[]} meta={{
+              noradId,
+              observer: { lat: parseFloat(lat) || 0, lon: parseFloat(lon) || 0, altKm: parseFloat(alt) || 0 },
+            }} />
           </div>
         ) : (
           <div style={{ border: '1px dashed rgba(0,200,255,.1)', padding: '40px 24px',
             textAlign: 'center', color: 'rgba(0,200,255,.2)',
             fontFamily: "'Share Tech Mono',monospace", fontSize: 11, letterSpacing: 2 }}>
-            SELECT A PASS WINDOW (MAX {MAX_CURVE_MINUTES} MIN) AND CLICK PLOT CURVE
+            SELECT A PASS WINDOW AND STEP, THEN CLICK PLOT CURVE
           </div>
         )}
       </div>
@@ -842,7 +1132,7 @@ export function Doppler() {
         {[
           { label: 'MODEL',   value: 'SGP4 / WGS-84' },
           { label: 'METHOD',  value: 'Non-relativistic Doppler' },
-          { label: 'SAMPLE',  value: 'Every 5 s · max 20 min' },
+          { label: 'SAMPLE',  value: `Local every ${step < 60 ? `${step} s` : `${step / 60} min`} · server ref 5 s` },
           { label: 'FORMULA', value: 'Δf = −f₀ · v_r / c' },
         ].map(({ label, value }) => (
           <div key={label} style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
@@ -0,0 +1,313 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ScanSearch, AlertTriangle, Upload, Download, Trash2, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { useStore } from '../stores/useStore';
+import { useCategories, useCategoryMembers, useOverflights } from '../hooks';
+import { describeAoi, parseAoiGeoJson } from '../lib/aoi';
+import { overflightsCsv } from '../lib/overflights';
+import { downloadText } from '../lib/download';
+
+// ─── Color palette (matches existing app theme) ───────────────────────────────
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  yellow:  '#ffd060',
+  red:     '#ff3344',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+  surface: 'rgba(5,12,35,.9)',
+};
+
+/** Satellites searched per run, as on the timeline. */
+const OVERFLIGHT_MAX_SATELLITES = 60;
+/** Half-swath presets; 145 km is half of Sentinel-2 MSI's 290 km swath. */
+const OFF_NADIR_KM = [0, 10, 50, 145, 300, 600, 1000];
+// Replays start a little before entry so the approach is visible on the map
+const REPLAY_LEAD_MS = 2 * 60_000;
+
+const mono = "'Share Tech Mono',monospace";
+
+type SourceKey = 'tracked' | 'favorites' | `category:${string}`;
+
+const selectStyle: React.CSSProperties = {
+  background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`,
+  padding: '6px 8px', color: '#e2f0ff', fontFamily: mono, fontSize: 11, outline: 'none',
+};
+
+const btn: React.CSSProperties = {
+  padding: '5px 10px', cursor: 'pointer',
+  background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`, color: C.muted,
+  fontFamily: mono, fontSize: 9, letterSpacing: 1,
+  display: 'inline-flex', alignItems: 'center', gap: 5,
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, marginBottom: 3 }}>{label}</div>
+      {children}
+    </div>
+  );
+}
+
+const utc = (iso: string) => format(new Date(iso), 'MMM dd HH:mm:ss');
+
+export function Overflights() {
+  const navigate = useNavigate();
+  const { aoi, setAoi, trackedIds, favorites, tles } = useStore();
+  const { categories } = useCategories();
+
+  const [source, setSource] = useState<SourceKey>('tracked');
+  const [days, setDays] = useState(3);
+  const [offNadirKm, setOffNadirKm] = useState(145);
+  const [notice, setNotice] = useState<{ ok: boolean; lines: string[] } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const category = source.startsWith('category:') ? source.slice('category:'.length) : null;
+  const { members, loading: membersLoading } = useCategoryMembers(category ? [category] : []);
+
+  const sourceIds = useMemo(() => {
+    if (source === 'tracked') return trackedIds;
+    if (source === 'favorites') return favorites.map((f) => f.noradId);
+    return members.map((m) => m.noradId);
+  }, [source, trackedIds, favorites, members]);
+  const ids = useMemo(() => sourceIds.slice(0, OVERFLIGHT_MAX_SATELLITES), [sourceIds]);
+
+  const options = useMemo(() => ({ days, maxOffNadirKm: offNadirKm }), [days, offNadirKm]);
+  const { rows, missing, progress, loading, computedAt, error, compute } = useOverflights(ids, options);
+
+  const list = useMemo(
+    () => rows
+      .flatMap((r) => r.overflights.map((o) => ({ noradId: r.noradId, name: r.name, o })))
+      .sort((a, b) => a.o.entry.localeCompare(b.o.entry)),
+    [rows],
+  );
+  const crossings = list.filter(({ o }) => o.minOffNadirKm === 0).length;
+  const nameOf = (id: string) => rows.find((r) => r.noradId === id)?.name ?? tles[id]?.name ?? id;
+
+  const onFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        const { aoi: parsed, rejected } = parseAoiGeoJson(text, file.name.replace(/\.[^.]+$/, ''));
+        if (parsed) setAoi(parsed);
+        setNotice({
+          ok: !!parsed,
+          lines: [
+            parsed ? `Area imported · ${describeAoi(parsed)}` : 'No polygon or point with a radius found',
+            ...rejected.slice(0, 4),
+            ...(rejected.length > 4 ? [`…and ${rejected.length - 4} more`] : []),
+          ],
+        });
+      })
+      .catch(() => setNotice({ ok: false, lines: [`Could not read ${file.name}`] }));
+  };
+
+  const replay = (noradId: string, entry: string) => {
+    const { addTracked, setSelectedSatellite, jumpSim } = useStore.getState();
+    addTracked(noradId);
+    setSelectedSatellite(noradId);
+    jumpSim(new Date(new Date(entry).getTime() - REPLAY_LEAD_MS));
+    navigate('/');
+  };
+
+  const stem = (aoi?.name ?? 'area').replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'area';
+  const disabled = !aoi || !ids.length || loading || membersLoading;
+
+  return (
+    <div style={{ maxWidth: 1200, margin: '0 auto', padding: '24px 16px' }}>
+
+      {/* Header */}
+      <div style={{ marginBottom: 24 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 6 }}>
+          <ScanSearch style={{ width: 22, height: 22, color: C.cyan, filter: `drop-shadow(0 0 6px ${C.cyan})` }} />
+          <h1 style={{ fontFamily: "'Orbitron',monospace", fontSize: 20, fontWeight: 900, letterSpacing: 4, color: '#fff', textShadow: '0 0 20px rgba(0,200,255,.4)', margin: 0 }}>
+            AREA <span style={{ color: C.cyan }}>OVERFLIGHTS</span>
+          </h1>
+        </div>
+        <p style={{ fontFamily: mono, fontSize: 11, color: C.muted, letterSpacing: 1, margin: 0 }}>
+          Every time a group of satellites passes over your area of interest, with how far off nadir it stays
+        </p>
+      </div>
+
+      {/* Area of interest */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 12, padding: 12, marginBottom: 12, background: C.surface, border: `1px solid ${C.border}`, borderLeft: `2px solid ${C.orange}` }}>
+        <div style={{ flex: 1, minWidth: 220 }}>
+          <div style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, marginBottom: 3 }}>AREA OF INTEREST</div>
+          {aoi ? (
+            <div style={{ fontFamily: mono, fontSize: 11, color: '#e2f0ff' }}>
+              <span style={{ color: C.orange }}>{aoi.name}</span> · {describeAoi(aoi)}
+            </div>
+          ) : (
+            <div style={{ fontFamily: mono, fontSize: 11, color: C.orange }}>
+              None yet — draw one with the AREA button on the <Link to="/" style={{ color: C.cyan }}>DASHBOARD</Link> map, or import GeoJSON
+            </div>
+          )}
+        </div>
+        <button onClick={() => fileRef.current?.click()} style={btn} title="A Polygon or MultiPolygon, or a Point with a radiusKm property">
+          <Upload style={{ width: 10, height: 10 }} /> IMPORT GEOJSON
+        </button>
+        <button onClick={() => { setAoi(null); setNotice(null); }} disabled={!aoi}
+          style={{ ...btn, color: 'rgba(255,68,102,.7)', opacity: aoi ? 1 : 0.4 }} title="Clear the area of interest">
+          <Trash2 style={{ width: 10, height: 10 }} />
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          style={{ display: 'none' }}
+          onChange={e => { onFile(e.target.files?.[0]); e.target.value = ''; }}
+        />
+        {notice && (
+          <div style={{
+            flexBasis: '100%', padding: '5px 8px', fontFamily: mono, fontSize: 9,
+            background: notice.ok ? 'rgba(57,255,20,.05)' : 'rgba(255,51,68,.08)',
+            border: `1px solid ${notice.ok ? 'rgba(57,255,20,.25)' : 'rgba(255,51,68,.3)'}`,
+            color: notice.ok ? C.green : C.red,
+          }}>
+            {notice.lines.map((m, i) => (
+              <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 5 }}>
+                {i === 0 && !notice.ok && <AlertTriangle style={{ width: 10, height: 10 }} />}{m}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 12, padding: 12, marginBottom: 12, background: C.surface, border: `1px solid ${C.border}`, borderLeft: `2px solid ${C.cyan}` }}>
+        <Field label="SATELLITES">
+          <select value={source} onChange={(e) => setSource(e.target.value as SourceKey)} style={{ ...selectStyle, minWidth: 180 }}>
+            <option value="tracked">Tracked ({trackedIds.length})</option>
+            <option value="favorites">Favorites ({favorites.length})</option>
+            {categories.map((c) => <option key={c} value={`category:${c}`}>Category: {c}</option>)}
+          </select>
+        </Field>
+        <Field label="DAYS AHEAD">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} style={selectStyle}>
+            {[1, 2, 3, 5, 7, 14].map((d) => <option key={d} value={d}>{d} day{d > 1 ? 's' : ''}</option>)}
+          </select>
+        </Field>
+        <Field label="MAX OFF-NADIR (HALF SWATH)">
+          <select value={offNadirKm} onChange={(e) => setOffNadirKm(Number(e.target.value))} style={selectStyle}>
+            {OFF_NADIR_KM.map((km) => <option key={km} value={km}>{km ? `${km} km` : 'Track must cross'}</option>)}
+          </select>
+        </Field>
+
+        <button
+          onClick={compute}
+          disabled={disabled}
+          style={{
+            padding: '7px 18px', cursor: 'pointer',
+            background: 'rgba(0,200,255,.12)', border: `1px solid ${C.cyan}`, color: C.cyan,
+            fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 3, fontWeight: 700,
+            opacity: disabled ? 0.4 : 1,
+          }}
+        >
+          {loading ? `◉  ${progress.done} / ${progress.total}` : '▶  FIND'}
+        </button>
+
+        <div style={{ flex: 1, minWidth: 160, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, textAlign: 'right' }}>
+          {computedAt && <>FROM {format(computedAt, 'MMM dd HH:mm')} · SIMULATION CLOCK</>}
+          {sourceIds.length > OVERFLIGHT_MAX_SATELLITES && (
+            <div style={{ color: C.orange }}>FIRST {OVERFLIGHT_MAX_SATELLITES} OF {sourceIds.length} SATELLITES</div>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ marginBottom: 12, padding: '6px 10px', background: 'rgba(255,51,68,.08)', border: '1px solid rgba(255,51,68,.3)', color: C.red, fontFamily: mono, fontSize: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {!computedAt ? (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: 260, gap: 12, opacity: 0.4 }}>
+          <ScanSearch style={{ width: 56, height: 56, color: C.cyan }} />
+          <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 4, color: C.cyan }}>
+            SET AN AREA, CHOOSE SATELLITES AND FIND
+          </span>
+        </div>
+      ) : (
+        <>
+          {/* Stats bar */}
+          <div style={{ display: 'flex', gap: 12, marginBottom: 12, flexWrap: 'wrap' }}>
+            {[
+              { label: 'SATELLITES',     value: rows.length,                       color: C.cyan },
+              { label: 'OVERFLIGHTS',    value: list.length,                       color: C.green },
+              { label: 'TRACK CROSSES',  value: crossings,                         color: crossings ? C.orange : C.muted },
+              { label: 'WITH NONE',      value: rows.filter((r) => !r.overflights.length).length, color: C.muted },
+            ].map(({ label, value, color }) => (
+              <div key={label} style={{ padding: '8px 16px', background: C.surface, border: `1px solid ${C.border}`, flex: '1 0 auto' }}>
+                <div style={{ fontFamily: mono, fontSize: 8, color: C.muted, letterSpacing: 2, marginBottom: 2 }}>{label}</div>
+                <div style={{ fontFamily: "'Orbitron',monospace", fontSize: 22, fontWeight: 900, color, lineHeight: 1 }}>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {missing.length > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, padding: '6px 12px', background: 'rgba(255,208,96,.05)', border: '1px solid rgba(255,208,96,.25)', fontFamily: mono, fontSize: 10, letterSpacing: 1, color: C.yellow }}>
+              <AlertTriangle style={{ width: 11, height: 11 }} />
+              NO TLE YET FOR {missing.length} SATELLITE{missing.length > 1 ? 'S' : ''} — they are being fetched; find again shortly
+            </div>
+          )}
+
+          {/* Table */}
+          <div style={{ background: C.surface, border: `1px solid ${C.border}`, overflowX: 'auto' }}>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', padding: 6, borderBottom: `1px solid ${C.border}` }}>
+              <button onClick={() => downloadText(`${stem}-overflights.csv`, overflightsCsv(rows), 'text/csv')} disabled={!list.length || loading}
+                style={{ ...btn, opacity: list.length && !loading ? 1 : 0.4 }}>
+                <Download style={{ width: 10, height: 10 }} /> CSV
+              </button>
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: mono, fontSize: 11 }}>
+              <thead>
+                <tr>
+                  {['SATELLITE', 'ENTRY (UTC)', 'EXIT (UTC)', 'DURATION', 'MIN OFF-NADIR', 'LOOK ANGLE', 'CLOSEST (UTC)', ''].map((h) => (
+                    <th key={h} style={{ textAlign: 'left', padding: '6px 10px', fontSize: 8, letterSpacing: 2, color: C.muted, fontWeight: 'normal', borderBottom: `1px solid ${C.border}`, whiteSpace: 'nowrap' }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {list.map(({ noradId, o }) => (
+                  <tr key={`${noradId}-${o.entry}`} style={{ borderBottom: '1px solid rgba(0,200,255,.05)' }}>
+                    <td style={{ padding: '5px 10px', maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      <Link to={`/satellites/${noradId}`} title={nameOf(noradId)} style={{ color: '#e2f0ff' }}>{nameOf(noradId)}</Link>
+                    </td>
+                    <td style={{ padding: '5px 10px', color: C.cyan, whiteSpace: 'nowrap' }}>{utc(o.entry)}</td>
+                    <td style={{ padding: '5px 10px', color: C.cyan, whiteSpace: 'nowrap' }}>{utc(o.exit)}</td>
+                    <td style={{ padding: '5px 10px', color: '#cbd9e8', whiteSpace: 'nowrap' }} title={o.clipped ? 'Cut off by the start or end of the window' : undefined}>
+                      {o.durationLabel}{o.clipped && <span style={{ color: C.yellow }}> ⋯</span>}
+                    </td>
+                    <td style={{ padding: '5px 10px', color: o.minOffNadirKm === 0 ? C.orange : '#cbd9e8', whiteSpace: 'nowrap' }}>
+                      {o.minOffNadirKm === 0 ? 'OVERHEAD' : `${o.minOffNadirKm.toFixed(o.minOffNadirKm < 10 ? 1 : 0)} km`}
+                    </td>
+                    <td style={{ padding: '5px 10px', color: '#cbd9e8', whiteSpace: 'nowrap' }}>{o.minOffNadirDeg.toFixed(1)}°</td>
+                    <td style={{ padding: '5px 10px', color: C.muted, whiteSpace: 'nowrap' }}>{utc(o.closestTime)}</td>
+                    <td style={{ padding: '3px 10px', textAlign: 'right' }}>
+                      <button onClick={() => replay(noradId, o.entry)} title="Set the simulation clock just before entry and show the satellite on the map" style={{ ...btn, padding: '2px 8px' }}>
+                        <Play style={{ width: 9, height: 9 }} /> REPLAY
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!list.length && !loading && (
+              <div style={{ padding: 16, textAlign: 'center', fontFamily: mono, fontSize: 10, color: C.muted, letterSpacing: 1 }}>
+                NO OVERFLIGHTS IN THIS WINDOW — try a wider swath or more days
+              </div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 8, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, lineHeight: 1.6 }}>
+            MIN OFF-NADIR is the closest the ground track comes to the area (OVERHEAD when it crosses it); LOOK ANGLE is the
+            off-nadir angle from the satellite at that moment. <span style={{ color: C.yellow }}>⋯</span> marks an overflight cut off by the window.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,22 @@
-import { useState, useCallback } from 'react';
-import { Search, MapPin, Eye, EyeOff, Calendar, Clock, Navigation, ChevronDown, ChevronUp, Radio } from 'lucide-react';
-import { useStore } from '../stores/useStore';
+import { useState, useCallback, useMemo } from 'react';
+import axios from 'axios';
+import { Search, MapPin, Eye, EyeOff, Calendar, Clock, Navigation, ChevronDown, ChevronUp, Radio, Mountain, CalendarPlus } from 'lucide-react';
+import { simNow, useStore, type PassesCache } from '../stores/useStore';
 import { trackingApi } from '../services/trackingApi';
-import type { PassSummary } from '../types';
-import { format, formatDistanceToNow } from 'date-fns';
+import { getSatrec } from '../lib/propagator';
+import { clipPassToMask, passSkyTrack, predictPasses } from '../lib/passes';
+import { isSameSite } from '../lib/horizonMask';
+import { ALARM_MINUTES, passesToICalendar } from '../lib/ical';
+import { downloadText } from '../lib/download';
+import { isCustomId } from '../lib/customObjects';
+import { isLive } from '../lib/simClock';
+import { HorizonMaskEditor } from '../components/HorizonMaskEditor';
+import { PassSkyPlot } from '../components/PassSkyPlot';
+import { refreshTle, useTles } from '../hooks';
+import type { SatRec } from '../lib/sgp4';
+import type { ObserverGeodetic } from '../lib/frames';
+import type { HorizonMaskPoint, PassSummary, TleInfo } from '../types';
+import { format, formatDistance } from 'date-fns';
 import { Link } from 'react-router-dom';
 
 // ─── Color palette (matches existing app theme) ───────────────────────────────
@@ -27,6 +40,29 @@ const POPULAR_SATS = [
   { noradId: '43226', name: 'CSS Tianhe', freq: 0 },
 ];
 
+// ─── Local fallback helpers ───────────────────────────────────────────────────
+
+/**
+ * No HTTP response at all (backend down / offline) or a server-side failure.
+ * Axios errors come from services/api; trackingApi uses fetch and throws an
+ * Error with a `response.status` for HTTP errors, a TypeError for no response.
+ */
+function isBackendFailure(e: unknown): boolean {
+  const status = axios.isAxiosError(e) ? e.response?.status
+    : e instanceof Error && 'response' in e ? (e.response as { status?: number } | undefined)?.status
+    : undefined;
+  return status == null || status >= 500;
+}
+
+/** TLE for local prediction: the store's cache first (any age), then the API. */
+async function loadTle(noradId: string): Promise<TleInfo | null> {
+  const cached = useStore.getState().tles[noradId];
+  if (cached) return cached.tle;
+  // goes through the shared loader so the cache gets the real name, not a placeholder
+  await refreshTle(noradId);
+  return useStore.getState().tles[noradId]?.tle ?? null;
+}
+
 function SectionLabel({ children }: { children: string }) {
   return (
     <div style={{ display: 'flex', alignItems: 'center', gap: 8, margin: '16px 0 10px' }}>
@@ -39,7 +75,7 @@ function SectionLabel({ children }: { children: string }) {
 
 export function Passes() {
   // ── Pull cache from store alongside existing store values ─────────────────
-  const { observerLocation, setObserverLocation, passesCache, setPassesCache } = useStore();
+  const { observerLocation, setObserverLocation, passesCache, setPassesCache, customObjects } = useStore();
 
   // Observer form state — seed from cache if available, fallback to original logic
   const [lat, setLat] = useState(passesCache?.lat?.toString() ?? observerLocation?.lat?.toString() ?? '');
@@ -58,6 +94,11 @@ export function Passes() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [computed, setComputed] = useState(passesCache !== null);
+  const [source, setSource] = useState<NonNullable<PassesCache['source']>>(passesCache?.source ?? 'server');
+  // Server passes are re-timed against the mask in the browser; this is set
+  // when that was impossible (no TLE) and the results ignore the mask
+  const [maskSkipped, setMaskSkipped] = useState(false);
+  const [alarmMinutes, setAlarmMinutes] = useState<number | null>(10);
 
   // Locate me — unchanged
   const locateMe = () => {
@@ -75,26 +116,77 @@ export function Passes() {
     const latN = parseFloat(lat), lonN = parseFloat(lon), altN = parseFloat(alt) || 0;
     if (isNaN(latN) || isNaN(lonN)) { setError('Enter valid coordinates'); return; }
 
+    const id = noradInput.trim();
+    const custom = isCustomId(id) ? customObjects.find(o => o.noradId === id) : undefined;
+    if (isCustomId(id) && !custom) { setError(`No custom object ${id}`); return; }
+
+    // The stored mask belongs to the stored site; typed-in coordinates elsewhere get a flat horizon
+    const horizonMask = observerLocation && isSameSite(observerLocation, { lat: latN, lon: lonN })
+      ? observerLocation.horizonMask
+      : undefined;
+    const obs = { lat: latN, lon: lonN, altKm: altN };
+
+    const predictLocally = (tle: TleInfo) => {
+      const satrec = getSatrec(tle);
+      if (!satrec) throw new Error('unpropagatable TLE');
+      return predictPasses(satrec, obs, {
+        start: simNow(), days, minElevation: minEl, visibleOnly, horizonMask,
+      });
+    };
+
     setLoading(true);
     setError(null);
+    setMaskSkipped(false);
     try {
-      const result = await trackingApi.predictPasses({
-        noradId: noradInput.trim(),
-        observerLat: latN,
-        observerLon: lonN,
-        observerAltMeters: altN * 1000,  // km → m
-        days,
-        minElevation: minEl,
-        visibleOnly,
-      });
+      let result: PassSummary[];
+      let resultSource: NonNullable<PassesCache['source']> = 'local';
+      if (custom) {
+        // User-supplied objects are unknown to the backend — predict in the browser
+        result = predictLocally(custom.tle);
+      } else if (!isLive(useStore.getState().simClock)) {
+        // The backend only predicts from the real now; rehearsals run locally
+        const tle = await loadTle(id);
+        if (!tle) throw new Error('no TLE');
+        result = predictLocally(tle);
+        resultSource = 'simulated';
+      } else {
+        try {
+          result = await trackingApi.predictPasses({
+            noradId: id,
+            observerLat: latN,
+            observerLon: lonN,
+            observerAltMeters: altN * 1000,  // km → m
+            days,
+            minElevation: minEl,
+            visibleOnly,
+          });
+          resultSource = 'server';
+          if (horizonMask) {
+            // The backend assumes a flat horizon
+            const satrec = await loadTle(id).then(tle => tle && getSatrec(tle));
+            if (satrec) {
+              result = result.flatMap(p => clipPassToMask(satrec, obs, p, { minElevation: minEl, visibleOnly, horizonMask }));
+            } else {
+              setMaskSkipped(true);
+            }
+          }
+        } catch (e) {
+          // Backend down or erroring — fall back to SGP4 in the browser
+          if (!isBackendFailure(e)) throw e;
+          const tle = await loadTle(id);
+          if (!tle) throw e;
+          result = predictLocally(tle);
+        }
+      }
       setPasses(result);
+      setSource(resultSource);
       setComputed(true);
       setObserverLocation({ lat: latN, lon: lonN, alt: altN, label: `${latN.toFixed(3)}°, ${lonN.toFixed(3)}°` });
 
       // ── Save results to store so they survive navigation ──────────────────
       setPassesCache({
         passes: result,
-        noradId: noradInput.trim(),
+        noradId: id,
         lat: latN,
         lon: lonN,
         alt: altN,
@@ -102,16 +194,45 @@ export function Passes() {
         minEl,
         visibleOnly,
         computedAt: new Date().toISOString(),
+        source: resultSource,
       });
     } catch {
       setError('Pass prediction failed — check NORAD ID and coordinates');
     } finally {
       setLoading(false);
     }
-  }, [lat, lon, alt, days, minEl, visibleOnly, noradInput, setObserverLocation, setPassesCache]);
+  }, [lat, lon, alt, days, minEl, visibleOnly, noradInput, customObjects, observerLocation, setObserverLocation, setPassesCache]);
 
   const visibleCount = passes.filter(p => p.visible).length;
 
+  const exportIcs = () => {
+    if (!passesCache) return;
+    const id = passesCache.noradId;
+    const name = customObjects.find(o => o.noradId === id)?.name
+      ?? useStore.getState().tles[id]?.name
+      ?? POPULAR_SATS.find(s => s.noradId === id)?.name
+      ?? `NORAD ${id}`;
+    const ics = passesToICalendar(passes, {
+      satelliteName: name,
+      noradId: id,
+      observer: { lat: passesCache.lat, lon: passesCache.lon, label: observerLocation?.label },
+      alarmMinutes,
+    });
+    downloadText(`passes-${id}-${new Date().toISOString().slice(0, 10)}.ics`, ics, 'text/calendar');
+  };
+
+  // ── Sky plots: look angles for the computed satellite and site ────────────
+  const plotId = passesCache?.noradId;
+  const plotTles = useTles(plotId ? [plotId] : []);
+  const plotTle = plotId ? plotTles[plotId]?.tle : undefined;
+  const sky = useMemo<SkyContext | null>(() => {
+    const satrec = plotTle ? getSatrec(plotTle) : null;
+    if (!satrec || !passesCache) return null;
+    const obs = { lat: passesCache.lat, lon: passesCache.lon, altKm: passesCache.alt };
+    const horizonMask = observerLocation && isSameSite(observerLocation, obs) ? observerLocation.horizonMask : undefined;
+    return { satrec, obs, horizonMask };
+  }, [plotTle, passesCache, observerLocation]);
+
   // Cache age for the hint label
   const cacheAge = passesCache
     ? Math.floor((Date.now() - new Date(passesCache.computedAt).getTime()) / 60_000)
@@ -155,6 +276,23 @@ export function Passes() {
             ))}
           </div>
 
+          {/* User-supplied objects — predicted locally */}
+          {customObjects.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 10 }}>
+              {customObjects.map(o => (
+                <button key={o.noradId} onClick={() => setNoradInput(o.noradId)} title="User-supplied TLE" style={{
+                  padding: '3px 8px',
+                  background: noradInput === o.noradId ? 'rgba(255,208,96,.15)' : 'rgba(255,208,96,.04)',
+                  border: `1px solid ${noradInput === o.noradId ? C.yellow : 'rgba(255,208,96,.2)'}`,
+                  color: noradInput === o.noradId ? C.yellow : C.muted,
+                  fontFamily: "'Share Tech Mono',monospace", fontSize: 8, letterSpacing: 0.5, cursor: 'pointer',
+                }}>
+                  ◆ {o.name}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Manual NORAD input */}
           <div style={{ marginBottom: 2 }}>
             <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, letterSpacing: 1, marginBottom: 4 }}>NORAD ID</div>
@@ -218,6 +356,16 @@ export function Passes() {
             />
           </div>
 
+          <SectionLabel>HORIZON MASK</SectionLabel>
+
+          {observerLocation ? (
+            <HorizonMaskEditor />
+          ) : (
+            <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, letterSpacing: 1, marginBottom: 4 }}>
+              Set a location (or compute once) to define obstructions for it
+            </div>
+          )}
+
           <SectionLabel>FILTERS</SectionLabel>
 
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginBottom: 10 }}>
@@ -284,9 +432,13 @@ export function Passes() {
               fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, letterSpacing: 1,
               display: 'flex', justifyContent: 'space-between', alignItems: 'center',
             }}>
-              <span>{cacheAge < 1 ? 'computed just now' : `computed ${cacheAge}m ago`}</span>
+              <span>
+                {cacheAge < 1 ? 'computed just now' : `computed ${cacheAge}m ago`}
+                {passesCache?.source === 'local' && <span style={{ color: C.yellow }}> · locally</span>}
+                {passesCache?.source === 'simulated' && <span style={{ color: C.orange }}> · sim clock</span>}
+              </span>
               <button
-                onClick={() => { useStore.getState().clearPassesCache(); setPasses([]); setComputed(false); }}
+                onClick={() => { useStore.getState().clearPassesCache(); setPasses([]); setComputed(false); setSource('server'); }}
                 style={{ background: 'none', border: 'none', color: 'rgba(255,68,102,.6)', fontFamily: "'Share Tech Mono',monospace", fontSize: 9, cursor: 'pointer', letterSpacing: 1, padding: 0 }}
               >
                 CLEAR
@@ -306,6 +458,44 @@ export function Passes() {
             </div>
           ) : (
             <>
+              {/* Local-prediction notice */}
+              {source === 'local' && (
+                <div style={{
+                  display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, padding: '6px 12px',
+                  background: 'rgba(255,208,96,.05)', border: '1px solid rgba(255,208,96,.25)',
+                  fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 1, color: C.yellow,
+                }}>
+                  <Navigation style={{ width: 11, height: 11 }} />
+                  COMPUTED LOCALLY —{' '}
+                  {isCustomId(passesCache?.noradId)
+                    ? 'SGP4 in the browser from a user-supplied element set'
+                    : 'prediction service unavailable, SGP4 in the browser from the cached TLE'}
+                </div>
+              )}
+
+              {/* Simulation-clock notice */}
+              {source === 'simulated' && (
+                <div style={{
+                  display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, padding: '6px 12px',
+                  background: 'rgba(255,126,53,.05)', border: '1px solid rgba(255,126,53,.25)',
+                  fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 1, color: C.orange,
+                }}>
+                  <Clock style={{ width: 11, height: 11 }} />
+                  SIMULATION CLOCK — predicted in the browser from the simulated time; the prediction service only works from the real now
+                </div>
+              )}
+
+              {maskSkipped && (
+                <div style={{
+                  display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, padding: '6px 12px',
+                  background: 'rgba(255,126,53,.05)', border: '1px solid rgba(255,126,53,.25)',
+                  fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 1, color: C.orange,
+                }}>
+                  <Mountain style={{ width: 11, height: 11 }} />
+                  HORIZON MASK NOT APPLIED — no TLE available to re-time the server's passes
+                </div>
+              )}
+
               {/* Stats bar */}
               <div style={{ display: 'flex', gap: 12, marginBottom: 16, flexWrap: 'wrap' }}>
                 {[
@@ -320,6 +510,31 @@ export function Passes() {
                 ))}
               </div>
 
+              {/* Calendar export */}
+              {passes.length > 0 && (
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 8, marginBottom: 10 }}>
+                  <span style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, letterSpacing: 1 }}>REMINDER</span>
+                  <select
+                    value={alarmMinutes ?? 'none'}
+                    onChange={e => setAlarmMinutes(e.target.value === 'none' ? null : Number(e.target.value))}
+                    style={{
+                      background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`,
+                      padding: '4px 6px', color: '#e2f0ff', fontFamily: "'Share Tech Mono',monospace", fontSize: 10, outline: 'none',
+                    }}
+                  >
+                    <option value="none">none</option>
+                    {ALARM_MINUTES.map(m => <option key={m} value={m}>{m ? `${m} min before AOS` : 'at AOS'}</option>)}
+                  </select>
+                  <button onClick={exportIcs} style={{
+                    display: 'inline-flex', alignItems: 'center', gap: 6, padding: '5px 12px', cursor: 'pointer',
+                    background: 'rgba(0,200,255,.08)', border: `1px solid ${C.cyan}`, color: C.cyan,
+                    fontFamily: "'Share Tech Mono',monospace", fontSize: 10, letterSpacing: 1,
+                  }}>
+                    <CalendarPlus style={{ width: 12, height: 12 }} /> EXPORT .ICS
+                  </button>
+                </div>
+              )}
+
               {/* Pass list */}
               {passes.length === 0 ? (
                 <div style={{ textAlign: 'center', color: C.muted, fontFamily: "'Share Tech Mono',monospace", fontSize: 12, padding: 40 }}>
@@ -328,7 +543,7 @@ export function Passes() {
               ) : (
                 <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
                   {passes.map((p, i) => (
-                    <PassCard key={i} pass={p} />
+                    <PassCard key={i} pass={p} sky={sky} />
                   ))}
                 </div>
               )}
@@ -340,10 +555,23 @@ export function Passes() {
   );
 }
 
-function PassCard({ pass }: { pass: PassSummary }) {
+interface SkyContext {
+  satrec: SatRec;
+  obs: ObserverGeodetic;
+  horizonMask?: HorizonMaskPoint[];
+}
+
+function PassCard({ pass, sky }: { pass: PassSummary; sky: SkyContext | null }) {
   const [expanded, setExpanded] = useState(false);
   const aosDate = new Date(pass.aos);
-  const isFuture = aosDate > new Date();
+  const now = simNow();
+  const isFuture = aosDate > now;
+
+  // Only sampled once the card is opened
+  const samples = useMemo(
+    () => (expanded && sky ? passSkyTrack(sky.satrec, sky.obs, new Date(pass.aos), new Date(pass.los), 10, sky.horizonMask) : []),
+    [expanded, sky, pass.aos, pass.los],
+  );
 
   return (
     <div style={{
@@ -366,7 +594,7 @@ function PassCard({ pass }: { pass: PassSummary }) {
             {format(aosDate, 'HH:mm:ss')} UTC
           </div>
           <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, marginTop: 1 }}>
-            {isFuture ? formatDistanceToNow(aosDate, { addSuffix: true }) : 'passed'}
+            {isFuture ? formatDistance(aosDate, now, { addSuffix: true }) : 'passed'}
           </div>
         </div>
 
@@ -406,24 +634,40 @@ function PassCard({ pass }: { pass: PassSummary }) {
 
       {/* Expanded details */}
       {expanded && (
-        <div style={{ padding: '0 14px 12px', borderTop: '1px solid rgba(0,200,255,.06)', display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8 }}>
-          {[
-            ['AOS', format(new Date(pass.aos), 'HH:mm:ss'), `${pass.aosAzimuth.toFixed(0)}° ${pass.aosDirection}`, C.cyan],
-            ['TCA', format(new Date(pass.tca), 'HH:mm:ss'), `${pass.tcaAzimuth.toFixed(0)}°`, C.yellow],
-            ['LOS', format(new Date(pass.los), 'HH:mm:ss'), `${pass.losAzimuth.toFixed(0)}° ${pass.losDirection}`, C.orange],
-          ].map(([label, time, az, color]) => (
-            <div key={label as string} style={{ marginTop: 8 }}>
-              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 8, color: C.muted, letterSpacing: 1, marginBottom: 2 }}>{label}</div>
-              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 12, color: color as string }}>{time}</div>
-              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: C.muted }}>{az}</div>
+        <div style={{ padding: '0 14px 12px', borderTop: '1px solid rgba(0,200,255,.06)', display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+          {samples.length > 1 ? (
+            <div style={{ width: 200, flexShrink: 0, marginTop: 8 }}>
+              <PassSkyPlot samples={samples} horizonMask={sky?.horizonMask} />
             </div>
-          ))}
-          {pass.magnitude != null && (
-            <div style={{ marginTop: 8 }}>
-              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 8, color: C.muted, letterSpacing: 1, marginBottom: 2 }}>MAGNITUDE</div>
-              <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 12, color: C.yellow }}>{pass.magnitude.toFixed(1)}</div>
+          ) : !sky && (
+            <div style={{ width: 200, flexShrink: 0, marginTop: 8, fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.muted, letterSpacing: 1 }}>
+              SKY PLOT NEEDS THE TLE — NOT CACHED YET
             </div>
           )}
+          <div style={{ flex: 1, display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8, alignContent: 'start' }}>
+            {[
+              ['AOS', format(new Date(pass.aos), 'HH:mm:ss'), `${pass.aosAzimuth.toFixed(0)}° ${pass.aosDirection}`, C.cyan],
+              ['TCA', format(new Date(pass.tca), 'HH:mm:ss'), `${pass.tcaAzimuth.toFixed(0)}°`, C.yellow],
+              ['LOS', format(new Date(pass.los), 'HH:mm:ss'), `${pass.losAzimuth.toFixed(0)}° ${pass.losDirection}`, C.orange],
+            ].map(([label, time, az, color]) => (
+              <div key={label as string} style={{ marginTop: 8 }}>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 8, color: C.muted, letterSpacing: 1, marginBottom: 2 }}>{label}</div>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 12, color: color as string }}>{time}</div>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: C.muted }}>{az}</div>
+              </div>
+            ))}
+            {pass.masked && (
+              <div style={{ gridColumn: '1 / -1', marginTop: 2, fontFamily: "'Share Tech Mono',monospace", fontSize: 9, color: C.orange, letterSpacing: 1, display: 'flex', alignItems: 'center', gap: 5 }}>
+                <Mountain style={{ width: 10, height: 10 }} /> AOS / LOS WHERE THE PASS CLEARS THE HORIZON MASK
+              </div>
+            )}
+            {pass.magnitude != null && (
+              <div style={{ marginTop: 8 }}>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 8, color: C.muted, letterSpacing: 1, marginBottom: 2 }}>MAGNITUDE</div>
+                <div style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 12, color: C.yellow }}>{pass.magnitude.toFixed(1)}</div>
+              </div>
+            )}
+          </div>
         </div>
       )}
     </div>
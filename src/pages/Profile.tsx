@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { MapPin, Save, Navigation, Loader } from 'lucide-react';
 import { authApi } from '../services/api';
 import { useStore } from '../stores/useStore';
+import { loadGeocoderUrl } from '../hooks';
+import { reverseGeocode } from '../lib/geocoder';
 
 export function Profile() {
   const { user, setAuth, token, observerLocation, setObserverLocation } = useStore();
@@ -58,14 +60,10 @@ export function Profile() {
         setLat(latitude.toFixed(6));
         setLon(longitude.toFixed(6));
 
-        // Reverse geocode with Nominatim (free, no API key)
+        // Reverse geocode with the configured geocoder (Nominatim by default)
         try {
-          const res = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?lat=${latitude}&lon=${longitude}&format=json&zoom=10&addressdetails=1`,
-            { headers: { 'Accept-Language': 'en' } }
-          );
-          const data = await res.json();
-          const a = data?.address;
+          const url = await loadGeocoderUrl();
+          const a = url ? await reverseGeocode(url, latitude, longitude, 10) : null;
           if (a) {
             const parts = [
               a.suburb || a.neighbourhood || a.city_district,
@@ -76,21 +74,13 @@ export function Profile() {
             const label = parts.slice(0, 3).join(', ');
             setDetectLabel(label);
 
-            // Auto-detect timezone from coordinates using browser API
-            try {
-              const tzRes = await fetch(
-                `https://nominatim.openstreetmap.org/reverse?lat=${latitude}&lon=${longitude}&format=json&zoom=3`,
-                { headers: { 'Accept-Language': 'en' } }
-              );
-              const tzData = await tzRes.json();
-              // Use browser's Intl timezone as best fallback
-              const browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone;
-              const tzOptions = [
-                'UTC','America/New_York','America/Los_Angeles','Europe/London',
-                'Europe/Berlin','Asia/Tokyo','Asia/Kolkata','Australia/Sydney',
-              ];
-              if (tzOptions.includes(browserTz)) setTimezone(browserTz);
-            } catch { /* keep current timezone */ }
+            // Auto-detect timezone from the browser's Intl settings
+            const browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+            const tzOptions = [
+              'UTC','America/New_York','America/Los_Angeles','Europe/London',
+              'Europe/Berlin','Asia/Tokyo','Asia/Kolkata','Australia/Sydney',
+            ];
+            if (tzOptions.includes(browserTz)) setTimezone(browserTz);
           }
         } catch {
           // coords still filled, just no label
@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Radar as RadarIcon, MapPin } from 'lucide-react';
+import { useStore } from '../stores/useStore';
+import { useCategories, useCategoryMembers, useRadar } from '../hooks';
+import { maskElevationAt } from '../lib/horizonMask';
+import { RADAR_AHEAD_MINUTES, RADAR_TRAIL_MINUTES, type RadarBlip } from '../lib/radar';
+import type { LookSample } from '../lib/passes';
+
+// ─── Color palette (matches existing app theme) ───────────────────────────────
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  yellow:  '#ffd060',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+  surface: 'rgba(5,12,35,.9)',
+};
+
+type Source = 'tracked' | 'favorites' | 'categories';
+
+const SOURCE_COLORS: Record<Source, string> = {
+  tracked:    C.cyan,
+  favorites:  C.yellow,
+  categories: C.green,
+};
+
+/** Upper bound on objects propagated per tick; keeps the satrec cache warm. */
+const RADAR_MAX_OBJECTS = 150;
+const CATEGORY_LIMIT = 100;
+
+const SIZE = 560;
+const CENTER = SIZE / 2;
+const RADIUS = SIZE / 2 - 24;
+const RAD = Math.PI / 180;
+const mono = "'Share Tech Mono',monospace";
+
+function toXY(azDeg: number, elDeg: number): [number, number] {
+  const r = RADIUS * (1 - Math.max(0, Math.min(90, elDeg)) / 90);
+  return [CENTER + r * Math.sin(azDeg * RAD), CENTER - r * Math.cos(azDeg * RAD)];
+}
+
+const points = (run: LookSample[]) =>
+  run.map((s) => toXY(s.azimuthDeg, s.elevationDeg).map((v) => v.toFixed(1)).join(',')).join(' ');
+
+function SectionLabel({ children }: { children: string }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, margin: '16px 0 10px' }}>
+      <div style={{ flex: 1, height: 1, background: `linear-gradient(90deg,${C.cyan}44,transparent)` }} />
+      <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 8, letterSpacing: 4, color: `${C.cyan}99` }}>{children}</span>
+      <div style={{ width: 4, height: 4, background: C.cyan, boxShadow: `0 0 6px ${C.cyan}` }} />
+    </div>
+  );
+}
+
+export function Radar() {
+  const navigate = useNavigate();
+  const { observerLocation, trackedIds, favorites, radarSources, setRadarSources } = useStore();
+  const { categories, error: categoriesError } = useCategories();
+  const { members, loading: membersLoading, error: membersError } = useCategoryMembers(radarSources.categories, CATEGORY_LIMIT);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  // ── Which satellites to propagate, and which source each came from ────────
+  const { ids, sourceOf, truncated } = useMemo(() => {
+    const sourceOf = new Map<string, Source>();
+    if (radarSources.tracked) trackedIds.forEach((id) => sourceOf.set(id, 'tracked'));
+    if (radarSources.favorites) favorites.forEach((f) => { if (!sourceOf.has(f.noradId)) sourceOf.set(f.noradId, 'favorites'); });
+    members.forEach((m) => { if (!sourceOf.has(m.noradId)) sourceOf.set(m.noradId, 'categories'); });
+    const all = Array.from(sourceOf.keys());
+    return { ids: all.slice(0, RADAR_MAX_OBJECTS), sourceOf, truncated: all.length > RADAR_MAX_OBJECTS };
+  }, [radarSources.tracked, radarSources.favorites, trackedIds, favorites, members]);
+
+  const { blips, pending } = useRadar(ids);
+
+  const toggleCategory = (cat: string) => setRadarSources({
+    categories: radarSources.categories.includes(cat)
+      ? radarSources.categories.filter((c) => c !== cat)
+      : [...radarSources.categories, cat],
+  });
+
+  const mask = observerLocation?.horizonMask;
+  const maskPath = useMemo(() => {
+    if (!mask?.length) return null;
+    const outer = Array.from({ length: 361 }, (_, az) => toXY(az, 0));
+    const inner = Array.from({ length: 361 }, (_, i) => toXY(360 - i, maskElevationAt(mask, (360 - i) % 360)));
+    return `M${[...outer, ...inner].map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join('L')}Z`;
+  }, [mask]);
+
+  const colorOf = (b: RadarBlip) => SOURCE_COLORS[sourceOf.get(b.noradId) ?? 'tracked'];
+  const open = (noradId: string) => navigate(`/satellites/${noradId}`);
+
+  return (
+    <div style={{ maxWidth: 1100, margin: '0 auto', padding: '24px 16px' }}>
+
+      {/* Header */}
+      <div style={{ marginBottom: 24 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 6 }}>
+          <RadarIcon style={{ width: 22, height: 22, color: C.cyan, filter: `drop-shadow(0 0 6px ${C.cyan})` }} />
+          <h1 style={{ fontFamily: "'Orbitron',monospace", fontSize: 20, fontWeight: 900, letterSpacing: 4, color: '#fff', textShadow: '0 0 20px rgba(0,200,255,.4)', margin: 0 }}>
+            SKY <span style={{ color: C.cyan }}>RADAR</span>
+          </h1>
+        </div>
+        <p style={{ fontFamily: mono, fontSize: 11, color: C.muted, letterSpacing: 1, margin: 0 }}>
+          Everything above your horizon right now — last {RADAR_TRAIL_MINUTES} min of trail, next {RADAR_AHEAD_MINUTES} min of path
+        </p>
+      </div>
+
+      {!observerLocation ? (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: 300, gap: 12 }}>
+          <MapPin style={{ width: 40, height: 40, color: C.cyan, opacity: 0.4 }} />
+          <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 4, color: C.cyan, opacity: 0.6 }}>
+            NO OBSERVER LOCATION
+          </span>
+          <span style={{ fontFamily: mono, fontSize: 11, color: C.muted }}>
+            Set one on the <Link to="/" style={{ color: C.cyan }}>dashboard</Link> or the <Link to="/passes" style={{ color: C.cyan }}>passes</Link> page
+          </span>
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 300px', gap: 16, alignItems: 'start' }}>
+
+          {/* ── LEFT: Radar scope ── */}
+          <div style={{ background: C.surface, border: `1px solid ${C.border}`, padding: 12 }}>
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} style={{ width: '100%', display: 'block' }}>
+              <defs>
+                <radialGradient id="radar-bg">
+                  <stop offset="0%" stopColor="rgba(0,212,255,.08)" />
+                  <stop offset="100%" stopColor="rgba(0,212,255,.01)" />
+                </radialGradient>
+                <linearGradient id="radar-sweep" x1="0" y1="0" x2="1" y2="0">
+                  <stop offset="0%" stopColor="rgba(0,212,255,0)" />
+                  <stop offset="100%" stopColor="rgba(0,212,255,.18)" />
+                </linearGradient>
+              </defs>
+
+              <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="url(#radar-bg)" stroke={`${C.cyan}66`} />
+              {[30, 60].map((el) => (
+                <circle key={el} cx={CENTER} cy={CENTER} r={RADIUS * (1 - el / 90)} fill="none" stroke={C.border} strokeDasharray="2 4" />
+              ))}
+              {[0, 30, 60, 90, 120, 150].map((az) => {
+                const [x1, y1] = toXY(az, 0), [x2, y2] = toXY(az + 180, 0);
+                return <line key={az} x1={x1} y1={y1} x2={x2} y2={y2} stroke={C.border} strokeDasharray={az % 90 ? '1 5' : undefined} />;
+              })}
+              {([['N', 0], ['E', 90], ['S', 180], ['W', 270]] as const).map(([label, az]) => (
+                <text key={label} x={CENTER + (RADIUS + 13) * Math.sin(az * RAD)} y={CENTER - (RADIUS + 13) * Math.cos(az * RAD)}
+                  fill={C.cyan} fontFamily={mono} fontSize={12} textAnchor="middle" dominantBaseline="middle">
+                  {label}
+                </text>
+              ))}
+              {[30, 60].map((el) => (
+                <text key={el} x={CENTER + 3} y={CENTER - RADIUS * (1 - el / 90) - 3} fill={C.muted} fontFamily={mono} fontSize={9}>{el}°</text>
+              ))}
+
+              {maskPath && <path d={maskPath} fill="rgba(255,126,53,.12)" stroke="rgba(255,126,53,.45)" strokeWidth={0.8} />}
+
+              {/* Sweep — purely decorative */}
+              <path d={`M${CENTER},${CENTER} L${CENTER + RADIUS},${CENTER} A${RADIUS},${RADIUS} 0 0,0 ${toXY(60, 0).join(',')} Z`}
+                fill="url(#radar-sweep)" pointerEvents="none">
+                <animateTransform attributeName="transform" type="rotate" from={`0 ${CENTER} ${CENTER}`} to={`360 ${CENTER} ${CENTER}`} dur="6s" repeatCount="indefinite" />
+              </path>
+
+              {blips.map((b) => {
+                const color = colorOf(b);
+                const hot = hovered === b.noradId;
+                const [x, y] = toXY(b.look.azimuthDeg, b.look.elevationDeg);
+                return (
+                  <g key={b.noradId} style={{ cursor: 'pointer' }}
+                    onClick={() => open(b.noradId)}
+                    onMouseEnter={() => setHovered(b.noradId)}
+                    onMouseLeave={() => setHovered(null)}>
+                    {b.trail.map((run, i) => (
+                      <polyline key={`t${i}`} points={points(run)} fill="none" stroke={color}
+                        strokeOpacity={hot ? 0.8 : 0.45} strokeWidth={hot ? 2 : 1.2} strokeLinecap="round" />
+                    ))}
+                    {b.ahead.map((run, i) => (
+                      <polyline key={`a${i}`} points={points(run)} fill="none" stroke={color}
+                        strokeOpacity={hot ? 0.7 : 0.3} strokeWidth={hot ? 1.5 : 1} strokeDasharray="3 4" />
+                    ))}
+                    {/* wide invisible hit target */}
+                    <circle cx={x} cy={y} r={10} fill="transparent" />
+                    <circle cx={x} cy={y} r={hot ? 6 : 4.5}
+                      fill={b.obstructed ? 'none' : color} stroke={color} strokeWidth={b.obstructed ? 1.5 : 0}
+                      style={{ filter: b.obstructed ? undefined : `drop-shadow(0 0 4px ${color})` }} />
+                    <text x={x + 8} y={y - 6} fill={hot ? '#fff' : color} fontFamily={mono} fontSize={hot ? 11 : 9}>
+                      {b.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+
+            <div style={{ display: 'flex', gap: 16, justifyContent: 'center', flexWrap: 'wrap', marginTop: 6, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1 }}>
+              {(Object.keys(SOURCE_COLORS) as Source[]).map((s) => (
+                <span key={s} style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                  <span style={{ width: 7, height: 7, borderRadius: '50%', background: SOURCE_COLORS[s] }} /> {s.toUpperCase()}
+                </span>
+              ))}
+              <span style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                <span style={{ width: 7, height: 7, borderRadius: '50%', border: `1.5px solid ${C.muted}` }} /> BEHIND MASK
+              </span>
+              <span>── TRAIL · ┄┄ AHEAD</span>
+            </div>
+          </div>
+
+          {/* ── RIGHT: Sources + list ── */}
+          <div style={{ background: C.surface, border: `1px solid ${C.border}`, borderLeft: `2px solid ${C.cyan}`, padding: 16 }}>
+            <SectionLabel>SOURCES</SectionLabel>
+
+            {([
+              ['tracked', `TRACKED (${trackedIds.length})`],
+              ['favorites', `FAVORITES (${favorites.length})`],
+            ] as const).map(([key, label]) => (
+              <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer', marginBottom: 6 }}>
+                <input type="checkbox" checked={radarSources[key]}
+                  onChange={(e) => setRadarSources({ [key]: e.target.checked })}
+                  style={{ accentColor: SOURCE_COLORS[key] }} />
+                <span style={{ fontFamily: mono, fontSize: 10, color: C.muted, letterSpacing: 1 }}>{label}</span>
+              </label>
+            ))}
+
+            <div style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, margin: '10px 0 4px' }}>
+              CATEGORIES {membersLoading && <span style={{ color: C.cyan }}>· loading…</span>}
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+              {categories.map((cat) => {
+                const on = radarSources.categories.includes(cat);
+                return (
+                  <button key={cat} onClick={() => toggleCategory(cat)} style={{
+                    padding: '3px 8px',
+                    background: on ? 'rgba(57,255,20,.12)' : 'rgba(0,200,255,.04)',
+                    border: `1px solid ${on ? C.green : C.border}`,
+                    color: on ? C.green : C.muted,
+                    fontFamily: mono, fontSize: 8, letterSpacing: 0.5, cursor: 'pointer',
+                  }}>
+                    {cat}
+                  </button>
+                );
+              })}
+            </div>
+            {(categoriesError || membersError) && (
+              <div style={{ marginTop: 6, fontFamily: mono, fontSize: 9, color: C.orange }}>{membersError ?? categoriesError}</div>
+            )}
+
+            <div style={{ marginTop: 10, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1 }}>
+              {ids.length} OBJECTS{pending > 0 && ` · ${pending} AWAITING TLE`}
+              {truncated && <span style={{ color: C.orange }}> · LIMITED TO {RADAR_MAX_OBJECTS}</span>}
+            </div>
+
+            <SectionLabel>{`ABOVE HORIZON (${blips.length})`}</SectionLabel>
+
+            {blips.length === 0 ? (
+              <div style={{ fontFamily: mono, fontSize: 10, color: C.muted, textAlign: 'center', padding: 12 }}>
+                Nothing overhead right now
+              </div>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 3, maxHeight: 360, overflowY: 'auto' }}>
+                {blips.map((b) => (
+                  <button key={b.noradId}
+                    onClick={() => open(b.noradId)}
+                    onMouseEnter={() => setHovered(b.noradId)}
+                    onMouseLeave={() => setHovered(null)}
+                    style={{
+                      display: 'grid', gridTemplateColumns: '8px 1fr auto', alignItems: 'center', gap: 8,
+                      padding: '5px 8px', textAlign: 'left', cursor: 'pointer',
+                      background: hovered === b.noradId ? 'rgba(0,200,255,.08)' : 'rgba(0,200,255,.02)',
+                      border: `1px solid ${C.border}`, color: '#e2f0ff', fontFamily: mono,
+                    }}>
+                    <span style={{ width: 7, height: 7, borderRadius: '50%', background: b.obstructed ? 'none' : colorOf(b), border: `1.5px solid ${colorOf(b)}` }} />
+                    <span style={{ fontSize: 10, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{b.name}</span>
+                    <span style={{ fontSize: 9, color: C.muted }}>
+                      {b.look.azimuthDeg.toFixed(0)}° / <span style={{ color: C.cyan }}>{b.look.elevationDeg.toFixed(0)}°</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,13 +4,18 @@ import { ArrowLeft, AlertTriangle, Maximize2, Minimize2 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import { WorldMap } from '../components/WorldMap';
 import { SatelliteInfoPanel } from '../components/SatelliteInfoPanel';
-import { useLivePosition, useOrbitalTrack, useSatelliteConjunctions } from '../hooks';
+import { TransmitterList } from '../components/TransmitterList';
+import { useLivePosition, useOrbitalTrack, useSatelliteConjunctions, useTrackAnchor, useUtcClock } from '../hooks';
 import { satelliteApi } from '../services/api';
 import type { SatelliteSummary, TleInfo } from '../types';
 import { format, addMinutes, subMinutes, formatISO } from 'date-fns';
-import { useStore } from '../stores/useStore';
+import { simNow, useStore } from '../stores/useStore';
+import { parseTle } from '../lib/tle';
+import { ommToElements, ommToKvn, tleToOmm } from '../lib/omm';
+import { customObjectToSummary, isCustomId } from '../lib/customObjects';
+import { positionFromTle } from '../lib/propagator';
 
-type Tab = 'track' | 'predict' | 'tle';
+type Tab = 'track' | 'predict' | 'tle' | 'tx';
 
 /* ── orbit range options ─────────────────────────────────────── */
 type OrbitRange = { label: string; minutes: number; interval: number };
@@ -194,20 +199,28 @@ export function SatelliteDetail() {
 
   const { position, loading, refresh } = useLivePosition(noradId || null);
 
-  const now        = new Date();
-  const trackStart = formatISO(subMinutes(now, activeRange.minutes));
-  const trackEnd   = formatISO(addMinutes(now, activeRange.minutes));
+  const now        = useUtcClock();
+  const anchor     = useTrackAnchor();
+  const trackStart = formatISO(subMinutes(anchor, activeRange.minutes));
+  const trackEnd   = formatISO(addMinutes(anchor, activeRange.minutes));
   const { track }  = useOrbitalTrack(
     noradId || null, trackStart, trackEnd, activeRange.interval,
   );
 
+  // Screening only covers catalog objects; user-supplied TLEs never have conjunctions
   const { conjunctions } = useSatelliteConjunctions(
-    activeTab === 'tle' ? null : noradId || null
+    activeTab === 'tle' || isCustomId(noradId) ? null : noradId || null
   );
 
   useEffect(() => {
     if (!noradId) return;
     setSelectedSatellite(noradId);
+    if (isCustomId(noradId)) {
+      const obj = useStore.getState().customObjects.find(o => o.noradId === noradId);
+      setSatellite(obj ? customObjectToSummary(obj) : null);
+      setTleInfo(obj?.tle ?? null);
+      return;
+    }
     satelliteApi.get(noradId).then(setSatellite).catch(() => {});
     satelliteApi.tle(noradId).then(setTleInfo).catch(() => {});
   }, [noradId, setSelectedSatellite]);
@@ -240,6 +253,7 @@ export function SatelliteDetail() {
     { key: 'track',   label: 'Track'    },
     { key: 'predict', label: 'Predict'  },
     { key: 'tle',     label: 'TLE Data' },
+    { key: 'tx',      label: 'Transmitters' },
   ];
 
   /* ══ FULLSCREEN — ShowOrbitControl lives here only ══════════ */
@@ -325,6 +339,7 @@ export function SatelliteDetail() {
             positions={positions}
             trackPoints={trackPtsFullscreen}
             selectedNoradId={noradId}
+            time={now}
           />
         </div>
       </div>
@@ -420,22 +435,9 @@ export function SatelliteDetail() {
                 </div>
               )}
 
-              {activeTab === 'tle' && tleInfo && (
-                <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-                  <div style={{
-                    fontFamily: "'Share Tech Mono',monospace", fontSize: 11,
-                    background: 'rgba(0,0,0,.4)', border: `1px solid ${C.border}`,
-                    padding: 12, lineHeight: 1.9, wordBreak: 'break-all' as const,
-                  }}>
-                    <p style={{ color: C.muted, marginBottom: 4 }}># Epoch: {tleInfo.epoch}</p>
-                    <p style={{ color: C.green }}>{tleInfo.line1}</p>
-                    <p style={{ color: C.cyan  }}>{tleInfo.line2}</p>
-                  </div>
-                  <p style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: 'rgba(0,200,255,.3)' }}>
-                    Source: {tleInfo.source}
-                  </p>
-                </div>
-              )}
+              {activeTab === 'tle' && tleInfo && <TleDetails tle={tleInfo} />}
+
+              {activeTab === 'tx' && <TransmitterList noradId={noradId} />}
             </div>
           </div>
         </div>
@@ -452,6 +454,7 @@ export function SatelliteDetail() {
               positions={positions}
               trackPoints={trackPtsNormal}
               selectedNoradId={noradId}
+              time={now}
             />
 
             {/* only the fullscreen button, nothing else */}
@@ -537,8 +540,13 @@ function PredictButton({ noradId, minutes }: { noradId: string; minutes: number
   const predict = async () => {
     setLoading(true);
     try {
-      const res = await satelliteApi.predict(noradId, minutes, observerLocation?.lat, observerLocation?.lon);
-      const pos = res.position;
+      const custom = isCustomId(noradId)
+        ? useStore.getState().customObjects.find(o => o.noradId === noradId)
+        : undefined;
+      const pos = custom
+        ? positionFromTle(custom.tle, custom.name, addMinutes(simNow(), minutes), observerLocation)
+        : (await satelliteApi.predict(noradId, minutes, observerLocation?.lat, observerLocation?.lon)).position;
+      if (!pos) throw new Error('propagation failed');
       setResult(`In ${minutes}min: ${pos.latitudeDeg.toFixed(2)}°, ${pos.longitudeDeg.toFixed(2)}° at ${pos.altitudeKm.toFixed(0)} km`);
     } catch { setResult('Prediction failed'); }
     finally { setLoading(false); }
@@ -562,4 +570,117 @@ function PredictButton({ noradId, minutes }: { noradId: string; minutes: number
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/* ── TLE DETAILS ──────────────────────────────────────────────────────────── */
+function TleDetails({ tle }: { tle: TleInfo }) {
+  const [view, setView] = useState<'tle' | 'omm'>(tle.line1 ? 'tle' : 'omm');
+  const hasLines = !!tle.line1 && !!tle.line2;
+  const parsed = hasLines ? parseTle(tle.line1, tle.line2) : null;
+  const issues = parsed?.issues ?? [];
+  // OMM keeps full precision, so it wins over the lines when both exist
+  const elements = tle.omm ? ommToElements(tle.omm) : parsed?.elements ?? null;
+  const omm = tle.omm ?? (elements ? tleToOmm(elements, '') : null);
+  const hasError = issues.some(i => i.severity === 'error');
+
+  const rows: [string, string][] = elements ? [
+    ['Epoch',            `${elements.epoch.toISOString().slice(0, 19).replace('T', ' ')} UTC`],
+    ['Inclination',      `${elements.inclinationDeg.toFixed(4)}°`],
+    ['RAAN',             `${elements.raanDeg.toFixed(4)}°`],
+    ['Eccentricity',     elements.eccentricity.toFixed(7)],
+    ['Arg of perigee',   `${elements.argPerigeeDeg.toFixed(4)}°`],
+    ['Mean anomaly',     `${elements.meanAnomalyDeg.toFixed(4)}°`],
+    ['Mean motion',      `${elements.meanMotionRevPerDay.toFixed(8)} rev/day`],
+    ['B* drag',          elements.bstar.toExponential(4)],
+    ['Revolution #',     String(elements.revolutionNumber)],
+    ['Semi-major axis',  `${elements.semiMajorAxisKm.toFixed(1)} km`],
+    ['Apogee',           `${elements.apogeeKm.toFixed(1)} km`],
+    ['Perigee',          `${elements.perigeeKm.toFixed(1)} km`],
+    ['Period',           `${elements.periodMinutes.toFixed(2)} min`],
+  ] : [];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ display: 'flex', gap: 4 }}>
+        {(['tle', 'omm'] as const).map(f => (
+          <button key={f} onClick={() => setView(f)} style={{
+            padding: '3px 10px', cursor: 'pointer',
+            background: view === f ? 'rgba(0,200,255,.12)' : 'transparent',
+            border: `1px solid ${view === f ? C.cyan : C.border}`,
+            color: view === f ? C.cyan : C.muted,
+            fontFamily: "'Share Tech Mono',monospace", fontSize: 9, letterSpacing: 2,
+          }}>
+            {f === 'tle' ? 'TLE' : 'OMM (KVN)'}
+          </button>
+        ))}
+      </div>
+
+      <div style={{
+        fontFamily: "'Share Tech Mono',monospace", fontSize: 11,
+        background: 'rgba(0,0,0,.4)', border: `1px solid ${hasError && view === 'tle' ? C.red : C.border}`,
+        padding: 12, lineHeight: 1.9, wordBreak: 'break-all' as const,
+      }}>
+        <p style={{ color: C.muted, marginBottom: 4 }}># Epoch: {tle.epoch}</p>
+        {view === 'tle' ? (
+          hasLines ? (
+            <>
+              <p style={{ color: C.green }}>{tle.line1}</p>
+              <p style={{ color: C.cyan  }}>{tle.line2}</p>
+            </>
+          ) : (
+            <p style={{ color: C.yellow }}>
+              Catalog number {tle.omm?.NORAD_CAT_ID} is beyond the Alpha-5 range — no TLE form exists.
+            </p>
+          )
+        ) : omm ? (
+          <pre style={{ color: C.cyan, margin: 0, whiteSpace: 'pre-wrap' }}>{ommToKvn(omm)}</pre>
+        ) : (
+          <p style={{ color: C.red }}>No decodable elements to express as OMM.</p>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {issues.map((issue, i) => {
+            const color = issue.severity === 'error' ? C.red : C.yellow;
+            return (
+              <div key={i} style={{
+                display: 'flex', alignItems: 'flex-start', gap: 6, padding: '6px 10px',
+                background: `${color}10`, border: `1px solid ${color}44`,
+                fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color, lineHeight: 1.5,
+              }}>
+                <AlertTriangle style={{ width: 11, height: 11, flexShrink: 0, marginTop: 2 }} />
+                <span>
+                  LINE {issue.line}{issue.column ? ` COL ${issue.column}` : ''} — {issue.message}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {elements ? (
+        <div style={{ border: `1px solid ${C.border}` }}>
+          {rows.map(([label, value]) => (
+            <div key={label} style={{
+              display: 'flex', justifyContent: 'space-between', padding: '5px 10px',
+              borderBottom: '1px solid rgba(0,200,255,.06)',
+              fontFamily: "'Share Tech Mono',monospace", fontSize: 10,
+            }}>
+              <span style={{ color: C.muted, letterSpacing: 1, textTransform: 'uppercase' as const }}>{label}</span>
+              <span style={{ color: '#e2f0ff' }}>{value}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: C.red }}>
+          TLE is malformed — orbital elements could not be decoded.
+        </p>
+      )}
+
+      <p style={{ fontFamily: "'Share Tech Mono',monospace", fontSize: 10, color: 'rgba(0,200,255,.3)' }}>
+        Source: {tle.source}{tle.omm ? ' · OMM' : ''}
+      </p>
+    </div>
+  );
+}
@@ -1,15 +1,18 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Search, Star, StarOff, ChevronRight, LayoutGrid } from 'lucide-react';
+import { Search, Star, StarOff, ChevronRight, LayoutGrid, FileUp, Trash2 } from 'lucide-react';
 import { useSatelliteList } from '../hooks';
 import { useStore } from '../stores/useStore';
+import { CustomTleImport } from '../components/CustomTleImport';
+import { CUSTOM_CATEGORY, customObjectToSummary } from '../lib/customObjects';
 import type { SatelliteSummary } from '../types';
 import { formatDistanceToNow } from 'date-fns';
 
 export function SatelliteList() {
   const [query, setQuery] = useState('');
   const [page, setPage] = useState(0);
-  const { categoryFilter, setCategoryFilter, addFavorite, removeFavorite, isFavorite } = useStore();
+  const { categoryFilter, setCategoryFilter, addFavorite, removeFavorite, isFavorite, customObjects, removeCustomObject } = useStore();
+  const [showImport, setShowImport] = useState(false);
 
   const { data, loading, error } = useSatelliteList(query, categoryFilter, page);
 
@@ -20,6 +23,7 @@ export function SatelliteList() {
     'Weather':         'bg-cyan-500/20 text-cyan-400',
     'Science':         'bg-green-500/20 text-green-400',
     'Amateur':         'bg-orange-500/20 text-orange-400',
+    [CUSTOM_CATEGORY]: 'bg-yellow-500/20 text-yellow-300',
   };
 
   const categories = [
@@ -29,13 +33,44 @@ export function SatelliteList() {
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-6">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold mb-1">Satellite Database</h1>
-        <p className="text-gray-400 text-sm">
-          Browse and track {data?.totalElements?.toLocaleString() || '...'} satellites
-        </p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold mb-1">Satellite Database</h1>
+          <p className="text-gray-400 text-sm">
+            Browse and track {data?.totalElements?.toLocaleString() || '...'} satellites
+          </p>
+        </div>
+        <button onClick={() => setShowImport(v => !v)} className="btn-ghost flex items-center gap-1.5 text-sm">
+          <FileUp className="w-4 h-4" /> Import TLE
+        </button>
       </div>
 
+      {showImport && <CustomTleImport onClose={() => setShowImport(false)} />}
+
+      {/* User-supplied objects — not in the backend catalog */}
+      {customObjects.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-sm font-semibold text-gray-300 mb-2">
+            Custom objects <span className="text-gray-500 font-normal">· user-supplied TLEs, propagated locally</span>
+          </h2>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {customObjects.map(obj => {
+              const sat = customObjectToSummary(obj);
+              return (
+                <SatelliteCard
+                  key={obj.noradId}
+                  satellite={sat}
+                  isFav={isFavorite(obj.noradId)}
+                  onToggleFav={() => isFavorite(obj.noradId) ? removeFavorite(obj.noradId) : addFavorite(sat)}
+                  onRemove={() => removeCustomObject(obj.noradId)}
+                  categoryColor={CATEGORY_COLORS[CUSTOM_CATEGORY]}
+                />
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Search & filters */}
       <div className="flex flex-wrap gap-3 mb-6">
         <div className="relative flex-1 min-w-60">
@@ -127,11 +162,13 @@ export function SatelliteList() {
 }
 
 function SatelliteCard({
-  satellite, isFav, onToggleFav, categoryColor,
+  satellite, isFav, onToggleFav, onRemove, categoryColor,
 }: {
   satellite: SatelliteSummary;
   isFav: boolean;
   onToggleFav: () => void;
+  /** Only custom objects can be removed */
+  onRemove?: () => void;
   categoryColor: string;
 }) {
   return (
@@ -139,8 +176,19 @@ function SatelliteCard({
       <div className="flex items-start justify-between mb-2">
         <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-sm truncate">{satellite.name}</h3>
-          <p className="text-xs font-mono text-gray-500">NORAD {satellite.noradId}</p>
+          <p className="text-xs font-mono text-gray-500">
+            {onRemove ? satellite.noradId : `NORAD ${satellite.noradId}`}
+          </p>
         </div>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            title="Remove custom object"
+            className="p-1 ml-2 text-gray-600 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
         <button
           onClick={onToggleFav}
           className="p-1 ml-2 text-gray-600 hover:text-yellow-400 transition-colors"
@@ -153,7 +201,9 @@ function SatelliteCard({
       </div>
 
       <div className="flex items-center gap-2 mb-3">
-        <span className={`badge ${categoryColor}`}>{satellite.category}</span>
+        <span className={`badge ${categoryColor}`}>
+          {satellite.category === CUSTOM_CATEGORY ? 'User-supplied' : satellite.category}
+        </span>
         {!satellite.active && (
           <span className="badge bg-red-500/20 text-red-400">Inactive</span>
         )}
@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GanttChart, AlertTriangle, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import { simNow, useStore } from '../stores/useStore';
+import { useCategories, useCategoryMembers, useMultiPasses } from '../hooks';
+import { ELEVATION_BANDS, elevationColor, findOverlaps, passInOverlap } from '../lib/timeline';
+import { DEFAULT_PRIORITY, MAX_PRIORITY, scheduleCandidates, scheduleContacts } from '../lib/scheduler';
+import { ContactScheduleView } from '../components/ContactScheduleView';
+
+// ─── Color palette (matches existing app theme) ───────────────────────────────
+const C = {
+  cyan:    '#00d4ff',
+  green:   '#39ff14',
+  orange:  '#ff7e35',
+  yellow:  '#ffd060',
+  red:     '#ff3344',
+  muted:   'rgba(140,180,210,.55)',
+  border:  'rgba(0,200,255,.12)',
+  surface: 'rgba(5,12,35,.9)',
+};
+
+/** Satellites predicted per run; a week for each takes a noticeable moment. */
+const TIMELINE_MAX_SATELLITES = 60;
+const PX_PER_HOUR = [10, 20, 40, 80];
+const SETUP_GAPS_SEC = [0, 30, 60, 120, 300, 600];
+const NAME_COL = 150;
+const ROW_H = 24;
+const HOUR_MS = 3_600_000;
+
+const mono = "'Share Tech Mono',monospace";
+
+type SourceKey = 'tracked' | 'favorites' | `category:${string}`;
+
+const selectStyle: React.CSSProperties = {
+  background: 'rgba(0,200,255,.05)', border: `1px solid ${C.border}`,
+  padding: '6px 8px', color: '#e2f0ff', fontFamily: mono, fontSize: 11, outline: 'none',
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div style={{ fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, marginBottom: 3 }}>{label}</div>
+      {children}
+    </div>
+  );
+}
+
+export function Timeline() {
+  const {
+    observerLocation, trackedIds, favorites, tles,
+    schedulePriorities, setSchedulePriority, scheduleGapSec, setScheduleGapSec,
+  } = useStore();
+  const { categories } = useCategories();
+
+  const [source, setSource] = useState<SourceKey>('tracked');
+  const [days, setDays] = useState(1);
+  const [minEl, setMinEl] = useState(10);
+  const [pxPerHour, setPxPerHour] = useState(20);
+  const [scheduling, setScheduling] = useState(false);
+
+  const category = source.startsWith('category:') ? source.slice('category:'.length) : null;
+  const { members, loading: membersLoading } = useCategoryMembers(category ? [category] : []);
+
+  const sourceIds = useMemo(() => {
+    if (source === 'tracked') return trackedIds;
+    if (source === 'favorites') return favorites.map((f) => f.noradId);
+    return members.map((m) => m.noradId);
+  }, [source, trackedIds, favorites, members]);
+  const ids = useMemo(() => sourceIds.slice(0, TIMELINE_MAX_SATELLITES), [sourceIds]);
+
+  const options = useMemo(() => ({ days, minElevation: minEl }), [days, minEl]);
+  const { rows, missing, progress, loading, computedAt, error, compute } = useMultiPasses(ids, options);
+
+  const overlaps = useMemo(() => findOverlaps(rows), [rows]);
+  const passCount = rows.reduce((n, r) => n + r.passes.length, 0);
+  const conflictMinutes = overlaps.reduce((s, o) => s + (o.end - o.start), 0) / 60_000;
+
+  const schedule = useMemo(
+    () => (scheduling ? scheduleContacts(scheduleCandidates(rows, schedulePriorities), scheduleGapSec) : null),
+    [scheduling, rows, schedulePriorities, scheduleGapSec],
+  );
+  const scheduled = useMemo(
+    () => new Set(schedule?.accepted.map((c) => `${c.noradId}|${c.pass.aos}`) ?? []),
+    [schedule],
+  );
+
+  // "Now" marker on the simulation clock, like the chart itself; a minute's
+  // resolution is plenty at these scales, but a jump or rate change moves it at once
+  const simClock = useStore((s) => s.simClock);
+  const [now, setNow] = useState(() => simNow().getTime());
+  useEffect(() => {
+    setNow(simNow().getTime());
+    const interval = setInterval(() => setNow(simNow().getTime()), 60_000);
+    return () => clearInterval(interval);
+  }, [simClock]);
+
+  const t0 = computedAt ? Math.floor(computedAt.getTime() / HOUR_MS) * HOUR_MS : 0;
+  const hours = computedAt ? Math.ceil((computedAt.getTime() + days * 24 * HOUR_MS - t0) / HOUR_MS) : 0;
+  const width = hours * pxPerHour;
+  const xOf = (ms: number) => ((ms - t0) / HOUR_MS) * pxPerHour;
+  // label every hour at high zoom, fewer as it shrinks (≥ ~60 px apart)
+  const labelEvery = [1, 2, 3, 6, 12].find((h) => h * pxPerHour >= 60) ?? 24;
+
+  const nameOf = (id: string) => rows.find((r) => r.noradId === id)?.name ?? tles[id]?.name ?? id;
+
+  return (
+    <div style={{ maxWidth: 1400, margin: '0 auto', padding: '24px 16px' }}>
+
+      {/* Header */}
+      <div style={{ marginBottom: 24 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 6 }}>
+          <GanttChart style={{ width: 22, height: 22, color: C.cyan, filter: `drop-shadow(0 0 6px ${C.cyan})` }} />
+          <h1 style={{ fontFamily: "'Orbitron',monospace", fontSize: 20, fontWeight: 900, letterSpacing: 4, color: '#fff', textShadow: '0 0 20px rgba(0,200,255,.4)', margin: 0 }}>
+            PASS <span style={{ color: C.cyan }}>TIMELINE</span>
+          </h1>
+        </div>
+        <p style={{ fontFamily: mono, fontSize: 11, color: C.muted, letterSpacing: 1, margin: 0 }}>
+          Passes of a whole group of satellites over your ground station, with overlaps flagged or resolved into a one-antenna schedule
+        </p>
+      </div>
+
+      {/* Controls */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: 12, padding: 12, marginBottom: 12, background: C.surface, border: `1px solid ${C.border}`, borderLeft: `2px solid ${C.cyan}` }}>
+        <Field label="SATELLITES">
+          <select value={source} onChange={(e) => setSource(e.target.value as SourceKey)} style={{ ...selectStyle, minWidth: 180 }}>
+            <option value="tracked">Tracked ({trackedIds.length})</option>
+            <option value="favorites">Favorites ({favorites.length})</option>
+            {categories.map((c) => <option key={c} value={`category:${c}`}>Category: {c}</option>)}
+          </select>
+        </Field>
+        <Field label="DAYS AHEAD">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} style={selectStyle}>
+            {[1, 2, 3, 5, 7].map((d) => <option key={d} value={d}>{d} day{d > 1 ? 's' : ''}</option>)}
+          </select>
+        </Field>
+        <Field label="MIN ELEVATION">
+          <select value={minEl} onChange={(e) => setMinEl(Number(e.target.value))} style={selectStyle}>
+            {[0, 5, 10, 15, 20, 30].map((d) => <option key={d} value={d}>{d}°</option>)}
+          </select>
+        </Field>
+        <Field label="ZOOM">
+          <select value={pxPerHour} onChange={(e) => setPxPerHour(Number(e.target.value))} style={selectStyle}>
+            {PX_PER_HOUR.map((p) => <option key={p} value={p}>{p} px / h</option>)}
+          </select>
+        </Field>
+
+        <Field label="SETUP GAP">
+          <select value={scheduleGapSec} onChange={(e) => setScheduleGapSec(Number(e.target.value))} disabled={!scheduling}
+            style={{ ...selectStyle, opacity: scheduling ? 1 : 0.4 }}>
+            {SETUP_GAPS_SEC.map((s) => <option key={s} value={s}>{s < 60 ? `${s} s` : `${s / 60} min`}</option>)}
+          </select>
+        </Field>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer', paddingBottom: 6 }}>
+          <input type="checkbox" checked={scheduling} onChange={(e) => setScheduling(e.target.checked)} style={{ accentColor: C.cyan }} />
+          <span style={{ fontFamily: mono, fontSize: 10, color: scheduling ? C.cyan : C.muted, letterSpacing: 1 }}>SCHEDULE 1 ANTENNA</span>
+        </label>
+
+        <button
+          onClick={compute}
+          disabled={!observerLocation || !ids.length || loading || membersLoading}
+          style={{
+            padding: '7px 18px', cursor: 'pointer',
+            background: 'rgba(0,200,255,.12)', border: `1px solid ${C.cyan}`, color: C.cyan,
+            fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 3, fontWeight: 700,
+            opacity: !observerLocation || !ids.length || loading || membersLoading ? 0.4 : 1,
+          }}
+        >
+          {loading ? `◉  ${progress.done} / ${progress.total}` : '▶  COMPUTE'}
+        </button>
+
+        <div style={{ flex: 1, minWidth: 160, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1, textAlign: 'right' }}>
+          {observerLocation
+            ? <>OBSERVER {observerLocation.label ?? `${observerLocation.lat.toFixed(3)}°, ${observerLocation.lon.toFixed(3)}°`}{observerLocation.horizonMask && ' · HORIZON MASK'}</>
+            : <span style={{ color: C.orange }}><MapPin style={{ width: 10, height: 10, verticalAlign: -1 }} /> SET AN OBSERVER LOCATION ON THE <Link to="/passes" style={{ color: C.cyan }}>PASSES</Link> PAGE</span>}
+          {sourceIds.length > TIMELINE_MAX_SATELLITES && (
+            <div style={{ color: C.orange }}>FIRST {TIMELINE_MAX_SATELLITES} OF {sourceIds.length} SATELLITES</div>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ marginBottom: 12, padding: '6px 10px', background: 'rgba(255,51,68,.08)', border: '1px solid rgba(255,51,68,.3)', color: C.red, fontFamily: mono, fontSize: 10 }}>
+          {error}
+        </div>
+      )}
+
+      {!computedAt ? (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: 260, gap: 12, opacity: 0.4 }}>
+          <GanttChart style={{ width: 56, height: 56, color: C.cyan }} />
+          <span style={{ fontFamily: "'Orbitron',monospace", fontSize: 10, letterSpacing: 4, color: C.cyan }}>
+            CHOOSE SATELLITES AND COMPUTE
+          </span>
+        </div>
+      ) : (
+        <>
+          {/* Stats bar */}
+          <div style={{ display: 'flex', gap: 12, marginBottom: 12, flexWrap: 'wrap' }}>
+            {[
+              { label: 'SATELLITES',     value: rows.length,                  color: C.cyan },
+              { label: 'PASSES',         value: passCount,                    color: C.green },
+              { label: 'OVERLAPS',       value: overlaps.length,              color: overlaps.length ? C.red : C.muted },
+              { label: 'OVERLAP MINUTES', value: Math.round(conflictMinutes), color: overlaps.length ? C.red : C.muted },
+            ].map(({ label, value, color }) => (
+              <div key={label} style={{ padding: '8px 16px', background: C.surface, border: `1px solid ${C.border}`, flex: '1 0 auto' }}>
+                <div style={{ fontFamily: mono, fontSize: 8, color: C.muted, letterSpacing: 2, marginBottom: 2 }}>{label}</div>
+                <div style={{ fontFamily: "'Orbitron',monospace", fontSize: 22, fontWeight: 900, color, lineHeight: 1 }}>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {missing.length > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, padding: '6px 12px', background: 'rgba(255,208,96,.05)', border: '1px solid rgba(255,208,96,.25)', fontFamily: mono, fontSize: 10, letterSpacing: 1, color: C.yellow }}>
+              <AlertTriangle style={{ width: 11, height: 11 }} />
+              NO TLE YET FOR {missing.length} SATELLITE{missing.length > 1 ? 'S' : ''} — they are being fetched; compute again shortly
+            </div>
+          )}
+
+          {/* Chart */}
+          <div style={{ background: C.surface, border: `1px solid ${C.border}`, overflowX: 'auto' }}>
+            <div style={{ position: 'relative', width: NAME_COL + width, minWidth: '100%' }}>
+
+              {/* Time axis */}
+              <div style={{ display: 'flex', height: 30, borderBottom: `1px solid ${C.border}` }}>
+                <div style={{ position: 'sticky', left: 0, zIndex: 2, width: NAME_COL, flexShrink: 0, background: '#050c23', borderRight: `1px solid ${C.border}` }} />
+                <div style={{ position: 'relative', width }}>
+                  {Array.from({ length: hours + 1 }, (_, h) => {
+                    const ms = t0 + h * HOUR_MS;
+                    const midnight = new Date(ms).getUTCHours() === 0;
+                    return (
+                      <div key={h} style={{ position: 'absolute', left: h * pxPerHour, top: midnight ? 0 : 18, bottom: 0, borderLeft: `1px solid ${midnight ? `${C.cyan}88` : C.border}` }}>
+                        {(midnight || h % labelEvery === 0) && (
+                          <span style={{ position: 'absolute', left: 3, top: midnight ? 1 : -16, whiteSpace: 'nowrap', fontFamily: mono, fontSize: 9, color: midnight ? C.cyan : C.muted }}>
+                            {midnight ? new Date(ms).toUTCString().slice(5, 11).toUpperCase() : `${String(new Date(ms).getUTCHours()).padStart(2, '0')}Z`}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Overlap row */}
+              <div style={{ display: 'flex', height: 14, borderBottom: `1px solid ${C.border}` }}>
+                <div style={{ position: 'sticky', left: 0, zIndex: 2, width: NAME_COL, flexShrink: 0, padding: '0 8px', background: '#050c23', borderRight: `1px solid ${C.border}`, fontFamily: mono, fontSize: 8, color: C.red, letterSpacing: 1, lineHeight: '14px' }}>
+                  OVERLAPS
+                </div>
+                <div style={{ position: 'relative', width }}>
+                  {overlaps.map((o) => (
+                    <div key={o.start}
+                      title={`${format(new Date(o.start), 'MMM dd HH:mm:ss')} – ${format(new Date(o.end), 'HH:mm:ss')}\n${o.noradIds.map(nameOf).join(', ')}`}
+                      style={{ position: 'absolute', left: xOf(o.start), width: Math.max(2, xOf(o.end) - xOf(o.start)), top: 3, bottom: 3, background: C.red, opacity: 0.8 }} />
+                  ))}
+                </div>
+              </div>
+
+              {/* Schedule row */}
+              {schedule && (
+                <div style={{ display: 'flex', height: 18, borderBottom: `1px solid ${C.border}` }}>
+                  <div style={{ position: 'sticky', left: 0, zIndex: 2, width: NAME_COL, flexShrink: 0, padding: '0 8px', background: '#050c23', borderRight: `1px solid ${C.border}`, fontFamily: mono, fontSize: 8, color: C.cyan, letterSpacing: 1, lineHeight: '18px' }}>
+                    SCHEDULE
+                  </div>
+                  <div style={{ position: 'relative', width }}>
+                    {schedule.accepted.map((c) => (
+                      <div key={`${c.noradId}-${c.aos}`}
+                        title={`${c.name}
+${format(new Date(c.aos), 'MMM dd HH:mm:ss')} – ${format(new Date(c.los), 'HH:mm:ss')} · P${c.priority}`}
+                        style={{ position: 'absolute', left: xOf(c.aos), width: Math.max(2, xOf(c.los) - xOf(c.aos)), top: 3, bottom: 3, background: C.cyan, opacity: 0.85 }} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Satellite rows */}
+              {rows.map((row) => (
+                <div key={row.noradId} style={{ display: 'flex', height: ROW_H, borderBottom: '1px solid rgba(0,200,255,.05)' }}>
+                  <div style={{
+                    position: 'sticky', left: 0, zIndex: 2, width: NAME_COL, flexShrink: 0, padding: '0 4px 0 8px',
+                    background: '#050c23', borderRight: `1px solid ${C.border}`, display: 'flex', alignItems: 'center', gap: 4,
+                  }}>
+                    <Link to={`/satellites/${row.noradId}`} title={row.name} style={{
+                      flex: 1, fontFamily: mono, fontSize: 10, color: '#e2f0ff',
+                      overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                    }}>
+                      {row.name}
+                    </Link>
+                    {scheduling && (
+                      <select
+                        value={schedulePriorities[row.noradId] ?? DEFAULT_PRIORITY}
+                        onChange={(e) => setSchedulePriority(row.noradId, Number(e.target.value))}
+                        title="Scheduling priority (0 = never schedule)"
+                        style={{ ...selectStyle, padding: '1px 2px', fontSize: 9 }}
+                      >
+                        {Array.from({ length: MAX_PRIORITY + 1 }, (_, p) => <option key={p} value={p}>P{p}</option>)}
+                      </select>
+                    )}
+                  </div>
+                  <div style={{ position: 'relative', width }}>
+                    {row.passes.map((p) => {
+                      const aos = new Date(p.aos).getTime();
+                      const los = new Date(p.los).getTime();
+                      const conflict = passInOverlap(row.noradId, p, overlaps);
+                      const picked = scheduled.has(`${row.noradId}|${p.aos}`);
+                      return (
+                        <div key={p.aos}
+                          title={`${row.name}\nAOS ${format(new Date(aos), 'MMM dd HH:mm:ss')}  LOS ${format(new Date(los), 'HH:mm:ss')}\nmax ${p.maxElevation.toFixed(0)}° · ${p.durationLabel}${p.visible ? ' · visible' : ''}${conflict ? '\noverlaps another pass' : ''}${schedule ? (picked ? '\nscheduled' : '\nnot scheduled') : ''}`}
+                          style={{
+                            position: 'absolute', left: xOf(aos), width: Math.max(2, xOf(los) - xOf(aos)), top: 5, bottom: 5,
+                            background: elevationColor(p.maxElevation),
+                            // with a schedule, dim what it leaves out instead of flagging overlaps
+                            opacity: schedule && !picked ? 0.2 : 0.85,
+                            outline: schedule ? (picked ? `1.5px solid ${C.cyan}` : undefined) : conflict ? `1.5px solid ${C.red}` : undefined,
+                            boxShadow: !schedule && conflict ? `0 0 6px ${C.red}` : undefined,
+                          }} />
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {/* Now line */}
+              {now >= t0 && now <= t0 + hours * HOUR_MS && (
+                <div style={{ position: 'absolute', top: 0, bottom: 0, left: NAME_COL + xOf(now), width: 1, background: C.cyan, boxShadow: `0 0 6px ${C.cyan}`, pointerEvents: 'none', zIndex: 1 }} />
+              )}
+            </div>
+          </div>
+
+          {/* Legend */}
+          <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', marginTop: 8, fontFamily: mono, fontSize: 9, color: C.muted, letterSpacing: 1 }}>
+            <span>MAX ELEVATION</span>
+            {ELEVATION_BANDS.map((b) => (
+              <span key={b.label} style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                <span style={{ width: 14, height: 8, background: b.color }} /> {b.label}
+              </span>
+            ))}
+            {schedule ? (
+              <>
+                <span style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                  <span style={{ width: 14, height: 8, outline: `1.5px solid ${C.cyan}` }} /> SCHEDULED
+                </span>
+                <span style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                  <span style={{ width: 14, height: 8, background: C.muted, opacity: 0.3 }} /> NOT SCHEDULED
+                </span>
+              </>
+            ) : (
+              <span style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+                <span style={{ width: 14, height: 8, outline: `1.5px solid ${C.red}` }} /> OVERLAPS ANOTHER PASS
+              </span>
+            )}
+            <span style={{ display: 'inline-flex', alignItems: 'center', gap: 5 }}>
+              <span style={{ width: 1, height: 10, background: C.cyan }} /> NOW
+            </span>
+          </div>
+
+          {schedule && !loading && <ContactScheduleView schedule={schedule} />}
+        </>
+      )}
+    </div>
+  );
+}
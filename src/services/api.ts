@@ -2,8 +2,10 @@ import axios, { AxiosInstance } from 'axios';
 import type {
   SatelliteSummary, SatellitePosition, TrackResponse,
   PredictionResponse, TleInfo, PageResponse, AuthResponse,
-  UserProfile
+  UserProfile, Transmitter
 } from '../types';
+import { ommToTleInfo, parseOmm, toOmm } from '../lib/omm';
+import { toTransmitter } from '../lib/transmitters';
 
 // ─── trackingApi types ────────────────────────────────────────────────────────
 import type {
@@ -86,9 +88,40 @@ export const satelliteApi = {
       params: { start, end, interval }
     }).then(r => r.data),
   tle: (noradId: string): Promise<TleInfo> =>
-    client.get(`/satellites/${noradId}/tle`).then(r => r.data),
+    client.get(`/satellites/${noradId}/tle`).then(r => normalizeTleResponse(r.data, noradId)),
+  /** SatNOGS-shaped or camelCase records; unreadable entries are dropped */
+  transmitters: (noradId: string): Promise<Transmitter[]> =>
+    client.get(`/satellites/${noradId}/transmitters`).then(r =>
+      (Array.isArray(r.data) ? r.data : [])
+        .map((rec: Record<string, unknown>) => toTransmitter({ norad_cat_id: noradId, ...rec }, 'server'))
+        .filter((t: Transmitter | null): t is Transmitter => t !== null)),
 };
 
+/**
+ * The TLE endpoint may answer with the classic { line1, line2 } body (with or
+ * without an `omm` field, as an object or KVN/XML text) or with OMM JSON
+ * alone. Everything is normalised to TleInfo with `omm` filled in if known.
+ */
+function normalizeTleResponse(data: unknown, noradId: string): TleInfo {
+  const body = Array.isArray(data) ? data[0] : data;
+  if (!body || typeof body !== 'object') throw new Error(`Unexpected TLE response for ${noradId}`);
+  const rec = body as Record<string, unknown>;
+
+  if (typeof rec.line1 === 'string') {
+    const info = rec as unknown as TleInfo;
+    const omm = typeof rec.omm === 'string'
+      ? parseOmm(rec.omm).records[0]
+      : rec.omm && typeof rec.omm === 'object'
+        ? toOmm(rec.omm as Record<string, string | number>).omm
+        : null;
+    return { ...info, noradId: info.noradId ?? noradId, omm: omm ?? undefined };
+  }
+
+  const { omm } = toOmm(rec as Record<string, string | number>);
+  if (!omm) throw new Error(`Unrecognised TLE response for ${noradId}`);
+  return ommToTleInfo(omm, 'omm', new Date().toISOString(), noradId);
+}
+
 // ─────────────────────────────────────────────
 // Auth APIs (UNCHANGED)
 // ─────────────────────────────────────────────
@@ -1,7 +1,20 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import type { SatellitePosition, UserProfile, ObserverLocation, SatelliteSummary } from '../types';
-import type { PassSummary } from '../types';
+import { persist, type PersistStorage, type StorageValue } from 'zustand/middleware';
+import type { SatellitePosition, UserProfile, ObserverLocation, SatelliteSummary, TleInfo, CustomObject, HorizonMaskPoint, Transmitter } from '../types';
+import { isSameSite } from '../lib/horizonMask';
+import { jumpedTo, realTimeClock, simTimeAt, steppedBy, withPaused, withRate, type SimClock } from '../lib/simClock';
+import { resolveLayout, type LayerId, type LayerOptionValue, type LayerState, type MapLayout } from '../lib/mapLayers';
+import type { Aoi } from '../lib/aoi';
+import type { PassSummary, DopplerResult, TransponderMode } from '../types';
+
+// ─── TLE cache type ───────────────────────────────────────────────────────────
+// Element sets drive client-side propagation; the backend is only asked again
+// once an entry is older than TLE_REFRESH_MS (see hooks/useTles).
+export interface CachedTle {
+  tle:      TleInfo;
+  name:     string;
+  cachedAt: string; // ISO string
+}
 
 // ─── Passes cache type ────────────────────────────────────────────────────────
 export interface PassesCache {
@@ -14,6 +27,11 @@ export interface PassesCache {
   minEl:       number;
   visibleOnly: boolean;
   computedAt:  string; // ISO string
+  /**
+   * 'local' when predicted in the browser (custom object or backend fallback),
+   * 'simulated' when predicted in the browser from a non-live simulation clock
+   */
+  source?:     'server' | 'local' | 'simulated';
 }
 
 // ─── Doppler cache type ───────────────────────────────────────────────────────
@@ -24,15 +42,29 @@ export interface DopplerCache {
   lon:       string;
   alt:       string;
   freqMhz:   string;
+  // linear transponder; freqMhz is then the downlink
+  uplinkMhz?:       string;
+  transponderMode?: TransponderMode | null;
   passStart: string;
   passEnd:   string;
   locLabel:  string;
   // results
-  result:    Record<string, unknown> | null;
-  curve:     Record<string, unknown>[];
+  result:    DopplerResult | null;
+  curve:     DopplerResult[];
+  // local curve settings; the server curve is kept alongside for comparison
+  stepSec?:        string;
+  curveSource?:    'local' | 'server' | null;
+  referenceCurve?: DopplerResult[];
   computedAt: string; // ISO string
 }
 
+// ─── Radar sources ────────────────────────────────────────────────────────────
+export interface RadarSources {
+  tracked:    boolean;
+  favorites:  boolean;
+  categories: string[];
+}
+
 interface SatelliteStore {
   // Auth
   token: string | null;
@@ -47,6 +79,11 @@ interface SatelliteStore {
   // Live positions (noradId → position)
   positions: Record<string, SatellitePosition>;
   updatePosition: (noradId: string, pos: SatellitePosition) => void;
+  updatePositions: (batch: SatellitePosition[]) => void;
+
+  // TLE cache (noradId → element set) for local propagation
+  tles: Record<string, CachedTle>;
+  setTles: (entries: CachedTle[]) => void;
 
   // Tracked satellites
   trackedIds: string[];
@@ -56,6 +93,7 @@ interface SatelliteStore {
   // Observer location
   observerLocation: ObserverLocation | null;
   setObserverLocation: (loc: ObserverLocation | null) => void;
+  setHorizonMask: (mask: HorizonMaskPoint[]) => void;
 
   // Search
   searchQuery: string;
@@ -71,6 +109,16 @@ interface SatelliteStore {
   removeFavorite: (noradId: string) => void;
   isFavorite: (noradId: string) => boolean;
 
+  // User-supplied element sets for objects the backend doesn't catalogue
+  customObjects: CustomObject[];
+  addCustomObjects: (objs: CustomObject[]) => void;
+  removeCustomObject: (noradId: string) => void;
+
+  // ── Transmitters imported from SatNOGS DB JSON ────────────────────────────
+  importedTransmitters: Transmitter[];
+  importTransmitters: (list: Transmitter[]) => void;
+  removeImportedTransmitters: (noradId: string) => void;
+
   // ── V2: Notification unread count (lightweight — full data lives in useNotifications hook) ──
   unreadNotificationCount: number;
   setUnreadNotificationCount: (count: number) => void;
@@ -86,6 +134,139 @@ interface SatelliteStore {
   dopplerCache: DopplerCache | null;
   setDopplerCache: (cache: DopplerCache) => void;
   clearDopplerCache: () => void;
+
+  // ── Radar: which satellites the sky radar shows ───────────────────────────
+  radarSources: RadarSources;
+  setRadarSources: (sources: Partial<RadarSources>) => void;
+
+  // ── Contact scheduler settings (noradId → priority, 0 = never schedule) ──
+  schedulePriorities: Record<string, number>;
+  setSchedulePriority: (noradId: string, priority: number) => void;
+  scheduleGapSec: number;
+  setScheduleGapSec: (sec: number) => void;
+
+  // ── Simulation clock (see lib/simClock.ts) ────────────────────────────────
+  simClock: SimClock;
+  setSimRate: (rate: number) => void;
+  setSimPaused: (paused: boolean) => void;
+  stepSim: (seconds: number) => void;
+  jumpSim: (date: Date) => void;
+  resetSimClock: () => void;
+
+  // ── Map layer layouts, one per user (see lib/mapLayers.ts) ────────────────
+  mapLayouts: Record<string, MapLayout>;
+  setMapLayer: (id: LayerId, patch: Partial<Omit<LayerState, 'options'>>) => void;
+  setMapLayerOption: (id: LayerId, key: string, value: LayerOptionValue) => void;
+  setMapLayout: (layout: MapLayout) => void;
+
+  // ── Area of interest for the overflight finder (see lib/aoi.ts) ───────────
+  aoi: Aoi | null;
+  setAoi: (aoi: Aoi | null) => void;
+}
+
+/** Whose map layout is in use: the signed-in user, else a shared guest one. */
+export const layoutOwner = (user: UserProfile | null) => user?.username ?? 'guest';
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+// Only what should survive a page refresh. Positions are volatile — they get
+// refreshed on mount anyway. unreadNotificationCount is persisted so the
+// badge survives a reload.
+function persistedFields(state: SatelliteStore) {
+  return {
+    token: state.token,
+    user: state.user,
+    trackedIds: state.trackedIds,
+    observerLocation: state.observerLocation,
+    favorites: state.favorites,
+    selectedNoradId: state.selectedNoradId,
+    unreadNotificationCount: state.unreadNotificationCount,
+    passesCache: state.passesCache,   // ← persisted so it survives navigation & refresh
+    dopplerCache: state.dopplerCache, // ← persisted so it survives navigation & refresh
+    tles: state.tles,                 // ← kept under its own key, bounded (see storeStorage)
+    customObjects: state.customObjects,
+    importedTransmitters: state.importedTransmitters,
+    radarSources: state.radarSources,
+    schedulePriorities: state.schedulePriorities,
+    scheduleGapSec: state.scheduleGapSec,
+    mapLayouts: state.mapLayouts,
+    aoi: state.aoi,
+  };
+}
+
+type PersistedState = ReturnType<typeof persistedFields>;
+
+const TLE_STORAGE_KEY = 'sattrack-tles';
+/** Element sets kept across a reload; anything else is fetched again when needed */
+const TLE_PERSIST_LIMIT = 500;
+/** Element sets this old are no use for propagation and aren't kept */
+const TLE_PERSIST_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function readItem<T>(key: string): T | null {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? (JSON.parse(text) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeItem(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Quota exceeded: keep going on what's in memory; the next change tries
+    // again. Throwing here would fail every set() in the app.
+    console.warn(`[store] could not save ${key}:`, e);
+  }
+}
+
+/** The newest TLE_PERSIST_LIMIT entries, tracked, favourite and selected objects first. */
+function pruneTles(tles: Record<string, CachedTle>, keep: Set<string>): Record<string, CachedTle> {
+  const cutoff = Date.now() - TLE_PERSIST_MAX_AGE_MS;
+  const cachedAt = (e: CachedTle) => new Date(e.cachedAt).getTime();
+  const out: Record<string, CachedTle> = {};
+  Object.values(tles)
+    .filter((e) => cachedAt(e) > cutoff)
+    .sort((a, b) => Number(keep.has(b.tle.noradId)) - Number(keep.has(a.tle.noradId)) || cachedAt(b) - cachedAt(a))
+    .slice(0, TLE_PERSIST_LIMIT)
+    .forEach((e) => { out[e.tle.noradId] = e; });
+  return out;
+}
+
+/**
+ * localStorage behind persist(), which hands over the partialized state on
+ * every set() — 1 Hz position ticks included. Nothing is written unless a
+ * persisted field changed, and the TLE cache, by far the largest of them,
+ * goes under its own key so a new element set doesn't rewrite everything
+ * else and vice versa.
+ */
+function storeStorage(): PersistStorage<PersistedState> {
+  let last: PersistedState | null = null;
+  return {
+    getItem: (name) => {
+      const stored = readItem<StorageValue<PersistedState>>(name);
+      if (!stored) return null;
+      // builds before the split kept the TLE cache in the main entry
+      const tles = readItem<Record<string, CachedTle>>(TLE_STORAGE_KEY) ?? stored.state.tles ?? {};
+      return { ...stored, state: { ...stored.state, tles } };
+    },
+    setItem: (name, { state, version }) => {
+      const prev = last;
+      last = state;
+      const { tles, ...rest } = state;
+      if (!prev || prev.tles !== tles) {
+        const keep = new Set([...state.trackedIds, ...state.favorites.map((f) => f.noradId)]);
+        if (state.selectedNoradId) keep.add(state.selectedNoradId);
+        writeItem(TLE_STORAGE_KEY, pruneTles(tles, keep));
+      }
+      const changed = (Object.keys(rest) as (keyof typeof rest)[]).some((k) => !prev || prev[k] !== rest[k]);
+      if (changed) writeItem(name, { state: rest, version });
+    },
+    removeItem: (name) => {
+      localStorage.removeItem(name);
+      localStorage.removeItem(TLE_STORAGE_KEY);
+    },
+  };
 }
 
 export const useStore = create<SatelliteStore>()(
@@ -118,6 +299,25 @@ export const useStore = create<SatelliteStore>()(
         set((state) => ({
           positions: { ...state.positions, [noradId]: pos },
         })),
+      // One state update per propagation tick instead of one per satellite
+      updatePositions: (batch) =>
+        set((state) => {
+          if (!batch.length) return state;
+          const positions = { ...state.positions };
+          batch.forEach((p) => { positions[p.noradId] = p; });
+          return { positions };
+        }),
+
+      // ── TLE cache ────────────────────────────────────────────────────────
+      // Written in batches: a catalog category fetches thousands of entries
+      tles: {},
+      setTles: (entries) =>
+        set((state) => {
+          if (!entries.length) return state;
+          const tles = { ...state.tles };
+          entries.forEach((e) => { tles[e.tle.noradId] = e; });
+          return { tles };
+        }),
 
       // ── Multi-tracking ───────────────────────────────────────────────────
       trackedIds: ['25544', '20580'],
@@ -134,7 +334,19 @@ export const useStore = create<SatelliteStore>()(
 
       // ── Observer ─────────────────────────────────────────────────────────
       observerLocation: null,
-      setObserverLocation: (loc) => set({ observerLocation: loc }),
+      // Re-setting the same site (e.g. a GPS fix a few metres off) keeps its
+      // horizon mask unless the caller passes one; moving elsewhere drops it.
+      setObserverLocation: (loc) => {
+        const prev = get().observerLocation;
+        if (loc && !loc.horizonMask && prev?.horizonMask && isSameSite(prev, loc)) {
+          loc = { ...loc, horizonMask: prev.horizonMask };
+        }
+        set({ observerLocation: loc });
+      },
+      setHorizonMask: (mask) => {
+        const loc = get().observerLocation;
+        if (loc) set({ observerLocation: { ...loc, horizonMask: mask.length ? mask : undefined } });
+      },
 
       // ── Search ───────────────────────────────────────────────────────────
       searchQuery: '',
@@ -159,6 +371,45 @@ export const useStore = create<SatelliteStore>()(
       isFavorite: (noradId) =>
         get().favorites.some((f) => f.noradId === noradId),
 
+      // ── Custom objects ───────────────────────────────────────────────────
+      // Ids are always "USER-…" (lib/customObjects.ts) so they can never
+      // shadow a catalog entry; re-importing the same id (catalog number and
+      // name) replaces it.
+      customObjects: [],
+      addCustomObjects: (objs) =>
+        set((state) => {
+          const incoming = new Set(objs.map((o) => o.noradId));
+          return {
+            customObjects: [...state.customObjects.filter((o) => !incoming.has(o.noradId)), ...objs],
+          };
+        }),
+      removeCustomObject: (noradId) =>
+        set((state) => {
+          const { [noradId]: _dropped, ...positions } = state.positions;
+          return {
+            positions,
+            customObjects: state.customObjects.filter((o) => o.noradId !== noradId),
+            trackedIds: state.trackedIds.filter((id) => id !== noradId),
+            favorites: state.favorites.filter((f) => f.noradId !== noradId),
+            selectedNoradId: state.selectedNoradId === noradId ? null : state.selectedNoradId,
+          };
+        }),
+
+      // ── Imported transmitters ────────────────────────────────────────────
+      // Keyed by SatNOGS uuid; re-importing a file replaces its entries.
+      importedTransmitters: [],
+      importTransmitters: (list) =>
+        set((state) => {
+          const incoming = new Set(list.map((t) => t.uuid));
+          return {
+            importedTransmitters: [...state.importedTransmitters.filter((t) => !incoming.has(t.uuid)), ...list],
+          };
+        }),
+      removeImportedTransmitters: (noradId) =>
+        set((state) => ({
+          importedTransmitters: state.importedTransmitters.filter((t) => t.noradId !== noradId),
+        })),
+
       // ── V2: Unread notification count ─────────────────────────────────────
       // Kept in store so the Layout bell badge can read it without
       // mounting the full useNotifications hook on every page.
@@ -182,24 +433,62 @@ export const useStore = create<SatelliteStore>()(
       dopplerCache: null,
       setDopplerCache: (cache) => set({ dopplerCache: cache }),
       clearDopplerCache: () => set({ dopplerCache: null }),
+
+      // ── Radar ──────────────────────────────────────────────────────────────
+      radarSources: { tracked: true, favorites: true, categories: [] },
+      setRadarSources: (sources) =>
+        set((state) => ({ radarSources: { ...state.radarSources, ...sources } })),
+
+      // ── Contact scheduler ──────────────────────────────────────────────────
+      schedulePriorities: {},
+      setSchedulePriority: (noradId, priority) =>
+        set((state) => ({ schedulePriorities: { ...state.schedulePriorities, [noradId]: priority } })),
+      scheduleGapSec: 60,
+      setScheduleGapSec: (sec) => set({ scheduleGapSec: sec }),
+
+      // ── Simulation clock ───────────────────────────────────────────────────
+      // Not persisted: a reload always comes back to real time.
+      simClock: realTimeClock(),
+      setSimRate: (rate) => set((state) => ({ simClock: withRate(state.simClock, rate) })),
+      setSimPaused: (paused) => set((state) => ({ simClock: withPaused(state.simClock, paused) })),
+      stepSim: (seconds) => set((state) => ({ simClock: steppedBy(state.simClock, seconds) })),
+      jumpSim: (date) => set((state) => ({ simClock: jumpedTo(state.simClock, date.getTime()) })),
+      resetSimClock: () => set({ simClock: realTimeClock() }),
+
+      // ── Map layers ─────────────────────────────────────────────────────────
+      // Every write stores the owner's complete layout; reads still go
+      // through resolveLayout in case it was saved by an older build.
+      mapLayouts: {},
+      setMapLayer: (id, patch) =>
+        set((state) => {
+          const owner = layoutOwner(state.user);
+          const layout = resolveLayout(state.mapLayouts[owner]);
+          layout[id] = { ...layout[id], ...patch };
+          return { mapLayouts: { ...state.mapLayouts, [owner]: layout } };
+        }),
+      setMapLayerOption: (id, key, value) =>
+        set((state) => {
+          const owner = layoutOwner(state.user);
+          const layout = resolveLayout(state.mapLayouts[owner]);
+          layout[id] = { ...layout[id], options: { ...layout[id].options, [key]: value } };
+          return { mapLayouts: { ...state.mapLayouts, [owner]: layout } };
+        }),
+      setMapLayout: (layout) =>
+        set((state) => ({ mapLayouts: { ...state.mapLayouts, [layoutOwner(state.user)]: layout } })),
+
+      // ── Area of interest ───────────────────────────────────────────────────
+      aoi: null,
+      setAoi: (aoi) => set({ aoi }),
     }),
     {
       name: 'sattrack-store',
-      storage: createJSONStorage(() => localStorage),
-      // Only persist what should survive a page refresh.
-      // Positions are volatile — they get refreshed on mount anyway.
-      // unreadNotificationCount is persisted so the badge survives a reload.
-      partialize: (state) => ({
-        token: state.token,
-        user: state.user,
-        trackedIds: state.trackedIds,
-        observerLocation: state.observerLocation,
-        favorites: state.favorites,
-        selectedNoradId: state.selectedNoradId,
-        unreadNotificationCount: state.unreadNotificationCount,
-        passesCache: state.passesCache,   // ← persisted so it survives navigation & refresh
-        dopplerCache: state.dopplerCache, // ← persisted so it survives navigation & refresh
-      }),
+      storage: storeStorage(),
+      partialize: persistedFields,
     }
   )
-);
\ No newline at end of file
+);
+
+/** Current time on the simulation clock, for code outside React renders. */
+export function simNow(): Date {
+  return new Date(simTimeAt(useStore.getState().simClock));
+}
\ No newline at end of file
@@ -18,6 +18,9 @@ export interface LookAngles {
   visible: boolean;
 }
 
+/** Conical shadow state — see lib/sun.ts */
+export type Illumination = 'SUNLIT' | 'PENUMBRA' | 'UMBRA';
+
 export interface SatellitePosition {
   noradId: string;
   name: string;
@@ -29,6 +32,8 @@ export interface SatellitePosition {
   velocityKmPerS: number;
   orbitalPeriodMinutes: number;
   lookAngles?: LookAngles;
+  /** Filled in for locally propagated positions */
+  illumination?: Illumination;
 }
 
 export interface TrackPoint {
@@ -37,6 +42,7 @@ export interface TrackPoint {
   longitudeDeg: number;
   altitudeKm: number;
   speedKmPerS: number;
+  illumination?: Illumination;
 }
 
 export interface TrackResponse {
@@ -58,11 +64,42 @@ export interface PredictionResponse {
 
 export interface TleInfo {
   noradId: string;
+  /** Empty when the element set only exists as OMM (catalog number beyond Alpha-5) */
   line1: string;
   line2: string;
   epoch: string;
   source: string;
   fetchedAt: string;
+  /** Present when the source supplied CCSDS OMM; preferred over the TLE lines */
+  omm?: Omm;
+}
+
+/**
+ * CCSDS Orbit Mean-elements Message (SGP4 theory), one object.
+ * Keys are the CCSDS keywords verbatim, as used by the JSON/XML/KVN encodings.
+ */
+export interface Omm {
+  OBJECT_NAME: string;
+  OBJECT_ID: string;
+  CENTER_NAME?: string;
+  REF_FRAME?: string;
+  TIME_SYSTEM?: string;
+  MEAN_ELEMENT_THEORY?: string;
+  EPOCH: string;               // ISO 8601 UTC, no zone suffix
+  MEAN_MOTION: number;         // rev/day
+  ECCENTRICITY: number;
+  INCLINATION: number;         // deg
+  RA_OF_ASC_NODE: number;      // deg
+  ARG_OF_PERICENTER: number;   // deg
+  MEAN_ANOMALY: number;        // deg
+  EPHEMERIS_TYPE: number;
+  CLASSIFICATION_TYPE: string;
+  NORAD_CAT_ID: number;
+  ELEMENT_SET_NO: number;
+  REV_AT_EPOCH: number;
+  BSTAR: number;               // 1/earth radii
+  MEAN_MOTION_DOT: number;     // rev/day²
+  MEAN_MOTION_DDOT: number;    // rev/day³
 }
 
 export interface PageResponse<T> {
@@ -73,6 +110,67 @@ export interface PageResponse<T> {
   number: number;
 }
 
+// ─── V2: pass prediction & Doppler DTOs ───────────────────────────────────────
+
+export interface PassRequest {
+  noradId: string;
+  observerLat: number;
+  observerLon: number;
+  observerAltMeters: number;
+  days: number;
+  minElevation: number;
+  visibleOnly: boolean;
+}
+
+export interface PassSummary {
+  aos: string;
+  tca: string;
+  los: string;
+  aosAzimuth: number;
+  aosDirection: string;
+  tcaAzimuth: number;
+  losAzimuth: number;
+  losDirection: string;
+  maxElevation: number;
+  durationLabel: string;
+  visible: boolean;
+  magnitude?: number | null;
+  /** AOS/LOS are where the pass clears the observer's horizon mask */
+  masked?: boolean;
+}
+
+/** How a linear transponder maps its uplink passband onto its downlink */
+export type TransponderMode = 'INVERTING' | 'NON_INVERTING';
+
+export interface DopplerRequest {
+  noradId: string;
+  observerLat: number;
+  observerLon: number;
+  observerAltMeters: number;
+  /** Downlink when an uplink is given */
+  frequencyMhz: number;
+  /** Linear transponder: uplink paired with frequencyMhz at the satellite */
+  uplinkFrequencyMhz?: number;
+  transponderMode?: TransponderMode;
+}
+
+export interface DopplerResult {
+  dopplerShiftHz: number;
+  observedFrequencyMhz: number;
+  radialVelocityKms: number;
+  elevationDeg: number;
+  rangKm: number;
+  nominalFrequencyMhz: number;
+  computedAt: string;
+  // Transponder requests only — see lib/doppler.ts withTransponder
+  uplinkFrequencyMhz?: number;
+  transponderMode?: TransponderMode;
+  /** Ground TX that reaches the satellite on uplinkFrequencyMhz */
+  correctedUplinkMhz?: number;
+  /** Ground RX needed if the TX is left on the nominal uplink */
+  fixedUplinkDownlinkMhz?: number;
+}
+
 // Auth types
 export interface AuthResponse {
   token: string;
@@ -93,11 +191,55 @@ export interface UserProfile {
 }
 
 // UI state types
+/** Minimum clear elevation from `azimuthDeg` up to the next point's azimuth. */
+export interface HorizonMaskPoint {
+  azimuthDeg: number;
+  elevationDeg: number;
+}
+
 export interface ObserverLocation {
   lat: number;
   lon: number;
   alt?: number;
   label?: string;
+  /** Sorted by azimuth; see lib/horizonMask.ts */
+  horizonMask?: HorizonMaskPoint[];
+}
+
+// User-imported element set for an object the backend catalog doesn't know.
+// noradId carries a "USER-" prefix so it can never collide with a real id.
+export interface CustomObject {
+  noradId: string;
+  name: string;
+  tle: TleInfo;
+  addedAt: string;
+}
+
+// Radio transmitter/transponder on a satellite, modelled on SatNOGS DB.
+// Frequencies are in Hz; a *High bound is only set for transponder passbands.
+export type TransmitterStatus = 'active' | 'inactive' | 'invalid';
+
+export interface Transmitter {
+  uuid: string;
+  noradId: string;
+  description: string;
+  /** Transmitter, Transceiver or Transponder */
+  type?: string;
+  uplinkLowHz: number | null;
+  uplinkHighHz: number | null;
+  downlinkLowHz: number | null;
+  downlinkHighHz: number | null;
+  mode: string | null;
+  uplinkMode?: string | null;
+  /** Inverting transponder */
+  invert: boolean;
+  baud: number | null;
+  status: TransmitterStatus;
+  alive: boolean;
+  service?: string;
+  updated?: string;
+  /** 'user' for entries imported from a SatNOGS JSON file */
+  source: 'server' | 'user';
 }
 
 export interface MapSatelliteMarker extends SatellitePosition {